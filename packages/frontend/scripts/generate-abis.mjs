@@ -0,0 +1,159 @@
+/**
+ * Generates typed `as const` ABI modules from Forge compilation artifacts.
+ *
+ * Reads packages/contract/out/<Name>.sol/<Name>.json for every contract and
+ * library in packages/contract/src and writes src/lib/abis/<Name>.ts (plus a
+ * .json copy) and src/lib/abis/index.ts. Run after `forge build`:
+ *
+ *   npm run generate:abis
+ *
+ * With --check nothing is written; the script exits non-zero when the committed
+ * modules drift from the artifacts, so CI can run it after `forge build`.
+ * Pass --artifacts <dir> to read from a different Forge `out` directory.
+ */
+
+import { readdirSync, readFileSync, writeFileSync, existsSync } from "fs";
+import { basename, dirname, join, relative } from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const CONTRACT_DIR = join(__dirname, "../../contract");
+const SOURCE_DIR = join(CONTRACT_DIR, "src");
+const ABI_DIR = join(__dirname, "../src/lib/abis");
+
+// Source folders that only hold interfaces; their ABIs are covered by the implementations
+const SKIPPED_SOURCE_DIRS = ["interfaces"];
+
+// Hand-maintained modules that have no Solidity source in this repo
+const STATIC_MODULES = ["ERC20"];
+
+const args = process.argv.slice(2);
+const checkOnly = args.includes("--check");
+const artifactsFlag = args.indexOf("--artifacts");
+const ARTIFACTS_DIR =
+  artifactsFlag === -1 ? join(CONTRACT_DIR, "out") : args[artifactsFlag + 1];
+
+// Forge sorts ABI entries and serialises keys in a fixed order; mirror that so
+// output is stable no matter which compiler produced the artifact.
+const ENTRY_ORDER = ["constructor", "fallback", "receive", "function", "event", "error"];
+const ENTRY_KEYS = ["type", "name", "inputs", "outputs", "stateMutability", "anonymous"];
+const PARAM_KEYS = ["name", "type", "indexed", "internalType", "components"];
+
+const pick = (object, keys) =>
+  Object.fromEntries(
+    keys.filter((key) => object[key] !== undefined).map((key) => [key, object[key]])
+  );
+
+const normalizeParam = (param) => {
+  const normalized = pick(param, PARAM_KEYS);
+  if (normalized.components) {
+    normalized.components = normalized.components.map(normalizeParam);
+  }
+  return normalized;
+};
+
+const normalizeAbi = (abi) =>
+  abi
+    .map((entry) => {
+      const normalized = pick(entry, ENTRY_KEYS);
+      if (normalized.inputs) normalized.inputs = normalized.inputs.map(normalizeParam);
+      if (normalized.outputs) normalized.outputs = normalized.outputs.map(normalizeParam);
+      return normalized;
+    })
+    .sort((a, b) => {
+      const byType = ENTRY_ORDER.indexOf(a.type) - ENTRY_ORDER.indexOf(b.type);
+      if (byType !== 0) return byType;
+      // Overloads keep the compiler's order (Array#sort is stable)
+      const aName = a.name ?? "";
+      const bName = b.name ?? "";
+      return aName < bName ? -1 : aName > bName ? 1 : 0;
+    });
+
+const listSources = (dir) =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.isDirectory()) {
+      return SKIPPED_SOURCE_DIRS.includes(entry.name)
+        ? []
+        : listSources(join(dir, entry.name));
+    }
+    return entry.name.endsWith(".sol") ? [join(dir, entry.name)] : [];
+  });
+
+const readArtifactAbi = (name) => {
+  const artifact = join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`);
+  if (!existsSync(artifact)) {
+    throw new Error(
+      `Missing artifact ${relative(process.cwd(), artifact)} - run \`forge build\` in packages/contract first`
+    );
+  }
+  return JSON.parse(readFileSync(artifact, "utf8")).abi;
+};
+
+const renderModule = (name, abi) =>
+  `export const ${name}ABI = ${JSON.stringify(abi, null, 2)} as const;\n`;
+
+const renderIndex = (names) => {
+  const lines = [
+    "/**",
+    " * HedVault Contract ABIs",
+    " * Auto-generated from Forge compilation artifacts by scripts/generate-abis.mjs - do not edit",
+    " */",
+    "",
+    ...names.map((name) => `import { ${name}ABI } from './${name}';`),
+    "",
+    "// Export individual ABIs",
+    "export {",
+    ...names.map((name) => `  ${name}ABI,`),
+    "};",
+    "",
+    "// Re-export all ABIs as a single object for convenience",
+    "export const HEDVAULT_ABIS = {",
+    ...names.map((name) => `  ${name}: ${name}ABI,`),
+    "} as const;",
+    "",
+    "export type HedVaultAbiName = keyof typeof HEDVAULT_ABIS;",
+    "",
+  ];
+  return lines.join("\n");
+};
+
+const buildOutputs = () => {
+  const outputs = new Map();
+  const names = [...STATIC_MODULES];
+
+  for (const source of listSources(SOURCE_DIR)) {
+    const name = basename(source, ".sol");
+    const abi = normalizeAbi(readArtifactAbi(name));
+
+    // Libraries that only declare structs have nothing to export
+    if (abi.length === 0) continue;
+
+    names.push(name);
+    outputs.set(join(ABI_DIR, `${name}.ts`), renderModule(name, abi));
+    outputs.set(join(ABI_DIR, `${name}.json`), `${JSON.stringify(abi, null, 2)}\n`);
+  }
+
+  names.sort((a, b) => a.localeCompare(b));
+  outputs.set(join(ABI_DIR, "index.ts"), renderIndex(names));
+  return outputs;
+};
+
+const outputs = buildOutputs();
+
+if (checkOnly) {
+  const drifted = [...outputs].filter(
+    ([file, content]) => !existsSync(file) || readFileSync(file, "utf8") !== content
+  );
+
+  if (drifted.length > 0) {
+    console.error("ABI modules are out of date with the Solidity sources:");
+    for (const [file] of drifted) console.error(`  ${relative(process.cwd(), file)}`);
+    console.error("Run `forge build` and `npm run generate:abis` to refresh them.");
+    process.exit(1);
+  }
+
+  console.log(`ABI modules up to date (${outputs.size} files checked)`);
+} else {
+  for (const [file, content] of outputs) writeFileSync(file, content);
+  console.log(`Wrote ${outputs.size} files to ${relative(process.cwd(), ABI_DIR)}`);
+}
@@ -0,0 +1,65 @@
+/**
+ * Local stand-in for the Hedera mirror node REST API.
+ *
+ * Serves accounts, tokens and contracts from scripts/fixtures/mirror-node.json
+ * (or the file passed as the first argument) so address resolution can be
+ * exercised without network access:
+ *
+ *   npm run mirror:fixtures
+ *   NEXT_PUBLIC_HEDERA_MIRROR_NODE_URL=http://localhost:5551 npm run dev
+ */
+
+import { createServer } from "http";
+import { readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FIXTURE_FILE = process.argv[2] ?? join(__dirname, "fixtures/mirror-node.json");
+const PORT = Number(process.env.PORT ?? 5551);
+
+const fixtures = JSON.parse(readFileSync(FIXTURE_FILE, "utf8"));
+
+// Each collection can be looked up by entity ID or by EVM address
+const COLLECTIONS = {
+  accounts: { items: fixtures.accounts ?? [], idField: "account" },
+  tokens: { items: fixtures.tokens ?? [], idField: "token_id" },
+  contracts: { items: fixtures.contracts ?? [], idField: "contract_id" },
+};
+
+const find = (collection, key) => {
+  const needle = key.toLowerCase();
+  return collection.items.find(
+    (item) =>
+      item[collection.idField] === key ||
+      (item.evm_address && item.evm_address.toLowerCase() === needle)
+  );
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "content-type": "application/json",
+    "access-control-allow-origin": "*",
+  });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  const match = /^\/api\/v1\/(accounts|tokens|contracts)\/([^/]+)$/.exec(pathname);
+
+  if (req.method !== "GET" || !match) {
+    return send(res, 404, { _status: { messages: [{ message: "Not found" }] } });
+  }
+
+  const item = find(COLLECTIONS[match[1]], decodeURIComponent(match[2]));
+  if (!item) {
+    return send(res, 404, { _status: { messages: [{ message: "Not found" }] } });
+  }
+
+  send(res, 200, item);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mirror node fixtures from ${FIXTURE_FILE} on http://localhost:${PORT}`);
+});
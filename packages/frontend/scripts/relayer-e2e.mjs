@@ -0,0 +1,278 @@
+/**
+ * End-to-end check of the bridge relayer against two local anvil chains.
+ *
+ * Starts anvil on 31337 and 31338, deploys a CrossChainBridge and a mock
+ * token on each, bridges tokens and sends a message from the first chain,
+ * then runs `hedvault relay --once` and checks both arrived on the second.
+ * On Node 22.5+ the run uses a SQLite job store and is repeated to check
+ * that nothing is relayed twice.
+ *
+ * The destination bridge needs recordInboundTransfer and recordInboundMessage,
+ * which CrossChainBridge does not have yet (see src/lib/relayer/inbound.ts);
+ * against a build without them the check stops before starting anvil.
+ *
+ *   (cd ../contract && forge build)
+ *   npm run build:cli
+ *   npm run test:relayer
+ */
+
+import { spawn, spawnSync } from "child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  encodeFunctionData,
+  http,
+  parseEther,
+  parseEventLogs,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ARTIFACTS_DIR = join(__dirname, "../../contract/out");
+const CLI = join(__dirname, "../dist/cli/index.js");
+
+// anvil's default dev accounts: 0 deploys and operates, 1-2 validate, 3 bridges
+const KEYS = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+  "0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6",
+];
+const [operator, validatorA, validatorB, user] = KEYS.map((key) => privateKeyToAccount(key));
+
+const CHAINS = [
+  { chainId: 31337, port: Number(process.env.ANVIL_PORT_A ?? 8545) },
+  { chainId: 31338, port: Number(process.env.ANVIL_PORT_B ?? 8546) },
+];
+
+const BRIDGED = parseEther("100");
+const BRIDGE_FEE_BPS = BigInt(50);
+const MESSAGE_MINT = parseEther("1");
+
+const fail = (message) => {
+  throw new Error(message);
+};
+
+const readArtifact = (source, name) => {
+  const path = join(ARTIFACTS_DIR, source, `${name}.json`);
+  if (!existsSync(path)) fail(`Missing ${path} - run \`forge build\` in packages/contract first`);
+  const { abi, bytecode } = JSON.parse(readFileSync(path, "utf8"));
+  return { abi, bytecode: bytecode.object };
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const startAnvil = async ({ chainId, port }) => {
+  const child = spawn("anvil", ["--port", String(port), "--chain-id", String(chainId), "--silent"], {
+    stdio: "ignore",
+  });
+  child.on("error", (error) => console.error(`anvil ${chainId}: ${error.message}`));
+
+  const chain = defineChain({
+    id: chainId,
+    name: `Anvil ${chainId}`,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [`http://127.0.0.1:${port}`] } },
+  });
+  const publicClient = createPublicClient({ chain, transport: http() });
+  for (let attempt = 0; attempt < 50; attempt++) {
+    try {
+      await publicClient.getChainId();
+      return { child, chain, publicClient, rpc: chain.rpcUrls.default.http[0] };
+    } catch {
+      await sleep(200);
+    }
+  }
+  child.kill();
+  fail(`anvil did not start on port ${port}`);
+};
+
+const walletFor = (node, account) =>
+  createWalletClient({ chain: node.chain, transport: http(), account });
+
+const send = async (node, account, request) => {
+  const hash = await walletFor(node, account).writeContract(request);
+  const receipt = await node.publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") fail(`${request.functionName} reverted on ${node.chain.id}`);
+  return receipt;
+};
+
+const deploy = async (node, { abi, bytecode }, args) => {
+  const hash = await walletFor(node, operator).deployContract({ abi, bytecode, args });
+  const { contractAddress } = await node.publicClient.waitForTransactionReceipt({ hash });
+  return contractAddress;
+};
+
+const setUpChain = async (node, otherChainId, artifacts) => {
+  const token = await deploy(node, artifacts.token, ["Bridge Test", "BRT", 18, parseEther("1000000")]);
+  const bridge = await deploy(node, artifacts.bridge, [operator.address]);
+  const call = (functionName, args) => send(node, operator, { address: bridge, abi: artifacts.bridge.abi, functionName, args });
+
+  await call("configureBridge", [
+    BigInt(otherChainId),
+    {
+      isActive: true,
+      minTransferAmount: BigInt(1),
+      maxTransferAmount: parseEther("10000"),
+      dailyLimit: parseEther("100000"),
+      dailyTransferred: BigInt(0),
+      lastResetTime: BigInt(0),
+      confirmationsRequired: BigInt(2),
+    },
+  ]);
+  // Both chains deploy from the same nonces, so the token has the same
+  // address on each and can stand in for its own wrapped version
+  await call("configureAsset", [
+    token,
+    { isSupported: true, bridgeFee: BRIDGE_FEE_BPS, minAmount: BigInt(1), maxAmount: parseEther("10000"), wrappedToken: token },
+  ]);
+  const validatorRole = await node.publicClient.readContract({
+    address: bridge,
+    abi: artifacts.bridge.abi,
+    functionName: "VALIDATOR_ROLE",
+  });
+  for (const validator of [validatorA, validatorB]) await call("grantRole", [validatorRole, validator.address]);
+
+  // Liquidity for completeBridge, and tokens for the user to bridge
+  const transfer = (to, amount) =>
+    send(node, operator, { address: token, abi: artifacts.token.abi, functionName: "transfer", args: [to, amount] });
+  await transfer(bridge, parseEther("1000"));
+  await transfer(user.address, parseEther("1000"));
+
+  return { token, bridge };
+};
+
+const runRelayer = (configPath) => {
+  const result = spawnSync(process.execPath, [CLI, "relay", "--config", configPath, "--once", "--json"], {
+    env: { ...process.env, PRIVATE_KEY: KEYS[0], HEDVAULT_VALIDATOR_KEYS: `${KEYS[1]},${KEYS[2]}` },
+    encoding: "utf8",
+    timeout: 120_000,
+  });
+  if (result.status !== 0) fail(`relay exited with ${result.status}\n${result.stdout}${result.stderr}`);
+  return JSON.parse(result.stdout);
+};
+
+const hasSqlite = () => {
+  const [major, minor] = process.versions.node.split(".").map(Number);
+  return major > 22 || (major === 22 && minor >= 5);
+};
+
+const main = async () => {
+  if (!existsSync(CLI)) fail(`Missing ${CLI} - run \`npm run build:cli\` first`);
+  const artifacts = {
+    bridge: readArtifact("CrossChainBridge.sol", "CrossChainBridge"),
+    token: readArtifact("DeployMockERC20.s.sol", "MockERC20"),
+  };
+  const missing = ["recordInboundTransfer", "recordInboundMessage"].filter(
+    (name) => !artifacts.bridge.abi.some((item) => item.type === "function" && item.name === name)
+  );
+  if (missing.length > 0) {
+    fail(`CrossChainBridge has no ${missing.join(" or ")}; the relayer cannot record anything on the destination chain`);
+  }
+
+  const nodes = [];
+  const workDir = mkdtempSync(join(tmpdir(), "hedvault-relayer-"));
+  try {
+    for (const chain of CHAINS) nodes.push(await startAnvil(chain));
+    const [source, destination] = nodes;
+    const [sourceSetup, destinationSetup] = [
+      await setUpChain(source, destination.chain.id, artifacts),
+      await setUpChain(destination, source.chain.id, artifacts),
+    ];
+
+    // A transfer and a message (minting on the destination token) from the source chain
+    await send(source, user, {
+      address: sourceSetup.token,
+      abi: artifacts.token.abi,
+      functionName: "approve",
+      args: [sourceSetup.bridge, BRIDGED],
+    });
+    const initiated = await send(source, user, {
+      address: sourceSetup.bridge,
+      abi: artifacts.bridge.abi,
+      functionName: "initiateBridge",
+      args: [sourceSetup.token, BRIDGED, BigInt(destination.chain.id), user.address],
+    });
+    const [{ args: transfer }] = parseEventLogs({
+      abi: artifacts.bridge.abi,
+      eventName: "BridgeInitiated",
+      logs: initiated.logs,
+    });
+    await send(source, user, {
+      address: sourceSetup.bridge,
+      abi: artifacts.bridge.abi,
+      functionName: "sendMessage",
+      args: [
+        BigInt(destination.chain.id),
+        encodeFunctionData({ abi: artifacts.token.abi, functionName: "mint", args: [user.address, MESSAGE_MINT] }),
+      ],
+    });
+
+    const configPath = join(workDir, "relayer.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        chains: nodes.map((node, index) => ({
+          chainId: node.chain.id,
+          rpc: node.rpc,
+          bridge: [sourceSetup, destinationSetup][index].bridge,
+          startBlock: 0,
+        })),
+        messageTargets: { [`${source.chain.id}:${user.address}`]: destinationSetup.token },
+        ...(hasSqlite() ? { store: join(workDir, "relayer.db") } : {}),
+      })
+    );
+
+    const balanceOf = () =>
+      destination.publicClient.readContract({
+        address: destinationSetup.token,
+        abi: artifacts.token.abi,
+        functionName: "balanceOf",
+        args: [user.address],
+      });
+    const before = await balanceOf();
+
+    const first = runRelayer(configPath);
+    const failed = first.jobs.filter((job) => job.status !== "completed");
+    if (first.jobs.length !== 2 || failed.length > 0) {
+      fail(`Expected 2 completed jobs, got ${JSON.stringify(first.jobs, null, 2)}`);
+    }
+
+    const record = await destination.publicClient.readContract({
+      address: destinationSetup.bridge,
+      abi: artifacts.bridge.abi,
+      functionName: "getBridgeTransaction",
+      args: [transfer.txHash],
+    });
+    if (!record.isCompleted) fail("Transfer is not completed on the destination bridge");
+
+    const received = (await balanceOf()) - before;
+    const expected = transfer.amount + MESSAGE_MINT;
+    if (received !== expected) fail(`User received ${received}, expected ${expected}`);
+    console.log(`Relayed ${first.jobs.length} jobs; user received ${received} on chain ${destination.chain.id}`);
+
+    if (hasSqlite()) {
+      const second = runRelayer(configPath);
+      if (second.discovered !== 0 || second.processed.length !== 0) {
+        fail(`Second run relayed again: ${JSON.stringify(second, null, 2)}`);
+      }
+      if ((await balanceOf()) - before !== expected) fail("Second run changed the destination balance");
+      console.log("Second run against the same job store relayed nothing");
+    } else {
+      console.log(`Node ${process.versions.node} has no node:sqlite; skipped the persistent store check`);
+    }
+  } finally {
+    for (const { child } of nodes) child.kill();
+    rmSync(workDir, { recursive: true, force: true });
+  }
+};
+
+main().catch((error) => {
+  console.error(error.message ?? error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,116 @@
+/**
+ * Builds the per-chain deployment registry from Foundry broadcast output.
+ *
+ * Reads packages/contract/broadcast/<Script>.s.sol/<chainId>/run-latest.json
+ * and writes src/lib/deployments.ts. Run after every `forge script --broadcast`:
+ *
+ *   npm run sync:deployments
+ */
+
+import { readdirSync, readFileSync, writeFileSync, existsSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const BROADCAST_DIR = join(__dirname, "../../contract/broadcast");
+const OUTPUT_FILE = join(__dirname, "../src/lib/deployments.ts");
+
+// Only protocol modules go into the registry; tokens and mocks deployed by
+// helper scripts are not singletons and are tracked elsewhere.
+const MODULES = [
+  "ComplianceManager",
+  "CrossChainBridge",
+  "HedVaultCore",
+  "LendingPool",
+  "Marketplace",
+  "PortfolioManager",
+  "PriceOracle",
+  "RewardsDistributor",
+  "RWAOffchainOracle",
+  "RWATokenFactory",
+  "SwapEngine",
+];
+
+const readRun = (file) => JSON.parse(readFileSync(file, "utf8"));
+
+const collectDeployments = () => {
+  const registry = {};
+
+  for (const script of readdirSync(BROADCAST_DIR)) {
+    const scriptDir = join(BROADCAST_DIR, script);
+    for (const chainId of readdirSync(scriptDir)) {
+      const runFile = join(scriptDir, chainId, "run-latest.json");
+      if (!/^\d+$/.test(chainId) || !existsSync(runFile)) continue;
+
+      const run = readRun(runFile);
+      const receipts = new Map(
+        (run.receipts ?? []).map((receipt) => [receipt.transactionHash, receipt])
+      );
+
+      for (const tx of run.transactions ?? []) {
+        if (tx.transactionType !== "CREATE") continue;
+        if (!MODULES.includes(tx.contractName)) continue;
+
+        // Skip transactions that never landed (pending or reverted)
+        const receipt = receipts.get(tx.hash);
+        if (!receipt || receipt.status !== "0x1") continue;
+
+        const chain = (registry[chainId] ??= {});
+        const previous = chain[tx.contractName];
+        const blockNumber = Number(BigInt(receipt.blockNumber));
+
+        // Several scripts may deploy the same module; the latest one wins
+        if (previous && previous.blockNumber > blockNumber) continue;
+
+        chain[tx.contractName] = {
+          address: receipt.contractAddress.toLowerCase(),
+          blockNumber,
+          transactionHash: tx.hash,
+        };
+      }
+    }
+  }
+
+  return registry;
+};
+
+const render = (registry) => {
+  const lines = [
+    "/**",
+    " * HedVault Deployment Registry",
+    " * Auto-generated from Foundry broadcast output by scripts/sync-deployments.mjs - do not edit",
+    " */",
+    "",
+    "export interface DeployedContract {",
+    "  address: `0x${string}`;",
+    "  blockNumber: number;",
+    "  transactionHash: `0x${string}`;",
+    "}",
+    "",
+    "export const DEPLOYMENTS: Record<number, Record<string, DeployedContract>> = {",
+  ];
+
+  const chainIds = Object.keys(registry).sort((a, b) => Number(a) - Number(b));
+  for (const chainId of chainIds) {
+    lines.push(`  ${chainId}: {`);
+    for (const name of Object.keys(registry[chainId]).sort()) {
+      const { address, blockNumber, transactionHash } = registry[chainId][name];
+      lines.push(`    ${name}: {`);
+      lines.push(`      address: "${address}",`);
+      lines.push(`      blockNumber: ${blockNumber},`);
+      lines.push(`      transactionHash: "${transactionHash}",`);
+      lines.push("    },");
+    }
+    lines.push("  },");
+  }
+
+  lines.push("};", "");
+  return lines.join("\n");
+};
+
+const registry = collectDeployments();
+writeFileSync(OUTPUT_FILE, render(registry));
+
+for (const [chainId, contracts] of Object.entries(registry)) {
+  console.log(`chain ${chainId}: ${Object.keys(contracts).length} contracts`);
+}
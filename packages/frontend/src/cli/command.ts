@@ -0,0 +1,75 @@
+/**
+ * HedVault CLI - Command definitions and option helpers
+ */
+
+import { type Address, isAddress, parseUnits } from "viem";
+import type { CliContext } from "./context";
+import { CliError } from "./errors";
+
+export type OptionValues = Record<string, string | boolean | undefined>;
+
+export interface OptionSpec {
+  type: "string" | "boolean";
+  description: string;
+  placeholder?: string;
+}
+
+export interface CommandOutput {
+  data: Record<string, unknown>;
+  text: string;
+}
+
+export interface Command {
+  name: string;
+  summary: string;
+  options: Record<string, OptionSpec>;
+  // Needs a signer (or --from under --dry-run)
+  signs: boolean;
+  run: (ctx: CliContext, options: OptionValues) => Promise<CommandOutput>;
+}
+
+export const optionalString = (options: OptionValues, name: string) => {
+  const value = options[name];
+  return typeof value === "string" ? value : undefined;
+};
+
+export const requireString = (options: OptionValues, name: string) => {
+  const value = optionalString(options, name);
+  if (value === undefined || value === "") throw new CliError(`--${name} is required`);
+  return value;
+};
+
+export const optionalAddress = (options: OptionValues, name: string) => {
+  const value = optionalString(options, name);
+  if (value !== undefined && !isAddress(value)) {
+    throw new CliError(`--${name} is not an address: ${value}`);
+  }
+  return value as Address | undefined;
+};
+
+export const requireAddress = (options: OptionValues, name: string) => {
+  const value = requireString(options, name);
+  if (!isAddress(value)) throw new CliError(`--${name} is not an address: ${value}`);
+  return value;
+};
+
+// Whole numbers such as ids and basis points
+export const requireInteger = (options: OptionValues, name: string, fallback?: bigint) => {
+  const value = optionalString(options, name);
+  if (value === undefined) {
+    if (fallback !== undefined) return fallback;
+    throw new CliError(`--${name} is required`);
+  }
+  if (!/^\d+$/.test(value)) throw new CliError(`--${name} must be a whole number: ${value}`);
+  return BigInt(value);
+};
+
+// Human-readable token amounts, e.g. "1500.25", scaled by the token's decimals
+export const requireAmount = (options: OptionValues, name: string, decimals: number) => {
+  const value = requireString(options, name);
+  if (!/^\d+(\.\d+)?$/.test(value)) throw new CliError(`--${name} is not an amount: ${value}`);
+  if ((value.split(".")[1]?.length ?? 0) > decimals) {
+    throw new CliError(`--${name} has more than ${decimals} decimal places: ${value}`);
+  }
+  return parseUnits(value, decimals);
+};
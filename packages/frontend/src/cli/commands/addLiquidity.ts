@@ -0,0 +1,79 @@
+import { type Address, parseEventLogs } from "viem";
+import { SwapEngineABI } from "../../lib/abis";
+import { type Command, requireAmount, requireInteger } from "../command";
+import { CliError } from "../errors";
+import { formatFields } from "../output";
+import { POOL_OPTIONS, resolvePool, sameAddress } from "../pools";
+import { ensureAllowance, formatTokenAmount, getTokenInfo } from "../tokens";
+import { type TransactionOutcome, execute } from "../transaction";
+
+export const addLiquidity: Command = {
+  name: "add-liquidity",
+  summary: "Deposit both tokens into an existing pool",
+  signs: true,
+  options: {
+    ...POOL_OPTIONS,
+    "amount-a": { type: "string", placeholder: "amount", description: "Deposit of the first token" },
+    "amount-b": { type: "string", placeholder: "amount", description: "Deposit of the second token" },
+    "min-liquidity": {
+      type: "string",
+      placeholder: "units",
+      description: "Revert if fewer LP units are minted (default 0)",
+    },
+  },
+  run: async (ctx, options) => {
+    const { swap } = ctx.client;
+    const account = ctx.account as Address;
+    const { poolId, pool, pair } = await resolvePool(ctx, options);
+
+    // --amount-a/--amount-b follow the pair as given; the pool may store it reversed
+    const reversed = sameAddress(pair[0], pool.tokenB);
+    if (!reversed && !sameAddress(pair[0], pool.tokenA)) {
+      throw new CliError(`Pool ${poolId} does not hold ${pair[0]}`);
+    }
+    const [tokenA, tokenB] = await Promise.all([
+      getTokenInfo(ctx, pool.tokenA),
+      getTokenInfo(ctx, pool.tokenB),
+    ]);
+    const [amountA, amountB] = reversed
+      ? [requireAmount(options, "amount-b", tokenA.decimals), requireAmount(options, "amount-a", tokenB.decimals)]
+      : [requireAmount(options, "amount-a", tokenA.decimals), requireAmount(options, "amount-b", tokenB.decimals)];
+    const minLiquidity = requireInteger(options, "min-liquidity", BigInt(0));
+
+    const preparation: TransactionOutcome<unknown>[] = [];
+    for (const [token, amount] of [[tokenA, amountA], [tokenB, amountB]] as const) {
+      const approval = await ensureAllowance(ctx, token, swap.address, amount);
+      if (approval) preparation.push(approval);
+    }
+
+    const summary = {
+      poolId,
+      tokenA: formatTokenAmount(amountA, tokenA),
+      tokenB: formatTokenAmount(amountB, tokenB),
+    };
+
+    if (ctx.dryRun && preparation.length > 0) {
+      ctx.log("[dry run] Add liquidity: skipped, runs after the approvals above");
+      return {
+        data: { preparation, addLiquidity: null, ...summary },
+        text: formatFields({ ...summary, status: "dry run; deposit needs the approvals above first" }),
+      };
+    }
+
+    const outcome = await execute(ctx, `Add liquidity to pool ${poolId}`, {
+      simulate: () =>
+        swap.simulate.addLiquidity([poolId, amountA, amountB, minLiquidity], { account }),
+      send: () => swap.addLiquidity(poolId, amountA, amountB, minLiquidity),
+      confirm: (receipt) => {
+        const [added] = parseEventLogs({ abi: SwapEngineABI, eventName: "LiquidityAdded", logs: receipt.logs });
+        if (!added) throw new CliError(`No LiquidityAdded event in ${receipt.transactionHash}`);
+        return added.args.liquidity;
+      },
+    });
+
+    return {
+      data: { preparation, addLiquidity: outcome, ...summary },
+      text: formatFields({ ...summary, liquidityMinted: outcome.result, transaction: outcome.hash }),
+    };
+  },
+};
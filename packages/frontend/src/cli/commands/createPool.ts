@@ -0,0 +1,107 @@
+import { type Address, parseEventLogs } from "viem";
+import { SwapEngineABI } from "../../lib/abis";
+import { type Command, requireAddress, requireAmount, requireInteger } from "../command";
+import { CliError } from "../errors";
+import { formatFields } from "../output";
+import { sameAddress, sortTokens } from "../pools";
+import { ensureAllowance, formatTokenAmount, getTokenInfo } from "../tokens";
+import { type TransactionOutcome, execute } from "../transaction";
+
+const DEFAULT_FEE_BPS = BigInt(30);
+
+export const createPool: Command = {
+  name: "create-pool",
+  summary: "Create a SwapEngine pool with its initial liquidity",
+  signs: true,
+  options: {
+    "token-a": { type: "string", placeholder: "address", description: "First token" },
+    "token-b": { type: "string", placeholder: "address", description: "Second token" },
+    "amount-a": { type: "string", placeholder: "amount", description: "Initial deposit of the first token" },
+    "amount-b": { type: "string", placeholder: "amount", description: "Initial deposit of the second token" },
+    "fee-bps": { type: "string", placeholder: "bps", description: "Swap fee in basis points (default 30)" },
+    "add-supported": {
+      type: "boolean",
+      description: "Register tokens the SwapEngine does not support yet",
+    },
+  },
+  run: async (ctx, options) => {
+    const { swap } = ctx.client;
+    const account = ctx.account as Address;
+
+    const [infoA, infoB] = await Promise.all([
+      getTokenInfo(ctx, requireAddress(options, "token-a")),
+      getTokenInfo(ctx, requireAddress(options, "token-b")),
+    ]);
+    if (sameAddress(infoA.address, infoB.address)) throw new CliError("A pool needs two different tokens");
+    const amountA = requireAmount(options, "amount-a", infoA.decimals);
+    const amountB = requireAmount(options, "amount-b", infoB.decimals);
+    const feeRate = requireInteger(options, "fee-bps", DEFAULT_FEE_BPS);
+
+    const existing = await swap.getPoolByTokens(infoA.address, infoB.address);
+    if (existing !== BigInt(0)) {
+      throw new CliError(`Pool ${existing} already exists for this pair; use add-liquidity`);
+    }
+
+    // createPool stores the pair exactly as passed, lookups sort it
+    const [first] = sortTokens(infoA.address, infoB.address);
+    const [tokenA, tokenB, depositA, depositB] =
+      first === infoA.address
+        ? [infoA, infoB, amountA, amountB]
+        : [infoB, infoA, amountB, amountA];
+
+    const preparation: TransactionOutcome<unknown>[] = [];
+    for (const token of [tokenA, tokenB]) {
+      if (await swap.isSupportedToken(token.address)) continue;
+      if (!options["add-supported"]) {
+        throw new CliError(`${token.symbol} is not supported by the SwapEngine; pass --add-supported`);
+      }
+      preparation.push(
+        await execute(ctx, `Add ${token.symbol} to supported tokens`, {
+          simulate: () => swap.simulate.addSupportedToken([token.address], { account }),
+          send: () => swap.addSupportedToken(token.address),
+        })
+      );
+    }
+    for (const [token, amount] of [[tokenA, depositA], [tokenB, depositB]] as const) {
+      const approval = await ensureAllowance(ctx, token, swap.address, amount);
+      if (approval) preparation.push(approval);
+    }
+
+    const summary = {
+      tokenA: formatTokenAmount(depositA, tokenA),
+      tokenB: formatTokenAmount(depositB, tokenB),
+      feeBps: feeRate,
+    };
+
+    // The pool call depends on state the dry run did not write
+    if (ctx.dryRun && preparation.length > 0) {
+      ctx.log("[dry run] Create pool: skipped, runs after the steps above");
+      return {
+        data: { preparation, createPool: null, ...summary },
+        text: formatFields({ ...summary, status: "dry run; pool creation needs the steps above first" }),
+      };
+    }
+
+    const outcome = await execute(ctx, `Create ${tokenA.symbol}/${tokenB.symbol} pool`, {
+      simulate: () =>
+        swap.simulate.createPool([tokenA.address, tokenB.address, depositA, depositB, feeRate], {
+          account,
+        }),
+      send: () => swap.createPool(tokenA.address, tokenB.address, depositA, depositB, feeRate),
+      confirm: (receipt) => {
+        const [created] = parseEventLogs({ abi: SwapEngineABI, eventName: "PoolCreated", logs: receipt.logs });
+        if (!created) throw new CliError(`No PoolCreated event in ${receipt.transactionHash}`);
+        return created.args.poolId;
+      },
+    });
+
+    return {
+      data: { preparation, createPool: outcome, ...summary },
+      text: formatFields({
+        poolId: outcome.dryRun ? `${outcome.result} (predicted)` : outcome.result,
+        ...summary,
+        transaction: outcome.hash,
+      }),
+    };
+  },
+};
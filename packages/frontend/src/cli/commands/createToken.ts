@@ -0,0 +1,113 @@
+import { type Address, parseEventLogs } from "viem";
+import { RWATokenFactoryABI } from "../../lib/abis";
+import { getContractAddress } from "../../lib/contracts";
+import {
+  type Command,
+  type OptionValues,
+  optionalAddress,
+  optionalString,
+  requireAmount,
+  requireString,
+} from "../command";
+import { CliError } from "../errors";
+import { formatFields } from "../output";
+import { TOKEN_PRESETS } from "../presets";
+import { execute } from "../transaction";
+
+// Factory tokens are plain 18-decimal ERC20s; valuations are USD in 18 decimals
+const DECIMALS = 18;
+
+const presetOptions = (name: string): OptionValues => {
+  const preset = TOKEN_PRESETS[name];
+  if (!preset) {
+    throw new CliError(`Unknown preset "${name}"; one of ${Object.keys(TOKEN_PRESETS).join(", ")}`);
+  }
+  return {
+    name: preset.name,
+    symbol: preset.symbol,
+    "asset-type": preset.assetType,
+    location: preset.location,
+    valuation: preset.valuation,
+    certification: preset.certificationHash,
+    supply: preset.totalSupply,
+    "min-investment": preset.minInvestment,
+  };
+};
+
+export const createToken: Command = {
+  name: "create-token",
+  summary: "Create an RWA token through the RWATokenFactory",
+  signs: true,
+  options: {
+    preset: {
+      type: "string",
+      placeholder: "name",
+      description: `Start from a demo asset (${Object.keys(TOKEN_PRESETS).join(", ")})`,
+    },
+    name: { type: "string", placeholder: "text", description: "Token name" },
+    symbol: { type: "string", placeholder: "text", description: "Token symbol" },
+    supply: { type: "string", placeholder: "amount", description: "Total supply in whole tokens" },
+    "asset-type": { type: "string", placeholder: "text", description: "Asset type, e.g. RealEstate" },
+    location: { type: "string", placeholder: "text", description: "Where the asset is held" },
+    valuation: { type: "string", placeholder: "usd", description: "Asset valuation in USD" },
+    "min-investment": { type: "string", placeholder: "usd", description: "Minimum investment in USD" },
+    certification: { type: "string", placeholder: "uri", description: "Certification document hash or URI" },
+    oracle: {
+      type: "string",
+      placeholder: "address",
+      description: "Price oracle for the asset (default: the deployed PriceOracle)",
+    },
+  },
+  run: async (ctx, options) => {
+    const preset = optionalString(options, "preset");
+    const values = { ...(preset ? presetOptions(preset) : {}), ...options };
+
+    const oracle = optionalAddress(values, "oracle") ?? getContractAddress("PriceOracle", ctx.chainId);
+    if (!oracle) throw new CliError("No PriceOracle deployed on this chain; pass --oracle");
+
+    const name = requireString(values, "name");
+    const symbol = requireString(values, "symbol");
+    const totalSupply = requireAmount(values, "supply", DECIMALS);
+    const metadata = {
+      assetType: requireString(values, "asset-type"),
+      location: requireString(values, "location"),
+      valuation: requireAmount(values, "valuation", DECIMALS),
+      lastValuationDate: BigInt(Math.floor(Date.now() / 1000)),
+      certificationHash: requireString(values, "certification"),
+      isActive: true,
+      oracle,
+      totalSupply,
+      minInvestment: requireAmount(values, "min-investment", DECIMALS),
+    };
+
+    const { factory } = ctx.client;
+    const outcome = await execute(ctx, `Create ${symbol}`, {
+      simulate: () =>
+        factory.simulate.createRWAToken([metadata, name, symbol, totalSupply], {
+          account: ctx.account as Address,
+        }),
+      send: () => factory.createRWAToken(metadata, name, symbol, totalSupply),
+      confirm: (receipt) => {
+        const [created] = parseEventLogs({
+          abi: RWATokenFactoryABI,
+          eventName: "RWATokenCreated",
+          logs: receipt.logs,
+        });
+        if (!created) throw new CliError(`No RWATokenCreated event in ${receipt.transactionHash}`);
+        return created.args.tokenAddress;
+      },
+    });
+
+    return {
+      data: { ...outcome, name, symbol, metadata },
+      text: formatFields({
+        token: outcome.dryRun ? `${outcome.result} (predicted)` : outcome.result,
+        name,
+        symbol,
+        assetType: metadata.assetType,
+        supply: values.supply,
+        transaction: outcome.hash,
+      }),
+    };
+  },
+};
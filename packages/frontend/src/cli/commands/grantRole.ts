@@ -0,0 +1,114 @@
+import { type Abi, type Address, type Hex, isHex, parseAbi } from "viem";
+import { HEDVAULT_ABIS } from "../../lib/abis";
+import { type ContractName, getContractAddress } from "../../lib/contracts";
+import { type Command, optionalAddress, requireAddress, requireString } from "../command";
+import { CliError } from "../errors";
+import { formatFields } from "../output";
+import { execute } from "../transaction";
+
+const ACCESS_CONTROL_ABI = parseAbi([
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function grantRole(bytes32 role, address account)",
+]);
+
+const ROLE_CONSTANT_ABI = (name: string) =>
+  [{ type: "function", name, inputs: [], outputs: [{ type: "bytes32" }], stateMutability: "view" }] as const;
+
+const hasFunction = (abi: Abi, name: string) =>
+  abi.some((item) => item.type === "function" && item.name === name);
+
+const accessControlled = Object.entries(HEDVAULT_ABIS)
+  .filter(([, abi]) => hasFunction(abi as Abi, "grantRole"))
+  .map(([name]) => name);
+
+export const grantRole: Command = {
+  name: "grant-role",
+  summary: "Grant an AccessControl role on a HedVault contract",
+  signs: true,
+  options: {
+    contract: {
+      type: "string",
+      placeholder: "name",
+      description: `Contract to administer (${accessControlled.join(", ")})`,
+    },
+    role: {
+      type: "string",
+      placeholder: "role",
+      description: "Role constant name, e.g. CREATOR_ROLE, or its bytes32 id",
+    },
+    account: { type: "string", placeholder: "address", description: "Account receiving the role" },
+    address: {
+      type: "string",
+      placeholder: "address",
+      description: "Contract address (default: the deployment on this chain)",
+    },
+  },
+  run: async (ctx, options) => {
+    const contractName = requireString(options, "contract");
+    if (!accessControlled.includes(contractName)) {
+      throw new CliError(`--contract must be one of ${accessControlled.join(", ")}`);
+    }
+    const abi = HEDVAULT_ABIS[contractName as keyof typeof HEDVAULT_ABIS] as Abi;
+    const address =
+      optionalAddress(options, "address") ??
+      getContractAddress(contractName as ContractName, ctx.chainId);
+    if (!address) throw new CliError(`${contractName} is not deployed on chain ${ctx.chainId}; pass --address`);
+
+    const grantee = requireAddress(options, "account");
+    const roleOption = requireString(options, "role");
+
+    // Read the constant rather than hashing the name: DEFAULT_ADMIN_ROLE is zero, not a hash
+    let role: Hex;
+    if (isHex(roleOption) && roleOption.length === 66) {
+      role = roleOption;
+    } else if (/_ROLE$/.test(roleOption) && hasFunction(abi, roleOption)) {
+      role = await ctx.publicClient.readContract({
+        address,
+        abi: ROLE_CONSTANT_ABI(roleOption),
+        functionName: roleOption,
+      });
+    } else {
+      throw new CliError(`${contractName} has no role ${roleOption}`);
+    }
+
+    const summary = { contract: `${contractName} (${address})`, role: roleOption, roleId: role, account: grantee };
+
+    const alreadyGranted = await ctx.publicClient.readContract({
+      address,
+      abi: ACCESS_CONTROL_ABI,
+      functionName: "hasRole",
+      args: [role, grantee],
+    });
+    if (alreadyGranted) {
+      ctx.log(`${grantee} already holds ${roleOption}; nothing to do`);
+      return { data: { ...summary, granted: false }, text: formatFields({ ...summary, status: "already granted" }) };
+    }
+
+    const account = ctx.account as Address;
+    const outcome = await execute(ctx, `Grant ${roleOption} to ${grantee}`, {
+      simulate: () =>
+        ctx.publicClient.simulateContract({
+          address,
+          abi: ACCESS_CONTROL_ABI,
+          functionName: "grantRole",
+          args: [role, grantee],
+          account,
+        }),
+      send: async () => {
+        const { walletClient } = ctx.client;
+        if (!walletClient) throw new CliError("Granting a role needs a signer");
+        return walletClient.writeContract({
+          address,
+          abi: ACCESS_CONTROL_ABI,
+          functionName: "grantRole",
+          args: [role, grantee],
+        });
+      },
+    });
+
+    return {
+      data: { ...summary, granted: !outcome.dryRun, transaction: outcome },
+      text: formatFields({ ...summary, transaction: outcome.hash ?? "dry run" }),
+    };
+  },
+};
@@ -0,0 +1,41 @@
+import { type TokenMetadata, formatAmount } from "../../lib/sdk";
+import type { Command } from "../command";
+import { formatTable } from "../output";
+
+// Valuations are in USD with 18 decimals
+const USD_DECIMALS = 18;
+
+// Exact supply with the symbol, or the raw integer when the token doesn't answer
+const supplyOf = (totalSupply: bigint, token?: TokenMetadata) =>
+  token
+    ? `${formatAmount(totalSupply, token.decimals, { maximumFractionDigits: token.decimals })} ${token.symbol}`
+    : `${totalSupply} units`;
+
+export const listTokens: Command = {
+  name: "list-tokens",
+  summary: "List every token created by the RWATokenFactory",
+  signs: false,
+  options: {},
+  run: async (ctx) => {
+    const [addresses, infos] = await ctx.client.factory.getAllRWATokensWithInfo();
+    const tokens = addresses.map((address, index) => ({ address, ...infos[index] }));
+    // Supplies are in each token's own decimals; HTS tokens rarely use 18
+    const tokenMetadata = await ctx.client.tokens.getMany(addresses);
+
+    return {
+      data: { tokens },
+      text: formatTable(
+        tokens.map(({ address, metadata, isListed, holders }) => ({
+          address,
+          assetType: metadata.assetType,
+          location: metadata.location,
+          valuationUsd: formatAmount(metadata.valuation, USD_DECIMALS, { maximumFractionDigits: 2 }),
+          supply: supplyOf(metadata.totalSupply, tokenMetadata[address.toLowerCase()]),
+          listed: isListed,
+          holders,
+          active: metadata.isActive,
+        }))
+      ),
+    };
+  },
+};
@@ -0,0 +1,43 @@
+import { type Command, requireAddress } from "../command";
+import { formatFields } from "../output";
+import { formatTokenAmount, getTokenInfo } from "../tokens";
+
+export const poolId: Command = {
+  name: "pool-id",
+  summary: "Look up the pool for a token pair (0 when there is none)",
+  signs: false,
+  options: {
+    "token-a": { type: "string", placeholder: "address", description: "First token" },
+    "token-b": { type: "string", placeholder: "address", description: "Second token" },
+  },
+  run: async (ctx, options) => {
+    const { swap } = ctx.client;
+    const id = await swap.getPoolByTokens(
+      requireAddress(options, "token-a"),
+      requireAddress(options, "token-b")
+    );
+    if (id === BigInt(0)) {
+      return { data: { poolId: id, pool: null }, text: formatFields({ poolId: "0 (no pool)" }) };
+    }
+
+    const pool = await swap.getPool(id);
+    const [tokenA, tokenB] = await Promise.all([
+      getTokenInfo(ctx, pool.tokenA),
+      getTokenInfo(ctx, pool.tokenB),
+    ]);
+
+    return {
+      data: { poolId: id, pool },
+      text: formatFields({
+        poolId: id,
+        tokenA: pool.tokenA,
+        tokenB: pool.tokenB,
+        reserveA: formatTokenAmount(pool.reserveA, tokenA),
+        reserveB: formatTokenAmount(pool.reserveB, tokenB),
+        totalLiquidity: pool.totalLiquidity,
+        feeBps: pool.feeRate,
+        active: pool.isActive,
+      }),
+    };
+  },
+};
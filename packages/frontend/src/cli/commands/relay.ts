@@ -0,0 +1,217 @@
+import { readFileSync } from "fs";
+import {
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  isAddress,
+  isHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { batchedTransport } from "../../lib/batching";
+import { getHedVaultChain } from "../../lib/chains";
+import {
+  type RelayChain,
+  type RelayJob,
+  type RelayJobStore,
+  createBridgeRelayer,
+  createMemoryRelayJobStore,
+} from "../../lib/relayer";
+import { createSqliteRelayJobStore } from "../../lib/relayer/sqliteStore";
+import { createHedVaultClient } from "../../lib/sdk";
+import { type Command, optionalString, requireInteger, requireString } from "../command";
+import { loadPrivateKey } from "../context";
+import { CliError, describeError } from "../errors";
+import { formatTable } from "../output";
+
+interface RelayChainConfig {
+  chainId: number;
+  rpc: string;
+  // CrossChainBridge address (default: the deployment registry)
+  bridge?: string;
+  startBlock?: string | number;
+  confirmations?: string | number;
+}
+
+interface RelayConfig {
+  chains: RelayChainConfig[];
+  // "<sourceChainId>:<sender>" -> contract executed on the destination chain
+  messageTargets?: Record<string, string>;
+  // SQLite database for jobs and cursors
+  store?: string;
+}
+
+const readConfig = (path: string): RelayConfig => {
+  let config: RelayConfig;
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new CliError(`Cannot read relayer config ${path}: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(config.chains) || config.chains.length < 2) {
+    throw new CliError(`${path} must list at least two chains`);
+  }
+  for (const chain of config.chains) {
+    if (!Number.isInteger(chain.chainId) || typeof chain.rpc !== "string") {
+      throw new CliError(`${path}: every chain needs a numeric chainId and an rpc url`);
+    }
+    if (chain.bridge !== undefined && !isAddress(chain.bridge)) {
+      throw new CliError(`${path}: chain ${chain.chainId} bridge is not an address: ${chain.bridge}`);
+    }
+  }
+  return config;
+};
+
+const toPrivateKey = (value: string, name: string): Hex => {
+  const hex = value.startsWith("0x") ? value : `0x${value}`;
+  if (!isHex(hex) || hex.length !== 66) throw new CliError(`${name} is not a 32-byte hex key`);
+  return hex;
+};
+
+// Networks outside the HedVault registry, such as a second local anvil
+const resolveChain = ({ chainId, rpc }: RelayChainConfig): Chain => {
+  const known = getHedVaultChain(chainId);
+  const chain =
+    known ??
+    defineChain({
+      id: chainId,
+      name: `Chain ${chainId}`,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [rpc] } },
+    });
+  return { ...chain, rpcUrls: { default: { http: [rpc] } } };
+};
+
+const jobRow = (job: RelayJob) => ({
+  kind: job.kind,
+  route: `${job.sourceChainId} -> ${job.destinationChainId}`,
+  id: job.transferId,
+  status: job.status,
+  attempts: job.attempts,
+  error: job.lastError,
+});
+
+export const relay: Command = {
+  name: "relay",
+  summary: "Relay CrossChainBridge transfers and messages between chains",
+  // Keys are loaded per chain below rather than through the global signer
+  signs: false,
+  options: {
+    config: {
+      type: "string",
+      placeholder: "path",
+      description: "JSON file listing chains (chainId, rpc, bridge?, startBlock?, confirmations?)",
+    },
+    store: {
+      type: "string",
+      placeholder: "path",
+      description: "SQLite job store, Node 22.5+ (default: the config's store, else in memory)",
+    },
+    once: { type: "boolean", description: "Run a single pass and exit" },
+    interval: { type: "string", placeholder: "ms", description: "Polling interval (default 5000)" },
+    "max-attempts": { type: "string", placeholder: "n", description: "Attempts before a job fails (default 8)" },
+  },
+  run: async (ctx, options) => {
+    if (ctx.dryRun) throw new CliError("relay sends transactions; --dry-run is not supported");
+
+    const config = readConfig(requireString(options, "config"));
+    const pollingInterval = Number(requireInteger(options, "interval", BigInt(5_000)));
+    const maxAttempts = Number(requireInteger(options, "max-attempts", BigInt(8)));
+
+    // The operator key (PRIVATE_KEY or --keystore) is used on every chain;
+    // HEDVAULT_VALIDATOR_KEYS adds validators that confirm inbound transfers
+    const operatorKey = await loadPrivateKey({ keystore: optionalString(options, "keystore") });
+    if (!operatorKey) throw new CliError("No operator key: set PRIVATE_KEY or pass --keystore");
+    const validatorKeys = (process.env.HEDVAULT_VALIDATOR_KEYS ?? "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map((key) => toPrivateKey(key, "HEDVAULT_VALIDATOR_KEYS"));
+
+    const chains: RelayChain[] = config.chains.map((chainConfig) => {
+      const chain = resolveChain(chainConfig);
+      const transport = batchedTransport(chainConfig.rpc);
+      const publicClient = createPublicClient({ chain, transport }) as PublicClient;
+      const addresses = chainConfig.bridge ? { CrossChainBridge: chainConfig.bridge as Address } : undefined;
+      const clientFor = (key: Hex) =>
+        createHedVaultClient({
+          publicClient,
+          walletClient: createWalletClient({ chain, transport, account: privateKeyToAccount(key) }),
+          chainId: chain.id,
+          addresses,
+        });
+
+      return {
+        chainId: chain.id,
+        operator: clientFor(operatorKey),
+        validators: validatorKeys.map(clientFor),
+        startBlock: chainConfig.startBlock === undefined ? undefined : BigInt(chainConfig.startBlock),
+        confirmations: chainConfig.confirmations === undefined ? undefined : BigInt(chainConfig.confirmations),
+      };
+    });
+
+    const messageTargets = new Map(
+      Object.entries(config.messageTargets ?? {}).map(([key, target]) => [key.toLowerCase(), target as Address])
+    );
+
+    const storePath = optionalString(options, "store") ?? config.store;
+    if (!storePath) ctx.log("No --store given: jobs are kept in memory and lost on exit");
+    const store: RelayJobStore = storePath
+      ? await createSqliteRelayJobStore(storePath)
+      : createMemoryRelayJobStore();
+
+    const relayer = createBridgeRelayer({
+      chains,
+      store,
+      maxAttempts,
+      resolveMessageTarget: (message) =>
+        messageTargets.get(`${message.sourceChain}:${message.sender}`.toLowerCase()),
+      log: ctx.log,
+    });
+
+    try {
+      for (const problem of await relayer.checkSetup()) ctx.log(`Warning: ${problem}`);
+
+      if (options.once) {
+        const { discovered, processed } = await relayer.runOnce();
+        const jobs = await store.listJobs();
+        return {
+          data: { discovered: discovered.length, processed, jobs },
+          text: [
+            `Discovered ${discovered.length} new job(s), worked on ${processed.length}`,
+            "",
+            formatTable(processed.map(jobRow)),
+          ].join("\n"),
+        };
+      }
+
+      ctx.log(`Relaying between chains ${chains.map(({ chainId }) => chainId).join(", ")}; Ctrl-C to stop`);
+      let passes = 0;
+      await new Promise<void>((resolve) => {
+        const stop = relayer.watch({
+          pollingInterval,
+          onPass: ({ processed }) => {
+            passes++;
+            for (const job of processed) ctx.log(`${job.id}: ${job.status}`);
+          },
+          onError: (error) => ctx.log(`Relay pass failed: ${describeError(error)}`),
+        });
+        const shutdown = () => stop().then(resolve);
+        process.once("SIGINT", shutdown);
+        process.once("SIGTERM", shutdown);
+      });
+
+      const jobs = await store.listJobs();
+      const open = jobs.filter(({ status }) => status !== "completed" && status !== "failed");
+      return {
+        data: { passes, jobs },
+        text: `Stopped after ${passes} pass(es); ${open.length} job(s) still open\n\n${formatTable(open.map(jobRow))}`,
+      };
+    } finally {
+      await store.close();
+    }
+  },
+};
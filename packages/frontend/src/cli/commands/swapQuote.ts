@@ -0,0 +1,47 @@
+import { type Command, optionalAddress, requireAmount } from "../command";
+import { CliError } from "../errors";
+import { formatFields } from "../output";
+import { POOL_OPTIONS, resolvePool, sameAddress } from "../pools";
+import { formatTokenAmount, getTokenInfo } from "../tokens";
+
+export const swapQuote: Command = {
+  name: "swap-quote",
+  summary: "Quote a swap against a pool's current reserves",
+  signs: false,
+  options: {
+    ...POOL_OPTIONS,
+    "token-in": {
+      type: "string",
+      placeholder: "address",
+      description: "Token being sold (default: the first token of the pair)",
+    },
+    amount: { type: "string", placeholder: "amount", description: "Amount of the token being sold" },
+  },
+  run: async (ctx, options) => {
+    const { poolId, pool, pair } = await resolvePool(ctx, options);
+
+    const tokenInAddress = optionalAddress(options, "token-in") ?? pair[0];
+    if (!sameAddress(tokenInAddress, pool.tokenA) && !sameAddress(tokenInAddress, pool.tokenB)) {
+      throw new CliError(`Pool ${poolId} does not hold ${tokenInAddress}`);
+    }
+    const tokenOutAddress = sameAddress(tokenInAddress, pool.tokenA) ? pool.tokenB : pool.tokenA;
+
+    const [tokenIn, tokenOut] = await Promise.all([
+      getTokenInfo(ctx, tokenInAddress),
+      getTokenInfo(ctx, tokenOutAddress),
+    ]);
+    const amountIn = requireAmount(options, "amount", tokenIn.decimals);
+    const { amountOut, fee } = await ctx.client.swap.getSwapQuote(poolId, tokenIn.address, amountIn);
+
+    return {
+      data: { poolId, tokenIn: tokenIn.address, tokenOut: tokenOut.address, amountIn, amountOut, fee },
+      text: formatFields({
+        poolId,
+        sell: formatTokenAmount(amountIn, tokenIn),
+        receive: formatTokenAmount(amountOut, tokenOut),
+        // Taken from the input side before pricing
+        fee: formatTokenAmount(fee, tokenIn),
+      }),
+    };
+  },
+};
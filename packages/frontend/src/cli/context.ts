@@ -0,0 +1,139 @@
+/**
+ * HedVault CLI - Context
+ * Resolves the chain, RPC endpoint and signer shared by every command
+ */
+
+import {
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  createPublicClient,
+  createWalletClient,
+  http,
+  isAddress,
+  isHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  ANVIL_CHAIN_ID,
+  DEFAULT_CHAIN_ID,
+  HEDERA_LOCALNET_CHAIN_ID,
+  HEDERA_MAINNET_CHAIN_ID,
+  HEDERA_TESTNET_CHAIN_ID,
+} from "../lib/contracts";
+import { batchedTransport } from "../lib/batching";
+import { getHedVaultChain } from "../lib/chains";
+import { type HedVaultClient, createHedVaultClient } from "../lib/sdk";
+import { CliError } from "./errors";
+import { decryptKeystore, promptSecret, resolveKeystorePath } from "./keystore";
+
+export interface GlobalOptions {
+  chain?: string;
+  rpc?: string;
+  keystore?: string;
+  from?: string;
+  json: boolean;
+  dryRun: boolean;
+}
+
+export interface CliContext {
+  chainId: number;
+  client: HedVaultClient;
+  publicClient: PublicClient;
+  // Signer address, or --from when dry-running without a key
+  account?: Address;
+  json: boolean;
+  dryRun: boolean;
+  // Progress notes; stderr so stdout stays parseable
+  log: (message: string) => void;
+}
+
+const CHAIN_ALIASES: Record<string, number> = {
+  mainnet: HEDERA_MAINNET_CHAIN_ID,
+  testnet: HEDERA_TESTNET_CHAIN_ID,
+  local: HEDERA_LOCALNET_CHAIN_ID,
+  anvil: ANVIL_CHAIN_ID,
+};
+
+const parseChainId = (value: string) => {
+  const chainId = CHAIN_ALIASES[value] ?? Number(value);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new CliError(`Unknown chain "${value}"; use a chain id or one of ${Object.keys(CHAIN_ALIASES).join(", ")}`);
+  }
+  return chainId;
+};
+
+// --chain wins; with only --rpc the endpoint is asked which chain it serves
+const resolveChain = async (options: GlobalOptions): Promise<Chain> => {
+  const chainOption = options.chain ?? process.env.HEDVAULT_CHAIN;
+  const rpcUrl = options.rpc ?? process.env.HEDVAULT_RPC_URL;
+
+  let chainId = DEFAULT_CHAIN_ID;
+  if (chainOption) {
+    chainId = parseChainId(chainOption);
+  } else if (rpcUrl) {
+    chainId = await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+  }
+
+  const chain = getHedVaultChain(chainId);
+  if (!chain) throw new CliError(`Chain ${chainId} is not a HedVault network`);
+  return rpcUrl ? { ...chain, rpcUrls: { default: { http: [rpcUrl] } } } : chain;
+};
+
+// PRIVATE_KEY as used by the forge scripts, else an encrypted keystore
+export const loadPrivateKey = async (
+  options: Pick<GlobalOptions, "keystore">
+): Promise<Hex | undefined> => {
+  const privateKey = process.env.PRIVATE_KEY;
+  if (privateKey) {
+    const hex = privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`;
+    if (!isHex(hex) || hex.length !== 66) throw new CliError("PRIVATE_KEY is not a 32-byte hex key");
+    return hex;
+  }
+
+  const keystore = options.keystore ?? process.env.HEDVAULT_KEYSTORE;
+  if (!keystore) return undefined;
+
+  const path = resolveKeystorePath(keystore);
+  const password =
+    process.env.HEDVAULT_KEYSTORE_PASSWORD ?? (await promptSecret(`Password for ${path}: `));
+  return decryptKeystore(path, password);
+};
+
+export const createCliContext = async (
+  options: GlobalOptions,
+  { signs }: { signs: boolean }
+): Promise<CliContext> => {
+  const chain = await resolveChain(options);
+  const transport = batchedTransport();
+  const publicClient = createPublicClient({ chain, transport }) as PublicClient;
+
+  const privateKey = signs ? await loadPrivateKey(options) : undefined;
+  const walletClient = privateKey
+    ? createWalletClient({ chain, transport, account: privateKeyToAccount(privateKey) })
+    : undefined;
+
+  let account = walletClient?.account.address;
+  if (!account && options.from) {
+    if (!isAddress(options.from)) throw new CliError(`--from is not an address: ${options.from}`);
+    account = options.from;
+  }
+  if (signs && !walletClient && !(options.dryRun && account)) {
+    throw new CliError(
+      "No signer: set PRIVATE_KEY, pass --keystore, or use --dry-run with --from"
+    );
+  }
+
+  return {
+    chainId: chain.id,
+    client: createHedVaultClient({ publicClient, walletClient, chainId: chain.id }),
+    publicClient,
+    account,
+    json: options.json,
+    dryRun: options.dryRun,
+    log: (message) => {
+      if (!options.json) process.stderr.write(`${message}\n`);
+    },
+  };
+};
@@ -0,0 +1,29 @@
+/**
+ * HedVault CLI - Errors
+ */
+
+import { decodeHedVaultError, decodeHedVaultErrorWithTokens } from "../lib/sdk";
+import type { CliContext } from "./context";
+
+// Expected failures: bad input, missing config, reverted transactions
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+// One-line description for the terminal, naming the custom error when there is one
+export const describeError = (error: unknown): string => {
+  const { message, hint, errorName } = decodeHedVaultError(error);
+  const described = errorName ? `${message} [${errorName}]` : message;
+  return hint ? `${described}. ${hint}` : described;
+};
+
+// Decodes a failed command on the context's chain, with amounts in the
+// decimals of the token the revert names or the one passed as an option
+export const decodeCommandError = (ctx: CliContext, error: unknown, values: Record<string, unknown>) =>
+  decodeHedVaultErrorWithTokens(error, ctx.client.tokens, {
+    chainId: ctx.chainId,
+    candidates: Object.values(values),
+  });
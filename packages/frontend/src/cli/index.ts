@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+/**
+ * hedvault - command-line access to the HedVault protocol
+ *
+ *   npm run build:cli
+ *   node dist/cli/index.js <command> [options]
+ *
+ * Signing keys come from PRIVATE_KEY or an encrypted keystore (--keystore),
+ * never from the command line.
+ */
+
+import { parseArgs } from "util";
+import type { Command, OptionSpec } from "./command";
+import { addLiquidity } from "./commands/addLiquidity";
+import { createPool } from "./commands/createPool";
+import { createToken } from "./commands/createToken";
+import { grantRole } from "./commands/grantRole";
+import { listTokens } from "./commands/listTokens";
+import { poolId } from "./commands/poolId";
+import { relay } from "./commands/relay";
+import { swapQuote } from "./commands/swapQuote";
+import { createCliContext } from "./context";
+import { CliError, decodeCommandError, describeError } from "./errors";
+import { toJson } from "./output";
+
+const COMMANDS: Command[] = [
+  createToken,
+  listTokens,
+  createPool,
+  addLiquidity,
+  poolId,
+  swapQuote,
+  grantRole,
+  relay,
+];
+
+const GLOBAL_OPTIONS: Record<string, OptionSpec> = {
+  chain: {
+    type: "string",
+    placeholder: "id|name",
+    description: "Chain id or mainnet, testnet, local, anvil (env HEDVAULT_CHAIN)",
+  },
+  rpc: { type: "string", placeholder: "url", description: "JSON-RPC endpoint (env HEDVAULT_RPC_URL)" },
+  keystore: {
+    type: "string",
+    placeholder: "path|name",
+    description: "Encrypted keystore file or cast wallet name (env HEDVAULT_KEYSTORE)",
+  },
+  from: { type: "string", placeholder: "address", description: "Sender to simulate as with --dry-run and no key" },
+  "dry-run": { type: "boolean", description: "Simulate transactions without sending them" },
+  json: { type: "boolean", description: "Print machine-readable JSON" },
+  help: { type: "boolean", description: "Show help" },
+};
+
+const formatOptions = (options: Record<string, OptionSpec>) => {
+  const flags = Object.entries(options).map(([name, spec]) => ({
+    flag: spec.placeholder ? `--${name} <${spec.placeholder}>` : `--${name}`,
+    description: spec.description,
+  }));
+  const width = Math.max(...flags.map(({ flag }) => flag.length));
+  return flags.map(({ flag, description }) => `  ${flag.padEnd(width)}  ${description}`).join("\n");
+};
+
+const usage = (command?: Command) => {
+  if (command) {
+    return [
+      `Usage: hedvault ${command.name} [options]`,
+      "",
+      command.summary,
+      "",
+      "Options:",
+      formatOptions(command.options),
+      "",
+      "Global options:",
+      formatOptions(GLOBAL_OPTIONS),
+    ].join("\n");
+  }
+
+  const width = Math.max(...COMMANDS.map(({ name }) => name.length));
+  return [
+    "Usage: hedvault <command> [options]",
+    "",
+    "Commands:",
+    ...COMMANDS.map(({ name, summary }) => `  ${name.padEnd(width)}  ${summary}`),
+    "",
+    "Global options:",
+    formatOptions(GLOBAL_OPTIONS),
+    "",
+    "Signing keys: PRIVATE_KEY, or --keystore with HEDVAULT_KEYSTORE_PASSWORD (prompted otherwise).",
+    "Run `hedvault <command> --help` for command options.",
+  ].join("\n");
+};
+
+const main = async (argv: string[]) => {
+  const [commandName, ...rest] = argv;
+  const command = COMMANDS.find(({ name }) => name === commandName);
+
+  if (!command) {
+    if (commandName && !commandName.startsWith("-")) {
+      throw new CliError(`Unknown command "${commandName}"\n\n${usage()}`);
+    }
+    process.stdout.write(`${usage()}\n`);
+    return;
+  }
+
+  const specs = { ...GLOBAL_OPTIONS, ...command.options };
+  const { values } = parseArgs({
+    args: rest,
+    options: Object.fromEntries(
+      Object.entries(specs).map(([name, { type }]) => [name, { type }])
+    ),
+    strict: true,
+    allowPositionals: false,
+  });
+
+  if (values.help) {
+    process.stdout.write(`${usage(command)}\n`);
+    return;
+  }
+
+  const ctx = await createCliContext(
+    {
+      chain: values.chain as string | undefined,
+      rpc: values.rpc as string | undefined,
+      keystore: values.keystore as string | undefined,
+      from: values.from as string | undefined,
+      json: !!values.json,
+      dryRun: !!values["dry-run"],
+    },
+    { signs: command.signs }
+  );
+
+  const { data, text } = await command.run(ctx, values).catch(async (error) => {
+    throw await decodeCommandError(ctx, error, values);
+  });
+  process.stdout.write(`${ctx.json ? toJson({ chainId: ctx.chainId, ...data }) : text}\n`);
+};
+
+main(process.argv.slice(2)).catch((error) => {
+  const message = describeError(error);
+  if (process.argv.includes("--json")) {
+    process.stdout.write(`${toJson({ error: message })}\n`);
+  } else {
+    process.stderr.write(`Error: ${message}\n`);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,132 @@
+/**
+ * HedVault CLI - Keystores
+ * Web3 Secret Storage (v3) decryption, the format written by
+ * `cast wallet import` and most wallets' JSON export
+ */
+
+import { createDecipheriv, pbkdf2Sync, scryptSync } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { type Hex, bytesToHex, concat, keccak256 } from "viem";
+import { CliError } from "./errors";
+
+interface KeystoreV3 {
+  version: number;
+  crypto: {
+    cipher: string;
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      // scrypt
+      n?: number;
+      r?: number;
+      p?: number;
+      // pbkdf2
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+const FOUNDRY_KEYSTORES = join(homedir(), ".foundry", "keystores");
+
+/**
+ * Accepts a path, or the name of an account imported with
+ * `cast wallet import <name>`.
+ */
+export const resolveKeystorePath = (pathOrName: string) => {
+  if (existsSync(pathOrName)) return pathOrName;
+  const foundryPath = join(FOUNDRY_KEYSTORES, pathOrName);
+  if (existsSync(foundryPath)) return foundryPath;
+  throw new CliError(`Keystore not found: ${pathOrName}`);
+};
+
+const readKeystore = (path: string): KeystoreV3 => {
+  const json = JSON.parse(readFileSync(path, "utf8"));
+  // Some exporters capitalise the section name
+  const crypto = json.crypto ?? json.Crypto;
+  if (json.version !== 3 || !crypto) {
+    throw new CliError(`${path} is not a v3 keystore`);
+  }
+  return { ...json, crypto };
+};
+
+const deriveKey = ({ crypto }: KeystoreV3, password: string) => {
+  const { kdf, kdfparams } = crypto;
+  const salt = Buffer.from(kdfparams.salt, "hex");
+
+  if (kdf === "scrypt") {
+    const { n = 0, r = 0, p = 0, dklen } = kdfparams;
+    // Node caps scrypt at 32MB by default; standard params need 256MB
+    return scryptSync(password, salt, dklen, { N: n, r, p, maxmem: 256 * n * r });
+  }
+  if (kdf === "pbkdf2" && kdfparams.prf === "hmac-sha256") {
+    return pbkdf2Sync(password, salt, kdfparams.c ?? 0, kdfparams.dklen, "sha256");
+  }
+  throw new CliError(`Unsupported keystore KDF: ${kdf}`);
+};
+
+export const decryptKeystore = (path: string, password: string): Hex => {
+  const keystore = readKeystore(path);
+  const { cipher, ciphertext, cipherparams, mac } = keystore.crypto;
+  if (cipher !== "aes-128-ctr") {
+    throw new CliError(`Unsupported keystore cipher: ${cipher}`);
+  }
+
+  const derivedKey = deriveKey(keystore, password);
+  const encrypted = Buffer.from(ciphertext, "hex");
+  const expectedMac = keccak256(concat([derivedKey.subarray(16, 32), encrypted]));
+  if (expectedMac.slice(2) !== mac.toLowerCase()) {
+    throw new CliError("Wrong keystore password");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    Buffer.from(cipherparams.iv, "hex")
+  );
+  return bytesToHex(Buffer.concat([decipher.update(encrypted), decipher.final()]));
+};
+
+// Reads a line from the terminal without echoing it
+export const promptSecret = (question: string) =>
+  new Promise<string>((resolve, reject) => {
+    const { stdin, stderr } = process;
+    if (!stdin.isTTY) {
+      reject(new CliError("No terminal to prompt for the keystore password; set HEDVAULT_KEYSTORE_PASSWORD"));
+      return;
+    }
+
+    let secret = "";
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString("utf8")) {
+        if (char === "\r" || char === "\n") {
+          cleanup();
+          stderr.write("\n");
+          resolve(secret);
+          return;
+        }
+        if (char === "\u0003") {
+          cleanup();
+          reject(new CliError("Aborted"));
+          return;
+        }
+        secret = char === "\u007f" ? secret.slice(0, -1) : secret + char;
+      }
+    };
+    const cleanup = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+    };
+
+    stderr.write(question);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onData);
+  });
@@ -0,0 +1,34 @@
+/**
+ * HedVault CLI - Output
+ * JSON for scripts, aligned text for people
+ */
+
+// bigints become decimal strings so amounts survive JSON.parse untruncated
+export const toJson = (value: unknown) =>
+  JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return "-";
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  if (typeof value === "object") return toJson(value);
+  return String(value);
+};
+
+export const formatFields = (fields: Record<string, unknown>) => {
+  const width = Math.max(...Object.keys(fields).map((key) => key.length));
+  return Object.entries(fields)
+    .map(([key, value]) => `${key.padEnd(width)}  ${toText(value)}`)
+    .join("\n");
+};
+
+export const formatTable = (rows: Record<string, unknown>[]) => {
+  if (rows.length === 0) return "(none)";
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((column) => toText(row[column])));
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => row[i].length))
+  );
+  const line = (values: string[]) =>
+    values.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd();
+  return [line(columns), ...cells.map(line)].join("\n");
+};
@@ -0,0 +1,51 @@
+/**
+ * HedVault CLI - SwapEngine pool lookup
+ */
+
+import type { Address } from "viem";
+import type { LiquidityPool } from "../lib/sdk";
+import { type OptionValues, optionalAddress, optionalString, requireInteger } from "./command";
+import type { CliContext } from "./context";
+import { CliError } from "./errors";
+
+// SwapEngine keys pools by the lower address first
+export const sortTokens = (a: Address, b: Address): [Address, Address] =>
+  a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+
+export const sameAddress = (a: Address, b: Address) => a.toLowerCase() === b.toLowerCase();
+
+export const POOL_OPTIONS = {
+  pool: { type: "string", placeholder: "id", description: "Pool id" },
+  "token-a": { type: "string", placeholder: "address", description: "First token of the pair (instead of --pool)" },
+  "token-b": { type: "string", placeholder: "address", description: "Second token of the pair (instead of --pool)" },
+} as const;
+
+/**
+ * Pool from --pool, or from --token-a/--token-b in either order. Also returns
+ * the pair in the order the user named it, for matching amounts to tokens.
+ */
+export const resolvePool = async (
+  ctx: CliContext,
+  options: OptionValues
+): Promise<{ poolId: bigint; pool: LiquidityPool; pair: [Address, Address] }> => {
+  const { swap } = ctx.client;
+  const tokenA = optionalAddress(options, "token-a");
+  const tokenB = optionalAddress(options, "token-b");
+
+  let poolId: bigint;
+  if (optionalString(options, "pool") !== undefined) {
+    poolId = requireInteger(options, "pool");
+  } else if (tokenA && tokenB) {
+    poolId = await swap.getPoolByTokens(tokenA, tokenB);
+    if (poolId === BigInt(0)) throw new CliError(`No pool for ${tokenA} / ${tokenB}`);
+  } else {
+    throw new CliError("Pass --pool, or both --token-a and --token-b");
+  }
+
+  const pool = await swap.getPool(poolId);
+  if (!pool.isActive) throw new CliError(`Pool ${poolId} does not exist or is inactive`);
+
+  const pair: [Address, Address] =
+    tokenA && tokenB ? [tokenA, tokenB] : [pool.tokenA, pool.tokenB];
+  return { poolId, pool, pair };
+};
@@ -0,0 +1,79 @@
+/**
+ * HedVault CLI - Token presets
+ * The demo assets the old create-rwa-token.js script minted. Amounts are in
+ * whole tokens / USD and scaled to 18 decimals on use.
+ */
+
+export interface TokenPreset {
+  name: string;
+  symbol: string;
+  assetType: string;
+  location: string;
+  valuation: string;
+  certificationHash: string;
+  totalSupply: string;
+  minInvestment: string;
+}
+
+export const TOKEN_PRESETS: Record<string, TokenPreset> = {
+  gold: {
+    name: "Gold Token",
+    symbol: "HVGOLD",
+    assetType: "PreciousMetals",
+    location: "LBMA Certified Vaults, London",
+    valuation: "2000",
+    certificationHash: "ipfs://QmGoldCertification123",
+    totalSupply: "10000",
+    minInvestment: "100",
+  },
+  silver: {
+    name: "Silver Token",
+    symbol: "HVSILVER",
+    assetType: "PreciousMetals",
+    location: "COMEX Certified Vaults, New York",
+    valuation: "25",
+    certificationHash: "ipfs://QmSilverCertification456",
+    totalSupply: "100000",
+    minInvestment: "50",
+  },
+  platinum: {
+    name: "Platinum Token",
+    symbol: "HVPLAT",
+    assetType: "PreciousMetals",
+    location: "Johnson Matthey Refinery, London",
+    valuation: "1000",
+    certificationHash: "ipfs://QmPlatinumCertification789",
+    totalSupply: "5000",
+    minInvestment: "200",
+  },
+  "real-estate": {
+    name: "Real Estate Token",
+    symbol: "HVRE",
+    assetType: "RealEstate",
+    location: "Manhattan Commercial District, New York",
+    valuation: "5000000",
+    certificationHash: "ipfs://QmRealEstateCertABC",
+    totalSupply: "1000",
+    minInvestment: "10000",
+  },
+  tech: {
+    name: "Tech Stock Token",
+    symbol: "HVTECH",
+    assetType: "Stocks",
+    location: "NASDAQ Listed Company",
+    valuation: "500",
+    certificationHash: "ipfs://QmStockCertDEF",
+    totalSupply: "10000",
+    minInvestment: "1000",
+  },
+  bond: {
+    name: "Corporate Bond Token",
+    symbol: "HVBOND",
+    assetType: "Bonds",
+    location: "Fortune 500 Corporate Bonds",
+    valuation: "10000",
+    certificationHash: "ipfs://QmBondCertGHI",
+    totalSupply: "500",
+    minInvestment: "5000",
+  },
+};
@@ -0,0 +1,41 @@
+/**
+ * HedVault CLI - ERC20 helpers
+ */
+
+import { type Address, formatUnits } from "viem";
+import type { CliContext } from "./context";
+import { type TransactionOutcome, execute } from "./transaction";
+
+export interface TokenInfo {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+export const getTokenInfo = (ctx: CliContext, address: Address): Promise<TokenInfo> =>
+  ctx.client.tokens.get(address);
+
+export const formatTokenAmount = (amount: bigint, token: TokenInfo) =>
+  `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+
+/**
+ * Approves `spender` for `amount` when the current allowance falls short.
+ * Returns the approval, or undefined when none was needed.
+ */
+export const ensureAllowance = async (
+  ctx: CliContext,
+  token: TokenInfo,
+  spender: Address,
+  amount: bigint
+): Promise<TransactionOutcome<boolean> | undefined> => {
+  const account = ctx.account as Address;
+  const erc20 = ctx.client.token(token.address);
+
+  const allowance = await erc20.allowance(account, spender);
+  if (allowance >= amount) return undefined;
+
+  return execute(ctx, `Approve ${formatTokenAmount(amount, token)}`, {
+    simulate: () => erc20.simulate.approve([spender, amount], { account }),
+    send: () => erc20.approve(spender, amount),
+  });
+};
@@ -0,0 +1,65 @@
+/**
+ * HedVault CLI - Transactions
+ */
+
+import type { Hash, TransactionReceipt } from "viem";
+import type { CliContext } from "./context";
+import { CliError } from "./errors";
+
+interface SimulatedCall<T> {
+  result: T;
+  request: Parameters<CliContext["publicClient"]["estimateContractGas"]>[0];
+}
+
+export interface TransactionOutcome<T> {
+  action: string;
+  // Return value from the receipt when available, else from the simulation
+  result: T;
+  dryRun: boolean;
+  gas?: bigint;
+  hash?: Hash;
+  blockNumber?: bigint;
+}
+
+/**
+ * Simulates a contract call and, unless this is a dry run, sends it and waits
+ * for the receipt. Simulating first means a revert is reported with its
+ * reason before anything is signed. The simulated return value can go stale
+ * by the time the transaction is mined (new ids, CREATE addresses), so
+ * `confirm` reads it back from the receipt instead.
+ */
+export const execute = async <T>(
+  ctx: CliContext,
+  action: string,
+  call: {
+    simulate: () => Promise<SimulatedCall<T>>;
+    send: () => Promise<Hash>;
+    // Recovers the return value from emitted events once mined
+    confirm?: (receipt: TransactionReceipt) => T;
+  }
+): Promise<TransactionOutcome<T>> => {
+  const { result, request } = await call.simulate();
+
+  if (ctx.dryRun) {
+    const gas = await ctx.publicClient.estimateContractGas(request);
+    ctx.log(`[dry run] ${action}: ok, ~${gas} gas`);
+    return { action, result, dryRun: true, gas };
+  }
+
+  ctx.log(`${action}...`);
+  const hash = await call.send();
+  const receipt = await ctx.client.waitForTransaction(hash);
+  if (receipt.status !== "success") {
+    throw new CliError(`${action} reverted in transaction ${hash}`);
+  }
+  ctx.log(`${action}: confirmed in block ${receipt.blockNumber} (${hash})`);
+
+  return {
+    action,
+    result: call.confirm ? call.confirm(receipt) : result,
+    dryRun: false,
+    gas: receipt.gasUsed,
+    hash,
+    blockNumber: receipt.blockNumber,
+  };
+};
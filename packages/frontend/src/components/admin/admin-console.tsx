@@ -0,0 +1,190 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Check, Loader2, Lock, ShieldAlert } from "lucide-react"
+import { useAccount } from "wagmi"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { DashboardHeader } from "@/components/dashboard/layout/dashboard-header"
+import { useAdminAccess } from "@/hooks/useAdminAccess"
+import { useHedVaultClient } from "@/hooks/useHedVaultClient"
+import { getUnguardedFunctions } from "@/lib/accessControl"
+import { ADMIN_CONTROLS, type AdminAccess, type AdminControl } from "@/lib/admin"
+import type { ContractName } from "@/lib/contracts"
+import { ChangeDialog, type PendingChange } from "./change-dialog"
+import type { ReviewChange } from "./controls"
+import {
+  ProtocolFeesControl,
+  ProtocolLimitsControl,
+  ProtocolModulesControl,
+  ProtocolPauseControl,
+} from "./core-controls"
+import {
+  AssetTradingControl,
+  EmergencyStopControl,
+  LendingTokenControl,
+  MarketplaceFeesControl,
+  MarketplaceRolesControl,
+} from "./module-controls"
+import { RoleExplorer } from "./role-explorer"
+
+const CONTROL_COMPONENTS: Record<AdminControl, (props: { review: ReviewChange }) => React.ReactNode> = {
+  coreFees: ProtocolFeesControl,
+  coreLimits: ProtocolLimitsControl,
+  corePause: ProtocolPauseControl,
+  coreModules: ProtocolModulesControl,
+  marketplaceFees: MarketplaceFeesControl,
+  marketplaceAssets: AssetTradingControl,
+  marketplaceEmergency: EmergencyStopControl,
+  marketplaceRoles: MarketplaceRolesControl,
+  lendingTokens: LendingTokenControl,
+}
+
+const CONTRACTS: ContractName[] = ["HedVaultCore", "Marketplace", "LendingPool"]
+
+const controlsOf = (contract: ContractName) =>
+  (Object.keys(ADMIN_CONTROLS) as AdminControl[]).filter(
+    (control) => ADMIN_CONTROLS[control].contract === contract
+  )
+
+const requirementLabel = (requires: string) =>
+  requires === "owner" ? "Core owner" : requires === "admin" ? "Core admin" : requires
+
+function AccessOverview({ access }: { access: AdminAccess }) {
+  return (
+    <Card className="bg-gray-950/80 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-white">Your Access</CardTitle>
+        <p className="text-gray-400">Controls are shown for the roles this account holds</p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+          {(Object.keys(ADMIN_CONTROLS) as AdminControl[]).map((control) => {
+            const { contract, label, requires } = ADMIN_CONTROLS[control]
+            return (
+              <div key={control} className="flex items-center justify-between text-sm py-1">
+                <span className="flex items-center gap-2">
+                  {access[control] ? (
+                    <Check className="h-4 w-4 text-green-400" />
+                  ) : (
+                    <Lock className="h-4 w-4 text-gray-600" />
+                  )}
+                  <span className={access[control] ? "text-white" : "text-gray-500"}>{label}</span>
+                </span>
+                <span className="text-xs text-gray-500 font-mono">
+                  {contract} · {requirementLabel(requires)}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Admin functions the console has no controls for because any account can
+ * call them; listed so the gap is visible rather than silently missing
+ */
+function UnguardedFunctions() {
+  const client = useHedVaultClient()
+  const unguarded = getUnguardedFunctions(client.chainId)
+  if (unguarded.length === 0) return null
+
+  return (
+    <Card className="bg-red-500/10 border-red-500/40">
+      <CardHeader>
+        <CardTitle className="text-red-300 flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Unguarded Functions
+        </CardTitle>
+        <p className="text-red-200/80">
+          These contracts have no access control, so the console offers no controls for them and anyone can call them
+          directly. Redeploy them with roles to manage them here.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {unguarded.map(({ contract, functionName, effect }) => (
+          <div key={`${contract}.${functionName}`} className="flex items-center justify-between text-sm">
+            <span className="font-mono text-white">
+              {contract}.{functionName}
+            </span>
+            <span className="text-red-200/80">Anyone can {effect}</span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Operator console for the protocol's admin functions. Each contract's
+ * controls only render for accounts that pass its access check, and every
+ * change goes through an old-vs-new confirmation before it is sent.
+ */
+export function AdminConsole() {
+  const { isConnected } = useAccount()
+  const { access, isLoading, hasAny } = useAdminAccess()
+  const [change, setChange] = useState<PendingChange | null>(null)
+
+  const renderBody = () => {
+    if (!isConnected) {
+      return <p className="text-gray-400">Connect an operator wallet to see the controls it can use.</p>
+    }
+    if (isLoading || !access) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      )
+    }
+    return (
+      <>
+        <AccessOverview access={access} />
+        {!hasAny && <p className="text-gray-400">This account holds no operator roles on this network.</p>}
+        {CONTRACTS.map((contract) => {
+          const allowed = controlsOf(contract).filter((control) => access[control])
+          if (allowed.length === 0) return null
+          return (
+            <Card key={contract} className="bg-gray-950/80 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-white">{contract}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {allowed.map((control) => {
+                  const Control = CONTROL_COMPONENTS[control]
+                  return <Control key={control} review={setChange} />
+                })}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <DashboardHeader />
+      <main className="p-8 lg:p-12">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <div>
+            <Link href="/dashboard" className="inline-flex items-center text-sm text-gray-400 hover:text-white mb-4">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Dashboard
+            </Link>
+            <h1 className="text-4xl lg:text-5xl font-bold text-white mb-3">Protocol Admin</h1>
+            <p className="text-lg text-gray-400 max-w-2xl">
+              Fees, limits, modules and emergency controls for protocol operators
+            </p>
+          </div>
+          {renderBody()}
+          <UnguardedFunctions />
+          <RoleExplorer />
+        </div>
+      </main>
+      <ChangeDialog change={change} onClose={() => setChange(null)} />
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowRight, Loader2 } from "lucide-react"
+import { useQueryClient } from "@tanstack/react-query"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { type ChangeRow, isChanged } from "@/lib/admin"
+
+export interface PendingChange {
+  title: string
+  // Contract and function the change goes through
+  target: string
+  rows: ChangeRow[]
+  // Sends the change and resolves once it is confirmed
+  send: () => Promise<unknown>
+  // Pauses, emergency stops and the like get a red confirm button
+  destructive?: boolean
+}
+
+/**
+ * Shows a change as old vs new values before it is sent. Rows that stay the
+ * same are listed for context but greyed out; with no changed rows there is
+ * nothing to confirm.
+ */
+export function ChangeDialog({ change, onClose }: { change: PendingChange | null; onClose: () => void }) {
+  const queryClient = useQueryClient()
+  const [isSending, setIsSending] = useState(false)
+  const changed = change?.rows.filter(isChanged) ?? []
+
+  const handleConfirm = async () => {
+    if (!change) return
+    setIsSending(true)
+    try {
+      await change.send()
+      await queryClient.invalidateQueries({ predicate: ({ queryKey }) => queryKey[0] === "hedvault" })
+      onClose()
+    } catch {
+      // The transaction toast already explains the failure; keep the diff open for a retry
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!change} onOpenChange={(open) => !open && !isSending && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{change?.title}</DialogTitle>
+          <DialogDescription className="font-mono text-xs">{change?.target}</DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border border-gray-800 divide-y divide-gray-800">
+          <div className="grid grid-cols-[1fr_1fr_auto_1fr] gap-3 px-4 py-2 text-xs text-gray-500">
+            <span>Setting</span>
+            <span>Current</span>
+            <span />
+            <span>New</span>
+          </div>
+          {change?.rows.map((row) => {
+            const rowChanged = isChanged(row)
+            return (
+              <div
+                key={row.label}
+                className={`grid grid-cols-[1fr_1fr_auto_1fr] items-center gap-3 px-4 py-2 text-sm ${
+                  rowChanged ? "" : "opacity-50"
+                }`}
+              >
+                <span className="text-gray-300">{row.label}</span>
+                <span className={`font-mono break-all ${rowChanged ? "text-red-400 line-through" : "text-gray-400"}`}>
+                  {row.from}
+                </span>
+                <ArrowRight className="h-3 w-3 text-gray-500" />
+                <span className={`font-mono break-all ${rowChanged ? "text-green-400" : "text-gray-400"}`}>
+                  {row.to}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+        {changed.length === 0 && (
+          <p className="text-sm text-yellow-400">Nothing changes; every value already matches.</p>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isSending}
+            className="border-gray-700 text-gray-300 hover:bg-gray-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isSending || changed.length === 0}
+            className={
+              change?.destructive
+                ? "bg-red-600 hover:bg-red-700 text-white"
+                : "bg-green-500 hover:bg-green-600 text-black"
+            }
+          >
+            {isSending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Confirming...
+              </>
+            ) : (
+              `Confirm ${changed.length} change${changed.length === 1 ? "" : "s"}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
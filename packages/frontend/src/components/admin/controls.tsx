@@ -0,0 +1,92 @@
+"use client"
+
+import type React from "react"
+import { Input } from "@/components/ui/input"
+import { bpsToPercentInput, formatBps, parsePercentToBps } from "@/lib/admin"
+import type { PendingChange } from "./change-dialog"
+
+// Opens the old-vs-new confirmation for a change
+export type ReviewChange = (change: PendingChange) => void
+
+export const inputClassName = "bg-gray-800 border-gray-600 text-white"
+
+export const selectClassName =
+  "w-full p-2 rounded-md bg-gray-800 border border-gray-600 text-white focus:border-green-500 focus:outline-none"
+
+export const shortHex = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`
+
+export function ControlSection({
+  title,
+  description,
+  children,
+}: {
+  title: string
+  description: string
+  children: React.ReactNode
+}) {
+  return (
+    <div className="space-y-4 p-4 rounded-lg bg-gray-900/70">
+      <div>
+        <h3 className="text-white font-semibold">{title}</h3>
+        <p className="text-gray-400 text-sm">{description}</p>
+      </div>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Percentage input for a basis-point setting. Left empty it keeps the
+ * current value, which doubles as the placeholder.
+ */
+export function PercentField({
+  label,
+  value,
+  onChange,
+  current,
+  max,
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  current?: bigint | number
+  max?: number
+}) {
+  const error = percentError(value, max)
+  return (
+    <div className="space-y-1">
+      <label className="text-sm text-gray-400 block">{label}</label>
+      <div className="relative">
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value.replace(/[^\d.]/g, ""))}
+          placeholder={current === undefined ? "…" : bpsToPercentInput(current)}
+          inputMode="decimal"
+          className={`${inputClassName} pr-8 ${error ? "border-red-500" : ""}`}
+        />
+        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">%</span>
+      </div>
+      <p className={`text-xs ${error ? "text-red-400" : "text-gray-500"}`}>
+        {error ??
+          [current !== undefined && `Now ${formatBps(current)}`, max !== undefined && `max ${formatBps(max)}`]
+            .filter(Boolean)
+            .join(" · ")}
+      </p>
+    </div>
+  )
+}
+
+// Why a typed percentage can't be used; undefined when empty or valid
+export const percentError = (value: string, max?: number) => {
+  if (value.trim() === "") return undefined
+  const bps = parsePercentToBps(value)
+  if (bps === undefined) return "Enter a percentage with at most two decimals"
+  if (max !== undefined && bps > max) return `At most ${formatBps(max)}`
+  return undefined
+}
+
+// The basis points a percent field resolves to: the typed value, else the current one
+export const resolveBps = (value: string, current: bigint) => {
+  const bps = parsePercentToBps(value)
+  return value.trim() === "" || bps === undefined ? current : BigInt(bps)
+}
@@ -0,0 +1,273 @@
+"use client"
+
+import { useState } from "react"
+import { Address } from "viem"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  useGetCoreModules,
+  useGetProtocolFees,
+  useGetProtocolLimits,
+  useIsEmergencyMode,
+  useIsPaused,
+  usePauseContract,
+  useUnpauseContract,
+  useUpdateFee,
+  useUpdateModule,
+  useUpdateProtocolLimit,
+} from "@/hooks/contracts/useHedVaultCore"
+import {
+  CORE_FEE_TYPES,
+  CORE_MODULE_TYPES,
+  PROTOCOL_LIMIT_TYPES,
+  type CoreFeeType,
+  type CoreModuleType,
+  formatBps,
+} from "@/lib/admin"
+import { formatAmount, parseAmount, sanitizeAmountInput, validateAmount } from "@/lib/sdk"
+import { AddressInput } from "../dashboard/ui/address-input"
+import {
+  ControlSection,
+  PercentField,
+  type ReviewChange,
+  inputClassName,
+  percentError,
+  resolveBps,
+  selectClassName,
+} from "./controls"
+
+// HedVaultCore limits are USD amounts with 18 decimals
+const LIMIT_DECIMALS = 18
+
+export function ProtocolFeesControl({ review }: { review: ReviewChange }) {
+  const { data: fees } = useGetProtocolFees()
+  const updateFee = useUpdateFee()
+  const [inputs, setInputs] = useState<Partial<Record<CoreFeeType, string>>>({})
+
+  const invalid = CORE_FEE_TYPES.some(({ type, max }) => percentError(inputs[type] ?? "", max))
+
+  const handleReview = () => {
+    if (!fees) return
+    const next = CORE_FEE_TYPES.map(({ type }) => ({ type, fee: resolveBps(inputs[type] ?? "", fees[type]) }))
+    const changed = next.filter(({ type, fee }) => fee !== fees[type])
+    review({
+      title: "Update protocol fees",
+      target: changed.length > 1 ? `HedVaultCore.updateFee ×${changed.length}` : "HedVaultCore.updateFee",
+      rows: CORE_FEE_TYPES.map(({ type, label }, index) => ({
+        label,
+        from: formatBps(fees[type]),
+        to: formatBps(next[index].fee),
+      })),
+      // One updateFee per fee: the deployed batchUpdateFees calls this.updateFee,
+      // which makes HedVaultCore the caller and fails the admin check
+      send: async () => {
+        for (const { type, fee } of changed) {
+          await updateFee.submit(type, fee).confirmed
+        }
+        setInputs({})
+      },
+    })
+  }
+
+  return (
+    <ControlSection title="Protocol Fees" description="Fees HedVaultCore reports to every module, in percent">
+      <div className="grid grid-cols-2 gap-4">
+        {CORE_FEE_TYPES.map(({ type, label, max }) => (
+          <PercentField
+            key={type}
+            label={label}
+            value={inputs[type] ?? ""}
+            onChange={(value) => setInputs((current) => ({ ...current, [type]: value }))}
+            current={fees?.[type]}
+            max={max}
+          />
+        ))}
+      </div>
+      <Button onClick={handleReview} disabled={!fees || invalid} className="bg-green-500 hover:bg-green-600 text-black">
+        Review Changes
+      </Button>
+    </ControlSection>
+  )
+}
+
+export function ProtocolLimitsControl({ review }: { review: ReviewChange }) {
+  const { data: limits } = useGetProtocolLimits()
+  const updateProtocolLimit = useUpdateProtocolLimit()
+  const [inputs, setInputs] = useState<Record<string, string>>({})
+
+  const next = limits
+    ? PROTOCOL_LIMIT_TYPES.map(({ type, field }) => {
+        const input = (inputs[type] ?? "").trim()
+        return {
+          type,
+          current: limits[field],
+          value: input && !validateAmount(input, LIMIT_DECIMALS) ? parseAmount(input, LIMIT_DECIMALS) : limits[field],
+        }
+      })
+    : []
+  const valueOf = (type: string) => next.find((limit) => limit.type === type)?.value
+  const minTx = valueOf("minTransactionAmount")
+  const maxTx = valueOf("maxTransactionAmount")
+
+  const fieldError = (type: string) => {
+    const input = (inputs[type] ?? "").trim()
+    if (!input) return undefined
+    const invalid = validateAmount(input, LIMIT_DECIMALS)
+    if (invalid) return invalid
+    if (parseAmount(input, LIMIT_DECIMALS) === BigInt(0)) return "Must be above zero"
+    return undefined
+  }
+  const rangeError =
+    minTx !== undefined && maxTx !== undefined && minTx > maxTx
+      ? "The minimum transaction would be above the maximum"
+      : undefined
+  const invalid = PROTOCOL_LIMIT_TYPES.some(({ type }) => fieldError(type)) || !!rangeError
+
+  const handleReview = () => {
+    if (!limits) return
+    const changed = next.filter(({ current, value }) => current !== value)
+    review({
+      title: "Update protocol limits",
+      target: "HedVaultCore.updateProtocolLimit",
+      rows: PROTOCOL_LIMIT_TYPES.map(({ label }, index) => ({
+        label,
+        from: `$${formatAmount(next[index].current, LIMIT_DECIMALS)}`,
+        to: `$${formatAmount(next[index].value, LIMIT_DECIMALS)}`,
+      })),
+      // There is no batch call; each limit is its own transaction
+      send: async () => {
+        for (const { type, value } of changed) {
+          await updateProtocolLimit.submit(type, value).confirmed
+        }
+        setInputs({})
+      },
+    })
+  }
+
+  return (
+    <ControlSection title="Protocol Limits" description="TVL cap and per-transaction bounds, in USD">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {PROTOCOL_LIMIT_TYPES.map(({ type, label, field }) => {
+          const error = fieldError(type)
+          return (
+            <div key={type} className="space-y-1">
+              <label className="text-sm text-gray-400 block">{label}</label>
+              <Input
+                value={inputs[type] ?? ""}
+                onChange={(e) =>
+                  setInputs((current) => ({ ...current, [type]: sanitizeAmountInput(e.target.value, LIMIT_DECIMALS) }))
+                }
+                placeholder={limits ? formatAmount(limits[field], LIMIT_DECIMALS).replace(/,/g, "") : "…"}
+                inputMode="decimal"
+                className={`${inputClassName} ${error ? "border-red-500" : ""}`}
+              />
+              {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+          )
+        })}
+      </div>
+      {rangeError && <p className="text-sm text-red-400">{rangeError}</p>}
+      <Button onClick={handleReview} disabled={!limits || invalid} className="bg-green-500 hover:bg-green-600 text-black">
+        Review Changes
+      </Button>
+    </ControlSection>
+  )
+}
+
+export function ProtocolPauseControl({ review }: { review: ReviewChange }) {
+  const { data: paused } = useIsPaused()
+  const { data: emergencyMode } = useIsEmergencyMode()
+  const pause = usePauseContract()
+  const unpause = useUnpauseContract()
+
+  const status = (value: boolean) => (value ? "Paused" : "Active")
+
+  const handleReview = () => {
+    if (paused === undefined) return
+    review({
+      title: paused ? "Unpause the protocol" : "Pause the protocol",
+      target: paused ? "HedVaultCore.unpause" : "HedVaultCore.pause",
+      rows: [{ label: "Protocol", from: status(paused), to: status(!paused) }],
+      send: () => (paused ? unpause.submit() : pause.submit()).confirmed,
+      destructive: !paused,
+    })
+  }
+
+  return (
+    <ControlSection title="Protocol Status" description="While paused, HedVaultCore rejects user registrations and the activity modules report">
+      <div className="flex items-center justify-between">
+        <div className="text-sm space-y-1">
+          <p className="text-gray-300">
+            Status:{" "}
+            <span className={paused ? "text-red-400" : "text-green-400"}>
+              {paused === undefined ? "…" : status(paused)}
+            </span>
+          </p>
+          {emergencyMode && <p className="text-red-400">Emergency mode is active</p>}
+        </div>
+        <Button
+          onClick={handleReview}
+          disabled={paused === undefined}
+          className={paused ? "bg-green-500 hover:bg-green-600 text-black" : "bg-red-600 hover:bg-red-700 text-white"}
+        >
+          {paused ? "Unpause" : "Pause"}
+        </Button>
+      </div>
+    </ControlSection>
+  )
+}
+
+export function ProtocolModulesControl({ review }: { review: ReviewChange }) {
+  const { data: modules } = useGetCoreModules()
+  const updateModule = useUpdateModule()
+  const [moduleType, setModuleType] = useState<CoreModuleType>(CORE_MODULE_TYPES[0])
+  const [input, setInput] = useState("")
+  const [address, setAddress] = useState<Address | null>(null)
+  const current = modules?.[moduleType]
+
+  const handleReview = () => {
+    if (!current || !address) return
+    review({
+      title: `Replace the ${moduleType} module`,
+      target: "HedVaultCore.updateModule",
+      rows: [{ label: moduleType, from: current, to: address }],
+      send: async () => {
+        await updateModule.submit(moduleType, address).confirmed
+        setInput("")
+      },
+    })
+  }
+
+  return (
+    <ControlSection
+      title="Protocol Modules"
+      description="Point HedVaultCore at a new deployment of one of its modules"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="text-sm text-gray-400 block">Module</label>
+          <select
+            value={moduleType}
+            onChange={(e) => setModuleType(e.target.value as CoreModuleType)}
+            className={selectClassName}
+          >
+            {CORE_MODULE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 font-mono break-all">Now {current ?? "…"}</p>
+        </div>
+        <AddressInput label="New address" value={input} onValueChange={setInput} onAddressChange={setAddress} />
+      </div>
+      <Button
+        onClick={handleReview}
+        disabled={!current || !address}
+        className="bg-green-500 hover:bg-green-600 text-black"
+      >
+        Review Change
+      </Button>
+    </ControlSection>
+  )
+}
@@ -0,0 +1,352 @@
+"use client"
+
+import { useState } from "react"
+import { Address, isAddressEqual } from "viem"
+import { useAccount } from "wagmi"
+import { Button } from "@/components/ui/button"
+import {
+  useActivateEmergencyStop,
+  useDeactivateEmergencyStop,
+  useGetAuctionFee,
+  useGetMakerFee,
+  useGetTakerFee,
+  useGrantRole,
+  useHasRole,
+  useIsAssetTradingEnabled,
+  useIsEmergencyStop,
+  useIsSupportedAsset,
+  useRevokeRole,
+  useSetAssetTradingEnabled,
+  useUpdateFees,
+} from "@/hooks/contracts/useMarketplace"
+import {
+  useAddSupportedToken,
+  useGetCollateralFactor,
+  useGetLiquidationBonus,
+  useIsSupportedToken,
+} from "@/hooks/contracts/useLendingPool"
+import { type PredefinedTokenInfo, usePredefinedRWATokens } from "@/hooks/usePredefinedRWATokens"
+import { useToken } from "@/hooks/useTokenMetadata"
+import {
+  LENDING_COLLATERAL_FACTOR_RANGE,
+  LENDING_MAX_LIQUIDATION_BONUS,
+  MARKETPLACE_MAX_FEE,
+  MARKETPLACE_ROLES,
+  formatBps,
+  parsePercentToBps,
+} from "@/lib/admin"
+import { type RoleName, getRoleId } from "@/lib/sdk"
+import { AddressInput } from "../dashboard/ui/address-input"
+import {
+  ControlSection,
+  PercentField,
+  type ReviewChange,
+  percentError,
+  resolveBps,
+  selectClassName,
+  shortHex,
+} from "./controls"
+
+const MARKETPLACE_FEES = [
+  { key: "maker", label: "Maker fee" },
+  { key: "taker", label: "Taker fee" },
+  { key: "auction", label: "Auction fee" },
+] as const
+
+type MarketplaceFeeKey = (typeof MARKETPLACE_FEES)[number]["key"]
+
+export function MarketplaceFeesControl({ review }: { review: ReviewChange }) {
+  const { data: makerFee } = useGetMakerFee()
+  const { data: takerFee } = useGetTakerFee()
+  const { data: auctionFee } = useGetAuctionFee()
+  const updateFees = useUpdateFees()
+  const [inputs, setInputs] = useState<Partial<Record<MarketplaceFeeKey, string>>>({})
+
+  const current =
+    makerFee !== undefined && takerFee !== undefined && auctionFee !== undefined
+      ? { maker: makerFee, taker: takerFee, auction: auctionFee }
+      : undefined
+  const invalid = MARKETPLACE_FEES.some(({ key }) => percentError(inputs[key] ?? "", MARKETPLACE_MAX_FEE))
+
+  const handleReview = () => {
+    if (!current) return
+    const next = {
+      maker: resolveBps(inputs.maker ?? "", current.maker),
+      taker: resolveBps(inputs.taker ?? "", current.taker),
+      auction: resolveBps(inputs.auction ?? "", current.auction),
+    }
+    review({
+      title: "Update marketplace fees",
+      target: "Marketplace.updateFees",
+      rows: MARKETPLACE_FEES.map(({ key, label }) => ({
+        label,
+        from: formatBps(current[key]),
+        to: formatBps(next[key]),
+      })),
+      send: async () => {
+        await updateFees.submit(next.maker, next.taker, next.auction).confirmed
+        setInputs({})
+      },
+    })
+  }
+
+  return (
+    <ControlSection title="Marketplace Fees" description="Charged on each fill and on settled auctions">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {MARKETPLACE_FEES.map(({ key, label }) => (
+          <PercentField
+            key={key}
+            label={label}
+            value={inputs[key] ?? ""}
+            onChange={(value) => setInputs((existing) => ({ ...existing, [key]: value }))}
+            current={current?.[key]}
+            max={MARKETPLACE_MAX_FEE}
+          />
+        ))}
+      </div>
+      <Button onClick={handleReview} disabled={!current || invalid} className="bg-green-500 hover:bg-green-600 text-black">
+        Review Changes
+      </Button>
+    </ControlSection>
+  )
+}
+
+function AssetTradingRow({ token, review }: { token: PredefinedTokenInfo; review: ReviewChange }) {
+  const { data: supported } = useIsSupportedAsset(token.address)
+  const { data: enabled } = useIsAssetTradingEnabled(token.address)
+  const setAssetTradingEnabled = useSetAssetTradingEnabled()
+
+  const status = (value: boolean) => (value ? "Enabled" : "Disabled")
+
+  const handleReview = () => {
+    if (enabled === undefined) return
+    review({
+      title: `${enabled ? "Disable" : "Enable"} ${token.symbol} trading`,
+      target: "Marketplace.setAssetTradingEnabled",
+      rows: [{ label: `${token.symbol} trading`, from: status(enabled), to: status(!enabled) }],
+      send: () => setAssetTradingEnabled.submit(token.address, !enabled).confirmed,
+      destructive: enabled,
+    })
+  }
+
+  return (
+    <div className="flex items-center justify-between py-2">
+      <div>
+        <p className="text-white text-sm">{token.symbol}</p>
+        <p className="text-gray-500 text-xs font-mono">{shortHex(token.address)}</p>
+      </div>
+      {supported === false ? (
+        <span className="text-xs text-gray-500">Not listed</span>
+      ) : (
+        <div className="flex items-center gap-3">
+          <span className={`text-xs ${enabled ? "text-green-400" : "text-gray-400"}`}>
+            {enabled === undefined ? "…" : status(enabled)}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleReview}
+            disabled={enabled === undefined}
+            className="border-gray-700 bg-transparent text-gray-300 hover:bg-gray-800"
+          >
+            {enabled ? "Disable" : "Enable"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function AssetTradingControl({ review }: { review: ReviewChange }) {
+  const { tokens } = usePredefinedRWATokens()
+
+  return (
+    <ControlSection
+      title="Asset Trading"
+      description="Turn trading on or off for listed assets; open orders stay on the book"
+    >
+      <div className="divide-y divide-gray-800">
+        {tokens.map((token) => (
+          <AssetTradingRow key={token.address} token={token} review={review} />
+        ))}
+      </div>
+    </ControlSection>
+  )
+}
+
+export function EmergencyStopControl({ review }: { review: ReviewChange }) {
+  const { data: stopped } = useIsEmergencyStop()
+  const activate = useActivateEmergencyStop()
+  const deactivate = useDeactivateEmergencyStop()
+
+  const status = (value: boolean) => (value ? "Stopped" : "Trading")
+
+  const handleReview = () => {
+    if (stopped === undefined) return
+    review({
+      title: stopped ? "Lift the emergency stop" : "Stop all marketplace trading",
+      target: stopped ? "Marketplace.deactivateEmergencyStop" : "Marketplace.activateEmergencyStop",
+      rows: [{ label: "Marketplace", from: status(stopped), to: status(!stopped) }],
+      send: () => (stopped ? deactivate.submit() : activate.submit()).confirmed,
+      destructive: !stopped,
+    })
+  }
+
+  return (
+    <ControlSection title="Emergency Stop" description="Halts new orders, auctions, bids and settlements across the marketplace">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-300">
+          Status:{" "}
+          <span className={stopped ? "text-red-400" : "text-green-400"}>
+            {stopped === undefined ? "…" : status(stopped)}
+          </span>
+        </p>
+        <Button
+          onClick={handleReview}
+          disabled={stopped === undefined}
+          className={stopped ? "bg-green-500 hover:bg-green-600 text-black" : "bg-red-600 hover:bg-red-700 text-white"}
+        >
+          {stopped ? "Lift Stop" : "Activate Stop"}
+        </Button>
+      </div>
+    </ControlSection>
+  )
+}
+
+export function MarketplaceRolesControl({ review }: { review: ReviewChange }) {
+  const { address: self } = useAccount()
+  const [input, setInput] = useState("")
+  const [account, setAccount] = useState<Address | null>(null)
+  const [role, setRole] = useState<RoleName>(MARKETPLACE_ROLES[1])
+  const { data: granted } = useHasRole(role, account ?? undefined)
+  const grantRole = useGrantRole()
+  const revokeRole = useRevokeRole()
+
+  const status = (value: boolean) => (value ? "Granted" : "Not granted")
+  const revokingOwnAdmin =
+    granted && role === "DEFAULT_ADMIN_ROLE" && !!self && !!account && isAddressEqual(self, account)
+
+  const handleReview = () => {
+    if (!account || granted === undefined) return
+    review({
+      title: `${granted ? "Revoke" : "Grant"} ${role}`,
+      target: granted ? "Marketplace.revokeRole" : "Marketplace.grantRole",
+      rows: [{ label: `${role} · ${shortHex(account)}`, from: status(granted), to: status(!granted) }],
+      send: () => (granted ? revokeRole : grantRole).submit(getRoleId(role), account).confirmed,
+      destructive: granted,
+    })
+  }
+
+  return (
+    <ControlSection title="Marketplace Roles" description="Grant or revoke operator roles on the Marketplace">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <AddressInput label="Account" value={input} onValueChange={setInput} onAddressChange={setAccount} />
+        <div className="space-y-1">
+          <label className="text-sm text-gray-400 block">Role</label>
+          <select value={role} onChange={(e) => setRole(e.target.value as RoleName)} className={selectClassName}>
+            {MARKETPLACE_ROLES.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          {account && granted !== undefined && (
+            <p className="text-xs text-gray-500">Currently {status(granted).toLowerCase()}</p>
+          )}
+        </div>
+      </div>
+      {revokingOwnAdmin && (
+        <p className="text-sm text-yellow-400">
+          This removes your own admin role; only another admin can grant it back.
+        </p>
+      )}
+      <Button
+        onClick={handleReview}
+        disabled={!account || granted === undefined}
+        className="bg-green-500 hover:bg-green-600 text-black"
+      >
+        {granted ? "Review Revoke" : "Review Grant"}
+      </Button>
+    </ControlSection>
+  )
+}
+
+export function LendingTokenControl({ review }: { review: ReviewChange }) {
+  const [input, setInput] = useState("")
+  const [token, setToken] = useState<Address | null>(null)
+  const [collateralFactor, setCollateralFactor] = useState("")
+  const [liquidationBonus, setLiquidationBonus] = useState("")
+  const { data: tokenInfo } = useToken(token ?? undefined)
+  const { data: supported } = useIsSupportedToken(token ?? undefined)
+  const { data: currentFactor } = useGetCollateralFactor(supported ? (token ?? undefined) : undefined)
+  const { data: currentBonus } = useGetLiquidationBonus(supported ? (token ?? undefined) : undefined)
+  const addSupportedToken = useAddSupportedToken()
+
+  const factorBps = parsePercentToBps(collateralFactor)
+  const bonusBps = parsePercentToBps(liquidationBonus)
+  const factorError =
+    percentError(collateralFactor, LENDING_COLLATERAL_FACTOR_RANGE.max) ??
+    (factorBps !== undefined && factorBps < LENDING_COLLATERAL_FACTOR_RANGE.min
+      ? `At least ${formatBps(LENDING_COLLATERAL_FACTOR_RANGE.min)}`
+      : undefined)
+  const bonusError = percentError(liquidationBonus, LENDING_MAX_LIQUIDATION_BONUS)
+  const canReview =
+    !!token && supported === false && factorBps !== undefined && bonusBps !== undefined && !factorError && !bonusError
+
+  const handleReview = () => {
+    if (!token || factorBps === undefined || bonusBps === undefined) return
+    const label = tokenInfo?.symbol ?? shortHex(token)
+    review({
+      title: `Add ${label} to the lending pool`,
+      target: "LendingPool.addSupportedToken",
+      rows: [
+        { label: `${label} supported`, from: "No", to: "Yes" },
+        { label: "Collateral factor", from: "—", to: formatBps(factorBps) },
+        { label: "Liquidation bonus", from: "—", to: formatBps(bonusBps) },
+      ],
+      send: async () => {
+        await addSupportedToken.submit(token, BigInt(factorBps), BigInt(bonusBps)).confirmed
+        setInput("")
+        setCollateralFactor("")
+        setLiquidationBonus("")
+      },
+    })
+  }
+
+  return (
+    <ControlSection title="Lending Tokens" description="List a token for deposits, borrowing and collateral">
+      <AddressInput label="Token" value={input} onValueChange={setInput} onAddressChange={setToken} />
+      {supported && (
+        <p className="text-sm text-gray-400">
+          {tokenInfo?.symbol ?? "This token"} is already supported
+          {currentFactor !== undefined && currentBonus !== undefined
+            ? `, with a ${formatBps(currentFactor)} collateral factor and ${formatBps(currentBonus)} liquidation bonus`
+            : ""}
+          .
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <PercentField
+            label="Collateral factor"
+            value={collateralFactor}
+            onChange={setCollateralFactor}
+            max={LENDING_COLLATERAL_FACTOR_RANGE.max}
+          />
+          {factorError && !percentError(collateralFactor, LENDING_COLLATERAL_FACTOR_RANGE.max) && (
+            <p className="text-xs text-red-400">{factorError}</p>
+          )}
+        </div>
+        <PercentField
+          label="Liquidation bonus"
+          value={liquidationBonus}
+          onChange={setLiquidationBonus}
+          max={LENDING_MAX_LIQUIDATION_BONUS}
+        />
+      </div>
+      <Button onClick={handleReview} disabled={!canReview} className="bg-green-500 hover:bg-green-600 text-black">
+        Review Change
+      </Button>
+    </ControlSection>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { AlertTriangle, Info, Loader2, ShieldAlert } from "lucide-react"
+import type { Address } from "viem"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useRoleExplorer } from "@/hooks/useRoleExplorer"
+import { type RoleEntry, type RoleRisk, type RoleRiskLevel, ROLE_CONTRACTS, formatRole } from "@/lib/accessControl"
+import { inputClassName, selectClassName } from "./controls"
+
+const RISK_STYLES: Record<RoleRiskLevel, { icon: typeof Info; className: string }> = {
+  critical: { icon: ShieldAlert, className: "border-red-500/40 bg-red-500/10 text-red-300" },
+  warning: { icon: AlertTriangle, className: "border-yellow-500/40 bg-yellow-500/10 text-yellow-200" },
+  info: { icon: Info, className: "border-gray-700 bg-gray-900/70 text-gray-300" },
+}
+
+function RiskList({ risks }: { risks: RoleRisk[] }) {
+  if (risks.length === 0) {
+    return <p className="text-sm text-green-400">No risky role setups found.</p>
+  }
+  return (
+    <div className="space-y-2">
+      {risks.map((risk, index) => {
+        const { icon: Icon, className } = RISK_STYLES[risk.level]
+        return (
+          <div key={index} className={`flex gap-3 rounded-lg border p-3 text-sm ${className}`}>
+            <Icon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="font-medium">{risk.title}</p>
+              <p className="opacity-80">{risk.detail}</p>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function Holder({ account, isContract, grantedAt }: { account: Address; isContract: boolean; grantedAt?: bigint }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="font-mono text-gray-200 break-all">{account}</span>
+      <span
+        className={`px-1.5 py-0.5 rounded ${isContract ? "bg-blue-500/15 text-blue-300" : "bg-gray-800 text-gray-400"}`}
+      >
+        {isContract ? "Contract" : "EOA"}
+      </span>
+      {grantedAt !== undefined && <span className="text-gray-500">block {grantedAt.toString()}</span>}
+    </div>
+  )
+}
+
+function RoleRow({ entry, contractAccounts }: { entry: RoleEntry; contractAccounts: Set<string> }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr] gap-2 px-4 py-3 text-sm">
+      <span className="text-white font-mono">{formatRole(entry.role)}</span>
+      <span className="text-gray-400 font-mono">{formatRole(entry.adminRole)}</span>
+      <div className="space-y-1">
+        {entry.members.length === 0 ? (
+          <span className="text-gray-600">No holders</span>
+        ) : (
+          entry.members.map((member) => (
+            <Holder
+              key={member.account}
+              account={member.account}
+              isContract={contractAccounts.has(member.account.toLowerCase())}
+              grantedAt={member.grantedAt}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Who holds which role on every AccessControl module, each role's admin,
+ * and the setups worth fixing. Read-only, so it is shown to any account.
+ */
+export function RoleExplorer() {
+  const { data, isLoading } = useRoleExplorer()
+  const [contract, setContract] = useState("all")
+  const [search, setSearch] = useState("")
+
+  const term = search.trim().toLowerCase()
+  const entries = useMemo(
+    () =>
+      (data?.entries ?? []).filter(
+        (entry) =>
+          (contract === "all" || entry.contract === contract) &&
+          (!term || entry.members.some((member) => member.account.toLowerCase().includes(term)))
+      ),
+    [data, contract, term]
+  )
+  const contracts = [...new Set(entries.map((entry) => entry.contract))]
+
+  return (
+    <Card className="bg-gray-950/80 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-white">Role Explorer</CardTitle>
+        <p className="text-gray-400">Role holders rebuilt from RoleGranted and RoleRevoked events</p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Indexing role events…
+          </div>
+        ) : (
+          <>
+            <RiskList risks={data.risks} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <select value={contract} onChange={(e) => setContract(e.target.value)} className={selectClassName}>
+                <option value="all">All modules</option>
+                {ROLE_CONTRACTS.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Filter by holder address"
+                className={inputClassName}
+              />
+            </div>
+
+            {data.coreOwner && contract === "all" && data.coreOwner.toLowerCase().includes(term) && (
+              <div className="rounded-lg border border-gray-800 px-4 py-3 space-y-1">
+                <p className="text-sm text-white">HedVaultCore owner</p>
+                <Holder account={data.coreOwner} isContract={data.contractAccounts.has(data.coreOwner.toLowerCase())} />
+              </div>
+            )}
+
+            {contracts.length === 0 && <p className="text-sm text-gray-400">No roles match.</p>}
+            {contracts.map((name) => (
+              <div key={name} className="space-y-2">
+                <h3 className="text-white font-semibold">{name}</h3>
+                <div className="rounded-lg border border-gray-800 divide-y divide-gray-800">
+                  <div className="hidden md:grid grid-cols-[1fr_1fr_2fr] gap-2 px-4 py-2 text-xs text-gray-500">
+                    <span>Role</span>
+                    <span>Admin role</span>
+                    <span>Holders</span>
+                  </div>
+                  {entries
+                    .filter((entry) => entry.contract === name)
+                    .map((entry) => (
+                      <RoleRow key={entry.role} entry={entry} contractAccounts={data.contractAccounts} />
+                    ))}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
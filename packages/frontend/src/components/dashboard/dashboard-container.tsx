@@ -1,18 +1,23 @@
 "use client"
 
 import { useState } from "react"
+import { useOutbidNotifications } from "@/hooks/useOutbidNotifications"
 import { DashboardSidebar } from "./layout/dashboard-sidebar"
 import { DashboardMain } from "./layout/dashboard-main"
 import { DashboardTab } from "./tabs/dashboard-tab"
+import { PortfolioTab } from "./tabs/portfolio-tab"
+import { MarketsTab } from "./tabs/markets-tab"
 import { BlendTab } from "./tabs/blend-tab"
 import { SwapTab } from "./tabs/swap-tab"
 import { BridgeTab } from "./tabs/bridge-tab"
 import { BuySellTab } from "./tabs/buysell-tab"
+import { AuctionsTab } from "./tabs/auctions-tab"
 import { RewardsTab } from "./tabs/rewards-tab"
 
 export function DashboardContainer() {
   const [activeTab, setActiveTab] = useState("dashboard")
   const [isCollapsed, setIsCollapsed] = useState(false)
+  useOutbidNotifications(() => setActiveTab("auctions"))
 
   const handleToggleCollapse = () => {
     setIsCollapsed(!isCollapsed)
@@ -22,6 +27,10 @@ export function DashboardContainer() {
     switch (activeTab) {
       case "dashboard":
         return <DashboardTab />
+      case "portfolio":
+        return <PortfolioTab />
+      case "markets":
+        return <MarketsTab />
       case "blend":
         return <BlendTab />
       case "swap":
@@ -30,6 +39,8 @@ export function DashboardContainer() {
         return <BridgeTab />
       case "buysell":
         return <BuySellTab />
+      case "auctions":
+        return <AuctionsTab />
       case "rewards":
         return <RewardsTab />
       default:
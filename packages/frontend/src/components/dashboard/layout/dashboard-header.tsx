@@ -3,6 +3,7 @@
 import { Bell, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { TransactionDrawer } from "@/components/dashboard/ui/transaction-drawer";
 
 export function DashboardHeader() {
   return (
@@ -18,6 +19,7 @@ export function DashboardHeader() {
         </div>
 
         <div className="flex items-center space-x-4">
+          <TransactionDrawer />
           <Button
             variant="ghost"
             size="sm"
@@ -14,6 +14,14 @@ export function DashboardMain({ activeTab, children }: DashboardMainProps) {
         title: "Portfolio Dashboard",
         description: "Overview of your RWA portfolio and activities",
       },
+      portfolio: {
+        title: "Managed Portfolios",
+        description: "Target allocations, rebalancing and performance of your portfolios",
+      },
+      markets: {
+        title: "Market Data",
+        description: "Oracle appraisals, market metrics and offchain data requests for RWAs",
+      },
       blend: {
         title: "Blend Strategies",
         description: "Lending, borrowing, and yield strategies for your RWAs",
@@ -30,6 +38,10 @@ export function DashboardMain({ activeTab, children }: DashboardMainProps) {
         title: "Buy & Sell",
         description: "Buy and sell tokenized real-world assets",
       },
+      auctions: {
+        title: "Auctions",
+        description: "Bid on and auction tokenized real-world assets",
+      },
       rewards: {
         title: "Rewards Center",
         description: "Manage your staking rewards and yields",
@@ -9,12 +9,18 @@ import {
   BracketsIcon as Bridge,
   TrendingUp,
   Gift,
+  PieChart,
+  BarChart3,
   Settings,
   LogOut,
   ChevronLeft,
+  Gavel,
+  Shield,
 } from "lucide-react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { WalletCard } from "@/components/ui/wallet-card";
+import { useAdminAccess } from "@/hooks/useAdminAccess";
 interface Tab {
   id: string;
   label: string;
@@ -34,12 +40,16 @@ export function DashboardSidebar({
   isCollapsed,
   onToggleCollapse,
 }: DashboardSidebarProps) {
+  const { hasAny: isOperator } = useAdminAccess();
   const tabs: Tab[] = [
     { id: "dashboard", label: "Dashboard", icon: LayoutDashboard },
+    { id: "portfolio", label: "Portfolio", icon: PieChart },
+    { id: "markets", label: "Markets", icon: BarChart3 },
     { id: "blend", label: "Blend", icon: Shuffle },
     { id: "swap", label: "Swap", icon: ArrowLeftRight },
     { id: "bridge", label: "Bridge", icon: Bridge },
     { id: "buysell", label: "Buy/Sell", icon: TrendingUp },
+    { id: "auctions", label: "Auctions", icon: Gavel },
     { id: "rewards", label: "Rewards", icon: Gift },
   ];
 
@@ -123,6 +133,22 @@ export function DashboardSidebar({
               </button>
             );
           })}
+          {isOperator && (
+            <Link
+              href="/admin"
+              className={`w-full flex items-center rounded-xl transition-all duration-200 group text-gray-400 hover:text-white hover:bg-gray-900/50 ${
+                isCollapsed ? "justify-center px-3 py-4" : "space-x-4 px-4 py-3"
+              }`}
+              title={isCollapsed ? "Admin" : undefined}
+            >
+              <Shield className="h-5 w-5 flex-shrink-0 text-gray-500 group-hover:text-gray-300" />
+              {!isCollapsed && (
+                <span className="font-medium text-base transition-opacity duration-300">
+                  Admin
+                </span>
+              )}
+            </Link>
+          )}
         </div>
       </nav>
 
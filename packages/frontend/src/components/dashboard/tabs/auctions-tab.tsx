@@ -0,0 +1,664 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { AlertTriangle, CheckCircle, Clock, Gavel, Loader2, RefreshCw, Trophy } from "lucide-react"
+import { useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { useAccount } from "wagmi"
+import { type Address, isAddressEqual, zeroAddress } from "viem"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  type AuctionData,
+  useCreateAuction,
+  useGetAuctionFee,
+  useGetAuctions,
+  useGetTradableAssets,
+  usePlaceBid,
+  useSettleAuction,
+} from "@/hooks/contracts/useMarketplace"
+import { useTokenAllowance, useTokenApproval, useTokenBalance } from "@/hooks/contracts/useLendingPool"
+import { useContractConfig } from "@/hooks/useContractConfig"
+import { useHedVaultClient } from "@/hooks/useHedVaultClient"
+import { useAuctionHistory, useOnIndexerSync } from "@/hooks/useIndexedEvents"
+import { useRWATokenFactoryTokens } from "@/hooks/useRWATokenFactoryTokens"
+import { useToken } from "@/hooks/useTokenMetadata"
+import { formatTimeAgo } from "@/lib/activity"
+import { getContractNativeUnit } from "@/lib/chains"
+import {
+  AUCTION_BIDS_ESCROWED,
+  AUCTION_MAX_DURATION,
+  AUCTION_MIN_DURATION,
+  canSettleAuction,
+  formatAmount,
+  getAuctionStatus,
+  getMinimumBid,
+  isReserveMet,
+  parseAmount,
+  sanitizeAmountInput,
+  validateAmount,
+} from "@/lib/sdk"
+import { RWA_TOKEN_ADDRESSES } from "@/config/rwaTokenFactory"
+import { TokenAssociationNotice } from "../ui/token-association"
+
+const PREDEFINED_TOKENS: Address[] = [
+  RWA_TOKEN_ADDRESSES.GOLD,
+  RWA_TOKEN_ADDRESSES.SILVER,
+  RWA_TOKEN_ADDRESSES.REAL_ESTATE,
+]
+
+const DURATIONS = [
+  { label: "1 hour", seconds: AUCTION_MIN_DURATION },
+  { label: "6 hours", seconds: 6 * 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "3 days", seconds: 3 * 24 * 60 * 60 },
+  { label: "7 days", seconds: AUCTION_MAX_DURATION },
+]
+
+// Bids listed per auction before "show all"
+const RECENT_BIDS = 3
+
+// Settled auctions kept on screen
+const SETTLED_SHOWN = 6
+
+interface Bid {
+  id: string
+  bidder: Address
+  amount: bigint
+  timestamp: bigint | null
+}
+
+interface Settlement {
+  winner: Address
+  finalPrice: bigint
+}
+
+const shortHex = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`
+
+const formatCountdown = (seconds: bigint) => {
+  const total = Number(seconds)
+  const days = Math.floor(total / 86_400)
+  const hours = Math.floor((total % 86_400) / 3_600)
+  const minutes = Math.floor((total % 3_600) / 60)
+  const secs = total % 60
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${secs.toString().padStart(2, "0")}s`
+}
+
+// Current unix time in seconds, ticking once a second for countdowns
+function useNow() {
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)))
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  return now
+}
+
+/**
+ * Refreshes marketplace reads and balances after an auction action and
+ * whenever the indexer picks up new events
+ */
+function useRefreshAuctions() {
+  const queryClient = useQueryClient()
+
+  return () =>
+    queryClient.invalidateQueries({
+      predicate: ({ queryKey }) =>
+        queryKey[0] === "hedvault" && (queryKey[2] === "marketplace" || queryKey[2] === "token"),
+    })
+}
+
+// Prices and bids are native amounts in the units the contract sees; placeBid
+// only records them, and refunds and proceeds are paid from the Marketplace
+function useNativeUnit() {
+  const client = useHedVaultClient()
+  return getContractNativeUnit(client.chainId)
+}
+
+function TokenOption({ token }: { token: Address }) {
+  const { data } = useToken(token)
+  return <option value={token}>{data ? `${data.symbol} · ${data.name}` : shortHex(token)}</option>
+}
+
+function CreateAuctionForm({ assets, onCreated }: { assets: Address[]; onCreated: () => Promise<unknown> }) {
+  const { isConnected } = useAccount()
+  const { symbol, decimals: nativeDecimals } = useNativeUnit()
+  const [selectedAsset, setSelectedAsset] = useState<Address>()
+  const [amount, setAmount] = useState("")
+  const [startPrice, setStartPrice] = useState("")
+  const [reservePrice, setReservePrice] = useState("")
+  const [duration, setDuration] = useState(DURATIONS[2].seconds)
+
+  const asset = selectedAsset && assets.includes(selectedAsset) ? selectedAsset : assets[0]
+  const marketplace = useContractConfig("Marketplace")
+  const { data: token } = useToken(asset)
+  const balance = useTokenBalance(asset)
+  const allowance = useTokenAllowance(asset, marketplace.address)
+  const tokenApproval = useTokenApproval(asset)
+  const createAuction = useCreateAuction()
+  const { data: auctionFee } = useGetAuctionFee()
+
+  const amountError = amount && token ? validateAmount(amount, token.decimals) : undefined
+  const amountValue = amount && token && !amountError ? parseAmount(amount, token.decimals) : undefined
+  const startError = startPrice ? validateAmount(startPrice, nativeDecimals) : undefined
+  const startValue = startPrice && !startError ? parseAmount(startPrice, nativeDecimals) : undefined
+  const reserveError = reservePrice ? validateAmount(reservePrice, nativeDecimals) : undefined
+  const reserveValue = reservePrice
+    ? reserveError
+      ? undefined
+      : parseAmount(reservePrice, nativeDecimals)
+    : BigInt(0)
+
+  // The checks createAuction makes, so the button explains itself before the wallet opens
+  const formError = (() => {
+    if (amountError ?? startError ?? reserveError) return amountError ?? startError ?? reserveError
+    if (amountValue !== undefined && balance.data !== undefined && amountValue > balance.data) {
+      return "Insufficient balance"
+    }
+    if (startValue !== undefined && reserveValue !== undefined && reserveValue > startValue) {
+      return "The reserve can't be above the start price"
+    }
+    return undefined
+  })()
+
+  const busy = tokenApproval.isPending || tokenApproval.isConfirming || createAuction.isPending || createAuction.isConfirming
+  const ready = !!asset && amountValue !== undefined && startValue !== undefined && reserveValue !== undefined
+
+  const handleCreate = async () => {
+    if (!asset || amountValue === undefined || startValue === undefined || reserveValue === undefined) return
+    if (formError) {
+      toast.error(formError)
+      return
+    }
+
+    try {
+      // The asset is locked in the marketplace until the auction settles
+      if ((allowance.data ?? BigInt(0)) < amountValue) {
+        await tokenApproval.submit(marketplace.address, amountValue).confirmed
+      }
+      await createAuction.submit(asset, amountValue, startValue, reserveValue, BigInt(duration)).confirmed
+      setAmount("")
+      setStartPrice("")
+      setReservePrice("")
+      await onCreated()
+    } catch {
+      // The transaction toast reports the failure
+    }
+  }
+
+  return (
+    <Card className="bg-gray-950/80 border-gray-800">
+      <CardHeader>
+        <CardTitle className="text-white">Start an Auction</CardTitle>
+        <p className="text-gray-400 text-sm">
+          Bids are placed in {symbol}
+          {auctionFee !== undefined && `; the marketplace keeps ${(Number(auctionFee) / 100).toFixed(2)}% of the winning bid`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Asset</label>
+          <select
+            value={asset ?? ""}
+            onChange={(e) => {
+              setSelectedAsset(e.target.value as Address)
+              setAmount("")
+            }}
+            disabled={assets.length === 0}
+            className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+          >
+            {assets.length === 0 && <option value="">No tradable assets</option>}
+            {assets.map((option) => (
+              <TokenOption key={option} token={option} />
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Amount ({token?.symbol ?? "—"})</label>
+          <div className="relative">
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(sanitizeAmountInput(e.target.value, token?.decimals))}
+              disabled={!token}
+              className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none pr-20"
+            />
+            <button
+              onClick={() =>
+                token &&
+                balance.data !== undefined &&
+                setAmount(
+                  formatAmount(balance.data, token.decimals, { maximumFractionDigits: token.decimals }).replace(/,/g, "")
+                )
+              }
+              disabled={!token || balance.data === undefined}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-green-400 hover:text-green-300 text-sm font-medium"
+            >
+              MAX
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">
+            Balance: {token && balance.data !== undefined ? formatAmount(balance.data, token.decimals) : "—"}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm text-gray-400">Start price ({symbol})</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={startPrice}
+              onChange={(e) => setStartPrice(sanitizeAmountInput(e.target.value, nativeDecimals))}
+              className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm text-gray-400">Reserve ({symbol}, optional)</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder="No reserve"
+              value={reservePrice}
+              onChange={(e) => setReservePrice(sanitizeAmountInput(e.target.value, nativeDecimals))}
+              className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Duration</label>
+          <select
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+          >
+            {DURATIONS.map(({ label, seconds }) => (
+              <option key={seconds} value={seconds}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {formError && <p className="text-xs text-red-400">{formError}</p>}
+
+        <Button
+          onClick={handleCreate}
+          className="w-full h-12 bg-green-500 hover:bg-green-600 text-black font-semibold"
+          disabled={!AUCTION_BIDS_ESCROWED || !isConnected || !ready || !!formError || busy}
+        >
+          {busy && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+          {!AUCTION_BIDS_ESCROWED
+            ? "Auctions unavailable"
+            : !isConnected
+              ? "Connect Wallet"
+              : tokenApproval.isPending || tokenApproval.isConfirming
+                ? "Approving..."
+                : `Auction ${token?.symbol ?? ""}`}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+function AuctionCard({
+  auction,
+  bids,
+  settlement,
+  now,
+  onChanged,
+}: {
+  auction: AuctionData
+  // Newest first
+  bids: Bid[]
+  settlement?: Settlement
+  now: bigint
+  onChanged: () => Promise<unknown>
+}) {
+  const { address, isConnected } = useAccount()
+  const { symbol, decimals: nativeDecimals } = useNativeUnit()
+  const { data: token } = useToken(auction.asset)
+  const placeBid = usePlaceBid()
+  const settle = useSettleAuction()
+  const [bid, setBid] = useState("")
+  const [showAllBids, setShowAllBids] = useState(false)
+
+  const status = getAuctionStatus(auction, now)
+  const isSeller = !!address && isAddressEqual(auction.seller, address)
+  const isLeading = !!address && auction.highestBidder !== zeroAddress && isAddressEqual(auction.highestBidder, address)
+  const minimumBid = getMinimumBid(auction)
+  const formatNative = (value: bigint) => `${formatAmount(value, nativeDecimals)} ${symbol}`
+
+  const bidError = bid ? validateAmount(bid, nativeDecimals) : undefined
+  const bidValue = bid && !bidError ? parseAmount(bid, nativeDecimals) : undefined
+  const bidLimitError = (() => {
+    if (bidValue === undefined) return undefined
+    if (bidValue < minimumBid) return `Bid at least ${formatNative(minimumBid)}`
+    return undefined
+  })()
+  const bidding = placeBid.isPending || placeBid.isConfirming
+  const settling = settle.isPending || settle.isConfirming
+
+  const handleBid = async () => {
+    if (bidValue === undefined) return
+    if (bidLimitError) {
+      toast.error(bidLimitError)
+      return
+    }
+
+    try {
+      await placeBid.submit(auction.auctionId, bidValue).confirmed
+      setBid("")
+      await onChanged()
+    } catch {
+      // The transaction toast reports the failure
+    }
+  }
+
+  const handleSettle = async () => {
+    try {
+      await settle.submit(auction.auctionId).confirmed
+      await onChanged()
+    } catch {
+      // The transaction toast reports the failure
+    }
+  }
+
+  const reserveLabel =
+    auction.reservePrice === BigInt(0)
+      ? { text: "No reserve", className: "text-gray-400" }
+      : isReserveMet(auction)
+        ? { text: "Reserve met", className: "text-green-400" }
+        : { text: `Reserve not met (${formatNative(auction.reservePrice)})`, className: "text-yellow-400" }
+  const shownBids = showAllBids ? bids : bids.slice(0, RECENT_BIDS)
+  const describe = (account: Address) => (address && isAddressEqual(account, address) ? "You" : shortHex(account))
+
+  return (
+    <div className="p-5 rounded-xl bg-gray-900/60 border border-gray-700/50 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-white font-semibold text-lg">
+            {token ? formatAmount(auction.amount, token.decimals) : "—"} {token?.symbol ?? shortHex(auction.asset)}
+          </p>
+          <p className="text-gray-400 text-sm">
+            Auction #{auction.auctionId.toString()} · by {describe(auction.seller)}
+          </p>
+        </div>
+        <div className="text-right">
+          {status === "live" ? (
+            <div className="flex items-center space-x-1 text-yellow-400">
+              <Clock className="h-4 w-4" />
+              <span className="font-medium tabular-nums">{formatCountdown(auction.endTime - now)}</span>
+            </div>
+          ) : status === "ended" ? (
+            <span className="text-blue-400 font-medium">Awaiting settlement</span>
+          ) : (
+            <span className="text-gray-400 font-medium">Settled</span>
+          )}
+          <p className={`text-sm ${reserveLabel.className}`}>{reserveLabel.text}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-gray-400">{auction.currentBid > BigInt(0) ? "Leading bid" : "Starting at"}</p>
+          <p className="text-white font-semibold">
+            {formatNative(auction.currentBid > BigInt(0) ? auction.currentBid : auction.startPrice)}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-400">{status === "settled" ? "Winner" : "Leader"}</p>
+          <p className="text-white font-semibold flex items-center space-x-1">
+            {status === "settled" ? (
+              settlement && settlement.winner !== zeroAddress ? (
+                <>
+                  <Trophy className="h-4 w-4 text-yellow-400" />
+                  <span>
+                    {describe(settlement.winner)} · {formatNative(settlement.finalPrice)}
+                  </span>
+                </>
+              ) : (
+                <span className="text-gray-400">Unsold, returned to seller</span>
+              )
+            ) : auction.highestBidder === zeroAddress ? (
+              <span className="text-gray-400">No bids yet</span>
+            ) : (
+              <span className={isLeading ? "text-green-400" : ""}>{describe(auction.highestBidder)}</span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {status === "live" && !isSeller && !AUCTION_BIDS_ESCROWED && (
+        <p className="text-xs text-yellow-400">Bidding is disabled until the Marketplace escrows bids</p>
+      )}
+
+      {status === "live" && !isSeller && AUCTION_BIDS_ESCROWED && (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder={`${formatAmount(minimumBid, nativeDecimals)} or more`}
+              value={bid}
+              onChange={(e) => setBid(sanitizeAmountInput(e.target.value, nativeDecimals))}
+              className="flex-1 p-3 rounded-lg bg-gray-950/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+            />
+            <Button
+              onClick={handleBid}
+              disabled={!isConnected || bidValue === undefined || !!bidLimitError || bidding}
+              className="h-auto bg-green-500 hover:bg-green-600 text-black font-semibold"
+            >
+              {bidding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Gavel className="h-4 w-4" />}
+              <span className="ml-1">{isLeading ? "Raise" : "Bid"}</span>
+            </Button>
+          </div>
+          {(bidError ?? bidLimitError) && <p className="text-xs text-red-400">{bidError ?? bidLimitError}</p>}
+          {isLeading && (
+            <p className="text-xs text-green-400 flex items-center">
+              <CheckCircle className="h-3 w-3 mr-1" />
+              You&apos;re the highest bidder
+            </p>
+          )}
+          <TokenAssociationNotice token={auction.asset} symbol={token?.symbol} />
+        </div>
+      )}
+
+      {status === "ended" && !canSettleAuction(auction) && (
+        <p className="text-xs text-yellow-400">
+          Settling is disabled: it would pay out bids the Marketplace never received
+        </p>
+      )}
+
+      {status === "ended" && canSettleAuction(auction) && (
+        <Button
+          onClick={handleSettle}
+          disabled={!isConnected || settling}
+          variant="outline"
+          className="w-full border-blue-500/30 text-blue-400 bg-transparent hover:bg-blue-500/10"
+        >
+          {settling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isReserveMet(auction) ? "Settle and deliver to the winner" : "Settle and return to the seller"}
+        </Button>
+      )}
+
+      {bids.length > 0 && (
+        <div className="space-y-1 border-t border-gray-800 pt-3">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Bid history</p>
+          {shownBids.map((entry) => (
+            <div key={entry.id} className="flex justify-between text-sm">
+              <span className="text-gray-300">{describe(entry.bidder)}</span>
+              <span className="text-white">{formatNative(entry.amount)}</span>
+              <span className="text-gray-500">{formatTimeAgo(entry.timestamp)}</span>
+            </div>
+          ))}
+          {bids.length > RECENT_BIDS && (
+            <button onClick={() => setShowAllBids(!showAllBids)} className="text-xs text-green-400 hover:text-green-300">
+              {showAllBids ? "Show fewer" : `Show all ${bids.length} bids`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function AuctionsTab() {
+  const { address } = useAccount()
+  const now = useNow()
+  const refresh = useRefreshAuctions()
+  useOnIndexerSync(() => {
+    refresh()
+  })
+
+  const { allTokensWithInfo } = useRWATokenFactoryTokens()
+  const factoryTokens = Array.from(allTokensWithInfo.data?.[0] ?? []) as Address[]
+  const candidates = [...new Set([...PREDEFINED_TOKENS, ...factoryTokens])]
+  const { data: tradableAssets } = useGetTradableAssets(candidates)
+  const { data: auctions, isLoading } = useGetAuctions()
+  const { events } = useAuctionHistory()
+
+  // Bid history and settlements by auction, newest bids first like the events
+  const bidsByAuction = new Map<bigint, Bid[]>()
+  const settlements = new Map<bigint, Settlement>()
+  for (const event of events) {
+    if ("bidder" in event.args) {
+      const { auctionId, bidder, amount } = event.args
+      const bids = bidsByAuction.get(auctionId) ?? []
+      bids.push({ id: event.id, bidder, amount, timestamp: event.blockTimestamp })
+      bidsByAuction.set(auctionId, bids)
+    } else if ("finalPrice" in event.args) {
+      settlements.set(event.args.auctionId, { winner: event.args.winner, finalPrice: event.args.finalPrice })
+    }
+  }
+
+  const all = auctions ?? []
+  const live = all.filter((auction) => getAuctionStatus(auction, now) === "live").sort((a, b) => (a.endTime < b.endTime ? -1 : 1))
+  const ended = all.filter((auction) => getAuctionStatus(auction, now) === "ended")
+  const settled = all.filter((auction) => getAuctionStatus(auction, now) === "settled").slice(0, SETTLED_SHOWN)
+  const leading = address
+    ? live.filter((auction) => auction.highestBidder !== zeroAddress && isAddressEqual(auction.highestBidder, address))
+    : []
+
+  const renderCards = (list: AuctionData[], empty: string) =>
+    list.length === 0 ? (
+      <p className="text-gray-400 text-center py-6">{empty}</p>
+    ) : (
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        {list.map((auction) => (
+          <AuctionCard
+            key={auction.auctionId.toString()}
+            auction={auction}
+            bids={bidsByAuction.get(auction.auctionId) ?? []}
+            settlement={settlements.get(auction.auctionId)}
+            now={now}
+            onChanged={refresh}
+          />
+        ))}
+      </div>
+    )
+
+  return (
+    <div className="space-y-6">
+      {!AUCTION_BIDS_ESCROWED && (
+        <div className="flex gap-3 rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-4 text-sm text-yellow-200">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">Bids are not escrowed</p>
+            <p className="opacity-80">
+              This Marketplace records bids without taking payment, then refunds outbid bidders and pays sellers from
+              its own balance. New auctions, bids and paid settlements are disabled until placeBid escrows the bid;
+              auctions that ended without bids can still be settled to return the asset.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Live Auctions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-white">{live.length}</div>
+            <p className="text-sm mt-2 font-medium text-gray-400">
+              {live[0] ? `Next ends in ${formatCountdown(live[0].endTime - now)}` : "None running"}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">You&apos;re Leading</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-green-400">{leading.length}</div>
+            <p className="text-sm mt-2 font-medium text-gray-400">We&apos;ll tell you if you&apos;re outbid</p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Awaiting Settlement</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-white">{ended.length}</div>
+            <p className="text-sm mt-2 font-medium text-gray-400">Anyone can settle an ended auction</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1">
+          <CreateAuctionForm assets={tradableAssets ?? []} onCreated={refresh} />
+        </div>
+
+        <Card className="bg-gray-950/80 border-gray-800 lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-white">Live Auctions</CardTitle>
+            <Button variant="ghost" size="sm" onClick={() => refresh()} className="text-gray-400 hover:text-white">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : (
+              renderCards(live, "No auctions are taking bids right now.")
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {ended.length > 0 && (
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-white">Ended</CardTitle>
+          </CardHeader>
+          <CardContent>{renderCards(ended, "")}</CardContent>
+        </Card>
+      )}
+
+      {settled.length > 0 && (
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-white">Recently Settled</CardTitle>
+          </CardHeader>
+          <CardContent>{renderCards(settled, "")}</CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { TrendingUp, ArrowUpRight, ArrowDownRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,7 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 // Removed Select imports - using native select elements
 import { toast } from "sonner";
-import { parseEther, formatEther, Address } from "viem";
+import { Address } from "viem";
 import {
   useDeposit,
   useWithdraw,
@@ -18,15 +18,26 @@ import {
   useTokenAllowance,
   useTokenApproval,
   useTokenBalance,
+  useGetLoanInfo,
 } from "@/hooks/contracts/useLendingPool";
-import { CONTRACT_ADDRESSES } from "@/lib/contracts";
+import { useContractConfig } from "@/hooks/useContractConfig";
+import { useToken, useTokenMetadata } from "@/hooks/useTokenMetadata";
+import { useTokenAssociation } from "@/hooks/useTokenAssociation";
+import { TokenAssociationNotice } from "../ui/token-association";
+import {
+  type HedVaultError,
+  amountToNumber,
+  parseAmount,
+  sanitizeAmountInput,
+} from "@/lib/sdk";
+import { RWA_TOKEN_ADDRESSES } from "@/config/rwaTokenFactory";
+
 
-// RWA Token addresses from deployment
-const RWA_TOKEN_ADDRESSES = {
-  GOLD: "0x0000000000000000000000000000000000636359" as Address,
-  SILVER: "0x00000000000000000000000000000000006363ad" as Address,
-  REAL_ESTATE: "0x00000000000000000000000000000000006363ba" as Address,
-};
+const RWA_TOKENS: Address[] = [
+  RWA_TOKEN_ADDRESSES.GOLD,
+  RWA_TOKEN_ADDRESSES.SILVER,
+  RWA_TOKEN_ADDRESSES.REAL_ESTATE,
+];
 
 export function BlendTab() {
   const [activeStrategy, setActiveStrategy] = useState("lend");
@@ -44,17 +55,10 @@ export function BlendTab() {
     RWA_TOKEN_ADDRESSES.GOLD
   );
   const [selectedLoanId, setSelectedLoanId] = useState("");
-  const [isApprovalInProgress, setIsApprovalInProgress] = useState(false);
-  const [isCollateralApprovalInProgress, setIsCollateralApprovalInProgress] =
-    useState(false);
   const [totalLentAmount, setTotalLentAmount] = useState(0);
   const [goldLentAmount, setGoldLentAmount] = useState(0);
   const [realEstateLentAmount, setRealEstateLentAmount] = useState(0);
   const [invoiceLentAmount, setInvoiceLentAmount] = useState(0);
-  const pendingDepositAmountRef = useRef<string>("");
-  const pendingDepositTokenRef = useRef<Address>(RWA_TOKEN_ADDRESSES.GOLD);
-  const pendingWithdrawAmountRef = useRef<string>("");
-  const pendingWithdrawTokenRef = useRef<Address>(RWA_TOKEN_ADDRESSES.GOLD);
 
   // Local storage functions for tracking individual token amounts
   const getTokenLentFromStorage = (tokenType: string): number => {
@@ -217,14 +221,6 @@ export function BlendTab() {
   };
 
   // Legacy functions for backward compatibility
-  const getTotalLentFromStorage = (): number => {
-    if (typeof window !== "undefined") {
-      const stored = localStorage.getItem("hedvault_total_lent");
-      return stored ? parseFloat(stored) : 0;
-    }
-    return 0;
-  };
-
   const addToTotalLent = (depositAmount: number): void => {
     // This function is now handled by addToTokenLent
     console.log("addToTotalLent called (legacy) with:", depositAmount);
@@ -261,6 +257,7 @@ export function BlendTab() {
   }, []);
 
   // Lending Pool Hooks
+  const lendingPool = useContractConfig("LendingPool");
   const deposit = useDeposit();
   const withdraw = useWithdraw();
   const createLoan = useCreateLoan();
@@ -276,7 +273,7 @@ export function BlendTab() {
   // Token approval hooks
   const tokenAllowance = useTokenAllowance(
     selectedToken,
-    CONTRACT_ADDRESSES.LendingPool
+    lendingPool.address
   );
   const tokenApproval = useTokenApproval(selectedToken);
   const tokenBalance = useTokenBalance(selectedToken);
@@ -284,19 +281,42 @@ export function BlendTab() {
   // Collateral token approval for loans
   const collateralAllowance = useTokenAllowance(
     selectedCollateralToken,
-    CONTRACT_ADDRESSES.LendingPool
+    lendingPool.address
   );
   const collateralApproval = useTokenApproval(selectedCollateralToken);
 
+  // Decimals of every token an amount is entered or shown in; HTS tokens
+  // often use fewer than 18
+  const { metadata: rwaTokenMetadata } = useTokenMetadata(RWA_TOKENS);
+  const { data: selectedTokenMetadata } = useToken(selectedToken);
+  const { data: collateralTokenMetadata } = useToken(selectedCollateralToken);
+  const { data: borrowTokenMetadata } = useToken(selectedBorrowToken);
+  // Repayments are in the loan's borrow token, whatever is selected above
+  const repayLoanId = /^\d+$/.test(selectedLoanId)
+    ? BigInt(selectedLoanId)
+    : undefined;
+  const { data: repayLoanInfo } = useGetLoanInfo(repayLoanId);
+  const { data: repayTokenMetadata } = useToken(repayLoanInfo?.borrowToken);
+
+  // Withdrawals and loan disbursements pay out HTS tokens, which the account
+  // has to be associated with first
+  const selectedTokenAssociation = useTokenAssociation(selectedToken);
+  const borrowTokenAssociation = useTokenAssociation(selectedBorrowToken);
+
   // Calculate total deposits across all tokens
   const calculateTotalDeposits = () => {
-    const gold = goldDeposits.data ? Number(formatEther(goldDeposits.data)) : 0;
-    const silver = silverDeposits.data
-      ? Number(formatEther(silverDeposits.data))
-      : 0;
-    const realEstate = realEstateDeposits.data
-      ? Number(formatEther(realEstateDeposits.data))
-      : 0;
+    const deposited = (token: Address, amount?: bigint) => {
+      const decimals = rwaTokenMetadata[token.toLowerCase()]?.decimals;
+      return amount && decimals !== undefined
+        ? amountToNumber(amount, decimals)
+        : 0;
+    };
+    const gold = deposited(RWA_TOKEN_ADDRESSES.GOLD, goldDeposits.data);
+    const silver = deposited(RWA_TOKEN_ADDRESSES.SILVER, silverDeposits.data);
+    const realEstate = deposited(
+      RWA_TOKEN_ADDRESSES.REAL_ESTATE,
+      realEstateDeposits.data
+    );
     return gold + silver + realEstate;
   };
 
@@ -306,254 +326,102 @@ export function BlendTab() {
     silverDeposits.isLoading ||
     realEstateDeposits.isLoading;
 
-  // Handle deposit success/error
-  useEffect(() => {
-    console.log(
-      "Deposit useEffect triggered - isConfirmed:",
-      deposit.isConfirmed,
-      "error:",
-      deposit.error,
-      "pendingAmount:",
-      pendingDepositAmountRef.current
-    );
-    if (deposit.isConfirmed) {
-      // Clear the refs and show success message (local storage already updated when transaction was submitted)
-      if (pendingDepositAmountRef.current) {
-        console.log("Deposit confirmed! Transaction successful.");
-
-        // Clear the refs and show success message
-        pendingDepositAmountRef.current = "";
-        pendingDepositTokenRef.current = RWA_TOKEN_ADDRESSES.GOLD; // Reset to default
-        toast.success("Deposit successful! Your balance has been updated.");
-      } else {
-        console.log("Deposit confirmed but no pending amount in ref!");
-      }
-    }
-    if (deposit.error) {
-      console.log("Deposit error:", deposit.error.message);
-      toast.error(`Deposit failed: ${deposit.error.message}`);
-      pendingDepositAmountRef.current = ""; // Clear on error
-      pendingDepositTokenRef.current = RWA_TOKEN_ADDRESSES.GOLD; // Reset to default
-    }
-  }, [deposit.isConfirmed, deposit.error, selectedToken]);
-
-  // Handle withdraw success/error
-  useEffect(() => {
-    if (withdraw.isConfirmed) {
-      // Subtract withdrawn amount from local storage
-      if (pendingWithdrawAmountRef.current) {
-        const amount = parseFloat(pendingWithdrawAmountRef.current);
-        const tokenUsed = pendingWithdrawTokenRef.current;
-        subtractFromTokenLent(tokenUsed, amount);
-        console.log(
-          "Subtracted from token lent:",
-          amount,
-          "for token:",
-          tokenUsed,
-          "New total:",
-          getTotalLentFromStorage()
-        );
-        pendingWithdrawAmountRef.current = ""; // Clear the refs
-        pendingWithdrawTokenRef.current = RWA_TOKEN_ADDRESSES.GOLD; // Reset to default
-      }
-      toast.success("Withdrawal successful!");
-      setWithdrawAmount("");
-    }
-    if (withdraw.error) {
-      toast.error(`Withdrawal failed: ${withdraw.error.message}`);
-      pendingWithdrawAmountRef.current = ""; // Clear the refs on error too
-      pendingWithdrawTokenRef.current = RWA_TOKEN_ADDRESSES.GOLD; // Reset to default
-    }
-  }, [withdraw.isConfirmed, withdraw.error]);
+  // Handler functions. Each awaits its transactions; toasts for their
+  // progress and failures come from the transaction manager.
 
-  // Handle loan creation success/error
-  useEffect(() => {
-    if (createLoan.isConfirmed) {
-      toast.success("Loan created successfully!");
-      setBorrowAmount("");
-      setCollateralAmount("");
-    }
-    if (createLoan.error) {
-      toast.error(`Loan creation failed: ${createLoan.error.message}`);
-    }
-  }, [createLoan.isConfirmed, createLoan.error]);
-
-  // Handle loan repayment success/error
-  useEffect(() => {
-    if (repayLoan.isConfirmed) {
-      toast.success("Loan repayment successful!");
-      setRepayAmount("");
-    }
-    if (repayLoan.error) {
-      toast.error(`Loan repayment failed: ${repayLoan.error.message}`);
-    }
-  }, [repayLoan.isConfirmed, repayLoan.error]);
-
-  // Handle token approval success/error and auto-trigger deposit
-  useEffect(() => {
-    if (tokenApproval.isConfirmed && isApprovalInProgress) {
-      toast.success("Token approval successful! You can now deposit.");
-      setIsApprovalInProgress(false);
-      // Auto-trigger deposit after successful approval
-      if (pendingDepositAmountRef.current) {
-        try {
-          const amount = parseEther(pendingDepositAmountRef.current);
-          const tokenToUse = pendingDepositTokenRef.current;
-          console.log(
-            "Auto-triggering deposit with amount from ref:",
-            pendingDepositAmountRef.current,
-            "for token:",
-            tokenToUse
-          );
-          deposit.deposit(tokenToUse, amount);
-
-          toast.success("deposit successful.");
-
-          // Update local storage after 3 second delay
-          setTimeout(() => {
-            const depositAmountValue = parseFloat(
-              pendingDepositAmountRef.current
-            );
-            console.log(
-              "Updating local storage after 3s delay with amount:",
-              depositAmountValue,
-              "for token:",
-              tokenToUse
-            );
-            addToTokenLent(tokenToUse, depositAmountValue);
-            console.log(
-              "Local storage updated after delay. New total:",
-              getTotalLentFromStorage()
-            );
-          }, 3000);
-          setDepositAmount("");
-        } catch (error) {
-          toast.error("Invalid amount");
-          pendingDepositAmountRef.current = ""; // Clear on error
-          pendingDepositTokenRef.current = RWA_TOKEN_ADDRESSES.GOLD; // Reset to default
-        }
-      } else {
-        console.log(
-          "No pending deposit amount found in ref during approval success!"
-        );
-      }
-    }
-    if (tokenApproval.error && isApprovalInProgress) {
-      toast.error(`Token approval failed: ${tokenApproval.error.message}`);
-      setIsApprovalInProgress(false);
-      pendingDepositAmountRef.current = ""; // Clear on error
-      pendingDepositTokenRef.current = RWA_TOKEN_ADDRESSES.GOLD; // Reset to default
-    }
-  }, [
-    tokenApproval.isConfirmed,
-    tokenApproval.error,
-    isApprovalInProgress,
-    selectedToken,
-    deposit,
-  ]);
-
-  // Handle collateral approval success/error and auto-trigger loan creation
-  useEffect(() => {
-    if (collateralApproval.isConfirmed && isCollateralApprovalInProgress) {
-      toast.success(
-        "Collateral approval successful! You can now create a loan."
-      );
-      setIsCollateralApprovalInProgress(false);
-      // Auto-trigger loan creation after successful approval
-      if (collateralAmount && borrowAmount) {
-        try {
-          const collateralAmountBigInt = parseEther(collateralAmount);
-          const borrowAmountBigInt = parseEther(borrowAmount);
-          createLoan.createLoan(
-            selectedCollateralToken,
-            selectedBorrowToken,
-            collateralAmountBigInt,
-            borrowAmountBigInt
-          );
-        } catch (error) {
-          toast.error("Invalid amounts");
-        }
-      }
-    }
-    if (collateralApproval.error && isCollateralApprovalInProgress) {
-      toast.error(
-        `Collateral approval failed: ${collateralApproval.error.message}`
-      );
-      setIsCollateralApprovalInProgress(false);
+  // Runs a call's simulation before the approval it needs, so a deposit or
+  // loan that would revert anyway fails before the approval prompt
+  const preflight = async (label: string, check: () => Promise<void>) => {
+    try {
+      await check();
+      return true;
+    } catch (error) {
+      const { message, hint } = error as HedVaultError;
+      toast.error(label, { description: hint ? `${message}. ${hint}` : message });
+      return false;
     }
-  }, [
-    collateralApproval.isConfirmed,
-    collateralApproval.error,
-    isCollateralApprovalInProgress,
-    collateralAmount,
-    borrowAmount,
-    selectedCollateralToken,
-    selectedBorrowToken,
-    createLoan,
-  ]);
+  };
 
-  // Handler functions
-  const handleDeposit = () => {
+  const handleDeposit = async () => {
     if (!depositAmount) {
       toast.error("Please enter deposit amount");
       return;
     }
-    if (isApprovalInProgress || tokenApproval.isPending) {
+    if (tokenApproval.isPending || tokenApproval.isConfirming) {
       return; // Prevent multiple approvals
     }
+    if (!selectedTokenMetadata) {
+      toast.error("Token details are still loading");
+      return;
+    }
+    let amount: bigint;
     try {
-      const amount = parseEther(depositAmount);
-
-      // Check if user has sufficient balance
-      if (tokenBalance.data && tokenBalance.data < amount) {
-        toast.error("Insufficient token balance");
-        return;
-      }
+      amount = parseAmount(depositAmount, selectedTokenMetadata.decimals);
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
 
-      // Store the deposit amount and token in ref for later use in success handler
-      pendingDepositAmountRef.current = depositAmount;
-      pendingDepositTokenRef.current = selectedToken;
-      console.log(
-        "handleDeposit: Stored deposit amount in ref:",
-        depositAmount,
-        "for token:",
-        selectedToken
-      );
-      console.log("handleDeposit: Token addresses for reference:");
-      console.log("GOLD:", RWA_TOKEN_ADDRESSES.GOLD);
-      console.log("SILVER:", RWA_TOKEN_ADDRESSES.SILVER);
-      console.log("REAL_ESTATE:", RWA_TOKEN_ADDRESSES.REAL_ESTATE);
+    // Check if user has sufficient balance
+    if (tokenBalance.data && tokenBalance.data < amount) {
+      toast.error("Insufficient token balance");
+      return;
+    }
 
-      // Always trigger approval first to ensure two-step process
-      // This will show approval popup first, then auto-trigger deposit
-      setIsApprovalInProgress(true);
-      tokenApproval.approve(CONTRACT_ADDRESSES.LendingPool, amount);
-    } catch (error) {
-      toast.error("Invalid amount");
-      setIsApprovalInProgress(false);
+    const token = selectedToken;
+    const lentAmount = amountToNumber(amount, selectedTokenMetadata.decimals);
+    const depositable = await preflight("Deposit", () =>
+      deposit.checkBeforeApproval(token, amount)
+    );
+    if (!depositable) return;
+    try {
+      // Approve first, then deposit once the approval is mined
+      await tokenApproval.submit(lendingPool.address, amount).confirmed;
+      const tx = deposit.submit(token, amount);
+      setDepositAmount("");
+      await tx.confirmed;
+      addToTokenLent(token, lentAmount);
+    } catch {
+      // The transaction toast reports the failure
     }
   };
 
-  const handleWithdraw = () => {
+  const handleWithdraw = async () => {
     if (!withdrawAmount) {
       toast.error("Please enter withdrawal amount");
       return;
     }
+    if (!selectedTokenMetadata) {
+      toast.error("Token details are still loading");
+      return;
+    }
+    if (selectedTokenAssociation.needsAssociation) {
+      toast.error(`Associate ${selectedTokenMetadata.symbol} before withdrawing it`);
+      return;
+    }
+    let amount: bigint;
     try {
-      const amount = parseEther(withdrawAmount);
-
-      // Store the withdraw amount and token in ref for later use in success handler
-      pendingWithdrawAmountRef.current = withdrawAmount;
-      pendingWithdrawTokenRef.current = selectedToken;
-
-      withdraw.withdraw(selectedToken, amount);
-      toast.info("Withdrawal transaction submitted...");
+      amount = parseAmount(withdrawAmount, selectedTokenMetadata.decimals);
     } catch (error) {
-      toast.error("Invalid amount");
+      toast.error((error as Error).message);
+      return;
+    }
+
+    const token = selectedToken;
+    const withdrawnAmount = amountToNumber(
+      amount,
+      selectedTokenMetadata.decimals
+    );
+    try {
+      await withdraw.submit(token, amount).confirmed;
+      subtractFromTokenLent(token, withdrawnAmount);
+      setWithdrawAmount("");
+    } catch {
+      // The transaction toast reports the failure
     }
   };
 
-  const handleCreateLoan = () => {
+  const handleCreateLoan = async () => {
     if (!collateralAmount || !borrowAmount) {
       toast.error("Please enter collateral and borrow amounts");
       return;
@@ -562,38 +430,85 @@ export function BlendTab() {
       toast.error("Collateral and borrow tokens must be different");
       return;
     }
-    if (isCollateralApprovalInProgress || collateralApproval.isPending) {
+    if (collateralApproval.isPending || collateralApproval.isConfirming) {
       return; // Prevent multiple approvals
     }
+    if (!collateralTokenMetadata || !borrowTokenMetadata) {
+      toast.error("Token details are still loading");
+      return;
+    }
+    if (borrowTokenAssociation.needsAssociation) {
+      toast.error(`Associate ${borrowTokenMetadata.symbol} before borrowing it`);
+      return;
+    }
+    let collateralAmountBigInt: bigint, borrowAmountBigInt: bigint;
     try {
-      const collateralAmountBigInt = parseEther(collateralAmount);
-      const borrowAmountBigInt = parseEther(borrowAmount);
-
-      // Always trigger approval first to ensure two-step process
-      // This will show approval popup first, then auto-trigger loan creation
-      setIsCollateralApprovalInProgress(true);
-      collateralApproval.approve(
-        CONTRACT_ADDRESSES.LendingPool,
-        collateralAmountBigInt
+      collateralAmountBigInt = parseAmount(
+        collateralAmount,
+        collateralTokenMetadata.decimals
+      );
+      borrowAmountBigInt = parseAmount(
+        borrowAmount,
+        borrowTokenMetadata.decimals
       );
     } catch (error) {
-      toast.error("Invalid amounts");
-      setIsCollateralApprovalInProgress(false);
+      toast.error((error as Error).message);
+      return;
+    }
+
+    const borrowable = await preflight("Create loan", () =>
+      createLoan.checkBeforeApproval(
+        selectedCollateralToken,
+        selectedBorrowToken,
+        collateralAmountBigInt,
+        borrowAmountBigInt
+      )
+    );
+    if (!borrowable) return;
+    try {
+      // Approve the collateral, then open the loan once the approval is mined
+      await collateralApproval.submit(lendingPool.address, collateralAmountBigInt)
+        .confirmed;
+      await createLoan.submit(
+        selectedCollateralToken,
+        selectedBorrowToken,
+        collateralAmountBigInt,
+        borrowAmountBigInt
+      ).confirmed;
+      setBorrowAmount("");
+      setCollateralAmount("");
+    } catch {
+      // The transaction toast reports the failure
     }
   };
 
-  const handleRepayLoan = () => {
+  const handleRepayLoan = async () => {
     if (!repayAmount || !selectedLoanId) {
       toast.error("Please enter repay amount and loan ID");
       return;
     }
+    if (repayLoanId === undefined) {
+      toast.error("Invalid loan ID");
+      return;
+    }
+    if (!repayTokenMetadata) {
+      toast.error("Loan details are still loading");
+      return;
+    }
+    let amount: bigint;
+    const loanId = repayLoanId;
     try {
-      const amount = parseEther(repayAmount);
-      const loanId = BigInt(selectedLoanId);
-      repayLoan.repayLoan(loanId, amount);
-      toast.info("Loan repayment transaction submitted...");
+      amount = parseAmount(repayAmount, repayTokenMetadata.decimals);
     } catch (error) {
-      toast.error("Invalid amount or loan ID");
+      toast.error((error as Error).message);
+      return;
+    }
+
+    try {
+      await repayLoan.submit(loanId, amount).confirmed;
+      setRepayAmount("");
+    } catch {
+      // The transaction toast reports the failure
     }
   };
 
@@ -765,10 +680,15 @@ export function BlendTab() {
                   </Label>
                   <Input
                     id="deposit-amount"
-                    type="number"
+                    type="text"
+                    inputMode="decimal"
                     placeholder="0.0"
                     value={depositAmount}
-                    onChange={(e) => setDepositAmount(e.target.value)}
+                    onChange={(e) =>
+                      setDepositAmount(
+                        sanitizeAmountInput(e.target.value, selectedTokenMetadata?.decimals)
+                      )
+                    }
                     className="bg-gray-800 border-gray-600 text-white"
                   />
                 </div>
@@ -781,10 +701,15 @@ export function BlendTab() {
                   </Label>
                   <Input
                     id="withdraw-amount"
-                    type="number"
+                    type="text"
+                    inputMode="decimal"
                     placeholder="0.0"
                     value={withdrawAmount}
-                    onChange={(e) => setWithdrawAmount(e.target.value)}
+                    onChange={(e) =>
+                      setWithdrawAmount(
+                        sanitizeAmountInput(e.target.value, selectedTokenMetadata?.decimals)
+                      )
+                    }
                     className="bg-gray-800 border-gray-600 text-white"
                   />
                 </div>
@@ -809,6 +734,10 @@ export function BlendTab() {
                   </option>
                 </select>
               </div>
+              <TokenAssociationNotice
+                token={selectedToken}
+                symbol={selectedTokenMetadata?.symbol}
+              />
               <div className="flex gap-3">
                 <Button
                   className="flex-1 bg-green-500 hover:bg-green-600 text-black"
@@ -903,10 +832,15 @@ export function BlendTab() {
                   </Label>
                   <Input
                     id="collateral-amount"
-                    type="number"
+                    type="text"
+                    inputMode="decimal"
                     placeholder="0.0"
                     value={collateralAmount}
-                    onChange={(e) => setCollateralAmount(e.target.value)}
+                    onChange={(e) =>
+                      setCollateralAmount(
+                        sanitizeAmountInput(e.target.value, collateralTokenMetadata?.decimals)
+                      )
+                    }
                     className="bg-gray-800 border-gray-600 text-white"
                   />
                 </div>
@@ -919,10 +853,15 @@ export function BlendTab() {
                   </Label>
                   <Input
                     id="borrow-amount"
-                    type="number"
+                    type="text"
+                    inputMode="decimal"
                     placeholder="0.0"
                     value={borrowAmount}
-                    onChange={(e) => setBorrowAmount(e.target.value)}
+                    onChange={(e) =>
+                      setBorrowAmount(
+                        sanitizeAmountInput(e.target.value, borrowTokenMetadata?.decimals)
+                      )
+                    }
                     className="bg-gray-800 border-gray-600 text-white"
                   />
                 </div>
@@ -979,6 +918,10 @@ export function BlendTab() {
                   </select>
                 </div>
               </div>
+              <TokenAssociationNotice
+                token={selectedBorrowToken}
+                symbol={borrowTokenMetadata?.symbol}
+              />
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="loan-id" className="text-gray-400 text-sm">
@@ -1002,10 +945,15 @@ export function BlendTab() {
                   </Label>
                   <Input
                     id="repay-amount"
-                    type="number"
+                    type="text"
+                    inputMode="decimal"
                     placeholder="0.0"
                     value={repayAmount}
-                    onChange={(e) => setRepayAmount(e.target.value)}
+                    onChange={(e) =>
+                      setRepayAmount(
+                        sanitizeAmountInput(e.target.value, repayTokenMetadata?.decimals)
+                      )
+                    }
                     className="bg-gray-800 border-gray-600 text-white"
                   />
                 </div>
@@ -1,151 +1,382 @@
 "use client"
 
 import { useState } from "react"
-import { ArrowUpDown, ArrowRight, AlertTriangle, CheckCircle, Clock, ExternalLink } from "lucide-react"
+import {
+  ArrowRight,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  XCircle,
+} from "lucide-react"
+import { useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { useAccount, useChains } from "wagmi"
+import type { Address, Hex } from "viem"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  type BridgeTransferStatus,
+  useCalculateBridgeFee,
+  useCancelBridge,
+  useGetBridgeAssetConfig,
+  useGetBridgeConfig,
+  useGetBridgeTransaction,
+  useGetDestinationBridgeTransaction,
+  useGetSupportedBridgeAssets,
+  useGetSupportedBridgeChains,
+  useGetUserDailyLimitRemaining,
+  useInitiateBridge,
+  useIsBridgeOperator,
+} from "@/hooks/contracts/useCrossChainBridge"
+import { useTokenAllowance, useTokenApproval, useTokenBalance } from "@/hooks/contracts/useLendingPool"
+import { useHedVaultClient } from "@/hooks/useHedVaultClient"
+import { useBridgeTransferHistory, useOnIndexerSync } from "@/hooks/useIndexedEvents"
+import { useRWATokenFactoryTokens } from "@/hooks/useRWATokenFactoryTokens"
+import { useToken } from "@/hooks/useTokenMetadata"
+import { formatTimeAgo } from "@/lib/activity"
+import { getExplorerTxUrl } from "@/lib/chains"
+import { getContractAddress, isDeployedOn } from "@/lib/contracts"
+import {
+  formatAmount,
+  getBridgeTransferId,
+  getBridgeTransferStatus,
+  parseAmount,
+  sanitizeAmountInput,
+  validateAmount,
+} from "@/lib/sdk"
+import { RWA_TOKEN_ADDRESSES } from "@/config/rwaTokenFactory"
+import { AddressInput } from "../ui/address-input"
 
-export function BridgeTab() {
-  const [fromChain, setFromChain] = useState("hedera")
-  const [toChain, setToChain] = useState("ethereum")
-  const [selectedAsset, setSelectedAsset] = useState("")
-  const [amount, setAmount] = useState("")
+const PREDEFINED_TOKENS: Address[] = [
+  RWA_TOKEN_ADDRESSES.GOLD,
+  RWA_TOKEN_ADDRESSES.SILVER,
+  RWA_TOKEN_ADDRESSES.REAL_ESTATE,
+]
 
-  const chains = [
-    {
-      id: "hedera",
-      name: "Hedera",
-      symbol: "HBAR",
-      logo: "🌿",
-      color: "text-green-400",
-      bgColor: "bg-green-500/10",
-      borderColor: "border-green-500/20",
-    },
-    {
-      id: "ethereum",
-      name: "Ethereum",
-      symbol: "ETH",
-      logo: "⟠",
-      color: "text-blue-400",
-      bgColor: "bg-blue-500/10",
-      borderColor: "border-blue-500/20",
-    },
-    {
-      id: "polygon",
-      name: "Polygon",
-      symbol: "MATIC",
-      logo: "⬟",
-      color: "text-purple-400",
-      bgColor: "bg-purple-500/10",
-      borderColor: "border-purple-500/20",
-    },
-    {
-      id: "bsc",
-      name: "BSC",
-      symbol: "BNB",
-      logo: "🟡",
-      color: "text-yellow-400",
-      bgColor: "bg-yellow-500/10",
-      borderColor: "border-yellow-500/20",
-    },
-  ]
+interface ChainStyle {
+  name: string
+  logo: string
+  bgColor: string
+}
 
-  const bridgeableAssets = [
-    {
-      symbol: "RET",
-      name: "Real Estate Token",
-      balance: "1,250.00",
-      chains: ["hedera", "ethereum", "polygon"],
-    },
-    {
-      symbol: "GOLD",
-      name: "Gold Commodity",
-      balance: "50.75",
-      chains: ["hedera", "ethereum"],
-    },
-    {
-      symbol: "USDC",
-      name: "USD Coin",
-      balance: "5,000.00",
-      chains: ["hedera", "ethereum", "polygon", "bsc"],
-    },
-    {
-      symbol: "HBAR",
-      name: "Hedera Token",
-      balance: "10,000.00",
-      chains: ["hedera"],
-    },
-  ]
+// Networks the bridge may route to beyond the ones the wallet config knows
+const CHAIN_STYLES: Record<number, ChainStyle> = {
+  295: { name: "Hedera", logo: "🌿", bgColor: "bg-green-500/10" },
+  296: { name: "Hedera Testnet", logo: "🌿", bgColor: "bg-green-500/10" },
+  298: { name: "Hedera Local", logo: "🌿", bgColor: "bg-green-500/10" },
+  1: { name: "Ethereum", logo: "⟠", bgColor: "bg-blue-500/10" },
+  137: { name: "Polygon", logo: "⬟", bgColor: "bg-purple-500/10" },
+  56: { name: "BSC", logo: "🟡", bgColor: "bg-yellow-500/10" },
+  10: { name: "Optimism", logo: "🔴", bgColor: "bg-red-500/10" },
+  42161: { name: "Arbitrum", logo: "🔷", bgColor: "bg-sky-500/10" },
+  8453: { name: "Base", logo: "🔵", bgColor: "bg-blue-500/10" },
+  31337: { name: "Anvil", logo: "⚒️", bgColor: "bg-gray-500/10" },
+}
 
-  const recentBridges = [
-    {
-      asset: "RET",
-      amount: "100.00",
-      from: "hedera",
-      to: "ethereum",
-      status: "completed",
-      txHash: "0x1234...5678",
-      time: "2 hours ago",
-    },
-    {
-      asset: "USDC",
-      amount: "1,000.00",
-      from: "ethereum",
-      to: "hedera",
-      status: "pending",
-      txHash: "0xabcd...efgh",
-      time: "30 minutes ago",
-    },
-    {
-      asset: "GOLD",
-      amount: "25.50",
-      from: "hedera",
-      to: "polygon",
-      status: "processing",
-      txHash: "0x9876...5432",
-      time: "1 hour ago",
-    },
-  ]
+const STATUS_STYLES: Record<BridgeTransferStatus, { label: string; className: string }> = {
+  confirming: { label: "Confirming", className: "text-yellow-400" },
+  relaying: { label: "Relaying", className: "text-blue-400" },
+  completed: { label: "Completed", className: "text-green-400" },
+  cancelled: { label: "Cancelled", className: "text-red-400" },
+}
 
-  const getChainInfo = (chainId: string) => {
-    return chains.find((chain) => chain.id === chainId) || chains[0]
-  }
+const shortHex = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`
+
+/**
+ * Refreshes bridge reads on every chain, plus token balances, after a
+ * transfer is sent and whenever the indexer picks up bridge events
+ */
+function useRefreshBridge() {
+  const queryClient = useQueryClient()
+
+  return () =>
+    queryClient.invalidateQueries({
+      predicate: ({ queryKey }) =>
+        queryKey[0] === "hedvault" && (queryKey[2] === "bridge" || queryKey[2] === "token"),
+    })
+}
+
+function useChainInfo() {
+  const chains = useChains()
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "completed":
-        return <CheckCircle className="h-4 w-4 text-green-400" />
-      case "pending":
-        return <Clock className="h-4 w-4 text-yellow-400" />
-      case "processing":
-        return <ArrowRight className="h-4 w-4 text-blue-400 animate-pulse" />
-      default:
-        return <AlertTriangle className="h-4 w-4 text-red-400" />
+  return (chainId: number): ChainStyle => {
+    const style = CHAIN_STYLES[chainId]
+    const name = chains.find((chain) => chain.id === chainId)?.name
+    return {
+      name: style?.name ?? name ?? `Chain ${chainId}`,
+      logo: style?.logo ?? "⛓️",
+      bgColor: style?.bgColor ?? "bg-gray-500/10",
     }
   }
+}
+
+function AssetOption({
+  asset,
+  selected,
+  onSelect,
+}: {
+  asset: Address
+  selected: boolean
+  onSelect: () => void
+}) {
+  const { data: token } = useToken(asset)
+  const balance = useTokenBalance(asset)
+
+  return (
+    <button
+      onClick={onSelect}
+      className={`p-4 rounded-xl border transition-all duration-200 text-left ${
+        selected
+          ? "bg-green-500/10 border-green-500/30 text-green-400"
+          : "bg-gray-800/50 border-gray-700 text-white hover:bg-gray-800/70"
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-semibold">{token?.symbol ?? shortHex(asset)}</p>
+          <p className="text-sm text-gray-400">{token?.name ?? asset}</p>
+        </div>
+        <div className="text-right">
+          <p className="font-medium">
+            {token && balance.data !== undefined ? formatAmount(balance.data, token.decimals) : "—"}
+          </p>
+          <p className="text-xs text-gray-400">Available</p>
+        </div>
+      </div>
+    </button>
+  )
+}
+
+function TransferRow({
+  txHash,
+  amount,
+  asset,
+  sourceChain,
+  destinationChain,
+  initiatedAt,
+  transactionHash,
+  isOperator,
+  onChanged,
+}: {
+  txHash: Hex
+  amount?: bigint
+  asset?: Address
+  sourceChain: number
+  destinationChain?: number
+  initiatedAt?: bigint | null
+  transactionHash?: Hex
+  isOperator: boolean
+  onChanged: () => Promise<unknown>
+}) {
+  const chainInfo = useChainInfo()
+  const { data: source } = useGetBridgeTransaction(txHash)
+  const destinationChainId = destinationChain ?? (source ? Number(source.destinationChain) : undefined)
+  const { data: destination } = useGetDestinationBridgeTransaction(destinationChainId, txHash)
+  const { data: config } = useGetBridgeConfig(
+    destinationChainId !== undefined ? BigInt(destinationChainId) : undefined
+  )
+  const { data: token } = useToken(asset ?? source?.asset)
+  const cancel = useCancelBridge()
+  const cancelling = cancel.isPending || cancel.isConfirming
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "completed":
-        return "text-green-400"
-      case "pending":
-        return "text-yellow-400"
-      case "processing":
-        return "text-blue-400"
-      default:
-        return "text-red-400"
+  const status = source
+    ? getBridgeTransferStatus(
+        source,
+        config?.confirmationsRequired ?? BigInt(0),
+        destination?.txHash === txHash ? destination : undefined
+      )
+    : undefined
+  const shownAmount = amount ?? source?.amount
+  const fromInfo = chainInfo(sourceChain)
+  const toInfo = destinationChainId !== undefined ? chainInfo(destinationChainId) : undefined
+  const explorerUrl = transactionHash && getExplorerTxUrl(sourceChain, transactionHash)
+
+  const handleCancel = async () => {
+    try {
+      await cancel.submit(txHash, "Cancelled by operator").confirmed
+      await onChanged()
+    } catch {
+      // The transaction toast reports the failure
     }
   }
 
-  const handleSwapChains = () => {
-    const temp = fromChain
-    setFromChain(toChain)
-    setToChain(temp)
+  return (
+    <div className="flex items-center justify-between p-4 rounded-xl bg-gray-900/60 backdrop-blur-sm border border-gray-700/50">
+      <div className="flex items-center space-x-4">
+        <div className="flex items-center space-x-2">
+          <div className={`w-8 h-8 rounded-lg ${fromInfo.bgColor} flex items-center justify-center`}>
+            <span className="text-sm">{fromInfo.logo}</span>
+          </div>
+          <ArrowRight className="h-4 w-4 text-gray-400" />
+          <div className={`w-8 h-8 rounded-lg ${toInfo?.bgColor ?? "bg-gray-500/10"} flex items-center justify-center`}>
+            <span className="text-sm">{toInfo?.logo ?? "…"}</span>
+          </div>
+        </div>
+        <div>
+          <p className="text-white font-semibold">
+            {shownAmount !== undefined && token ? formatAmount(shownAmount, token.decimals) : "—"}{" "}
+            {token?.symbol ?? ""}
+          </p>
+          <p className="text-gray-400 text-sm">
+            {fromInfo.name} → {toInfo?.name ?? "…"} · <span className="font-mono">{shortHex(txHash)}</span>
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <div className="text-right">
+          <div className="flex items-center justify-end space-x-2">
+            {status === "completed" ? (
+              <CheckCircle className="h-4 w-4 text-green-400" />
+            ) : status === "cancelled" ? (
+              <XCircle className="h-4 w-4 text-red-400" />
+            ) : status === "relaying" ? (
+              <ArrowRight className="h-4 w-4 text-blue-400 animate-pulse" />
+            ) : (
+              <Clock className="h-4 w-4 text-yellow-400" />
+            )}
+            <span className={`font-medium ${status ? STATUS_STYLES[status].className : "text-gray-400"}`}>
+              {status ? STATUS_STYLES[status].label : "Loading"}
+              {status === "confirming" &&
+                source &&
+                config &&
+                ` ${source.confirmations}/${config.confirmationsRequired}`}
+            </span>
+          </div>
+          <p className="text-gray-400 text-sm">
+            {initiatedAt !== undefined
+              ? formatTimeAgo(initiatedAt)
+              : source
+                ? formatTimeAgo(source.timestamp)
+                : "Waiting for the receipt"}
+          </p>
+        </div>
+        {isOperator && (status === "confirming" || status === "relaying") && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCancel}
+            disabled={cancelling}
+            className="border-red-500/30 text-red-400 bg-transparent hover:bg-red-500/10"
+          >
+            {cancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : "Cancel"}
+          </Button>
+        )}
+        {explorerUrl && (
+          <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-white">
+            <ExternalLink className="h-4 w-4" />
+          </a>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function BridgeDashboard() {
+  const { address, isConnected } = useAccount()
+  const client = useHedVaultClient()
+  const chains = useChains()
+  const chainInfo = useChainInfo()
+  const refresh = useRefreshBridge()
+  useOnIndexerSync(() => {
+    refresh()
+  })
+
+  const sourceChain = client.chainId
+  const candidateChains = [
+    ...new Set([...chains.map((chain) => chain.id), ...Object.keys(CHAIN_STYLES).map(Number)]),
+  ]
+    .filter((chainId) => chainId !== sourceChain)
+    .map(BigInt)
+  const { data: supportedChains, isLoading: chainsLoading } = useGetSupportedBridgeChains(candidateChains)
+  const destinations = supportedChains ?? []
+
+  const { allTokensWithInfo } = useRWATokenFactoryTokens()
+  const factoryTokens = Array.from(allTokensWithInfo.data?.[0] ?? []) as Address[]
+  const candidateAssets = [...new Set([...PREDEFINED_TOKENS, ...factoryTokens])]
+  const { data: supportedAssets, isLoading: assetsLoading } = useGetSupportedBridgeAssets(candidateAssets)
+  const assets = supportedAssets ?? []
+
+  const [selectedDestination, setSelectedDestination] = useState<bigint>()
+  const [selectedAsset, setSelectedAsset] = useState<Address>()
+  const [amount, setAmount] = useState("")
+  const [recipientInput, setRecipientInput] = useState("")
+  const [recipient, setRecipient] = useState<Address | null>(null)
+  // Transfers sent from this session that the indexer hasn't picked up yet
+  const [submitted, setSubmitted] = useState<{ txHash: Hex; destinationChain: number }[]>([])
+
+  const destination =
+    selectedDestination !== undefined && destinations.includes(selectedDestination)
+      ? selectedDestination
+      : destinations[0]
+  const asset = selectedAsset && assets.includes(selectedAsset) ? selectedAsset : assets[0]
+
+  const { data: token } = useToken(asset)
+  const balance = useTokenBalance(asset)
+  const allowance = useTokenAllowance(asset, getContractAddress("CrossChainBridge", sourceChain))
+  const tokenApproval = useTokenApproval(asset)
+  const initiate = useInitiateBridge()
+  const { data: routeConfig } = useGetBridgeConfig(destination)
+  const { data: assetConfig } = useGetBridgeAssetConfig(asset)
+  const { data: dailyRemaining } = useGetUserDailyLimitRemaining(destination, address)
+  const { data: isOperator } = useIsBridgeOperator(address)
+
+  const amountError = amount && token ? validateAmount(amount, token.decimals) : undefined
+  const value = amount && token && !amountError ? parseAmount(amount, token.decimals) : undefined
+  const { data: fee } = useCalculateBridgeFee(asset, value)
+
+  const format = (raw: bigint) => (token ? `${formatAmount(raw, token.decimals)} ${token.symbol}` : "—")
+
+  // The checks initiateBridge makes, so the button explains itself before the wallet opens
+  const limitError = (() => {
+    if (value === undefined || !token) return undefined
+    if (balance.data !== undefined && value > balance.data) return "Insufficient balance"
+    if (assetConfig && (value < assetConfig.minAmount || value > assetConfig.maxAmount)) {
+      return `${token.symbol} transfers must be between ${format(assetConfig.minAmount)} and ${format(assetConfig.maxAmount)}`
+    }
+    if (routeConfig && (value < routeConfig.minTransferAmount || value > routeConfig.maxTransferAmount)) {
+      return `This route takes between ${format(routeConfig.minTransferAmount)} and ${format(routeConfig.maxTransferAmount)}`
+    }
+    if (dailyRemaining !== undefined && value > dailyRemaining) {
+      return `Only ${format(dailyRemaining)} left of today's limit on this route`
+    }
+    return undefined
+  })()
+
+  const busy = tokenApproval.isPending || tokenApproval.isConfirming || initiate.isPending || initiate.isConfirming
+  const target = recipient ?? address
+
+  const handleBridge = async () => {
+    if (!asset || destination === undefined || value === undefined || !target) return
+    if (limitError) {
+      toast.error(limitError)
+      return
+    }
+
+    try {
+      // The bridge pulls the full amount and keeps the fee out of it
+      if ((allowance.data ?? BigInt(0)) < value) {
+        await tokenApproval.submit(client.bridge.address, value).confirmed
+      }
+      const receipt = await initiate.submit(asset, value, destination, target).confirmed
+      const txHash = getBridgeTransferId(receipt.logs)
+      if (txHash) setSubmitted((transfers) => [{ txHash, destinationChain: Number(destination) }, ...transfers])
+      setAmount("")
+      await refresh()
+    } catch {
+      // The transaction toast reports the failure
+    }
   }
 
-  const filteredAssets = bridgeableAssets.filter(
-    (asset) => asset.chains.includes(fromChain) && asset.chains.includes(toChain),
+  const history = useBridgeTransferHistory(address)
+  const initiated = history.events.flatMap((event) =>
+    event.eventName === "BridgeInitiated" && "sourceChain" in event.args ? [{ ...event, args: event.args }] : []
   )
+  const indexed = new Set(initiated.map((event) => event.args.txHash.toLowerCase()))
+  const pending = submitted.filter((transfer) => !indexed.has(transfer.txHash.toLowerCase()))
 
   return (
     <div className="space-y-8">
@@ -153,31 +384,37 @@ export function BridgeTab() {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
           <CardHeader className="pb-4">
-            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Total Bridged</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Your Transfers</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-white">$2.1M</div>
-            <p className="text-sm mt-2 font-medium text-green-400">+15.2% this month</p>
+            <div className="text-3xl font-bold text-white">{initiated.length + pending.length}</div>
+            <p className="text-sm mt-2 font-medium text-gray-400">From {chainInfo(sourceChain).name}</p>
           </CardContent>
         </Card>
 
         <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
           <CardHeader className="pb-4">
-            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Active Bridges</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Routes</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-white">3</div>
-            <p className="text-sm mt-2 font-medium text-gray-400">Across 4 chains</p>
+            <div className="text-3xl font-bold text-white">{destinations.length}</div>
+            <p className="text-sm mt-2 font-medium text-gray-400">
+              {assets.length} bridgeable asset{assets.length === 1 ? "" : "s"}
+            </p>
           </CardContent>
         </Card>
 
         <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
           <CardHeader className="pb-4">
-            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Avg. Time</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Daily Limit Left</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-3xl font-bold text-white">~12m</div>
-            <p className="text-sm mt-2 font-medium text-gray-400">Bridge completion</p>
+            <div className="text-3xl font-bold text-white">
+              {dailyRemaining !== undefined && token ? formatAmount(dailyRemaining, token.decimals) : "—"}
+            </div>
+            <p className="text-sm mt-2 font-medium text-gray-400">
+              {destination !== undefined ? `To ${chainInfo(Number(destination)).name}` : "No route selected"}
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -191,45 +428,31 @@ export function BridgeTab() {
         <CardContent className="space-y-6">
           {/* Chain Selection */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
-            {/* From Chain */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-400">From</label>
-              <select
-                value={fromChain}
-                onChange={(e) => setFromChain(e.target.value)}
-                className="w-full p-4 rounded-xl bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
-              >
-                {chains.map((chain) => (
-                  <option key={chain.id} value={chain.id}>
-                    {chain.logo} {chain.name}
-                  </option>
-                ))}
-              </select>
+              <div className="w-full p-4 rounded-xl bg-gray-900/70 border border-gray-700 text-white">
+                {chainInfo(sourceChain).logo} {chainInfo(sourceChain).name}
+              </div>
             </div>
 
-            {/* Swap Button */}
             <div className="flex justify-center">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleSwapChains}
-                className="rounded-full bg-gray-800 hover:bg-gray-700 p-3"
-              >
-                <ArrowUpDown className="h-5 w-5 text-green-400" />
-              </Button>
+              <ArrowRight className="h-5 w-5 text-green-400" />
             </div>
 
-            {/* To Chain */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-400">To</label>
               <select
-                value={toChain}
-                onChange={(e) => setToChain(e.target.value)}
+                value={destination?.toString() ?? ""}
+                onChange={(e) => setSelectedDestination(BigInt(e.target.value))}
+                disabled={destinations.length === 0}
                 className="w-full p-4 rounded-xl bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
               >
-                {chains.map((chain) => (
-                  <option key={chain.id} value={chain.id}>
-                    {chain.logo} {chain.name}
+                {destinations.length === 0 && (
+                  <option value="">{chainsLoading ? "Loading routes…" : "No active routes"}</option>
+                )}
+                {destinations.map((chainId) => (
+                  <option key={chainId.toString()} value={chainId.toString()}>
+                    {chainInfo(Number(chainId)).logo} {chainInfo(Number(chainId)).name}
                   </option>
                 ))}
               </select>
@@ -239,30 +462,27 @@ export function BridgeTab() {
           {/* Asset Selection */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-gray-400">Select Asset</label>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {filteredAssets.map((asset) => (
-                <button
-                  key={asset.symbol}
-                  onClick={() => setSelectedAsset(asset.symbol)}
-                  className={`p-4 rounded-xl border transition-all duration-200 text-left ${
-                    selectedAsset === asset.symbol
-                      ? "bg-green-500/10 border-green-500/30 text-green-400"
-                      : "bg-gray-800/50 border-gray-700 text-white hover:bg-gray-800/70"
-                  }`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-semibold">{asset.symbol}</p>
-                      <p className="text-sm text-gray-400">{asset.name}</p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-medium">{asset.balance}</p>
-                      <p className="text-xs text-gray-400">Available</p>
-                    </div>
-                  </div>
-                </button>
-              ))}
-            </div>
+            {assetsLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : assets.length === 0 ? (
+              <p className="text-gray-400 text-sm">None of your RWA tokens are enabled on the bridge yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {assets.map((option) => (
+                  <AssetOption
+                    key={option}
+                    asset={option}
+                    selected={option === asset}
+                    onSelect={() => {
+                      setSelectedAsset(option)
+                      setAmount("")
+                    }}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Amount Input */}
@@ -271,28 +491,61 @@ export function BridgeTab() {
             <div className="relative">
               <input
                 type="text"
+                inputMode="decimal"
                 placeholder="0.00"
                 value={amount}
-                onChange={(e) => setAmount(e.target.value)}
+                onChange={(e) => setAmount(sanitizeAmountInput(e.target.value, token?.decimals))}
+                disabled={!token}
+                aria-invalid={!!(amountError ?? limitError)}
                 className="w-full p-4 rounded-xl bg-gray-900/70 border border-gray-700 text-white text-xl focus:border-green-500 focus:outline-none pr-20"
               />
-              <button className="absolute right-3 top-1/2 -translate-y-1/2 text-green-400 hover:text-green-300 text-sm font-medium">
+              <button
+                onClick={() => token && balance.data !== undefined && setAmount(formatAmount(balance.data, token.decimals, { maximumFractionDigits: token.decimals }).replace(/,/g, ""))}
+                disabled={!token || balance.data === undefined}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-green-400 hover:text-green-300 text-sm font-medium"
+              >
                 MAX
               </button>
             </div>
+            {(amountError ?? limitError) && <p className="text-xs text-red-400">{amountError ?? limitError}</p>}
           </div>
 
-          {/* Bridge Info */}
-          {selectedAsset && amount && (
+          <AddressInput
+            label="Recipient (defaults to your address)"
+            value={recipientInput}
+            onValueChange={setRecipientInput}
+            onAddressChange={setRecipient}
+            placeholder={address ?? "0x… or 0.0.1234"}
+          />
+
+          {/* Quote */}
+          {value !== undefined && token && (
             <div className="p-4 rounded-xl bg-blue-500/10 border border-blue-500/20">
               <div className="flex items-start space-x-3">
                 <AlertTriangle className="h-5 w-5 text-blue-400 mt-0.5" />
-                <div className="space-y-2 text-sm">
-                  <p className="text-blue-400 font-medium">Bridge Information</p>
+                <div className="space-y-2 text-sm w-full">
+                  <p className="text-blue-400 font-medium">Bridge Quote</p>
                   <div className="space-y-1 text-gray-300">
-                    <p>• Estimated time: 10-15 minutes</p>
-                    <p>• Bridge fee: ~$2.50 (0.1%)</p>
-                    <p>• Gas fee: ~$5.00 (varies by network)</p>
+                    <div className="flex justify-between">
+                      <span>Bridge fee{assetConfig && ` (${(Number(assetConfig.bridgeFee) / 100).toFixed(2)}%)`}</span>
+                      <span>{fee !== undefined ? format(fee) : "…"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Recipient gets</span>
+                      <span className="text-white font-medium">{fee !== undefined ? format(value - fee) : "…"}</span>
+                    </div>
+                    {routeConfig && (
+                      <div className="flex justify-between">
+                        <span>Validator confirmations</span>
+                        <span>{routeConfig.confirmationsRequired.toString()}</span>
+                      </div>
+                    )}
+                    {dailyRemaining !== undefined && (
+                      <div className="flex justify-between">
+                        <span>Daily limit left</span>
+                        <span>{format(dailyRemaining)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -301,71 +554,87 @@ export function BridgeTab() {
 
           {/* Bridge Button */}
           <Button
+            onClick={handleBridge}
             className="w-full h-14 bg-green-500 hover:bg-green-600 text-black font-semibold text-lg"
-            disabled={!selectedAsset || !amount}
+            disabled={
+              !isConnected || !asset || destination === undefined || value === undefined || !!limitError || busy || !target
+            }
           >
-            {!selectedAsset || !amount ? "Select Asset & Amount" : `Bridge ${selectedAsset}`}
+            {busy && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+            {!isConnected
+              ? "Connect Wallet"
+              : tokenApproval.isPending || tokenApproval.isConfirming
+                ? "Approving..."
+                : value === undefined
+                  ? "Select Asset & Amount"
+                  : `Bridge ${token?.symbol ?? ""} to ${chainInfo(Number(destination)).name}`}
           </Button>
         </CardContent>
       </Card>
 
       {/* Recent Bridge Transactions */}
       <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
-        <CardHeader>
-          <CardTitle className="text-2xl font-bold text-white">Recent Bridge Transactions</CardTitle>
-          <p className="text-gray-400">Track your cross-chain transfers</p>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-2xl font-bold text-white">Recent Bridge Transactions</CardTitle>
+            <p className="text-gray-400">Track your cross-chain transfers</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => refresh()} className="text-gray-400 hover:text-white">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {recentBridges.map((bridge, index) => {
-              const fromChainInfo = getChainInfo(bridge.from)
-              const toChainInfo = getChainInfo(bridge.to)
-
-              return (
-                <div
-                  key={index}
-                  className="flex items-center justify-between p-6 rounded-xl bg-gray-900/60 backdrop-blur-sm border border-gray-700/50 px-6 py-1 text-left leading-3 font-thin"
-                >
-                  <div className="flex items-center space-x-4">
-                    <div className="flex items-center space-x-2">
-                      <div className={`w-8 h-8 rounded-lg ${fromChainInfo.bgColor} flex items-center justify-center`}>
-                        <span className="text-sm">{fromChainInfo.logo}</span>
-                      </div>
-                      <ArrowRight className="h-4 w-4 text-gray-400" />
-                      <div className={`w-8 h-8 rounded-lg ${toChainInfo.bgColor} flex items-center justify-center`}>
-                        <span className="text-sm">{toChainInfo.logo}</span>
-                      </div>
-                    </div>
-                    <div>
-                      <p className="text-white font-semibold leading-3">
-                        {bridge.amount} {bridge.asset}
-                      </p>
-                      <p className="text-gray-400 text-sm">
-                        {fromChainInfo.name} → {toChainInfo.name}
-                      </p>
-                    </div>
-                  </div>
-
-                  <div className="flex items-center space-x-4">
-                    <div className="text-right">
-                      <div className="flex items-center space-x-2">
-                        {getStatusIcon(bridge.status)}
-                        <span className={`font-medium capitalize ${getStatusColor(bridge.status)}`}>
-                          {bridge.status}
-                        </span>
-                      </div>
-                      <p className="text-gray-400 text-sm">{bridge.time}</p>
-                    </div>
-                    <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white">
-                      <ExternalLink className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              )
-            })}
+            {pending.map((transfer) => (
+              <TransferRow
+                key={transfer.txHash}
+                txHash={transfer.txHash}
+                sourceChain={sourceChain}
+                destinationChain={transfer.destinationChain}
+                isOperator={!!isOperator}
+                onChanged={refresh}
+              />
+            ))}
+            {initiated.map((event) => (
+              <TransferRow
+                key={event.id}
+                txHash={event.args.txHash}
+                amount={event.args.amount}
+                asset={event.args.asset}
+                sourceChain={Number(event.args.sourceChain)}
+                destinationChain={Number(event.args.destinationChain)}
+                initiatedAt={event.blockTimestamp}
+                transactionHash={event.transactionHash}
+                isOperator={!!isOperator}
+                onChanged={refresh}
+              />
+            ))}
+            {pending.length === 0 && initiated.length === 0 && (
+              <p className="text-gray-400 text-center py-8">
+                {isConnected ? "No bridge transfers yet." : "Connect your wallet to see your transfers."}
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
     </div>
   )
 }
+
+// Only chains with a CrossChainBridge deployment get the bridge UI
+export function BridgeTab() {
+  const client = useHedVaultClient()
+  const chainInfo = useChainInfo()
+
+  if (!isDeployedOn("CrossChainBridge", client.chainId)) {
+    return (
+      <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
+        <CardContent className="py-12 text-center space-y-2">
+          <p className="text-white font-medium">Bridge not deployed on {chainInfo(client.chainId).name}</p>
+          <p className="text-sm text-gray-400">Switch to a network with a HedVault bridge to move assets across chains.</p>
+        </CardContent>
+      </Card>
+    )
+  }
+  return <BridgeDashboard />
+}
@@ -1,61 +1,800 @@
-import { ChevronDown } from "lucide-react"
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, Clock, Loader2, RefreshCw, X } from "lucide-react"
+import { useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { useAccount } from "wagmi"
+import type { Address } from "viem"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  type Order,
+  useCancelOrder,
+  useCreateOrder,
+  useGetAssetOrderBook,
+  useGetMarketplaceFees,
+  useGetOrders,
+  useGetSupportedPaymentTokens,
+  useGetTradableAssets,
+  useGetTradingLimits,
+  useGetUserOrders,
+  useMarketOrder,
+} from "@/hooks/contracts/useMarketplace"
+import { useGetPrice } from "@/hooks/contracts/usePriceOracle"
+import { useTokenAllowance, useTokenApproval, useTokenBalance } from "@/hooks/contracts/useLendingPool"
+import { useContractConfig } from "@/hooks/useContractConfig"
+import { useOnIndexerSync } from "@/hooks/useIndexedEvents"
+import { useRWATokenFactoryTokens } from "@/hooks/useRWATokenFactoryTokens"
+import { useToken } from "@/hooks/useTokenMetadata"
+import {
+  type OrderBookLevel,
+  ORDER_STATUS,
+  ORDER_TYPE,
+  aggregateOrderBook,
+  formatAmount,
+  fromOrderPrice,
+  getLimitOrderFee,
+  getOrderValue,
+  getRemainingAmount,
+  parseAmount,
+  quoteMarketOrder,
+  sanitizeAmountInput,
+  toOrderPrice,
+  validateAmount,
+} from "@/lib/sdk"
+import { RWA_TOKEN_ADDRESSES } from "@/config/rwaTokenFactory"
+import { AddressInput } from "../ui/address-input"
+import { TokenAssociationNotice } from "../ui/token-association"
+
+const PREDEFINED_TOKENS: Address[] = [
+  RWA_TOKEN_ADDRESSES.GOLD,
+  RWA_TOKEN_ADDRESSES.SILVER,
+  RWA_TOKEN_ADDRESSES.REAL_ESTATE,
+]
+
+const DURATIONS = [
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+]
+
+// Kept off the longest expiry so a block clock behind ours doesn't reject it
+const EXPIRY_MARGIN = BigInt(5 * 60)
+
+// Depth rows shown per side
+const DEPTH_LEVELS = 8
+
+type Side = "buy" | "sell"
+type Mode = "limit" | "market"
+
+const shortHex = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`
+
+const sameAddress = (a: Address, b?: Address) => a.toLowerCase() === b?.toLowerCase()
+
+const formatBps = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`
+
+/**
+ * Refreshes marketplace reads and token balances after an order and
+ * whenever the indexer picks up new events
+ */
+function useRefreshMarketplace() {
+  const queryClient = useQueryClient()
+
+  return () =>
+    queryClient.invalidateQueries({
+      predicate: ({ queryKey }) =>
+        queryKey[0] === "hedvault" && (queryKey[2] === "marketplace" || queryKey[2] === "token"),
+    })
+}
+
+function TokenOption({ token }: { token: Address }) {
+  const { data } = useToken(token)
+  return <option value={token}>{data ? `${data.symbol} · ${data.name}` : shortHex(token)}</option>
+}
+
+function DepthSide({
+  levels,
+  side,
+  maxDepth,
+  formatPrice,
+  formatSize,
+  onPick,
+}: {
+  levels: OrderBookLevel[]
+  side: Side
+  maxDepth: bigint
+  formatPrice: (price: bigint) => string
+  formatSize: (amount: bigint) => string
+  onPick: (level: OrderBookLevel) => void
+}) {
+  let running = BigInt(0)
+  const rows = levels.slice(0, DEPTH_LEVELS).map((level) => {
+    running += level.amount
+    return { level, cumulative: running }
+  })
+  // Asks read upwards from the spread, bids downwards
+  if (side === "sell") rows.reverse()
+
+  if (rows.length === 0) {
+    return <p className="py-3 text-center text-sm text-gray-500">No {side === "buy" ? "bids" : "asks"}</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      {rows.map(({ level, cumulative }) => {
+        const width = maxDepth > BigInt(0) ? Number((cumulative * BigInt(10_000)) / maxDepth) / 100 : 0
+        return (
+          <button
+            key={level.price.toString()}
+            onClick={() => onPick(level)}
+            title={`${level.orders} order${level.orders === 1 ? "" : "s"} · click to use this price`}
+            className="relative grid w-full grid-cols-3 rounded px-2 py-1 text-sm hover:bg-gray-800/60"
+          >
+            <span
+              className={`absolute inset-y-0 right-0 rounded ${side === "buy" ? "bg-green-500/10" : "bg-red-500/10"}`}
+              style={{ width: `${width}%` }}
+            />
+            <span className={`relative text-left font-medium ${side === "buy" ? "text-green-400" : "text-red-400"}`}>
+              {formatPrice(level.price)}
+            </span>
+            <span className="relative text-right text-white">{formatSize(level.amount)}</span>
+            <span className="relative text-right text-gray-400">{formatSize(cumulative)}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+function OpenOrderRow({ order, now, onChanged }: { order: Order; now: bigint; onChanged: () => Promise<unknown> }) {
+  const { data: asset } = useToken(order.asset)
+  const { data: payment } = useToken(order.paymentToken)
+  const cancel = useCancelOrder()
+  const cancelling = cancel.isPending || cancel.isConfirming
+  const expired = order.expiry <= now
+  const isBuy = order.orderType === ORDER_TYPE.BUY
+
+  const handleCancel = async () => {
+    try {
+      await cancel.submit(order.orderId).confirmed
+      await onChanged()
+    } catch {
+      // The transaction toast reports the failure
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between p-4 rounded-xl bg-gray-900/60 border border-gray-700/50">
+      <div className="flex items-center space-x-4">
+        <span
+          className={`px-2 py-1 rounded text-xs font-semibold uppercase ${
+            isBuy ? "bg-green-500/20 text-green-400" : "bg-red-500/20 text-red-400"
+          }`}
+        >
+          {isBuy ? "Buy" : "Sell"}
+        </span>
+        <div>
+          <p className="text-white font-semibold">
+            {asset ? formatAmount(getRemainingAmount(order), asset.decimals) : "—"} {asset?.symbol ?? ""}
+            {order.filled > BigInt(0) && asset && (
+              <span className="text-gray-400 text-sm font-normal">
+                {" "}
+                of {formatAmount(order.amount, asset.decimals)}
+              </span>
+            )}
+          </p>
+          <p className="text-gray-400 text-sm">
+            @ {asset && payment ? formatAmount(fromOrderPrice(order.price, asset.decimals), payment.decimals) : "—"}{" "}
+            {payment?.symbol ?? ""} · #{order.orderId.toString()}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <div className="flex items-center space-x-1 text-sm">
+          <Clock className={`h-4 w-4 ${expired ? "text-red-400" : "text-gray-400"}`} />
+          <span className={expired ? "text-red-400" : "text-gray-400"}>
+            {expired ? "Expired" : `Until ${new Date(Number(order.expiry) * 1000).toLocaleString()}`}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCancel}
+          disabled={cancelling}
+          className="border-red-500/30 text-red-400 bg-transparent hover:bg-red-500/10"
+        >
+          {cancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+          <span className="ml-1">{expired ? "Reclaim" : "Cancel"}</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
 
 export function BuySellTab() {
+  const { address, isConnected } = useAccount()
+  const refresh = useRefreshMarketplace()
+  useOnIndexerSync(() => {
+    refresh()
+  })
+  const now = BigInt(Math.floor(Date.now() / 1000))
+
+  const { allTokensWithInfo } = useRWATokenFactoryTokens()
+  const factoryTokens = Array.from(allTokensWithInfo.data?.[0] ?? []) as Address[]
+  const candidates = [...new Set([...PREDEFINED_TOKENS, ...factoryTokens])]
+  const { data: tradableAssets, isLoading: assetsLoading } = useGetTradableAssets(candidates)
+  const assets = tradableAssets ?? []
+
+  const [paymentInput, setPaymentInput] = useState("")
+  const [customPayment, setCustomPayment] = useState<Address | null>(null)
+  const paymentCandidates = [...new Set([...candidates, ...(customPayment ? [customPayment] : [])])]
+  const { data: supportedPayments } = useGetSupportedPaymentTokens(paymentCandidates)
+  const paymentTokens = supportedPayments ?? []
+
+  const [selectedAsset, setSelectedAsset] = useState<Address>()
+  const [selectedPayment, setSelectedPayment] = useState<Address>()
+  const [side, setSide] = useState<Side>("buy")
+  const [mode, setMode] = useState<Mode>("limit")
+  const [price, setPrice] = useState("")
+  const [amount, setAmount] = useState("")
+  const [duration, setDuration] = useState(DURATIONS[2].seconds)
+  const [slippage, setSlippage] = useState("1")
+
+  const asset = selectedAsset && assets.includes(selectedAsset) ? selectedAsset : assets[0]
+  const paymentToken =
+    customPayment && paymentTokens.includes(customPayment)
+      ? customPayment
+      : selectedPayment && paymentTokens.includes(selectedPayment)
+        ? selectedPayment
+        : paymentTokens.find((token) => !sameAddress(token, asset))
+  const orderType = side === "buy" ? ORDER_TYPE.BUY : ORDER_TYPE.SELL
+
+  const marketplace = useContractConfig("Marketplace")
+  const { data: assetToken } = useToken(asset)
+  const { data: payToken } = useToken(paymentToken)
+  const { data: book } = useGetAssetOrderBook(asset)
+  const { data: fees } = useGetMarketplaceFees()
+  const { data: limits } = useGetTradingLimits()
+  const oracle = useGetPrice(mode === "market" ? asset : undefined)
+  const { data: userOrderIds } = useGetUserOrders(address)
+  const { data: userOrders } = useGetOrders(userOrderIds)
+  const openOrders = (userOrders ?? [])
+    .filter((order) => order.status === ORDER_STATUS.ACTIVE)
+    .reverse()
+
+  // The book in the selected payment token; prices in other tokens aren't comparable
+  const pricedBook = book &&
+    paymentToken && {
+      buys: book.buys.filter((order) => sameAddress(order.paymentToken, paymentToken)),
+      sells: book.sells.filter((order) => sameAddress(order.paymentToken, paymentToken)),
+    }
+  const depth = pricedBook ? aggregateOrderBook(pricedBook, now) : undefined
+  const otherTokenOrders = book && pricedBook
+    ? book.buys.length + book.sells.length - pricedBook.buys.length - pricedBook.sells.length
+    : 0
+  const maxDepth = depth
+    ? [depth.bids, depth.asks]
+        .map((levels) => levels.slice(0, DEPTH_LEVELS).reduce((total, level) => total + level.amount, BigInt(0)))
+        .reduce((a, b) => (a > b ? a : b), BigInt(0))
+    : BigInt(0)
+  const bestBid = depth?.bids[0]
+  const bestAsk = depth?.asks[0]
+
+  const formatAsset = (raw: bigint) => (assetToken ? formatAmount(raw, assetToken.decimals) : "—")
+  const formatPayment = (raw: bigint) => (payToken ? `${formatAmount(raw, payToken.decimals)} ${payToken.symbol}` : "—")
+  const formatPrice = (orderPrice: bigint) =>
+    assetToken && payToken ? formatAmount(fromOrderPrice(orderPrice, assetToken.decimals), payToken.decimals) : "—"
+
+  const amountError = amount && assetToken ? validateAmount(amount, assetToken.decimals) : undefined
+  const amountValue = amount && assetToken && !amountError ? parseAmount(amount, assetToken.decimals) : undefined
+  const priceError = mode === "limit" && price && payToken ? validateAmount(price, payToken.decimals) : undefined
+  const orderPrice =
+    mode === "limit" && price && payToken && assetToken && !priceError
+      ? toOrderPrice(parseAmount(price, payToken.decimals), assetToken.decimals)
+      : undefined
+  const slippageBps = slippage ? BigInt(Math.round(Number(slippage) * 100)) : undefined
+
+  const limitValue = amountValue !== undefined && orderPrice ? getOrderValue(amountValue, orderPrice) : undefined
+  const limitFee =
+    amountValue !== undefined && orderPrice && fees ? getLimitOrderFee(amountValue, orderPrice, fees.makerFee) : undefined
+  const quote =
+    mode === "market" && amountValue !== undefined && book && fees && oracle.data && slippageBps !== undefined
+      ? quoteMarketOrder(book, orderType, amountValue, {
+          fees,
+          oraclePrice: oracle.data.price,
+          maxSlippage: slippageBps,
+          now,
+        })
+      : undefined
+  const crossesTokens = !!quote && quote.fills.some(({ order }) => !sameAddress(order.paymentToken, paymentToken))
+
+  // Buyers spend the payment token, sellers the asset; both approve the marketplace
+  const spendToken = side === "buy" ? paymentToken : asset
+  const receiveToken = side === "buy" ? asset : paymentToken
+  const required =
+    side === "sell"
+      ? amountValue
+      : mode === "limit"
+        ? limitValue !== undefined && limitFee !== undefined
+          ? limitValue + limitFee
+          : undefined
+        : quote && slippageBps !== undefined
+          ? // Room for the book to move between the quote and the transaction
+            ((quote.value + quote.fee) * (BigInt(10_000) + slippageBps)) / BigInt(10_000)
+          : undefined
+  const balance = useTokenBalance(spendToken)
+  const allowance = useTokenAllowance(spendToken, marketplace.address)
+  const tokenApproval = useTokenApproval(spendToken)
+  const createOrder = useCreateOrder()
+  const marketOrder = useMarketOrder()
+
+  // The checks createOrder and marketOrder make, so the button explains itself before the wallet opens
+  const orderError = (() => {
+    if (amountValue === undefined || !assetToken || !payToken) return undefined
+    if (limits && amountValue < limits.minOrderSize) {
+      return `Orders must be at least ${formatAsset(limits.minOrderSize)} ${assetToken.symbol}`
+    }
+    if (mode === "limit") {
+      if (orderPrice === undefined) return undefined
+      if (orderPrice === BigInt(0)) return "Price is below the smallest the marketplace can record"
+      if (limits && amountValue > limits.maxOrderSize) {
+        return `Orders can be at most ${formatAsset(limits.maxOrderSize)} ${assetToken.symbol}`
+      }
+      if (limits && BigInt(openOrders.length) >= limits.maxActiveOrdersPerUser) {
+        return `You already have ${limits.maxActiveOrdersPerUser} open orders`
+      }
+    } else {
+      if (oracle.isError) return `No fresh oracle price for ${assetToken.symbol}; market orders are paused`
+      if (slippageBps === undefined || slippageBps <= BigInt(0)) return "Enter a slippage tolerance"
+      if (limits && slippageBps > limits.maxSlippageAllowed) {
+        return `Slippage can be at most ${formatBps(limits.maxSlippageAllowed)}`
+      }
+      if (quote && !quote.complete) {
+        return `Only ${formatAsset(quote.filled)} ${assetToken.symbol} can fill within your slippage`
+      }
+    }
+    if (required !== undefined && balance.data !== undefined && required > balance.data) {
+      return `Insufficient ${side === "buy" ? payToken.symbol : assetToken.symbol} balance`
+    }
+    return undefined
+  })()
+
+  const busy =
+    tokenApproval.isPending ||
+    tokenApproval.isConfirming ||
+    createOrder.isPending ||
+    createOrder.isConfirming ||
+    marketOrder.isPending ||
+    marketOrder.isConfirming
+  const ready =
+    !!asset &&
+    !!paymentToken &&
+    amountValue !== undefined &&
+    required !== undefined &&
+    (mode === "limit" ? !!orderPrice : !!quote)
+
+  const handleSubmit = async () => {
+    if (!asset || !paymentToken || amountValue === undefined || required === undefined || !limits) return
+    if (orderError) {
+      toast.error(orderError)
+      return
+    }
+
+    try {
+      if ((allowance.data ?? BigInt(0)) < required) {
+        await tokenApproval.submit(marketplace.address, required).confirmed
+      }
+      if (mode === "limit" && orderPrice) {
+        const maxDuration = limits.maxOrderDuration - EXPIRY_MARGIN
+        const expiry = now + (BigInt(duration) < maxDuration ? BigInt(duration) : maxDuration)
+        await createOrder.submit(asset, paymentToken, amountValue, orderPrice, orderType, expiry).confirmed
+      } else if (mode === "market" && slippageBps !== undefined) {
+        await marketOrder.submit(asset, paymentToken, amountValue, orderType, slippageBps).confirmed
+      }
+      setAmount("")
+      await refresh()
+    } catch {
+      // The transaction toast reports the failure
+    }
+  }
+
+  const pickLevel = (level: OrderBookLevel) => {
+    if (!assetToken || !payToken) return
+    setMode("limit")
+    setPrice(
+      formatAmount(fromOrderPrice(level.price, assetToken.decimals), payToken.decimals, {
+        maximumFractionDigits: payToken.decimals,
+      }).replace(/,/g, "")
+    )
+  }
+
+  const crossesBook =
+    mode === "limit" &&
+    !!orderPrice &&
+    (side === "buy" ? !!bestAsk && orderPrice >= bestAsk.price : !!bestBid && orderPrice <= bestBid.price)
+
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {/* Market Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="bg-gray-950/80 border-gray-800">
-          <CardHeader>
-            <CardTitle className="text-white">Buy Assets</CardTitle>
+          <CardHeader className="pb-4">
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Best Bid</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <div className="p-4 rounded-lg bg-gray-900/70">
-                <label className="text-sm text-gray-400 mb-2 block">Asset</label>
-                <Button variant="outline" className="w-full border-gray-700 text-white justify-between bg-transparent">
-                  Select Asset <ChevronDown className="h-4 w-4" />
-                </Button>
-              </div>
-              <div className="p-4 rounded-lg bg-gray-900/70">
-                <label className="text-sm text-gray-400 mb-2 block">Amount (USD)</label>
-                <input
-                  type="text"
-                  placeholder="0.00"
-                  className="w-full bg-transparent text-white outline-none text-lg"
-                />
-              </div>
-              <Button className="w-full bg-green-500 hover:bg-green-600 text-black">Buy Asset</Button>
+            <div className="text-3xl font-bold text-green-400">{bestBid ? formatPrice(bestBid.price) : "—"}</div>
+            <p className="text-sm mt-2 font-medium text-gray-400">
+              {bestBid ? `${formatAsset(bestBid.amount)} ${assetToken?.symbol ?? ""}` : "No open bids"}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Best Ask</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-red-400">{bestAsk ? formatPrice(bestAsk.price) : "—"}</div>
+            <p className="text-sm mt-2 font-medium text-gray-400">
+              {bestAsk ? `${formatAsset(bestAsk.amount)} ${assetToken?.symbol ?? ""}` : "No open asks"}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-sm font-medium text-gray-400 uppercase tracking-wide">Fees</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-white">
+              {fees ? `${formatBps(fees.makerFee)} / ${formatBps(fees.takerFee)}` : "—"}
             </div>
+            <p className="text-sm mt-2 font-medium text-gray-400">Maker / taker</p>
           </CardContent>
         </Card>
+      </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Order Entry */}
         <Card className="bg-gray-950/80 border-gray-800">
           <CardHeader>
-            <CardTitle className="text-white">Sell Assets</CardTitle>
+            <CardTitle className="text-white">Place Order</CardTitle>
           </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="p-4 rounded-lg bg-gray-900/70">
-                <label className="text-sm text-gray-400 mb-2 block">Asset</label>
-                <Button variant="outline" className="w-full border-gray-700 text-white justify-between bg-transparent">
-                  Select Asset <ChevronDown className="h-4 w-4" />
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(["buy", "sell"] as const).map((option) => (
+                <Button
+                  key={option}
+                  variant="outline"
+                  onClick={() => setSide(option)}
+                  className={
+                    side === option
+                      ? option === "buy"
+                        ? "bg-green-500/20 border-green-500/40 text-green-400 hover:bg-green-500/30"
+                        : "bg-red-500/20 border-red-500/40 text-red-400 hover:bg-red-500/30"
+                      : "border-gray-700 text-gray-400 bg-transparent hover:bg-gray-800"
+                  }
+                >
+                  {option === "buy" ? "Buy" : "Sell"}
                 </Button>
+              ))}
+            </div>
+
+            <div className="flex space-x-4 text-sm">
+              {(["limit", "market"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`pb-1 border-b-2 ${
+                    mode === option ? "border-green-400 text-white" : "border-transparent text-gray-400 hover:text-white"
+                  }`}
+                >
+                  {option === "limit" ? "Limit" : "Market"}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm text-gray-400">Asset</label>
+                <select
+                  value={asset ?? ""}
+                  onChange={(e) => {
+                    setSelectedAsset(e.target.value as Address)
+                    setAmount("")
+                    setPrice("")
+                  }}
+                  disabled={assets.length === 0}
+                  className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+                >
+                  {assets.length === 0 && (
+                    <option value="">{assetsLoading ? "Loading assets…" : "No tradable assets"}</option>
+                  )}
+                  {assets.map((option) => (
+                    <TokenOption key={option} token={option} />
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-gray-400">Pay with</label>
+                <select
+                  value={paymentToken ?? ""}
+                  onChange={(e) => {
+                    setSelectedPayment(e.target.value as Address)
+                    setPaymentInput("")
+                    setCustomPayment(null)
+                    setPrice("")
+                  }}
+                  disabled={paymentTokens.length === 0}
+                  className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+                >
+                  {paymentTokens.length === 0 && <option value="">No payment tokens found</option>}
+                  {paymentTokens.map((option) => (
+                    <TokenOption key={option} token={option} />
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <AddressInput
+              label="Other payment token"
+              value={paymentInput}
+              onValueChange={setPaymentInput}
+              onAddressChange={setCustomPayment}
+              placeholder="0x… or 0.0.1234"
+            />
+            {customPayment && supportedPayments && !paymentTokens.includes(customPayment) && (
+              <p className="text-xs text-red-400">The marketplace doesn&apos;t accept this token for payment</p>
+            )}
+
+            {mode === "limit" ? (
+              <div className="space-y-2">
+                <label className="text-sm text-gray-400">
+                  Price per {assetToken?.symbol ?? "token"} ({payToken?.symbol ?? "—"})
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="0.00"
+                  value={price}
+                  onChange={(e) => setPrice(sanitizeAmountInput(e.target.value, payToken?.decimals))}
+                  disabled={!payToken}
+                  className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white text-lg focus:border-green-500 focus:outline-none"
+                />
+                {priceError && <p className="text-xs text-red-400">{priceError}</p>}
               </div>
-              <div className="p-4 rounded-lg bg-gray-900/70">
-                <label className="text-sm text-gray-400 mb-2 block">Amount</label>
+            ) : (
+              <div className="space-y-2">
+                <label className="text-sm text-gray-400">
+                  Max slippage from the oracle price (%)
+                  {limits && ` · up to ${formatBps(limits.maxSlippageAllowed)}`}
+                </label>
                 <input
                   type="text"
+                  inputMode="decimal"
+                  value={slippage}
+                  onChange={(e) => setSlippage(sanitizeAmountInput(e.target.value, 2))}
+                  className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-sm text-gray-400">Amount ({assetToken?.symbol ?? "—"})</label>
+              <div className="relative">
+                <input
+                  type="text"
+                  inputMode="decimal"
                   placeholder="0.00"
-                  className="w-full bg-transparent text-white outline-none text-lg"
+                  value={amount}
+                  onChange={(e) => setAmount(sanitizeAmountInput(e.target.value, assetToken?.decimals))}
+                  disabled={!assetToken}
+                  aria-invalid={!!(amountError ?? orderError)}
+                  className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white text-lg focus:border-green-500 focus:outline-none pr-20"
                 />
+                {side === "sell" && (
+                  <button
+                    onClick={() =>
+                      assetToken &&
+                      balance.data !== undefined &&
+                      setAmount(
+                        formatAmount(balance.data, assetToken.decimals, {
+                          maximumFractionDigits: assetToken.decimals,
+                        }).replace(/,/g, "")
+                      )
+                    }
+                    disabled={!assetToken || balance.data === undefined}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-green-400 hover:text-green-300 text-sm font-medium"
+                  >
+                    MAX
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-400">
+                Balance:{" "}
+                {balance.data === undefined
+                  ? "—"
+                  : side === "buy"
+                    ? formatPayment(balance.data)
+                    : `${formatAsset(balance.data)} ${assetToken?.symbol ?? ""}`}
+              </p>
+              {(amountError ?? orderError) && <p className="text-xs text-red-400">{amountError ?? orderError}</p>}
+            </div>
+
+            {mode === "limit" && (
+              <div className="space-y-2">
+                <label className="text-sm text-gray-400">Expires in</label>
+                <select
+                  value={duration}
+                  onChange={(e) => setDuration(Number(e.target.value))}
+                  className="w-full p-3 rounded-lg bg-gray-900/70 border border-gray-700 text-white focus:border-green-500 focus:outline-none"
+                >
+                  {DURATIONS.filter(
+                    ({ seconds }) => !limits || BigInt(seconds) <= limits.maxOrderDuration
+                  ).map(({ label, seconds }) => (
+                    <option key={seconds} value={seconds}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
               </div>
-              <Button className="w-full bg-red-500 hover:bg-red-600 text-white">Sell Asset</Button>
+            )}
+
+            {/* Fee Preview */}
+            {mode === "limit" && limitValue !== undefined && limitFee !== undefined && fees && (
+              <div className="p-4 rounded-lg bg-blue-500/10 border border-blue-500/20 space-y-1 text-sm text-gray-300">
+                <div className="flex justify-between">
+                  <span>Order value</span>
+                  <span>{formatPayment(limitValue)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Maker fee ({formatBps(fees.makerFee)})</span>
+                  <span>{formatPayment(limitFee)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{side === "buy" ? "Locked until filled or cancelled" : "Locked for sale"}</span>
+                  <span className="text-white font-medium">
+                    {side === "buy"
+                      ? formatPayment(limitValue + limitFee)
+                      : `${formatAsset(amountValue ?? BigInt(0))} ${assetToken?.symbol ?? ""}`}
+                  </span>
+                </div>
+                {crossesBook && (
+                  <p className="pt-1 text-blue-300">
+                    Crosses the book: fills straight away at the resting orders&apos; prices.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {mode === "market" && quote && fees && assetToken && (
+              <div className="p-4 rounded-lg bg-blue-500/10 border border-blue-500/20 space-y-1 text-sm text-gray-300">
+                <div className="flex justify-between">
+                  <span>Fills</span>
+                  <span>
+                    {formatAsset(quote.filled)} {assetToken.symbol} across {quote.fills.length} order
+                    {quote.fills.length === 1 ? "" : "s"}
+                  </span>
+                </div>
+                {quote.filled > BigInt(0) && (
+                  <div className="flex justify-between">
+                    <span>Average price</span>
+                    <span>
+                      {formatPrice((quote.value * BigInt(10) ** BigInt(18)) / quote.filled)}
+                    </span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>
+                    {side === "buy" ? "Taker" : "Maker"} fee ({formatBps(side === "buy" ? fees.takerFee : fees.makerFee)})
+                  </span>
+                  <span>{formatPayment(quote.fee)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{side === "buy" ? "You pay" : "You receive"}</span>
+                  <span className="text-white font-medium">
+                    {formatPayment(side === "buy" ? quote.value + quote.fee : quote.value - quote.fee)}
+                  </span>
+                </div>
+                <p className="pt-1 text-gray-400">
+                  Orders are taken in the sequence they were placed, skipping any priced outside your slippage.
+                </p>
+                {crossesTokens && (
+                  <div className="flex items-start space-x-2 pt-1 text-amber-300">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>Some of these orders are priced in another payment token.</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <TokenAssociationNotice
+              token={receiveToken}
+              symbol={side === "buy" ? assetToken?.symbol : payToken?.symbol}
+            />
+
+            <Button
+              onClick={handleSubmit}
+              className={`w-full h-12 font-semibold text-black ${
+                side === "buy" ? "bg-green-500 hover:bg-green-600" : "bg-red-500 hover:bg-red-600"
+              }`}
+              disabled={!isConnected || !ready || !!orderError || busy}
+            >
+              {busy && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+              {!isConnected
+                ? "Connect Wallet"
+                : tokenApproval.isPending || tokenApproval.isConfirming
+                  ? "Approving..."
+                  : `${mode === "limit" ? "Place" : "Market"} ${side === "buy" ? "Buy" : "Sell"} ${assetToken?.symbol ?? ""}`}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Order Book */}
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-white">Order Book</CardTitle>
+            <Button variant="ghost" size="sm" onClick={() => refresh()} className="text-gray-400 hover:text-white">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="grid grid-cols-3 px-2 text-xs uppercase tracking-wide text-gray-500">
+              <span>Price ({payToken?.symbol ?? "—"})</span>
+              <span className="text-right">Size ({assetToken?.symbol ?? "—"})</span>
+              <span className="text-right">Total</span>
+            </div>
+            <DepthSide
+              levels={depth?.asks ?? []}
+              side="sell"
+              maxDepth={maxDepth}
+              formatPrice={formatPrice}
+              formatSize={formatAsset}
+              onPick={pickLevel}
+            />
+            <div className="border-y border-gray-800 py-2 text-center text-sm text-gray-400">
+              {bestBid && bestAsk
+                ? `Spread ${formatPrice(bestAsk.price > bestBid.price ? bestAsk.price - bestBid.price : BigInt(0))}`
+                : "No spread"}
             </div>
+            <DepthSide
+              levels={depth?.bids ?? []}
+              side="buy"
+              maxDepth={maxDepth}
+              formatPrice={formatPrice}
+              formatSize={formatAsset}
+              onPick={pickLevel}
+            />
+            {otherTokenOrders > 0 && (
+              <p className="pt-2 text-xs text-gray-500">
+                {otherTokenOrders} order{otherTokenOrders === 1 ? "" : "s"} in other payment tokens not shown
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
+
+      {/* Open Orders */}
+      <Card className="bg-gray-950/80 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white">My Open Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {openOrders.map((order) => (
+              <OpenOrderRow key={order.orderId.toString()} order={order} now={now} onChanged={refresh} />
+            ))}
+            {openOrders.length === 0 && (
+              <p className="text-gray-400 text-center py-8">
+                {isConnected ? "No open orders." : "Connect your wallet to see your orders."}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   )
 }
@@ -5,12 +5,15 @@ import { Eye, EyeOff, TrendingUp, DollarSign, Activity } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PortfolioCard } from "../ui/portfolio-card";
-import { TransactionItem } from "../ui/transaction-item";
+import { ActivityFeed } from "../ui/activity-feed";
 import { PredefinedRWATokens } from "../ui/predefined-rwa-tokens";
+import { PriceFreshness } from "../ui/price-freshness";
 import { useRWATokenFactoryTokens } from "@/hooks/useRWATokenFactoryTokens";
 import { useTokenBalance } from "@/hooks/contracts/useLendingPool";
+import { useToken, useTokenMetadata } from "@/hooks/useTokenMetadata";
+import { type AssetPrice, useAssetPrices } from "@/hooks/useAssetPrices";
 import { useAccount } from "wagmi";
-import { formatEther } from "viem";
+import { amountToNumber, assetValueUsd, isPriceStale } from "@/lib/sdk";
 import { ALL_RWA_TOKEN_ADDRESSES, RWA_TOKEN_ADDRESSES, type RWATokenType } from "@/config/rwaTokenFactory";
 
 // Format large numbers with abbreviations and commas
@@ -28,15 +31,25 @@ const formatLargeNumber = (num: number) => {
   return num.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 };
 
+// USD figures (valuations, oracle values) carry 18 decimals
+const USD_DECIMALS = 18;
+
+const PREDEFINED_TOKENS = [
+  RWA_TOKEN_ADDRESSES.GOLD,
+  RWA_TOKEN_ADDRESSES.SILVER,
+  RWA_TOKEN_ADDRESSES.REAL_ESTATE,
+] as `0x${string}`[];
+
 interface RWAMetadata {
   assetType: string;
   location: string;
   valuation: bigint;
+  lastValuationDate: bigint;
+  certificationHash: string;
+  isActive: boolean;
   oracle: `0x${string}`;
   totalSupply: bigint;
   minInvestment: bigint;
-  certificationHash: string;
-  additionalData: string;
 }
 
 interface AssetInfo {
@@ -55,19 +68,44 @@ interface TokenBalanceRowProps {
   assetInfo: AssetInfo;
   userAddress: `0x${string}` | undefined;
   showBalance: boolean;
+  price?: AssetPrice;
+  pricesLoading: boolean;
+  now: bigint;
 }
 
-function TokenBalanceRow({ tokenAddress, assetInfo, userAddress, showBalance }: TokenBalanceRowProps) {
+function TokenBalanceRow({
+  tokenAddress,
+  assetInfo,
+  userAddress,
+  showBalance,
+  price,
+  pricesLoading,
+  now,
+}: TokenBalanceRowProps) {
   const tokenBalance = useTokenBalance(tokenAddress);
+  const { data: token } = useToken(tokenAddress);
   
-  const formatCurrency = (value: bigint) => {
-    return Number(value) / 1e18;
-  };
+  const toTokens = (value: bigint) => (token ? amountToNumber(value, token.decimals) : 0);
   
   const userTokenBalance = tokenBalance.data || BigInt(0);
-  const tokenValue = formatCurrency(assetInfo.metadata.valuation);
-  const userBalanceFormatted = Number(formatEther(userTokenBalance));
-  const userValueUSD = userBalanceFormatted * (tokenValue / Number(formatEther(assetInfo.metadata.totalSupply)));
+  const totalSupply = toTokens(assetInfo.metadata.totalSupply);
+  const userBalanceFormatted = toTokens(userTokenBalance);
+  // The oracle price when there is one, else the last valuation spread over the supply
+  const pricePerToken = price
+    ? amountToNumber(price.price, price.decimals)
+    : totalSupply > 0
+      ? amountToNumber(assetInfo.metadata.valuation, USD_DECIMALS) / totalSupply
+      : 0;
+  const userValueUSD = userBalanceFormatted * pricePerToken;
+  const freshness = pricesLoading ? null : (
+    <PriceFreshness
+      price={price}
+      now={now}
+      fallback={`Estimated from the ${new Date(
+        Number(assetInfo.metadata.lastValuationDate) * 1000
+      ).toLocaleDateString()} valuation`}
+    />
+  );
   
   return (
     <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800 hover:border-gray-700 transition-colors">
@@ -86,25 +124,27 @@ function TokenBalanceRow({ tokenAddress, assetInfo, userAddress, showBalance }:
             <div>
               <p className="text-gray-400">Your Balance</p>
               <p className="text-white font-medium">
-                {showBalance ? `${formatLargeNumber(userBalanceFormatted)} tokens` : "••••••"}
+                {showBalance ? `${formatLargeNumber(userBalanceFormatted)} ${token?.symbol ?? "tokens"}` : "••••••"}
               </p>
             </div>
             <div>
               <p className="text-gray-400">Value (USD)</p>
-              <p className="text-green-400 font-medium">
+              <p className="flex items-center gap-2 text-green-400 font-medium">
                 {showBalance ? `$${formatLargeNumber(userValueUSD)}` : "••••••"}
+                {showBalance && freshness}
               </p>
             </div>
             <div>
               <p className="text-gray-400">Token Price</p>
-              <p className="text-white">
-                ${formatLargeNumber(tokenValue / Number(formatEther(assetInfo.metadata.totalSupply)))}
+              <p className="flex items-center gap-2 text-white">
+                ${formatLargeNumber(pricePerToken)}
+                {freshness}
               </p>
             </div>
             <div>
               <p className="text-gray-400">Total Supply</p>
               <p className="text-white">
-                {formatLargeNumber(Number(formatEther(assetInfo.metadata.totalSupply)))} tokens
+                {formatLargeNumber(totalSupply)} {token?.symbol ?? "tokens"}
               </p>
             </div>
           </div>
@@ -129,30 +169,60 @@ export function DashboardTab() {
   const goldBalance = useTokenBalance(RWA_TOKEN_ADDRESSES.GOLD as `0x${string}`);
   const silverBalance = useTokenBalance(RWA_TOKEN_ADDRESSES.SILVER as `0x${string}`);
   const realEstateBalance = useTokenBalance(RWA_TOKEN_ADDRESSES.REAL_ESTATE as `0x${string}`);
+  const { metadata: predefinedMetadata } = useTokenMetadata(PREDEFINED_TOKENS);
+
+  // Whole tokens held, in the token's own decimals (0 until they are known)
+  const toTokens = (token: `0x${string}`, value?: bigint) => {
+    const decimals = predefinedMetadata[token.toLowerCase()]?.decimals;
+    return value && decimals !== undefined ? amountToNumber(value, decimals) : 0;
+  };
+  const goldTokens = toTokens(RWA_TOKEN_ADDRESSES.GOLD, goldBalance.data);
+  const silverTokens = toTokens(RWA_TOKEN_ADDRESSES.SILVER, silverBalance.data);
+  const realEstateTokens = toTokens(RWA_TOKEN_ADDRESSES.REAL_ESTATE, realEstateBalance.data);
+
+  // One oracle batch for every token on the page
+  const { priceOf, isLoading: pricesLoading, now } = useAssetPrices([
+    ...PREDEFINED_TOKENS,
+    ...tokenAddresses,
+  ]);
 
-  // Format currency helper function
-  const formatCurrency = (value: bigint) => {
-    return Number(value) / 1e18;
+  // USD value of a predefined holding at its oracle price; undefined without one
+  const usdValue = (token: `0x${string}`, value?: bigint) => {
+    const price = priceOf(token);
+    const decimals = predefinedMetadata[token.toLowerCase()]?.decimals;
+    if (!price) return undefined;
+    if (!value || decimals === undefined) return 0;
+    return amountToNumber(assetValueUsd(value, decimals, price), USD_DECIMALS);
   };
+  const goldValue = usdValue(RWA_TOKEN_ADDRESSES.GOLD, goldBalance.data);
+  const silverValue = usdValue(RWA_TOKEN_ADDRESSES.SILVER, silverBalance.data);
+  const realEstateValue = usdValue(RWA_TOKEN_ADDRESSES.REAL_ESTATE, realEstateBalance.data);
+  const formatUsd = (value?: number) => (value === undefined ? "—" : `$${formatLargeNumber(value)}`);
+  const freshness = (token: `0x${string}`) =>
+    pricesLoading ? null : <PriceFreshness price={priceOf(token)} now={now} />;
+
+  // Held predefined tokens whose value is missing or based on a stale price
+  const holdings: [`0x${string}`, bigint | undefined][] = [
+    [RWA_TOKEN_ADDRESSES.GOLD, goldBalance.data],
+    [RWA_TOKEN_ADDRESSES.SILVER, silverBalance.data],
+    [RWA_TOKEN_ADDRESSES.REAL_ESTATE, realEstateBalance.data],
+  ];
+  const unpricedHoldings = holdings.filter(([token, balance]) => {
+    const price = priceOf(token);
+    return !!balance && (!price || isPriceStale(price, now));
+  }).length;
 
   // Calculate total portfolio value from user's actual token holdings
   const calculateUserPortfolioValue = () => {
     let totalValue = 0;
     
-    // Add predefined token values (assuming $1 per token for now)
-    const goldValue = goldBalance.data ? Number(formatEther(goldBalance.data)) * 2000 : 0; // $2000 per gold token
-    const silverValue = silverBalance.data ? Number(formatEther(silverBalance.data)) * 25 : 0; // $25 per silver token  
-    const realEstateValue = realEstateBalance.data ? Number(formatEther(realEstateBalance.data)) * 500 : 0; // $500 per RE token
-    
-    totalValue += goldValue + silverValue + realEstateValue;
+    totalValue += (goldValue ?? 0) + (silverValue ?? 0) + (realEstateValue ?? 0);
     
     // Add factory-created token values
     tokenAddresses.forEach((address: `0x${string}`, index: number) => {
       const info = assetInfos[index];
       if (!info) return;
       
-      const tokenValue = formatCurrency(info.metadata.valuation);
-      const pricePerToken = tokenValue / Number(formatEther(info.metadata.totalSupply));
       // We would need individual balance hooks for each token to calculate actual value
     });
     
@@ -162,38 +232,6 @@ export function DashboardTab() {
   const totalValue = calculateUserPortfolioValue();
   const totalTokenCount = tokenAddresses.length + (goldBalance.data && goldBalance.data > 0 ? 1 : 0) + (silverBalance.data && silverBalance.data > 0 ? 1 : 0) + (realEstateBalance.data && realEstateBalance.data > 0 ? 1 : 0);
 
-  // Mock transactions for now - can be enhanced with real data later
-  const recentTransactions = [
-    {
-      type: "Buy",
-      asset: "RET",
-      amount: "100.00",
-      value: "$10,000",
-      time: "2 hours ago",
-    },
-    {
-      type: "Swap",
-      asset: "GOLD → INV",
-      amount: "5.25",
-      value: "$5,250",
-      time: "1 day ago",
-    },
-    {
-      type: "Lend",
-      asset: "ART",
-      amount: "2.00",
-      value: "$10,000",
-      time: "3 days ago",
-    },
-    {
-      type: "Reward",
-      asset: "RET",
-      amount: "12.50",
-      value: "$1,250",
-      time: "1 week ago",
-    },
-  ];
-
   return (
     <div className="space-y-8">
       {/* Portfolio Overview */}
@@ -201,8 +239,12 @@ export function DashboardTab() {
         <PortfolioCard
            title="Total Portfolio Value"
            value={showBalance ? `$${formatLargeNumber(totalValue)}` : "••••••"}
-           change={`${totalTokenCount} RWA tokens`}
-           changeType="positive"
+           change={`${totalTokenCount} RWA tokens${
+             unpricedHoldings > 0 && !pricesLoading
+               ? ` · ${unpricedHoldings} without a fresh price`
+               : ""
+           }`}
+           changeType={unpricedHoldings > 0 && !pricesLoading ? "neutral" : "positive"}
          >
            <Button
              variant="ghost"
@@ -278,13 +320,14 @@ export function DashboardTab() {
                       <div>
                         <p className="text-gray-400">Your Balance</p>
                         <p className="text-white font-medium">
-                           {showBalance ? `${formatLargeNumber(Number(formatEther(goldBalance.data)))} GOLD` : "••••••"}
+                           {showBalance ? `${formatLargeNumber(goldTokens)} GOLD` : "••••••"}
                          </p>
                       </div>
                       <div>
                         <p className="text-gray-400">Value (USD)</p>
-                        <p className="text-green-400 font-medium">
-                           {showBalance ? `$${formatLargeNumber(Number(formatEther(goldBalance.data)) * 2000)}` : "••••••"}
+                        <p className="flex items-center gap-2 text-green-400 font-medium">
+                           {showBalance ? formatUsd(goldValue) : "••••••"}
+                           {showBalance && freshness(RWA_TOKEN_ADDRESSES.GOLD)}
                          </p>
                       </div>
                     </div>
@@ -304,13 +347,14 @@ export function DashboardTab() {
                       <div>
                         <p className="text-gray-400">Your Balance</p>
                         <p className="text-white font-medium">
-                           {showBalance ? `${formatLargeNumber(Number(formatEther(silverBalance.data)))} SILVER` : "••••••"}
+                           {showBalance ? `${formatLargeNumber(silverTokens)} SILVER` : "••••••"}
                          </p>
                       </div>
                       <div>
                         <p className="text-gray-400">Value (USD)</p>
-                        <p className="text-green-400 font-medium">
-                           {showBalance ? `$${formatLargeNumber(Number(formatEther(silverBalance.data)) * 25)}` : "••••••"}
+                        <p className="flex items-center gap-2 text-green-400 font-medium">
+                           {showBalance ? formatUsd(silverValue) : "••••••"}
+                           {showBalance && freshness(RWA_TOKEN_ADDRESSES.SILVER)}
                          </p>
                       </div>
                     </div>
@@ -330,13 +374,14 @@ export function DashboardTab() {
                       <div>
                         <p className="text-gray-400">Your Balance</p>
                         <p className="text-white font-medium">
-                           {showBalance ? `${formatLargeNumber(Number(formatEther(realEstateBalance.data)))} RE` : "••••••"}
+                           {showBalance ? `${formatLargeNumber(realEstateTokens)} RE` : "••••••"}
                          </p>
                       </div>
                       <div>
                         <p className="text-gray-400">Value (USD)</p>
-                        <p className="text-green-400 font-medium">
-                           {showBalance ? `$${formatLargeNumber(Number(formatEther(realEstateBalance.data)) * 500)}` : "••••••"}
+                        <p className="flex items-center gap-2 text-green-400 font-medium">
+                           {showBalance ? formatUsd(realEstateValue) : "••••••"}
+                           {showBalance && freshness(RWA_TOKEN_ADDRESSES.REAL_ESTATE)}
                          </p>
                       </div>
                     </div>
@@ -358,6 +403,9 @@ export function DashboardTab() {
                     assetInfo={info}
                     userAddress={userAddress}
                     showBalance={showBalance}
+                    price={priceOf(address)}
+                    pricesLoading={pricesLoading}
+                    now={now}
                   />
                 );
               })
@@ -384,11 +432,7 @@ export function DashboardTab() {
             </p>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {recentTransactions.map((tx, index) => (
-                <TransactionItem key={index} {...tx} />
-              ))}
-            </div>
+            <ActivityFeed />
           </CardContent>
         </Card>
 
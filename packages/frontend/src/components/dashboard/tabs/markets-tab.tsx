@@ -0,0 +1,483 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  ExternalLink,
+  Loader2,
+  Send,
+} from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import type { Address, Hex } from "viem";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PriceChart } from "@/components/dashboard/ui/price-chart";
+import {
+  type RWAAssetData,
+  useGetAllRWAAssets,
+  useGetOffchainDataRequest,
+  useGetOffchainRequestFee,
+  useGetRWAAsset,
+  useGetRWAAssetsByType,
+  useGetRWAMarketData,
+  useRequestOffchainData,
+} from "@/hooks/contracts/useRWAOffchainOracle";
+import { useHedVaultClient } from "@/hooks/useHedVaultClient";
+import {
+  useOffchainDataRequestHistory,
+  useOnIndexerSync,
+} from "@/hooks/useIndexedEvents";
+import { useTokenMetadata } from "@/hooks/useTokenMetadata";
+import { formatTimeAgo } from "@/lib/activity";
+import { getContractNativeUnit, getExplorerTxUrl } from "@/lib/chains";
+import {
+  RWA_ASSET_TYPES,
+  RWA_ORACLE_LIMITS,
+  RWA_PRICE_DECIMALS,
+  formatAmount,
+  getOffchainRequestId,
+} from "@/lib/sdk";
+
+// Market cap and volume are USD with 18 decimals
+const USD_DECIMALS = 18;
+
+const formatUsd = (value: bigint, decimals = USD_DECIMALS) =>
+  `$${formatAmount(value, decimals, {
+    maximumFractionDigits: 2,
+    minimumFractionDigits: 2,
+  })}`;
+
+const formatBps = (bps: bigint) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+const shortHex = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const isAppraisalStale = (asset: RWAAssetData, now: number) =>
+  asset.lastUpdate === BigInt(0) ||
+  now / 1000 - Number(asset.lastUpdate) > RWA_ORACLE_LIMITS.MAX_DATA_AGE_SECONDS ||
+  asset.confidence < BigInt(RWA_ORACLE_LIMITS.MIN_CONFIDENCE);
+
+/**
+ * Keeps oracle reads in step with the event indexer, so a fulfilment shows
+ * up in the appraisal as soon as its OffchainDataReceived event is synced
+ */
+function useRefreshOnIndexerSync() {
+  const client = useHedVaultClient();
+  const queryClient = useQueryClient();
+
+  useOnIndexerSync(() => {
+    queryClient.invalidateQueries({
+      queryKey: ["hedvault", client.chainId, "rwaOracle"],
+    });
+  });
+}
+
+function Metric({
+  label,
+  value,
+  hint,
+}: {
+  label: string;
+  value: string;
+  hint?: string;
+}) {
+  return (
+    <div className="p-4 rounded-lg bg-gray-900/70">
+      <p className="text-gray-400 text-xs uppercase tracking-wide">{label}</p>
+      <p className="text-xl font-bold text-white mt-1">{value}</p>
+      {hint && <p className="text-gray-500 text-xs mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function AppraisalSection({ asset }: { asset: Address }) {
+  const { data: appraisal, isLoading } = useGetRWAAsset(asset);
+  const now = Date.now();
+
+  if (isLoading || !appraisal) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const stale = isAppraisalStale(appraisal, now);
+  const source = appraisal.useOffchainData
+    ? appraisal.offchainDataSource || "Offchain source"
+    : appraisal.chainlinkFeed !== ZERO_ADDRESS
+      ? `Chainlink ${shortHex(appraisal.chainlinkFeed)}`
+      : "Not configured";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold">Appraisal</h3>
+        <div className="flex items-center gap-2">
+          <span className="px-2 py-1 text-xs bg-blue-500/20 text-blue-400 rounded">
+            {appraisal.assetType}
+          </span>
+          {!appraisal.isActive && (
+            <span className="px-2 py-1 text-xs bg-gray-500/20 text-gray-400 rounded">
+              Inactive
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Metric
+          label="Last Price"
+          value={
+            appraisal.lastUpdate === BigInt(0)
+              ? "—"
+              : formatUsd(appraisal.lastPrice, RWA_PRICE_DECIMALS)
+          }
+          hint={
+            appraisal.lastUpdate === BigInt(0)
+              ? "Never appraised"
+              : formatTimeAgo(appraisal.lastUpdate, now)
+          }
+        />
+        <Metric
+          label="Confidence"
+          value={appraisal.lastUpdate === BigInt(0) ? "—" : formatBps(appraisal.confidence)}
+          hint={`Minimum ${RWA_ORACLE_LIMITS.MIN_CONFIDENCE / 100}%`}
+        />
+        <Metric label="Source" value={appraisal.useOffchainData ? "Offchain" : "Chainlink"} hint={source} />
+      </div>
+      {stale && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-500/20 bg-amber-500/10 p-3 text-sm text-amber-300/90">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-400" />
+          <p>
+            This appraisal is stale, so getRWAPrice rejects it until the oracle
+            is updated
+            {appraisal.useOffchainData ? ". Request fresh offchain data below." : "."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MarketDataSection({ asset }: { asset: Address }) {
+  const { data: market, isLoading } = useGetRWAMarketData(asset);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold">Market Metrics</h3>
+        {market && market.lastUpdated > BigInt(0) && (
+          <span className="text-gray-500 text-xs">
+            Updated {formatTimeAgo(market.lastUpdated).toLowerCase()}
+          </span>
+        )}
+      </div>
+      {!market || market.lastUpdated === BigInt(0) ? (
+        <p className="text-gray-400 text-sm">
+          No market data has been published for this asset yet.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <Metric label="Market Cap" value={formatUsd(market.marketCap)} />
+          <Metric label="24h Volume" value={formatUsd(market.tradingVolume24h)} />
+          <Metric label="Liquidity" value={formatBps(market.liquidityIndex)} hint="Index" />
+          <Metric label="Volatility" value={formatBps(market.volatilityIndex)} hint="Index" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RequestRow({
+  requestId,
+  requestedAt,
+  requestedTx,
+  receivedPrice,
+}: {
+  requestId: Hex;
+  requestedAt?: bigint | null;
+  requestedTx?: Hex;
+  receivedPrice?: bigint;
+}) {
+  const { address } = useAccount();
+  const client = useHedVaultClient();
+  const { data: request } = useGetOffchainDataRequest(requestId);
+  const fulfilled = request?.fulfilled || receivedPrice !== undefined;
+  const mine =
+    !!address && request?.requester.toLowerCase() === address.toLowerCase();
+  const explorerUrl = requestedTx && getExplorerTxUrl(client.chainId, requestedTx);
+
+  return (
+    <div className="flex items-center justify-between p-3 rounded-lg bg-gray-900/60 border border-gray-800">
+      <div className="flex items-center gap-3">
+        {fulfilled ? (
+          <CheckCircle2 className="h-4 w-4 text-green-400" />
+        ) : (
+          <Clock className="h-4 w-4 text-amber-400" />
+        )}
+        <div>
+          <p className="text-white text-sm font-mono">
+            {shortHex(requestId)}
+            {mine && (
+              <span className="ml-2 px-1.5 py-0.5 text-[10px] font-sans bg-green-500/20 text-green-400 rounded">
+                You
+              </span>
+            )}
+          </p>
+          <p className="text-gray-500 text-xs">
+            {requestedAt !== undefined
+              ? formatTimeAgo(requestedAt)
+              : request
+                ? formatTimeAgo(request.timestamp)
+                : "Waiting for the receipt"}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 text-sm">
+        <span className={fulfilled ? "text-green-400" : "text-amber-400"}>
+          {fulfilled
+            ? receivedPrice !== undefined
+              ? `Fulfilled · ${formatUsd(receivedPrice, RWA_PRICE_DECIMALS)}`
+              : "Fulfilled"
+            : "Awaiting fulfilment"}
+        </span>
+        {explorerUrl && (
+          <a
+            href={explorerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-400 hover:text-white"
+            aria-label="View request transaction"
+          >
+            <ExternalLink className="h-4 w-4" />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Pays the request fee for a Chainlink Functions appraisal and follows each
+ * request for the asset until fulfillOffchainRequest lands
+ */
+function OffchainRequestSection({ asset }: { asset: Address }) {
+  const { isConnected } = useAccount();
+  const client = useHedVaultClient();
+  const { data: appraisal } = useGetRWAAsset(asset);
+  const { data: fee } = useGetOffchainRequestFee();
+  const { events } = useOffchainDataRequestHistory(asset);
+  const request = useRequestOffchainData();
+  const [parameters, setParameters] = useState("");
+  // Requests sent from this session that the indexer hasn't picked up yet
+  const [submitted, setSubmitted] = useState<Hex[]>([]);
+  const busy = request.isPending || request.isConfirming;
+
+  const native = getContractNativeUnit(client.chainId);
+  const formattedFee = fee === undefined ? "…" : `${formatAmount(fee, native.decimals)} ${native.symbol}`;
+
+  const requested = events.filter((event) => event.eventName === "OffchainDataRequested");
+  const received = new Map<string, bigint>();
+  // Only OffchainDataReceived carries a price
+  for (const event of events) {
+    if ("price" in event.args) {
+      received.set(event.args.requestId.toLowerCase(), event.args.price);
+    }
+  }
+  const indexedIds = new Set(requested.map((event) => event.args.requestId.toLowerCase()));
+  const pending = submitted.filter((requestId) => !indexedIds.has(requestId.toLowerCase()));
+
+  const handleRequest = async () => {
+    try {
+      const receipt = await request.submit(
+        asset,
+        parameters
+          .split(",")
+          .map((parameter) => parameter.trim())
+          .filter(Boolean),
+        fee
+      ).confirmed;
+      const requestId = getOffchainRequestId(receipt.logs);
+      if (requestId) setSubmitted((ids) => [requestId, ...ids]);
+      setParameters("");
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-white font-semibold">Offchain Appraisal Requests</h3>
+      {appraisal && !appraisal.useOffchainData ? (
+        <p className="text-gray-400 text-sm">
+          This asset is priced from its Chainlink feed; offchain requests
+          aren&apos;t enabled for it.
+        </p>
+      ) : (
+        <div className="p-4 rounded-lg bg-gray-900/70 space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="offchain-parameters" className="text-gray-400 text-sm">
+              Parameters (optional, comma separated)
+            </Label>
+            <Input
+              id="offchain-parameters"
+              placeholder="e.g. appraisal, q3-2025"
+              value={parameters}
+              onChange={(e) => setParameters(e.target.value)}
+              className="bg-gray-800 border-gray-600 text-white"
+            />
+          </div>
+          <Button
+            onClick={handleRequest}
+            disabled={!isConnected || fee === undefined || busy}
+            className="w-full bg-green-600 hover:bg-green-700 text-white"
+          >
+            {busy ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            {isConnected ? `Request appraisal · ${formattedFee}` : "Connect wallet to request"}
+          </Button>
+          <p className="text-gray-500 text-xs">
+            The fee pays for a Chainlink Functions call to the asset&apos;s data
+            source. The appraisal updates once the oracle fulfils the request.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {pending.map((requestId) => (
+          <RequestRow key={requestId} requestId={requestId} />
+        ))}
+        {requested.map((event) => {
+          const { requestId } = event.args;
+          return (
+            <RequestRow
+              key={event.id}
+              requestId={requestId}
+              requestedAt={event.blockTimestamp}
+              requestedTx={event.transactionHash}
+              receivedPrice={received.get(requestId.toLowerCase())}
+            />
+          );
+        })}
+        {pending.length === 0 && requested.length === 0 && (
+          <p className="text-gray-500 text-sm">No requests for this asset yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AssetPanel({ asset, symbol }: { asset: Address; symbol?: string }) {
+  useRefreshOnIndexerSync();
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-xl font-bold text-white">{symbol ?? shortHex(asset)}</h2>
+        <p className="text-gray-500 text-xs font-mono">{asset}</p>
+      </div>
+      <AppraisalSection asset={asset} />
+      <PriceChart asset={asset} defaultSource="oracle" />
+      <MarketDataSection asset={asset} />
+      <OffchainRequestSection asset={asset} />
+    </div>
+  );
+}
+
+export function MarketsTab() {
+  const [assetType, setAssetType] = useState<string>();
+  const [selected, setSelected] = useState<Address>();
+  const allAssets = useGetAllRWAAssets();
+  const assetsOfType = useGetRWAAssetsByType(assetType);
+  const { data, isLoading } = assetType ? assetsOfType : allAssets;
+  const assets = data ?? [];
+  const { metadata } = useTokenMetadata([...assets]);
+  const active = selected && assets.includes(selected) ? selected : assets[0];
+  const symbolOf = (asset: Address) => metadata[asset.toLowerCase()]?.symbol;
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gray-950/80 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white">RWA Market Data</CardTitle>
+          <p className="text-gray-400">
+            Appraisals and market metrics published by the RWA oracle
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {[undefined, ...RWA_ASSET_TYPES].map((type) => (
+              <Button
+                key={type ?? "all"}
+                variant="outline"
+                size="sm"
+                onClick={() => setAssetType(type)}
+                className={
+                  assetType === type
+                    ? "border-green-500/50 bg-green-500/10 text-green-400"
+                    : "border-gray-700 bg-transparent text-gray-300"
+                }
+              >
+                {type ?? "All"}
+              </Button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : assets.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">
+              No assets registered with the oracle
+              {assetType ? ` under ${assetType}` : ""}.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                {assets.map((asset) => (
+                  <button
+                    key={asset}
+                    onClick={() => setSelected(asset)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                      asset === active
+                        ? "border-green-500/50 bg-green-500/10"
+                        : "border-gray-800 bg-gray-900/50 hover:border-gray-700"
+                    }`}
+                  >
+                    <p className="text-white font-medium">
+                      {symbolOf(asset) ?? shortHex(asset)}
+                    </p>
+                    <p className="text-gray-500 text-xs font-mono">{shortHex(asset)}</p>
+                  </button>
+                ))}
+              </div>
+              <div className="xl:col-span-2">
+                {active && (
+                  <AssetPanel key={active} asset={active} symbol={symbolOf(active)} />
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
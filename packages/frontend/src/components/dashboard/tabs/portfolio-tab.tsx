@@ -0,0 +1,796 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import { Address } from "viem";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useAddPortfolioAsset,
+  useCreatePortfolio,
+  useGetPortfolio,
+  useGetPortfolioBreakdown,
+  useGetPortfolioPerformance,
+  useGetPortfolioStats,
+  useGetPortfolioValue,
+  useGetUserPortfolios,
+  useIsPortfolioAssetSupported,
+  useRebalancePortfolio,
+  useRemovePortfolioAsset,
+  useUpdateAllocations,
+} from "@/hooks/contracts/usePortfolioManager";
+import {
+  useTokenAllowance,
+  useTokenApproval,
+  useTokenBalance,
+} from "@/hooks/contracts/useLendingPool";
+import { useContractConfig } from "@/hooks/useContractConfig";
+import { useHedVaultClient } from "@/hooks/useHedVaultClient";
+import { useToken, useTokenMetadata } from "@/hooks/useTokenMetadata";
+import { useTokenAssociations } from "@/hooks/useTokenAssociation";
+import { useAssetPrices } from "@/hooks/useAssetPrices";
+import { AllocationBars, AllocationDonut } from "../ui/allocation-chart";
+import { PriceFreshness } from "../ui/price-freshness";
+import { TokenAssociationBadge } from "../ui/token-association";
+import {
+  PORTFOLIO_LIMITS,
+  formatAmount,
+  parseAmount,
+  sanitizeAmountInput,
+  validateAllocations,
+  validateAmount,
+} from "@/lib/sdk";
+import { RWA_TOKEN_ADDRESSES } from "@/config/rwaTokenFactory";
+
+const RWA_TOKENS: Address[] = [
+  RWA_TOKEN_ADDRESSES.GOLD,
+  RWA_TOKEN_ADDRESSES.SILVER,
+  RWA_TOKEN_ADDRESSES.REAL_ESTATE,
+];
+
+// Portfolio values are oracle prices times amounts, in USD with 18 decimals
+const USD_DECIMALS = 18;
+
+const formatUsd = (value?: bigint) =>
+  value === undefined
+    ? "—"
+    : `$${formatAmount(value, USD_DECIMALS, {
+        maximumFractionDigits: 2,
+        minimumFractionDigits: 2,
+      })}`;
+
+const formatBps = (bps: bigint | number) => `${(Number(bps) / 100).toFixed(2)}%`;
+
+// Percentages are entered with up to two decimals, i.e. whole basis points
+const PERCENT_DECIMALS = 2;
+const percentToBps = (value: string) =>
+  Number(parseAmount(value, PERCENT_DECIMALS));
+
+const inputClassName = "bg-gray-800 border-gray-600 text-white";
+const selectClassName =
+  "w-full bg-gray-800 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-green-500";
+
+/**
+ * Refreshes every PortfolioManager read and token balance once a portfolio
+ * write confirms
+ */
+function useRefreshPortfolios() {
+  const client = useHedVaultClient();
+  const queryClient = useQueryClient();
+
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({
+        queryKey: ["hedvault", client.chainId, "portfolio"],
+      }),
+      queryClient.invalidateQueries({
+        queryKey: ["hedvault", client.chainId, "token"],
+      }),
+    ]);
+}
+
+function CreatePortfolioForm({
+  onCreated,
+}: {
+  onCreated: () => Promise<void>;
+}) {
+  const [name, setName] = useState("");
+  const [riskLevel, setRiskLevel] = useState(5);
+  const [threshold, setThreshold] = useState("5");
+  const createPortfolio = useCreatePortfolio();
+  const busy = createPortfolio.isPending || createPortfolio.isConfirming;
+
+  const thresholdError = threshold
+    ? validateAmount(threshold, PERCENT_DECIMALS) ??
+      (percentToBps(threshold) > PORTFOLIO_LIMITS.MAX_REBALANCE_THRESHOLD
+        ? `The rebalance threshold can be at most ${
+            PORTFOLIO_LIMITS.MAX_REBALANCE_THRESHOLD / 100
+          }%`
+        : undefined)
+    : undefined;
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Give the portfolio a name");
+      return;
+    }
+    if (!threshold || thresholdError) {
+      toast.error(thresholdError ?? "Enter a rebalance threshold");
+      return;
+    }
+
+    try {
+      await createPortfolio.submit(
+        name.trim(),
+        riskLevel,
+        BigInt(percentToBps(threshold))
+      ).confirmed;
+      setName("");
+      await onCreated();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg bg-gray-900/70">
+      <h3 className="text-white font-semibold">New Portfolio</h3>
+      <div className="space-y-2">
+        <Label htmlFor="portfolio-name" className="text-gray-400 text-sm">
+          Name
+        </Label>
+        <Input
+          id="portfolio-name"
+          placeholder="e.g. Commodities"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="portfolio-risk" className="text-gray-400 text-sm">
+            Risk Level
+          </Label>
+          <select
+            id="portfolio-risk"
+            value={riskLevel}
+            onChange={(e) => setRiskLevel(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {Array.from(
+              { length: PORTFOLIO_LIMITS.MAX_RISK_LEVEL },
+              (_, index) => index + PORTFOLIO_LIMITS.MIN_RISK_LEVEL
+            ).map((level) => (
+              <option key={level} value={level}>
+                {level}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label
+            htmlFor="portfolio-threshold"
+            className="text-gray-400 text-sm"
+          >
+            Rebalance at drift (%)
+          </Label>
+          <Input
+            id="portfolio-threshold"
+            type="text"
+            inputMode="decimal"
+            value={threshold}
+            onChange={(e) =>
+              setThreshold(sanitizeAmountInput(e.target.value, PERCENT_DECIMALS))
+            }
+            aria-invalid={!!thresholdError}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      {thresholdError && <p className="text-xs text-red-400">{thresholdError}</p>}
+      <Button
+        onClick={handleCreate}
+        disabled={busy}
+        className="w-full bg-green-600 hover:bg-green-700 text-white"
+      >
+        {busy ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Plus className="mr-2 h-4 w-4" />
+        )}
+        Create Portfolio
+      </Button>
+    </div>
+  );
+}
+
+function PortfolioListItem({
+  portfolioId,
+  active,
+  onSelect,
+}: {
+  portfolioId: bigint;
+  active: boolean;
+  onSelect: () => void;
+}) {
+  const { data: portfolio } = useGetPortfolio(portfolioId);
+  const { data: value } = useGetPortfolioValue(portfolioId);
+
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full text-left p-3 rounded-lg border transition-colors ${
+        active
+          ? "border-green-500/50 bg-green-500/10"
+          : "border-gray-800 bg-gray-900/60 hover:bg-gray-900"
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium">
+          {portfolio?.name ?? `Portfolio #${portfolioId}`}
+        </span>
+        <span className="text-gray-300 text-sm">{formatUsd(value)}</span>
+      </div>
+      <p className="text-gray-500 text-xs mt-1">
+        #{portfolioId.toString()}
+        {portfolio && ` · Risk ${portfolio.riskLevel}/10`}
+        {portfolio && !portfolio.isActive && " · Inactive"}
+      </p>
+    </button>
+  );
+}
+
+function AddAssetForm({
+  portfolioId,
+  targetAllocations,
+  onAdded,
+}: {
+  portfolioId: bigint;
+  targetAllocations: readonly bigint[];
+  onAdded: () => Promise<unknown>;
+}) {
+  const [asset, setAsset] = useState<Address>(RWA_TOKENS[0]);
+  const [amount, setAmount] = useState("");
+  const [target, setTarget] = useState("");
+
+  const portfolioManager = useContractConfig("PortfolioManager");
+  const { metadata: rwaTokenMetadata } = useTokenMetadata(RWA_TOKENS);
+  const { data: token } = useToken(asset);
+  const { data: supported } = useIsPortfolioAssetSupported(asset);
+  const allowance = useTokenAllowance(asset, portfolioManager.address);
+  const balance = useTokenBalance(asset);
+  const tokenApproval = useTokenApproval(asset);
+  const addAsset = useAddPortfolioAsset();
+  const busy =
+    tokenApproval.isPending ||
+    tokenApproval.isConfirming ||
+    addAsset.isPending ||
+    addAsset.isConfirming;
+
+  const amountError =
+    amount && token ? validateAmount(amount, token.decimals) : undefined;
+  const targetError = target
+    ? validateAmount(target, PERCENT_DECIMALS) ??
+      validateAllocations([
+        ...targetAllocations.map(Number),
+        percentToBps(target),
+      ])
+    : undefined;
+
+  const handleAdd = async () => {
+    if (!token) {
+      toast.error("Token details are still loading");
+      return;
+    }
+    if (supported === false) {
+      toast.error(`${token.symbol} can't be held in portfolios`);
+      return;
+    }
+    if (!target || targetError) {
+      toast.error(targetError ?? "Enter a target allocation");
+      return;
+    }
+    let value: bigint;
+    try {
+      value = parseAmount(amount, token.decimals);
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+    if (balance.data !== undefined && balance.data < value) {
+      toast.error("Insufficient token balance");
+      return;
+    }
+
+    try {
+      // The PortfolioManager pulls the tokens, so it needs an allowance first
+      if ((allowance.data ?? BigInt(0)) < value) {
+        await tokenApproval.submit(portfolioManager.address, value).confirmed;
+      }
+      await addAsset.submit(
+        portfolioId,
+        asset,
+        value,
+        BigInt(percentToBps(target))
+      ).confirmed;
+      setAmount("");
+      setTarget("");
+      await onAdded();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg bg-gray-900/70">
+      <h3 className="text-white font-semibold">Add Asset</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="portfolio-asset" className="text-gray-400 text-sm">
+            Asset
+          </Label>
+          <select
+            id="portfolio-asset"
+            value={asset}
+            onChange={(e) => {
+              setAsset(e.target.value as Address);
+              setAmount("");
+            }}
+            className={selectClassName}
+          >
+            {RWA_TOKENS.map((address) => (
+              <option key={address} value={address}>
+                {rwaTokenMetadata[address.toLowerCase()]?.symbol ?? address}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="portfolio-amount" className="text-gray-400 text-sm">
+            Amount
+          </Label>
+          <Input
+            id="portfolio-amount"
+            type="text"
+            inputMode="decimal"
+            placeholder="0.0"
+            value={amount}
+            onChange={(e) =>
+              setAmount(sanitizeAmountInput(e.target.value, token?.decimals))
+            }
+            aria-invalid={!!amountError}
+            className={inputClassName}
+          />
+          {balance.data !== undefined && token && (
+            <p className="text-gray-500 text-xs">
+              Balance: {formatAmount(balance.data, token.decimals)} {token.symbol}
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="portfolio-target" className="text-gray-400 text-sm">
+            Target (%)
+          </Label>
+          <Input
+            id="portfolio-target"
+            type="text"
+            inputMode="decimal"
+            placeholder={`${PORTFOLIO_LIMITS.MIN_ALLOCATION / 100}–${
+              PORTFOLIO_LIMITS.MAX_ALLOCATION / 100
+            }`}
+            value={target}
+            onChange={(e) =>
+              setTarget(sanitizeAmountInput(e.target.value, PERCENT_DECIMALS))
+            }
+            aria-invalid={!!targetError}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      {(amountError || targetError) && (
+        <p className="text-xs text-red-400">{amountError ?? targetError}</p>
+      )}
+      {supported === false && token && (
+        <p className="text-xs text-amber-400">
+          {token.symbol} is not a supported portfolio asset yet.
+        </p>
+      )}
+      <Button
+        onClick={handleAdd}
+        disabled={busy || !amount || !target || supported === false}
+        className="w-full bg-green-600 hover:bg-green-700 text-white"
+      >
+        {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {tokenApproval.isPending || tokenApproval.isConfirming
+          ? "Approving..."
+          : "Approve & Add"}
+      </Button>
+    </div>
+  );
+}
+
+function PortfolioDetails({ portfolioId }: { portfolioId: bigint }) {
+  // Edited target percentages keyed by lowercased asset; untouched assets
+  // keep their on-chain target
+  const [draftTargets, setDraftTargets] = useState<Record<string, string>>({});
+
+  const refresh = useRefreshPortfolios();
+  const { data: portfolio } = useGetPortfolio(portfolioId);
+  const { data: value } = useGetPortfolioValue(portfolioId);
+  const { data: stats } = useGetPortfolioStats(portfolioId);
+  const { data: performance } = useGetPortfolioPerformance(portfolioId);
+  const { data: breakdown, isLoading } = useGetPortfolioBreakdown(portfolioId);
+
+  const assets = breakdown?.assets ?? [];
+  const { metadata } = useTokenMetadata([...assets]);
+  const { statuses, needsAssociation } = useTokenAssociations([...assets]);
+  const { priceOf, isStale, isLoading: pricesLoading, now } = useAssetPrices(assets);
+  const stalePrices = pricesLoading
+    ? 0
+    : assets.filter((asset) => !priceOf(asset) || isStale(asset)).length;
+  const symbolOf = (asset: Address) =>
+    metadata[asset.toLowerCase()]?.symbol ??
+    `${asset.slice(0, 6)}…${asset.slice(-4)}`;
+
+  const updateAllocations = useUpdateAllocations();
+  const rebalance = useRebalancePortfolio();
+  const removeAsset = useRemovePortfolioAsset();
+
+  const targetOf = (asset: Address, index: number) =>
+    draftTargets[asset.toLowerCase()] ??
+    (Number(breakdown?.targetAllocations[index] ?? 0) / 100).toString();
+  const targetInputs = assets.map(targetOf);
+  const allocationsError =
+    targetInputs
+      .map((target) => validateAmount(target, PERCENT_DECIMALS))
+      .find(Boolean) ?? validateAllocations(targetInputs.map(percentToBps));
+  const allocationsEdited = Object.keys(draftTargets).length > 0;
+
+  const nextRebalance = portfolio
+    ? Number(portfolio.lastRebalance) +
+      PORTFOLIO_LIMITS.REBALANCE_COOLDOWN_SECONDS
+    : 0;
+  const coolingDown = nextRebalance * 1000 > Date.now();
+
+  const handleSaveAllocations = async () => {
+    if (allocationsError) {
+      toast.error(allocationsError);
+      return;
+    }
+    try {
+      await updateAllocations.submit(
+        portfolioId,
+        [...assets],
+        targetInputs.map((target) => BigInt(percentToBps(target)))
+      ).confirmed;
+      setDraftTargets({});
+      await refresh();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  const handleRebalance = async () => {
+    try {
+      await rebalance.submit(portfolioId).confirmed;
+      await refresh();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  // Withdraws the whole holding back to the owner
+  const handleRemove = async (asset: Address) => {
+    if (needsAssociation(asset)) {
+      toast.error(`Associate ${symbolOf(asset)} before withdrawing it`);
+      return;
+    }
+    try {
+      await removeAsset.submit(portfolioId, asset, BigInt(0)).confirmed;
+      await refresh();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  const totalValue = breakdown?.values.reduce(
+    (sum, assetValue) => sum + assetValue,
+    BigInt(0)
+  );
+  const slices = assets.map((asset, index) => ({
+    label: symbolOf(asset),
+    bps: Number(breakdown?.currentAllocations[index] ?? 0),
+  }));
+  const rows = assets.map((asset, index) => ({
+    label: symbolOf(asset),
+    targetBps: Number(breakdown?.targetAllocations[index] ?? 0),
+    currentBps: Number(breakdown?.currentAllocations[index] ?? 0),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4 rounded-lg bg-gray-900/70 text-center">
+          <p className="text-gray-400 text-sm">Value</p>
+          <p className="text-2xl font-bold text-green-400">{formatUsd(value)}</p>
+          {stalePrices > 0 && (
+            <p className="text-amber-400 text-xs mt-1">
+              {stalePrices} of {assets.length} prices stale
+            </p>
+          )}
+        </div>
+        <div className="p-4 rounded-lg bg-gray-900/70 text-center">
+          <p className="text-gray-400 text-sm">Assets</p>
+          <p className="text-2xl font-bold text-white">
+            {stats ? `${stats.totalAssets}/${PORTFOLIO_LIMITS.MAX_ASSETS}` : "—"}
+          </p>
+        </div>
+        <div className="p-4 rounded-lg bg-gray-900/70 text-center">
+          <p className="text-gray-400 text-sm">Allocated</p>
+          <p className="text-2xl font-bold text-white">
+            {stats ? formatBps(stats.totalAllocation) : "—"}
+          </p>
+        </div>
+        <div className="p-4 rounded-lg bg-gray-900/70 text-center">
+          <p className="text-gray-400 text-sm">Status</p>
+          <p
+            className={`text-2xl font-bold ${
+              stats?.isBalanced ? "text-green-400" : "text-amber-400"
+            }`}
+          >
+            {stats ? (stats.isBalanced ? "Balanced" : "Drifted") : "—"}
+          </p>
+        </div>
+      </div>
+
+      {performance && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          {[
+            ["Total Return", formatBps(performance.totalReturn)],
+            ["Monthly", formatBps(performance.monthlyReturn)],
+            ["Max Drawdown", formatBps(performance.maxDrawdown)],
+            ["Volatility", formatBps(performance.volatility)],
+            // Scaled by 1000 on chain
+            ["Sharpe", (Number(performance.sharpeRatio) / 1000).toFixed(2)],
+          ].map(([label, shown]) => (
+            <div key={label} className="p-3 rounded-lg bg-gray-900/60">
+              <p className="text-gray-500 text-xs">{label}</p>
+              <p className="text-white font-medium">{shown}</p>
+            </div>
+          ))}
+          {performance.lastUpdated === BigInt(0) && (
+            <p className="col-span-full text-gray-500 text-xs">
+              Performance is tracked from the first update after assets are
+              added.
+            </p>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : assets.length === 0 ? (
+        <p className="text-gray-400 text-center py-8">
+          No assets yet. Add one below to start tracking allocations.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="p-4 rounded-lg bg-gray-900/70">
+              <h3 className="text-white font-semibold mb-4">
+                Current Allocation
+              </h3>
+              <AllocationDonut
+                slices={slices}
+                centerLabel="Total"
+                centerValue={formatUsd(totalValue)}
+              />
+            </div>
+            <div className="p-4 rounded-lg bg-gray-900/70">
+              <h3 className="text-white font-semibold mb-4">
+                Current vs Target
+              </h3>
+              <AllocationBars
+                rows={rows}
+                thresholdBps={
+                  portfolio
+                    ? Number(portfolio.targetRebalanceThreshold)
+                    : undefined
+                }
+              />
+            </div>
+          </div>
+
+          <div className="p-4 rounded-lg bg-gray-900/70 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-white font-semibold">Target Allocations</h3>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRebalance}
+                disabled={
+                  rebalance.isPending ||
+                  rebalance.isConfirming ||
+                  coolingDown ||
+                  stats?.isBalanced
+                }
+                className="border-gray-700 text-white bg-transparent"
+              >
+                <RefreshCw
+                  className={`mr-2 h-4 w-4 ${
+                    rebalance.isConfirming ? "animate-spin" : ""
+                  }`}
+                />
+                Rebalance
+              </Button>
+            </div>
+            {coolingDown && (
+              <p className="text-gray-500 text-xs">
+                Rebalancing is available again after{" "}
+                {new Date(nextRebalance * 1000).toLocaleString()}.
+              </p>
+            )}
+            <div className="space-y-2">
+              {assets.map((asset, index) => (
+                <div
+                  key={asset}
+                  className="grid grid-cols-12 items-center gap-3"
+                >
+                  <span className="col-span-3 text-white font-medium">
+                    {symbolOf(asset)}
+                  </span>
+                  <span className="col-span-3 flex items-center gap-2 text-gray-400 text-sm">
+                    {formatUsd(breakdown?.values[index])}
+                    {!pricesLoading && (
+                      <PriceFreshness price={priceOf(asset)} now={now} />
+                    )}
+                  </span>
+                  <div className="col-span-3">
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      aria-label={`${symbolOf(asset)} target allocation (%)`}
+                      value={targetInputs[index]}
+                      onChange={(e) =>
+                        setDraftTargets((drafts) => ({
+                          ...drafts,
+                          [asset.toLowerCase()]: sanitizeAmountInput(
+                            e.target.value,
+                            PERCENT_DECIMALS
+                          ),
+                        }))
+                      }
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="col-span-3 flex items-center justify-end gap-2">
+                    <TokenAssociationBadge
+                      token={asset}
+                      status={statuses[asset.toLowerCase()]}
+                      needsAssociation={needsAssociation(asset)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(asset)}
+                      disabled={removeAsset.isPending || removeAsset.isConfirming}
+                      className="text-red-400 hover:text-red-300"
+                      title="Withdraw the whole holding"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {allocationsEdited && allocationsError && (
+              <p className="text-xs text-red-400">{allocationsError}</p>
+            )}
+            {allocationsEdited && (
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSaveAllocations}
+                  disabled={
+                    !!allocationsError ||
+                    updateAllocations.isPending ||
+                    updateAllocations.isConfirming
+                  }
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                >
+                  Save Allocations
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setDraftTargets({})}
+                  className="border-gray-700 text-white bg-transparent"
+                >
+                  Reset
+                </Button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <AddAssetForm
+        portfolioId={portfolioId}
+        targetAllocations={breakdown?.targetAllocations ?? []}
+        onAdded={refresh}
+      />
+    </div>
+  );
+}
+
+export function PortfolioTab() {
+  const { address, isConnected } = useAccount();
+  const [selectedId, setSelectedId] = useState<bigint>();
+  const portfolios = useGetUserPortfolios(address);
+  const portfolioIds = portfolios.data ?? [];
+  const activeId = selectedId ?? portfolioIds[0];
+
+  // Opens the newest portfolio once it has been created
+  const handleCreated = async () => {
+    const { data } = await portfolios.refetch();
+    if (data?.length) setSelectedId(data[data.length - 1]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gray-950/80 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white">Portfolios</CardTitle>
+          <p className="text-gray-400">
+            Hold RWA tokens against target allocations and rebalance when they
+            drift
+          </p>
+        </CardHeader>
+        <CardContent>
+          {!isConnected ? (
+            <p className="text-gray-400 text-center py-8">
+              Connect your wallet to manage portfolios.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="space-y-4">
+                <CreatePortfolioForm onCreated={handleCreated} />
+                <div className="space-y-2">
+                  {portfolios.isLoading ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                    </div>
+                  ) : (
+                    portfolioIds.map((portfolioId) => (
+                      <PortfolioListItem
+                        key={portfolioId.toString()}
+                        portfolioId={portfolioId}
+                        active={portfolioId === activeId}
+                        onSelect={() => setSelectedId(portfolioId)}
+                      />
+                    ))
+                  )}
+                </div>
+              </div>
+              <div className="xl:col-span-2">
+                {activeId ? (
+                  <PortfolioDetails key={activeId.toString()} portfolioId={activeId} />
+                ) : (
+                  <p className="text-gray-400 text-center py-8">
+                    Create a portfolio to get started.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
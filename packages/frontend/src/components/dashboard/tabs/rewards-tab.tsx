@@ -1,83 +1,618 @@
 "use client";
 
-import { useState } from "react";
+import type React from "react";
+import { useMemo, useState } from "react";
 import {
   TrendingUp,
   Gift,
   Zap,
   BarChart3,
-  Settings,
   History,
+  Landmark,
+  Store,
+  Droplets,
+  Building2,
+  Users,
+  Lock,
+  Loader2,
+  Hourglass,
 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import { Address } from "viem";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  useAutoClaimRewards,
+  useClaimRewards,
+  useEarned,
+  useGetMinStakeAmount,
+  useGetPoolNames,
+  useGetRewardPools,
+  useGetRewardToken,
+  useGetStakingFee,
+  useGetUnstakingFee,
+  useGetUserRewardsOverview,
+  useGetUserStakeInfo,
+  useStake,
+  useUnstake,
+  type RewardPool,
+} from "@/hooks/contracts/useRewardsDistributor";
+import {
+  useTokenAllowance,
+  useTokenApproval,
+  useTokenBalance,
+} from "@/hooks/contracts/useLendingPool";
+import { useContractConfig } from "@/hooks/useContractConfig";
+import { useHedVaultClient } from "@/hooks/useHedVaultClient";
+import { useRewardClaimHistory } from "@/hooks/useIndexedEvents";
+import { useToken } from "@/hooks/useTokenMetadata";
+import { TokenAssociationNotice } from "../ui/token-association";
+import { VestingSchedules } from "../ui/vesting-schedules";
+import { VestingAdmin } from "../ui/vesting-admin";
+import {
+  AUTO_CLAIM_POOL,
+  formatAmount,
+  formatAmountInput,
+  parseAmount,
+  poolNameTopic,
+  rewardPoolApyBps,
+  sanitizeAmountInput,
+  validateAmount,
+} from "@/lib/sdk";
+import { formatTimeAgo } from "@/lib/activity";
+import { getExplorerTxUrl } from "@/lib/chains";
+
+interface PoolStyle {
+  name: string;
+  icon: React.ComponentType<{ className?: string }>;
+  color: string;
+  bgColor: string;
+  borderColor: string;
+}
+
+// The pools RewardsDistributor.initializeDefaultPools creates
+const POOL_STYLES: Record<string, PoolStyle> = {
+  staking: {
+    name: "Staking",
+    icon: Zap,
+    color: "text-green-400",
+    bgColor: "bg-green-500/10",
+    borderColor: "border-green-500/20",
+  },
+  trading: {
+    name: "Trading",
+    icon: TrendingUp,
+    color: "text-orange-400",
+    bgColor: "bg-orange-500/10",
+    borderColor: "border-orange-500/20",
+  },
+  lending: {
+    name: "Lending Interest",
+    icon: TrendingUp,
+    color: "text-blue-400",
+    bgColor: "bg-blue-500/10",
+    borderColor: "border-blue-500/20",
+  },
+  governance: {
+    name: "Governance",
+    icon: Landmark,
+    color: "text-yellow-400",
+    bgColor: "bg-yellow-500/10",
+    borderColor: "border-yellow-500/20",
+  },
+  marketplace: {
+    name: "Marketplace",
+    icon: Store,
+    color: "text-pink-400",
+    bgColor: "bg-pink-500/10",
+    borderColor: "border-pink-500/20",
+  },
+  liquidity: {
+    name: "Yield Farming",
+    icon: Droplets,
+    color: "text-purple-400",
+    bgColor: "bg-purple-500/10",
+    borderColor: "border-purple-500/20",
+  },
+  rwa_tokenization: {
+    name: "RWA Tokenization",
+    icon: Building2,
+    color: "text-emerald-400",
+    bgColor: "bg-emerald-500/10",
+    borderColor: "border-emerald-500/20",
+  },
+  referral: {
+    name: "Referrals",
+    icon: Users,
+    color: "text-cyan-400",
+    bgColor: "bg-cyan-500/10",
+    borderColor: "border-cyan-500/20",
+  },
+};
+
+const poolStyle = (poolName: string): PoolStyle =>
+  POOL_STYLES[poolName] ?? {
+    name: poolName,
+    icon: BarChart3,
+    color: "text-gray-300",
+    bgColor: "bg-gray-500/10",
+    borderColor: "border-gray-500/20",
+  };
+
+const DAY = 24 * 60 * 60;
+const LOCK_PERIODS = [
+  { label: "No lock", seconds: 0 },
+  { label: "30 days", seconds: 30 * DAY },
+  { label: "90 days", seconds: 90 * DAY },
+  { label: "180 days", seconds: 180 * DAY },
+  { label: "365 days", seconds: 365 * DAY },
+];
 
-interface DetailedReward {
-  asset: string;
+const formatApy = (apyBps?: bigint) =>
+  apyBps === undefined ? "—" : `${(Number(apyBps) / 100).toFixed(2)}%`;
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+// Share of the pool's reward period that has elapsed, 0-100
+const periodProgress = (pool: RewardPool) => {
+  if (pool.duration === BigInt(0)) return 100;
+  const start = pool.periodFinish - pool.duration;
+  const elapsed = nowSeconds() - start;
+  return Math.min(100, Math.max(0, (Number(elapsed) / Number(pool.duration)) * 100));
+};
+
+/**
+ * Refreshes every RewardsDistributor read and token balance once a rewards
+ * write confirms
+ */
+function useRefreshRewards() {
+  const client = useHedVaultClient();
+  const queryClient = useQueryClient();
+
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({
+        queryKey: ["hedvault", client.chainId, "rewards"],
+      }),
+      queryClient.invalidateQueries({
+        queryKey: ["hedvault", client.chainId, "token"],
+      }),
+    ]);
+}
+
+interface RewardTokenInfo {
+  address?: Address;
+  decimals?: number;
   symbol: string;
-  category: string;
-  type: string;
-  amount: string;
-  pendingAmount: string;
-  apy: string;
-  frequency: string;
-  nextReward: string;
-  totalStaked: string;
-  rewardToken: string;
-  autoCompound: boolean;
-  lastClaimed: string;
-  claimableAmount: string;
-  performance30d: string;
-  location: string;
 }
 
-interface RewardHistoryItem {
-  date: string;
-  asset: string;
-  type: string;
-  amount: string;
-  token: string;
-  txHash: string;
+function RewardPoolCard({
+  poolName,
+  pool,
+  totalStaked,
+  rewardToken,
+}: {
+  poolName: string;
+  pool: RewardPool;
+  totalStaked: bigint;
+  rewardToken: RewardTokenInfo;
+}) {
+  const { address } = useAccount();
+  const [stakeAmount, setStakeAmount] = useState("");
+  const [unstakeAmount, setUnstakeAmount] = useState("");
+  const [lockPeriod, setLockPeriod] = useState(0);
+
+  const style = poolStyle(poolName);
+  const IconComponent = style.icon;
+  const { decimals, symbol } = rewardToken;
+  const format = (value?: bigint) =>
+    value === undefined || decimals === undefined
+      ? "—"
+      : `${formatAmount(value, decimals)} ${symbol}`;
+
+  const refresh = useRefreshRewards();
+  const rewardsDistributor = useContractConfig("RewardsDistributor");
+  const { data: stakeInfo } = useGetUserStakeInfo(address, poolName);
+  const { data: earned } = useEarned(address, poolName);
+  const { data: minStake } = useGetMinStakeAmount();
+  const { data: stakingFee } = useGetStakingFee();
+  const { data: unstakingFee } = useGetUnstakingFee();
+  const allowance = useTokenAllowance(rewardToken.address, rewardsDistributor.address);
+  const balance = useTokenBalance(rewardToken.address);
+  const tokenApproval = useTokenApproval(rewardToken.address);
+  const stake = useStake();
+  const unstake = useUnstake();
+  const claimRewards = useClaimRewards();
+
+  const apyBps = rewardPoolApyBps(pool, totalStaked);
+  const staked = stakeInfo?.amount ?? BigInt(0);
+  const unlocksAt = stakeInfo?.isLocked
+    ? stakeInfo.stakingTime + stakeInfo.lockPeriod
+    : BigInt(0);
+  const locked = unlocksAt > nowSeconds();
+  const progress = periodProgress(pool);
+
+  const parseInput = (value: string) => {
+    if (decimals === undefined) {
+      toast.error("Token details are still loading");
+      return undefined;
+    }
+    try {
+      return parseAmount(value, decimals);
+    } catch (error) {
+      toast.error((error as Error).message);
+      return undefined;
+    }
+  };
+
+  const handleStake = async () => {
+    const amount = parseInput(stakeAmount);
+    if (amount === undefined || !rewardToken.address) return;
+    if (minStake !== undefined && amount < minStake) {
+      toast.error(`Stake at least ${format(minStake)}`);
+      return;
+    }
+    if (balance.data !== undefined && balance.data < amount) {
+      toast.error("Insufficient token balance");
+      return;
+    }
+
+    try {
+      // The RewardsDistributor pulls the stake, so it needs an allowance first
+      if ((allowance.data ?? BigInt(0)) < amount) {
+        await tokenApproval.submit(rewardsDistributor.address, amount).confirmed;
+      }
+      await stake.submit(poolName, amount, BigInt(lockPeriod)).confirmed;
+      setStakeAmount("");
+      await refresh();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  const handleUnstake = async () => {
+    const amount = parseInput(unstakeAmount);
+    if (amount === undefined) return;
+    if (amount > staked) {
+      toast.error("That's more than you have staked");
+      return;
+    }
+
+    try {
+      await unstake.submit(poolName, amount).confirmed;
+      setUnstakeAmount("");
+      await refresh();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      await claimRewards.submit(poolName).confirmed;
+      await refresh();
+    } catch {
+      // The transaction toast reports the failure
+    }
+  };
+
+  const stakeError =
+    stakeAmount && decimals !== undefined
+      ? validateAmount(stakeAmount, decimals)
+      : undefined;
+  const unstakeError =
+    unstakeAmount && decimals !== undefined
+      ? validateAmount(unstakeAmount, decimals)
+      : undefined;
+  const staking =
+    tokenApproval.isPending ||
+    tokenApproval.isConfirming ||
+    stake.isPending ||
+    stake.isConfirming;
+
+  return (
+    <div className="p-6 rounded-xl bg-gray-900/60 backdrop-blur-sm border border-gray-700/50 hover:bg-gray-800/60 transition-all duration-200">
+      {/* Header Row */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <div
+            className={`w-12 h-12 rounded-xl ${style.bgColor} border ${style.borderColor} flex items-center justify-center`}
+          >
+            <IconComponent className={`w-5 h-5 ${style.color}`} />
+          </div>
+          <div>
+            <div className="flex items-center space-x-3">
+              <h3 className="text-white font-semibold text-lg">{style.name}</h3>
+              {!pool.isActive && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-500/20 text-gray-400 border border-gray-500/30">
+                  Inactive
+                </span>
+              )}
+              {locked && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-500/20 text-purple-400 border border-purple-500/30 flex items-center">
+                  <Lock className="h-3 w-3 mr-1" />
+                  Locked
+                </span>
+              )}
+            </div>
+            <p className="text-gray-400 text-sm mt-1">
+              {format(totalStaked)} staked in pool
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-white font-semibold text-xl">{format(staked)}</p>
+          <p className="text-green-400 text-sm font-medium">Your Stake</p>
+        </div>
+      </div>
+
+      {/* Details Grid */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="space-y-1">
+          <p className="text-gray-400 text-xs uppercase tracking-wide">
+            Claimable
+          </p>
+          <p className="text-yellow-400 font-semibold">{format(earned)}</p>
+        </div>
+        <div className="space-y-1">
+          <p className="text-gray-400 text-xs uppercase tracking-wide">APY</p>
+          <p className="text-green-400 font-semibold">{formatApy(apyBps)}</p>
+        </div>
+        <div className="space-y-1">
+          <p className="text-gray-400 text-xs uppercase tracking-wide">
+            {locked ? "Unlocks" : "Fees"}
+          </p>
+          <p className="text-white font-medium">
+            {locked
+              ? new Date(Number(unlocksAt) * 1000).toLocaleDateString()
+              : stakingFee !== undefined && unstakingFee !== undefined
+                ? `${Number(stakingFee) / 100}% in / ${Number(unstakingFee) / 100}% out`
+                : "—"}
+          </p>
+        </div>
+        <div className="space-y-1">
+          <p className="text-gray-400 text-xs uppercase tracking-wide">
+            Period Ends
+          </p>
+          <p className="text-blue-400 font-medium">
+            {new Date(Number(pool.periodFinish) * 1000).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      {/* Progress Bar */}
+      <div className="mb-6">
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-gray-400">Reward period elapsed</span>
+          <span className="text-white">{progress.toFixed(0)}%</span>
+        </div>
+        <div className="w-full bg-gray-700 rounded-full h-2">
+          <div
+            className="bg-green-500 h-2 rounded-full"
+            style={{ width: `${progress}%` }}
+          ></div>
+        </div>
+      </div>
+
+      {/* Stake / Unstake */}
+      {address && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Stake ${symbol}`}
+                value={stakeAmount}
+                onChange={(e) =>
+                  setStakeAmount(sanitizeAmountInput(e.target.value, decimals))
+                }
+                aria-invalid={!!stakeError}
+                className="bg-gray-800 border-gray-600 text-white"
+              />
+              <select
+                value={lockPeriod}
+                onChange={(e) => setLockPeriod(Number(e.target.value))}
+                aria-label="Lock period"
+                className="bg-gray-800 border border-gray-600 text-white rounded-md px-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                {LOCK_PERIODS.map((period) => (
+                  <option key={period.seconds} value={period.seconds}>
+                    {period.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {stakeError && <p className="text-xs text-red-400">{stakeError}</p>}
+            {balance.data !== undefined && (
+              <p className="text-gray-500 text-xs">Balance: {format(balance.data)}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Unstake ${symbol}`}
+                value={unstakeAmount}
+                onChange={(e) =>
+                  setUnstakeAmount(sanitizeAmountInput(e.target.value, decimals))
+                }
+                aria-invalid={!!unstakeError}
+                className="bg-gray-800 border-gray-600 text-white"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  decimals !== undefined &&
+                  setUnstakeAmount(formatAmountInput(staked, decimals))
+                }
+                disabled={staked === BigInt(0)}
+                className="border-gray-600 text-gray-300 bg-transparent h-9"
+              >
+                Max
+              </Button>
+            </div>
+            {unstakeError && <p className="text-xs text-red-400">{unstakeError}</p>}
+          </div>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      {address && (
+        <div className="flex flex-wrap gap-3 pt-4 border-t border-gray-700/50">
+          <Button
+            size="sm"
+            className="bg-green-500 hover:bg-green-600 text-black"
+            onClick={handleClaim}
+            disabled={
+              !earned || claimRewards.isPending || claimRewards.isConfirming
+            }
+          >
+            <Gift className="h-4 w-4 mr-2" />
+            Claim Rewards
+          </Button>
+          <Button
+            size="sm"
+            className="bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 border border-blue-500/30"
+            onClick={handleStake}
+            disabled={!stakeAmount || !pool.isActive || staking}
+          >
+            {staking ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Zap className="h-4 w-4 mr-2" />
+            )}
+            {tokenApproval.isPending || tokenApproval.isConfirming
+              ? "Approving..."
+              : "Stake"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-gray-600 text-gray-300 bg-transparent hover:bg-gray-800/50"
+            onClick={handleUnstake}
+            disabled={
+              !unstakeAmount || locked || unstake.isPending || unstake.isConfirming
+            }
+          >
+            Unstake
+          </Button>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export function RewardsTab() {
+  const { address } = useAccount();
   const [activeRewardType, setActiveRewardType] = useState("all");
 
-  const rewardCategories = [
-    {
-      id: "lending",
-      name: "Lending Interest",
-      icon: TrendingUp,
-      totalEarned: "$0",
-      pendingRewards: "$0",
-      apy: "0%",
-      color: "text-blue-400",
-      bgColor: "bg-blue-500/10",
-      borderColor: "border-blue-500/20",
-    },
-    {
-      id: "yield",
-      name: "Yield Farming",
-      icon: BarChart3,
-      totalEarned: "$0",
-      pendingRewards: "$0",
-      apy: "0%",
-      color: "text-purple-400",
-      bgColor: "bg-purple-500/10",
-      borderColor: "border-purple-500/20",
-    },
-  ];
-
-  const detailedRewards: DetailedReward[] = [];
-
-  const rewardHistory: RewardHistoryItem[] = [];
-
-  const filteredRewards: DetailedReward[] = [];
-
-  const totalStats = {
-    totalEarned: 0,
-    totalPending: 0,
-    avgApy: 0,
+  const refresh = useRefreshRewards();
+  const { data: poolNames } = useGetPoolNames();
+  const { data: pools, isLoading: isLoadingPools } = useGetRewardPools(
+    poolNames ?? []
+  );
+  const { data: overview } = useGetUserRewardsOverview(address);
+  const { data: rewardTokenAddress } = useGetRewardToken();
+  const { data: rewardTokenMetadata } = useToken(rewardTokenAddress);
+  const autoClaim = useAutoClaimRewards();
+  const claimHistory = useRewardClaimHistory(address);
+
+  const rewardToken: RewardTokenInfo = {
+    address: rewardTokenAddress,
+    decimals: rewardTokenMetadata?.decimals,
+    symbol: rewardTokenMetadata?.symbol ?? "",
+  };
+  const format = (value?: bigint) =>
+    value === undefined || rewardToken.decimals === undefined
+      ? "—"
+      : `${formatAmount(value, rewardToken.decimals)} ${rewardToken.symbol}`;
+
+  // The overview lists only active pools, in the same order as its amounts
+  const positions = useMemo(() => {
+    const byPool: Record<string, { earned: bigint; staked: bigint }> = {};
+    overview?.activePoolNames.forEach((poolName, index) => {
+      byPool[poolName] = {
+        earned: overview.poolEarnings[index],
+        staked: overview.poolStakes[index],
+      };
+    });
+    return byPool;
+  }, [overview]);
+
+  const apys = (pools ?? []).map(({ poolName, pool, totalStaked }) => ({
+    poolName,
+    apyBps: rewardPoolApyBps(pool, totalStaked),
+  }));
+  const stakedPools = Object.keys(positions).filter(
+    (poolName) => positions[poolName].staked > BigInt(0)
+  );
+
+  // Weighted by the account's stakes when it has any, else across all pools
+  const averageApy = (() => {
+    const weighted = apys.filter(
+      ({ poolName, apyBps }) =>
+        apyBps !== undefined && stakedPools.includes(poolName)
+    );
+    if (weighted.length > 0) {
+      const total = weighted.reduce(
+        (sum, { poolName }) => sum + positions[poolName].staked,
+        BigInt(0)
+      );
+      return weighted.reduce(
+        (sum, { poolName, apyBps }) =>
+          sum + ((apyBps as bigint) * positions[poolName].staked) / total,
+        BigInt(0)
+      );
+    }
+    const known = apys.flatMap(({ apyBps }) =>
+      apyBps === undefined ? [] : [apyBps]
+    );
+    return known.length > 0
+      ? known.reduce((sum, apy) => sum + apy, BigInt(0)) / BigInt(known.length)
+      : undefined;
+  })();
+
+  const poolEarnings = Object.values(positions).reduce(
+    (sum, { earned }) => sum + earned,
+    BigInt(0)
+  );
+  const totalPending = overview && poolEarnings + overview.totalPending;
+  const totalEarned = overview && overview.totalEarned + overview.totalClaimedRewards;
+
+  const filteredPools = (pools ?? []).filter(({ poolName }) =>
+    activeRewardType === "all"
+      ? true
+      : activeRewardType === "positions"
+        ? stakedPools.includes(poolName)
+        : poolName === activeRewardType
+  );
+
+  // Claim events carry the hashed pool name; match it against known pools
+  const poolNamesByTopic = useMemo(
+    () =>
+      Object.fromEntries(
+        [...(poolNames ?? []), AUTO_CLAIM_POOL].map((poolName) => [
+          poolNameTopic(poolName),
+          poolName,
+        ])
+      ),
+    [poolNames]
+  );
+
+  const handleAutoClaim = async () => {
+    if (!address) return;
+    try {
+      await autoClaim.submit(address).confirmed;
+      await refresh();
+    } catch {
+      // The transaction toast reports the failure
+    }
   };
 
   return (
@@ -92,10 +627,10 @@ export function RewardsTab() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-green-400">
-              ${totalStats.totalEarned.toLocaleString()}
+              {format(totalEarned)}
             </div>
             <p className="text-sm mt-2 font-medium text-gray-400">
-              Coming soon
+              {format(overview?.totalClaimedRewards)} claimed
             </p>
           </CardContent>
         </Card>
@@ -108,11 +643,21 @@ export function RewardsTab() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-yellow-400">
-              ${totalStats.totalPending.toLocaleString()}
+              {format(totalPending)}
             </div>
-            <p className="text-sm mt-2 font-medium text-gray-400">
-              Coming soon
-            </p>
+            {overview && overview.totalPending > BigInt(0) ? (
+              <button
+                onClick={handleAutoClaim}
+                disabled={autoClaim.isPending || autoClaim.isConfirming}
+                className="text-sm mt-2 font-medium text-yellow-400 hover:text-yellow-300"
+              >
+                Claim {format(overview.totalPending)} from activity
+              </button>
+            ) : (
+              <p className="text-sm mt-2 font-medium text-gray-400">
+                Across {stakedPools.length} pools
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -124,10 +669,10 @@ export function RewardsTab() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-white">
-              {totalStats.avgApy.toFixed(1)}%
+              {formatApy(averageApy)}
             </div>
             <p className="text-sm mt-2 font-medium text-gray-400">
-              Coming soon
+              {stakedPools.length > 0 ? "Weighted by your stakes" : "Across all pools"}
             </p>
           </CardContent>
         </Card>
@@ -140,63 +685,79 @@ export function RewardsTab() {
           </CardHeader>
           <CardContent>
             <div className="text-3xl font-bold text-white">
-              {detailedRewards.length}
+              {stakedPools.length}
             </div>
             <p className="text-sm mt-2 font-medium text-gray-400">
-              Coming soon
+              {format(overview?.totalStakedAmount)} staked
             </p>
           </CardContent>
         </Card>
       </div>
 
+      <TokenAssociationNotice
+        token={rewardTokenAddress}
+        symbol={rewardTokenMetadata?.symbol}
+      />
+
       {/* Reward Categories */}
       <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
         <CardHeader>
           <CardTitle className="text-2xl font-bold text-white">
-            Reward Categories
+            Reward Pools
           </CardTitle>
-          <p className="text-gray-400">Performance breakdown by reward type</p>
+          <p className="text-gray-400">Performance breakdown by reward pool</p>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {rewardCategories.map((category) => {
-              const IconComponent = category.icon;
-              return (
-                <div
-                  key={category.id}
-                  className={`p-6 rounded-xl border transition-all duration-200 cursor-pointer ${
-                    activeRewardType === category.id
-                      ? `${category.bgColor} ${category.borderColor} ${category.color}`
-                      : "bg-gray-900/60 border-gray-700 text-white hover:bg-gray-800/60"
-                  }`}
-                  onClick={() => setActiveRewardType(category.id)}
-                >
-                  <div className="flex items-center space-x-3 mb-4">
-                    <div
-                      className={`w-10 h-10 rounded-lg ${category.bgColor} flex items-center justify-center`}
-                    >
-                      <IconComponent className={`w-5 h-5 ${category.color}`} />
-                    </div>
-                    <h3 className="font-semibold text-lg">{category.name}</h3>
-                  </div>
-                  <div className="grid grid-cols-3 gap-4 text-sm">
-                    <div>
-                      <p className="text-gray-400">Earned</p>
-                      <p className="font-semibold">{category.totalEarned}</p>
-                    </div>
-                    <div>
-                      <p className="text-gray-400">Pending</p>
-                      <p className="font-semibold">{category.pendingRewards}</p>
+          {isLoadingPools ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {apys.map(({ poolName, apyBps }) => {
+                const style = poolStyle(poolName);
+                const IconComponent = style.icon;
+                return (
+                  <div
+                    key={poolName}
+                    className={`p-6 rounded-xl border transition-all duration-200 cursor-pointer ${
+                      activeRewardType === poolName
+                        ? `${style.bgColor} ${style.borderColor} ${style.color}`
+                        : "bg-gray-900/60 border-gray-700 text-white hover:bg-gray-800/60"
+                    }`}
+                    onClick={() => setActiveRewardType(poolName)}
+                  >
+                    <div className="flex items-center space-x-3 mb-4">
+                      <div
+                        className={`w-10 h-10 rounded-lg ${style.bgColor} flex items-center justify-center`}
+                      >
+                        <IconComponent className={`w-5 h-5 ${style.color}`} />
+                      </div>
+                      <h3 className="font-semibold text-lg">{style.name}</h3>
                     </div>
-                    <div>
-                      <p className="text-gray-400">APY</p>
-                      <p className="font-semibold">{category.apy}</p>
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-400">Staked</p>
+                        <p className="font-semibold">
+                          {format(positions[poolName]?.staked)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-gray-400">Pending</p>
+                        <p className="font-semibold">
+                          {format(positions[poolName]?.earned)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-gray-400">APY</p>
+                        <p className="font-semibold">{formatApy(apyBps)}</p>
+                      </div>
                     </div>
                   </div>
-                </div>
-              );
-            })}
-          </div>
+                );
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -210,27 +771,17 @@ export function RewardsTab() {
               : "text-gray-400 hover:text-white"
           }`}
         >
-          All Rewards
+          All Pools
         </button>
         <button
-          onClick={() => setActiveRewardType("lending")}
+          onClick={() => setActiveRewardType("positions")}
           className={`px-4 py-2 rounded-md transition-colors ${
-            activeRewardType === "lending"
+            activeRewardType === "positions"
               ? "bg-blue-500/20 text-blue-400"
               : "text-gray-400 hover:text-white"
           }`}
         >
-          Lending
-        </button>
-        <button
-          onClick={() => setActiveRewardType("yield")}
-          className={`px-4 py-2 rounded-md transition-colors ${
-            activeRewardType === "yield"
-              ? "bg-purple-500/20 text-purple-400"
-              : "text-gray-400 hover:text-white"
-          }`}
-        >
-          Yield Farming
+          My Positions
         </button>
       </div>
 
@@ -241,165 +792,62 @@ export function RewardsTab() {
             Detailed Rewards
           </CardTitle>
           <p className="text-gray-400">
-            Comprehensive breakdown of your reward positions
+            Stake, unstake and claim in each reward pool
           </p>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
-            {filteredRewards.length === 0 ? (
+            {filteredPools.length === 0 ? (
               <div className="text-center py-12">
-                <p className="text-gray-400 text-lg mb-2">No rewards available yet</p>
-                <p className="text-gray-500">Coming soon</p>
+                <p className="text-gray-400 text-lg mb-2">
+                  {activeRewardType === "positions"
+                    ? "No staked positions yet"
+                    : "No reward pools available yet"}
+                </p>
+                <p className="text-gray-500">
+                  {address
+                    ? "Stake in a pool to start earning"
+                    : "Connect your wallet to stake"}
+                </p>
               </div>
             ) : (
-              filteredRewards.map((reward, index) => (
-                <div
-                  key={index}
-                  className="p-6 rounded-xl bg-gray-900/60 backdrop-blur-sm border border-gray-700/50 hover:bg-gray-800/60 transition-all duration-200"
-                >
-                {/* Header Row */}
-                <div className="flex items-center justify-between mb-6">
-                  <div className="flex items-center space-x-4">
-                    <div className="w-12 h-12 rounded-xl bg-green-500/10 border border-green-500/20 flex items-center justify-center">
-                      <span className="text-green-400 font-bold text-sm">
-                        {reward.symbol}
-                      </span>
-                    </div>
-                    <div>
-                      <div className="flex items-center space-x-3">
-                        <h3 className="text-white font-semibold text-lg">
-                          {reward.asset}
-                        </h3>
-                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-500/20 text-blue-400 border border-blue-500/30">
-                          {reward.type}
-                        </span>
-                        {reward.autoCompound && (
-                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-500/20 text-purple-400 border border-purple-500/30">
-                            Auto-Compound
-                          </span>
-                        )}
-                      </div>
-                      <p className="text-gray-400 text-sm mt-1">
-                        {reward.totalStaked} • {reward.location}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <p className="text-white font-semibold text-xl">
-                      {reward.amount}
-                    </p>
-                    <p className="text-green-400 text-sm font-medium">
-                      Total Earned
-                    </p>
-                  </div>
-                </div>
-
-                {/* Details Grid */}
-                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-6">
-                  <div className="space-y-1">
-                    <p className="text-gray-400 text-xs uppercase tracking-wide">
-                      Claimable
-                    </p>
-                    <p className="text-yellow-400 font-semibold">
-                      {reward.claimableAmount}
-                    </p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-gray-400 text-xs uppercase tracking-wide">
-                      APY
-                    </p>
-                    <p className="text-green-400 font-semibold">{reward.apy}</p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-gray-400 text-xs uppercase tracking-wide">
-                      Frequency
-                    </p>
-                    <p className="text-white font-medium">{reward.frequency}</p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-gray-400 text-xs uppercase tracking-wide">
-                      Next Reward
-                    </p>
-                    <p className="text-blue-400 font-medium">
-                      {reward.nextReward}
-                    </p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-gray-400 text-xs uppercase tracking-wide">
-                      30d Performance
-                    </p>
-                    <p className="text-green-400 font-semibold">
-                      {reward.performance30d}
-                    </p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-gray-400 text-xs uppercase tracking-wide">
-                      Reward Token
-                    </p>
-                    <p className="text-white font-medium">
-                      {reward.rewardToken}
-                    </p>
-                  </div>
-                </div>
-
-                {/* Progress Bar */}
-                <div className="mb-6">
-                  <div className="flex justify-between text-sm mb-2">
-                    <span className="text-gray-400">Next reward progress</span>
-                    <span className="text-white">75%</span>
-                  </div>
-                  <div className="w-full bg-gray-700 rounded-full h-2">
-                    <div
-                      className="bg-green-500 h-2 rounded-full"
-                      style={{ width: "75%" }}
-                    ></div>
-                  </div>
-                </div>
-
-                {/* Action Buttons */}
-                <div className="flex flex-wrap gap-3 pt-4 border-t border-gray-700/50">
-                  <Button
-                    size="sm"
-                    className="bg-green-500 hover:bg-green-600 text-black"
-                    disabled={
-                      Number.parseFloat(
-                        reward.claimableAmount.replace("$", "")
-                      ) === 0
-                    }
-                  >
-                    <Gift className="h-4 w-4 mr-2" />
-                    Claim Rewards
-                  </Button>
-                  <Button
-                    size="sm"
-                    className="bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 border border-blue-500/30"
-                  >
-                    <Zap className="h-4 w-4 mr-2" />
-                    Stake More
-                  </Button>
-                  <Button
-                    size="sm"
-                    className="bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 border border-purple-500/30"
-                  >
-                    <Settings className="h-4 w-4 mr-2" />
-                    {reward.autoCompound ? "Disable" : "Enable"} Auto-Compound
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    className="border-gray-600 text-gray-300 bg-transparent hover:bg-gray-800/50"
-                  >
-                    <BarChart3 className="h-4 w-4 mr-2" />
-                    View Analytics
-                  </Button>
-                </div>
-              </div>
+              filteredPools.map(({ poolName, pool, totalStaked }) => (
+                <RewardPoolCard
+                  key={poolName}
+                  poolName={poolName}
+                  pool={pool}
+                  totalStaked={totalStaked}
+                  rewardToken={rewardToken}
+                />
               ))
             )}
           </div>
         </CardContent>
       </Card>
 
+      {/* Vesting */}
+      <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-white flex items-center">
+            <Hourglass className="h-6 w-6 mr-3" />
+            Vesting
+          </CardTitle>
+          <p className="text-gray-400">
+            Tokens unlocking on a schedule, and what you can release now
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {address ? (
+            <VestingSchedules rewardToken={rewardToken} onReleased={refresh} />
+          ) : (
+            <p className="text-gray-400 text-center py-8">
+              Connect your wallet to see your vesting schedules
+            </p>
+          )}
+          <VestingAdmin rewardToken={rewardToken} onChanged={refresh} />
+        </CardContent>
+      </Card>
+
       {/* Reward History */}
       <Card className="bg-gray-950/80 backdrop-blur-sm border-gray-800">
         <CardHeader>
@@ -411,38 +859,60 @@ export function RewardsTab() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {rewardHistory.length === 0 ? (
+            {claimHistory.events.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-gray-400 text-lg mb-2">No reward history yet</p>
-                <p className="text-gray-500">Coming soon</p>
+                <p className="text-gray-500">
+                  Claims show up here once they are indexed
+                </p>
               </div>
             ) : (
-              rewardHistory.map((claim, index) => (
-                <div
-                  key={index}
-                  className="flex items-center justify-between p-4 rounded-xl bg-gray-900/60 backdrop-blur-sm border border-gray-700/50"
-                >
-                <div className="flex items-center space-x-4">
-                  <div className="w-10 h-10 rounded-xl bg-green-500/10 border border-green-500/20 flex items-center justify-center">
-                    <Gift className="h-5 w-5 text-green-400" />
-                  </div>
-                  <div>
-                    <p className="text-white font-semibold">
-                      {claim.asset} {claim.type} Reward
-                    </p>
-                    <p className="text-gray-400 text-sm">
-                      {claim.date} • Paid in {claim.token}
-                    </p>
+              claimHistory.events.map((claim) => {
+                const poolName = poolNamesByTopic[String(claim.args.poolName)];
+                const href = getExplorerTxUrl(claim.chainId, claim.transactionHash);
+                return (
+                  <div
+                    key={claim.id}
+                    className="flex items-center justify-between p-4 rounded-xl bg-gray-900/60 backdrop-blur-sm border border-gray-700/50"
+                  >
+                    <div className="flex items-center space-x-4">
+                      <div className="w-10 h-10 rounded-xl bg-green-500/10 border border-green-500/20 flex items-center justify-center">
+                        <Gift className="h-5 w-5 text-green-400" />
+                      </div>
+                      <div>
+                        <p className="text-white font-semibold">
+                          {poolName === AUTO_CLAIM_POOL
+                            ? "Activity Reward"
+                            : `${poolName ? poolStyle(poolName).name : "Pool"} Reward`}
+                        </p>
+                        <p className="text-gray-400 text-sm">
+                          {formatTimeAgo(claim.blockTimestamp)} • Paid in{" "}
+                          {rewardToken.symbol || "reward token"}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-green-400 font-semibold text-lg">
+                        {format(claim.args.amount)}
+                      </p>
+                      {href ? (
+                        <a
+                          href={href}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-400 hover:text-blue-300 text-xs hover:underline"
+                        >
+                          View on HashScan
+                        </a>
+                      ) : (
+                        <p className="text-gray-400 text-xs">
+                          {`${claim.transactionHash.slice(0, 10)}…`}
+                        </p>
+                      )}
+                    </div>
                   </div>
-                </div>
-                <div className="text-right">
-                  <p className="text-green-400 font-semibold text-lg">
-                    {claim.amount}
-                  </p>
-                  <p className="text-gray-400 text-xs">{claim.txHash}</p>
-                </div>
-              </div>
-              ))
+                );
+              })
             )}
           </div>
         </CardContent>
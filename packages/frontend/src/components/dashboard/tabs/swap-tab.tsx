@@ -15,7 +15,9 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { PriceChart } from "../ui/price-chart";
 import { SwapInput } from "../ui/swap-input";
+import { TokenAssociationNotice } from "../ui/token-association";
 import { usePredefinedRWATokens } from "@/hooks/usePredefinedRWATokens";
 import {
   useSwap,
@@ -27,8 +29,19 @@ import {
   useCreatePool,
 } from "@/hooks/useSwapEngine";
 import { useTokenApproval, useTokenAllowance } from "@/hooks/contracts/useLendingPool";
-import { CONTRACT_ADDRESSES } from "@/lib/contracts";
-import { parseUnits, formatUnits, Address } from "viem";
+import { useContractConfig } from "@/hooks/useContractConfig";
+import { useHedVaultClient } from "@/hooks/useHedVaultClient";
+import { useToken } from "@/hooks/useTokenMetadata";
+import { useTokenAssociation } from "@/hooks/useTokenAssociation";
+import { useTransactionManager } from "@/hooks/useTransactions";
+import {
+  type HedVaultError,
+  formatAmountInput,
+  parseAmount,
+  sanitizeAmountInput,
+  validateAmount,
+} from "@/lib/sdk";
+import { parseEventLogs, Address } from "viem";
 import { useAccount } from "wagmi";
 import { toast } from "sonner";
 
@@ -58,6 +71,8 @@ export function SwapTab() {
 
   const { tokens } = usePredefinedRWATokens();
   const { isConnected } = useAccount();
+  const swapEngine = useContractConfig("SwapEngine");
+  const hedVault = useHedVaultClient();
 
   // Filter tokens to show all available RWA tokens (HVGOLD, HVSILVER, HVRE)
   const supportedTokens = tokens.filter(
@@ -89,22 +104,15 @@ export function SwapTab() {
   const fromToken = supportedTokens.find((t) => t.type === fromAsset);
   const toToken = supportedTokens.find((t) => t.type === toAsset);
 
-  // Override token addresses with correct ones for swap
-  const CORRECT_TOKEN_ADDRESSES = {
-    GOLD: "0x0000000000000000000000000000000000636359",
-    SILVER: "0x00000000000000000000000000000000006363ad",
-  };
-
-  // Get corrected token addresses
-  const getCorrectedTokenAddress = (tokenType: string | null) => {
-    if (tokenType === "GOLD") return CORRECT_TOKEN_ADDRESSES.GOLD;
-    if (tokenType === "SILVER") return CORRECT_TOKEN_ADDRESSES.SILVER;
-    return supportedTokens.find((t) => t.type === tokenType)?.address;
-  };
+  // Token addresses for swap
+  const fromTokenAddress = fromToken?.address;
+  const toTokenAddress = toToken?.address;
 
-  // Use corrected addresses for swap
-  const fromTokenAddress = getCorrectedTokenAddress(fromAsset);
-  const toTokenAddress = getCorrectedTokenAddress(toAsset);
+  // Amounts are scaled by each token's own decimals (HTS tokens often use 0-8)
+  const { data: fromTokenMetadata } = useToken(fromTokenAddress as Address);
+  const { data: toTokenMetadata } = useToken(toTokenAddress as Address);
+  // The swap output is an HTS token the account may not be associated with
+  const toTokenAssociation = useTokenAssociation(toTokenAddress as Address);
 
   // Check if tokens are supported by the SwapEngine
   const { data: isFromTokenSupported } = useIsSupportedToken(
@@ -113,18 +121,11 @@ export function SwapTab() {
   const { data: isToTokenSupported } = useIsSupportedToken(
     toTokenAddress as Address
   );
-  const {
-    addSupportedToken,
-    isPending: isAddingToken,
-    isConfirmed: tokenAdded,
-  } = useAddSupportedToken();
-  const {
-    createPool,
-    isPending: isCreatingPool,
-    isConfirmed: poolCreated,
-    hash: createPoolHash,
-    error: createPoolError,
-  } = useCreatePool();
+  const { submit: submitAddSupportedToken, isPending: isAddingToken } =
+    useAddSupportedToken();
+  const { submit: submitCreatePool, isPending: isCreatingPool } =
+    useCreatePool();
+  const transactions = useTransactionManager();
 
   // Types for pool data
   interface PoolData {
@@ -135,7 +136,6 @@ export function SwapTab() {
   }
 
   // LocalStorage functions for pool data
-  // eslint-disable-next-line react-hooks/exhaustive-deps
   const savePoolToLocalStorage = (
     tokenA: string,
     tokenB: string,
@@ -195,50 +195,36 @@ export function SwapTab() {
     isToTokenSupported,
   ]);
 
-  // Function to add unsupported tokens with real approval
+  // Add whichever of the pair the SwapEngine doesn't support yet; progress
+  // and failures are reported by the transaction manager
   const handleAddSupportedTokens = async () => {
-    try {
-      console.log(
-        "🔧 Adding token support with real blockchain transactions..."
-      );
-
-      if (fromTokenAddress && !isFromTokenSupported) {
-        console.log("➕ Adding support for fromToken:", fromTokenAddress);
-        // This calls the actual blockchain transaction
-        addSupportedToken(fromTokenAddress as Address);
-        toast.success(
-          `Adding support for ${getAssetDisplayName(fromAsset)}...`
-        );
-      }
-      if (toTokenAddress && !isToTokenSupported) {
-        console.log("➕ Adding support for toToken:", toTokenAddress);
-        // This calls the actual blockchain transaction
-        addSupportedToken(toTokenAddress as Address);
-        toast.success(`Adding support for ${getAssetDisplayName(toAsset)}...`);
-      }
+    const pending = [
+      !isFromTokenSupported && fromTokenAddress,
+      !isToTokenSupported && toTokenAddress,
+    ]
+      .filter((address): address is Address => !!address)
+      .map((address) => submitAddSupportedToken(address).confirmed);
 
-      console.log("📝 Token support transactions submitted to blockchain");
-    } catch (error) {
-      console.error("❌ Error adding token support:", error);
-      toast.error(
-        `Failed to add token support: ${
-          (error as Error)?.message || "Unknown error"
-        }`
-      );
+    try {
+      await Promise.all(pending);
+    } catch {
+      // The transaction toast reports the failure
     }
   };
 
-  // Show success message when tokens are added
-  useEffect(() => {
-    if (tokenAdded) {
-      console.log("✅ Token support added successfully!");
-      toast.success("Token support added successfully!");
-    }
-  }, [tokenAdded]);
-
   // Debug: Check nextPoolId and actual pool existence
   const { data: nextPoolIdData } = useGetNextPoolId();
 
+  const approve = (token: Address, amount: bigint, symbol: string) =>
+    transactions.submit({
+      label: `Approve ${symbol}`,
+      chainId: hedVault.chainId,
+      send: () =>
+        hedVault.token(token).write.approve([swapEngine.address, amount], {
+          gas: BigInt(500000), // Set higher gas limit for token approval
+        }),
+    });
+
   // Handle pool creation with token approval
   const handleCreatePool = async () => {
     if (!fromTokenAddress || !toTokenAddress || !poolAmountA || !poolAmountB) {
@@ -246,11 +232,22 @@ export function SwapTab() {
       return;
     }
 
+    if (!fromTokenMetadata || !toTokenMetadata) {
+      toast.error("Token details are still loading");
+      return;
+    }
+
+    let amountA: bigint, amountB: bigint, feeRate: bigint;
     try {
-      const amountA = parseUnits(poolAmountA, 18);
-      const amountB = parseUnits(poolAmountB, 18);
-      const feeRate = BigInt(poolFeeRate); // Fee rate in basis points
+      amountA = parseAmount(poolAmountA, fromTokenMetadata.decimals);
+      amountB = parseAmount(poolAmountB, toTokenMetadata.decimals);
+      feeRate = BigInt(poolFeeRate); // Fee rate in basis points
+    } catch (error) {
+      toast.error((error as Error).message || "Invalid pool amounts or fee rate");
+      return;
+    }
 
+    try {
       console.log("🏊 Creating pool with token approval:", {
         tokenA: fromTokenAddress,
         tokenB: toTokenAddress,
@@ -259,117 +256,46 @@ export function SwapTab() {
         feeRate: feeRate.toString(),
       });
 
-      // Step 1: Approve tokens for SwapEngine
-      console.log("🔓 Approving tokens for SwapEngine...");
-
-      // Import writeContract for token approvals
-      const { writeContract } = await import("wagmi/actions");
-      const { config } = await import("@/lib/wagmi");
-      const { RWA_TOKEN_ABI } = await import("@/hooks/usePredefinedRWATokens");
-      const { CONTRACT_ADDRESSES } = await import("@/lib/contracts");
-
-      // Approve token A
-      await writeContract(config, {
-        address: fromTokenAddress as Address,
-        abi: RWA_TOKEN_ABI,
-        functionName: "approve",
-        args: [CONTRACT_ADDRESSES.SwapEngine, amountA],
-        gas: BigInt(500000), // Set higher gas limit for token approval
-      });
-
-      console.log("✅ Token A approved");
-      toast.success("✅ Token A approved successfully!");
-
-      // Approve token B
-      await writeContract(config, {
-        address: toTokenAddress as Address,
-        abi: RWA_TOKEN_ABI,
-        functionName: "approve",
-        args: [CONTRACT_ADDRESSES.SwapEngine, amountB],
-        gas: BigInt(500000), // Set higher gas limit for token approval
-      });
-
-      console.log("✅ Token B approved");
-      toast.success("✅ Token B approved successfully!");
+      // Step 1: Approve both tokens and wait for the approvals to land, or
+      // the pool creation would be simulated against the old allowances
+      await Promise.all([
+        approve(fromTokenAddress as Address, amountA, getAssetDisplayName(fromAsset)).confirmed,
+        approve(toTokenAddress as Address, amountB, getAssetDisplayName(toAsset)).confirmed,
+      ]);
 
       // Step 2: Create the pool
-      createPool(
+      const tx = submitCreatePool(
         fromTokenAddress as Address,
         toTokenAddress as Address,
         amountA,
         amountB,
         feeRate
       );
-
-      toast.success("Pool creation with token approval initiated!");
       setIsCreatePoolModalOpen(false);
 
       // Reset form
       setPoolAmountA("");
       setPoolAmountB("");
       setPoolFeeRate("300");
-    } catch (error) {
-      console.error("❌ Error creating pool with approval:", error);
-      toast.error(
-        `Failed to create pool: ${(error as Error)?.message || "Unknown error"}`
-      );
-    }
-  };
 
-  // Monitor pool creation events and save to localStorage
-  useEffect(() => {
-    if (poolCreated && createPoolHash && fromTokenAddress && toTokenAddress) {
-      console.log("🎉 Pool created successfully! Hash:", createPoolHash);
-
-      // Extract pool ID from transaction logs (this would need to be implemented based on the actual event structure)
-      // For now, we'll use the next pool ID as an approximation
-      const estimatedPoolId = nextPoolIdData
-        ? (nextPoolIdData as bigint).toString()
-        : Date.now().toString();
-
-      savePoolToLocalStorage(fromTokenAddress, toTokenAddress, estimatedPoolId);
-      toast.success(
-        `🎉 Pool created successfully! Pool ID: ${estimatedPoolId.slice(
-          0,
-          10
-        )}...`
-      );
-
-      // Log the event details
-      console.log("📊 Pool Creation Event:", {
-        tokenA: fromTokenAddress,
-        tokenB: toTokenAddress,
-        poolId: estimatedPoolId,
-        transactionHash: createPoolHash,
-        timestamp: new Date().toISOString(),
+      // The pool id comes from the PoolCreated event in the receipt
+      const receipt = await tx.confirmed;
+      const [created] = parseEventLogs({
+        abi: hedVault.swap.abi,
+        eventName: "PoolCreated",
+        logs: receipt.logs,
       });
-    }
-  }, [
-    poolCreated,
-    createPoolHash,
-    fromTokenAddress,
-    toTokenAddress,
-    savePoolToLocalStorage,
-    nextPoolIdData,
-  ]);
-
-  // Monitor pool creation errors
-  useEffect(() => {
-    if (createPoolError) {
-      console.error("❌ Pool creation failed:", createPoolError);
-      const errorMessage = createPoolError.message || "Unknown error occurred";
-
-      if (errorMessage.includes("INSUFFICIENT_GAS")) {
-        toast.error(
-          "❌ Pool creation failed: Insufficient gas. Please try again with higher gas limit."
+      if (created) {
+        savePoolToLocalStorage(
+          fromTokenAddress,
+          toTokenAddress,
+          created.args.poolId.toString()
         );
-      } else if (errorMessage.includes("User rejected")) {
-        toast.error("❌ Pool creation cancelled by user.");
-      } else {
-        toast.error(`❌ Pool creation failed: ${errorMessage}`);
       }
+    } catch {
+      // Already reported by the transaction manager
     }
-  }, [createPoolError]);
+  };
 
   // Log token selection for debugging
   useEffect(() => {
@@ -470,10 +396,16 @@ export function SwapTab() {
   });
 
   // Get swap quote only if we have a valid pool
+  const quoteAmountIn =
+    debouncedFromValue &&
+    fromTokenMetadata &&
+    !validateAmount(debouncedFromValue, fromTokenMetadata.decimals)
+      ? parseAmount(debouncedFromValue, fromTokenMetadata.decimals)
+      : BigInt(0);
   const { data: quoteData, error: quoteError } = useGetSwapQuote(
     poolId,
     fromTokenAddress as Address,
-    debouncedFromValue ? parseUnits(debouncedFromValue, 18) : BigInt(0)
+    quoteAmountIn
   );
 
   // Log quote data for debugging
@@ -521,9 +453,7 @@ export function SwapTab() {
   useEffect(() => {
     const testPoolExists = async () => {
       try {
-        console.log("🧪 Manual pool test with corrected addresses:");
-        console.log("GOLD:", CORRECT_TOKEN_ADDRESSES.GOLD);
-        console.log("SILVER:", CORRECT_TOKEN_ADDRESSES.SILVER);
+        console.log("🧪 Manual pool test with token addresses:");
         console.log("fromTokenAddress:", fromTokenAddress);
         console.log("toTokenAddress:", toTokenAddress);
         console.log("🔢 NextPoolId from contract:", nextPoolIdData?.toString());
@@ -544,25 +474,31 @@ export function SwapTab() {
     toTokenAddress,
     nextPoolIdData,
     poolId,
-    CORRECT_TOKEN_ADDRESSES.GOLD,
-    CORRECT_TOKEN_ADDRESSES.SILVER,
   ]);
 
   // Use swap hook
-  const { swap, isPending, isConfirming, isConfirmed, error, hash } = useSwap();
+  const {
+    submit: submitSwap,
+    checkBeforeApproval: checkSwap,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+    hash,
+  } = useSwap();
 
   // Token approval hooks
   const tokenApproval = useTokenApproval(fromTokenAddress as Address);
   const tokenAllowance = useTokenAllowance(
     fromTokenAddress as Address,
-    CONTRACT_ADDRESSES.SwapEngine
+    swapEngine.address
   );
 
   // Debug logging for token approval hooks
   useEffect(() => {
     console.log("🔍 Token approval hook state:", {
       fromTokenAddress,
-      swapEngineAddress: CONTRACT_ADDRESSES.SwapEngine,
+      swapEngineAddress: swapEngine.address,
       tokenAllowance: tokenAllowance.data?.toString(),
       tokenApprovalPending: tokenApproval.isPending,
       tokenApprovalConfirmed: tokenApproval.isConfirmed,
@@ -570,23 +506,7 @@ export function SwapTab() {
       hasApproveFunction: typeof tokenApproval.approve === 'function',
       approveFunction: tokenApproval.approve,
     });
-  }, [fromTokenAddress, tokenAllowance.data, tokenApproval.isPending, tokenApproval.isConfirmed, tokenApproval.error, tokenApproval.approve]);
-
-  // Approval state
-  const [isApprovalInProgress, setIsApprovalInProgress] = useState(false);
-  const [pendingSwapAmount, setPendingSwapAmount] = useState("");
-
-  // Track previous isPending state to detect when processing stops
-  const [prevIsPending, setPrevIsPending] = useState(false);
-
-  // Show success toast immediately when swap processing stops
-  useEffect(() => {
-    if (prevIsPending && !isPending) {
-      // Swap processing has stopped (regardless of success or failure)
-      toast.success("Swap operation completed!");
-    }
-    setPrevIsPending(isPending);
-  }, [isPending, prevIsPending]);
+  }, [fromTokenAddress, swapEngine.address, tokenAllowance.data, tokenApproval.isPending, tokenApproval.isConfirmed, tokenApproval.error, tokenApproval.approve]);
 
   const handleSwapAssets = () => {
     const tempAsset = fromAsset;
@@ -599,13 +519,15 @@ export function SwapTab() {
 
   // Update toValue when quote changes
   useEffect(() => {
-    if (debouncedFromValue) {
-      // Set toValue equal to fromValue after 2-second delay (1:1 ratio)
-      setToValue(debouncedFromValue);
-    } else {
+    if (!debouncedFromValue) {
       setToValue("");
+    } else if (quoteData && toTokenMetadata) {
+      setToValue(formatAmountInput(quoteData.amountOut, toTokenMetadata.decimals));
+    } else {
+      // No pool to quote from yet: mirror the input (1:1 ratio)
+      setToValue(debouncedFromValue);
     }
-  }, [debouncedFromValue]);
+  }, [debouncedFromValue, quoteData, toTokenMetadata]);
 
   const getAssetDisplayName = (assetType: string | null) => {
     if (!assetType) return "Select Asset";
@@ -621,6 +543,8 @@ export function SwapTab() {
     fromValue &&
     fromTokenAddress &&
     toTokenAddress &&
+    fromTokenMetadata &&
+    !validateAmount(fromValue, fromTokenMetadata.decimals) &&
     fromAsset !== toAsset &&
     isConnected;
   const canCreatePool =
@@ -631,7 +555,12 @@ export function SwapTab() {
     bothTokensSupported &&
     poolId === BigInt(0);
   const isLoading =
-    isPending || isConfirming || isAddingToken || isCreatingPool;
+    isPending ||
+    isConfirming ||
+    tokenApproval.isPending ||
+    tokenApproval.isConfirming ||
+    isAddingToken ||
+    isCreatingPool;
   const needsTokenSupport =
     fromTokenAddress &&
     toTokenAddress &&
@@ -648,34 +577,22 @@ export function SwapTab() {
     });
   }, [isPending, isConfirming, isConfirmed, error, hash]);
 
-  // Handle token approval success/error and auto-trigger swap
-  useEffect(() => {
-    if (tokenApproval.isConfirmed && isApprovalInProgress) {
-      toast.success("Token approval successful! Executing swap...");
-      setIsApprovalInProgress(false);
-      // Auto-trigger swap after successful approval
-      if (pendingSwapAmount) {
-        executeSwap(pendingSwapAmount);
-        setPendingSwapAmount("");
-      }
-    }
-    if (tokenApproval.error && isApprovalInProgress) {
-      toast.error(`Token approval failed: ${tokenApproval.error.message}`);
-      setIsApprovalInProgress(false);
-      setPendingSwapAmount("");
-    }
-  }, [tokenApproval.isConfirmed, tokenApproval.error, isApprovalInProgress, pendingSwapAmount]);
+  // Arguments of the swap call for an input amount
+  const getSwapArgs = (amountIn: bigint) => {
+    // The slippage percentage in basis points, e.g. "0.5" -> 50
+    const maxSlippage = parseAmount(slippage, 2);
+    // Accept the quote less the slippage, otherwise set minAmountOut to 0 (user accepts any amount)
+    const minAmountOut = quoteData
+      ? (quoteData.amountOut * (BigInt(10000) - maxSlippage)) / BigInt(10000)
+      : BigInt(0);
+    return [poolId, fromTokenAddress as Address, amountIn, minAmountOut, maxSlippage] as const;
+  };
 
   // Execute swap function
-  const executeSwap = async (swapAmount: string) => {
+  const executeSwap = async (amountIn: bigint) => {
     try {
       console.log("🚀 Starting swap execution...");
-      const amountIn = parseUnits(swapAmount, 18);
-      // Use quote data if available, otherwise set minAmountOut to 0 (user accepts any amount)
-      const minAmountOut = quoteData
-        ? ((quoteData as bigint) * BigInt(95)) / BigInt(100)
-        : BigInt(0);
-      const maxSlippage = parseUnits(slippage, 2); // Convert percentage to basis points
+      const [, , , minAmountOut, maxSlippage] = getSwapArgs(amountIn);
 
       console.log("📋 Swap parameters:", {
         poolId: poolId.toString(),
@@ -686,22 +603,14 @@ export function SwapTab() {
       });
 
       console.log("📞 Calling swap function...");
-      const swapResult = swap(
-        poolId,
-        fromTokenAddress as Address,
-        amountIn,
-        minAmountOut,
-        maxSlippage
-      );
-      console.log("📞 Swap function called, result:", swapResult);
+      const tx = submitSwap(...getSwapArgs(amountIn));
+      await tx.confirmed;
 
-      console.log("✅ Swap transaction submitted!");
-    } catch (err) {
-      console.error("❌ Swap failed:", err);
-      console.error("Error details:", {
-        message: (err as Error)?.message,
-        stack: (err as Error)?.stack,
-      });
+      console.log("✅ Swap transaction confirmed!");
+      setFromValue("");
+      setToValue("");
+    } catch {
+      // The transaction toast reports the failure
     }
   };
 
@@ -728,9 +637,17 @@ export function SwapTab() {
       });
       return;
     }
+    if (!fromTokenMetadata) {
+      toast.error("Token details are still loading");
+      return;
+    }
+    if (toTokenAssociation.needsAssociation) {
+      toast.error(`Associate ${getAssetDisplayName(toAsset)} before swapping into it`);
+      return;
+    }
 
     try {
-      const amountIn = parseUnits(fromValue, 18);
+      const amountIn = parseAmount(fromValue, fromTokenMetadata.decimals);
       const currentAllowance = tokenAllowance.data || BigInt(0);
 
       console.log("🔍 Approval check:", {
@@ -738,11 +655,21 @@ export function SwapTab() {
         requiredAmount: amountIn.toString(),
         needsApproval: currentAllowance < amountIn,
         tokenAddress: fromTokenAddress,
-        spenderAddress: CONTRACT_ADDRESSES.SwapEngine
+        spenderAddress: swapEngine.address
       });
 
       // Check if approval is needed
       if (currentAllowance < amountIn) {
+        // Simulate the swap first so one that would revert anyway fails
+        // before the approval prompt
+        try {
+          await checkSwap(...getSwapArgs(amountIn));
+        } catch (err) {
+          const { message, hint } = err as HedVaultError;
+          toast.error("Swap", { description: hint ? `${message}. ${hint}` : message });
+          return;
+        }
+
         console.log("🔐 Token approval needed - triggering approval popup");
         
         // Validate that we have the approve function and wallet is connected
@@ -759,40 +686,26 @@ export function SwapTab() {
         
         console.log("📞 Initiating token approval...");
         console.log("Approval parameters:", {
-          spender: CONTRACT_ADDRESSES.SwapEngine,
+          spender: swapEngine.address,
           amount: amountIn.toString(),
           tokenAddress: fromTokenAddress
         });
         
-        setIsApprovalInProgress(true);
-        setPendingSwapAmount(fromValue);
-        
-        // Request approval for the swap amount (following blend-tab pattern)
-        tokenApproval.approve(CONTRACT_ADDRESSES.SwapEngine, amountIn);
-        toast.info("Please sign the token approval transaction in your wallet.");
+        // Approve the swap amount, then swap once the approval is mined
+        await tokenApproval.submit(swapEngine.address, amountIn).confirmed;
       } else {
         console.log("✅ Token already approved, executing swap directly");
-        executeSwap(fromValue);
       }
+      await executeSwap(amountIn);
     } catch (err) {
       console.error("❌ Swap preparation failed:", err);
       console.error("Error details:", {
         message: (err as Error)?.message,
         stack: (err as Error)?.stack,
       });
-      toast.error(`Failed to prepare swap transaction: ${(err as Error)?.message}`);
     }
   };
 
-  // Handle transaction confirmation
-  useEffect(() => {
-    if (isConfirmed) {
-      console.log("✅ Swap transaction confirmed!");
-      setFromValue("");
-      setToValue("");
-    }
-  }, [isConfirmed]);
-
   useEffect(() => {
     if (error) {
       console.error("❌ Swap hook error:", error);
@@ -808,7 +721,7 @@ export function SwapTab() {
       toValue,
       poolData: !!poolData,
       poolId: poolId?.toString(),
-      quoteData: quoteData?.toString(),
+      quoteData: quoteData?.amountOut.toString(),
       isConnected,
       canSwap,
       isLoading,
@@ -844,6 +757,7 @@ export function SwapTab() {
                 label="From"
                 value={fromValue}
                 onValueChange={setFromValue}
+                decimals={fromTokenMetadata?.decimals}
                 selectedAsset={getAssetDisplayName(fromAsset)}
                 onAssetSelect={() => console.log("Select from asset", tokens)}
                 className="bg-gray-900/70"
@@ -865,12 +779,18 @@ export function SwapTab() {
                 label="To"
                 value={toValue}
                 onValueChange={setToValue}
+                decimals={toTokenMetadata?.decimals}
                 selectedAsset={getAssetDisplayName(toAsset)}
                 onAssetSelect={() => console.log("Select to asset", tokens)}
                 className="bg-gray-900/70"
               />
             </div>
 
+            <TokenAssociationNotice
+              token={toTokenAddress as Address}
+              symbol={getAssetDisplayName(toAsset)}
+            />
+
             {fromAsset && toAsset && (
               <div className="p-4 bg-blue-500/10 border border-blue-500/20 rounded-lg">
                 <div className="flex items-start gap-3">
@@ -955,10 +875,13 @@ export function SwapTab() {
                           </Label>
                           <Input
                             id="amountA"
-                            type="number"
+                            type="text"
+                            inputMode="decimal"
                             placeholder="0.0"
                             value={poolAmountA}
-                            onChange={(e) => setPoolAmountA(e.target.value)}
+                            onChange={(e) =>
+                              setPoolAmountA(sanitizeAmountInput(e.target.value, fromTokenMetadata?.decimals))
+                            }
                             className="col-span-3"
                           />
                         </div>
@@ -968,10 +891,13 @@ export function SwapTab() {
                           </Label>
                           <Input
                             id="amountB"
-                            type="number"
+                            type="text"
+                            inputMode="decimal"
                             placeholder="0.0"
                             value={poolAmountB}
-                            onChange={(e) => setPoolAmountB(e.target.value)}
+                            onChange={(e) =>
+                              setPoolAmountB(sanitizeAmountInput(e.target.value, toTokenMetadata?.decimals))
+                            }
                             className="col-span-3"
                           />
                         </div>
@@ -1117,10 +1043,13 @@ export function SwapTab() {
                             </Label>
                             <Input
                               id="amountA"
-                              type="number"
+                              type="text"
+                              inputMode="decimal"
                               placeholder="0.0"
                               value={poolAmountA}
-                              onChange={(e) => setPoolAmountA(e.target.value)}
+                              onChange={(e) =>
+                                setPoolAmountA(sanitizeAmountInput(e.target.value, fromTokenMetadata?.decimals))
+                              }
                               className="col-span-3"
                             />
                           </div>
@@ -1130,10 +1059,13 @@ export function SwapTab() {
                             </Label>
                             <Input
                               id="amountB"
-                              type="number"
+                              type="text"
+                              inputMode="decimal"
                               placeholder="0.0"
                               value={poolAmountB}
-                              onChange={(e) => setPoolAmountB(e.target.value)}
+                              onChange={(e) =>
+                                setPoolAmountB(sanitizeAmountInput(e.target.value, toTokenMetadata?.decimals))
+                              }
                               className="col-span-3"
                             />
                           </div>
@@ -1238,6 +1170,19 @@ export function SwapTab() {
         </CardContent>
       </Card>
 
+      {fromTokenAddress && (
+        <Card className="bg-gray-950/80 border-gray-800">
+          <CardContent className="pt-6">
+            <PriceChart
+              asset={fromTokenAddress as Address}
+              quote={toTokenAddress as Address | undefined}
+              defaultSource="swap"
+              title={`${fromToken?.symbol ?? "Asset"} Price`}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Available RWA Tokens for Swapping */}
       <Card className="bg-gray-950/80 border-gray-800">
         <CardHeader>
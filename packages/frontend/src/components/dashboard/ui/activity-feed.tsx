@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { useAccount } from "wagmi"
+import type { Address } from "viem"
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { TransactionItem } from "./transaction-item"
+import { useActivityFeed } from "@/hooks/useActivityFeed"
+import { useEventIndexer } from "@/hooks/useIndexedEvents"
+import { type TokenMetadata, useTokenMetadata } from "@/hooks/useTokenMetadata"
+import {
+  ACTIVITY_TYPES,
+  type ActivityAmount,
+  type ActivityType,
+  formatTimeAgo,
+} from "@/lib/activity"
+import { getExplorerTxUrl } from "@/lib/chains"
+import { formatHederaAddress } from "@/lib/hedera"
+import { formatAmount as formatTokenAmount } from "@/lib/sdk"
+
+const PAGE_SIZE = 10
+
+const formatAmount = (amount: ActivityAmount, metadata: Record<string, TokenMetadata>) => {
+  const token = amount.token ? metadata[amount.token.toLowerCase()] : undefined
+  const unit = amount.unit ?? token
+  // Without known decimals the raw integer is the only honest figure
+  if (!unit) return `${amount.value.toString()} units`
+
+  return `${formatTokenAmount(amount.value, unit.decimals)} ${unit.symbol}`
+}
+
+export function ActivityFeed() {
+  const { address, isConnected } = useAccount()
+  const { chainId } = useEventIndexer()
+  const [types, setTypes] = useState<ActivityType[]>([])
+  const [asset, setAsset] = useState<Address | undefined>()
+  const [page, setPage] = useState(0)
+
+  const { items, total, pageCount, assets, isLoading, error } = useActivityFeed({
+    account: address,
+    types,
+    asset,
+    page,
+    pageSize: PAGE_SIZE,
+  })
+  const { metadata } = useTokenMetadata(assets)
+
+  const toggleType = (type: ActivityType) => {
+    setTypes((current) =>
+      current.includes(type) ? current.filter((t) => t !== type) : [...current, type]
+    )
+    setPage(0)
+  }
+
+  if (!isConnected) {
+    return (
+      <p className="text-gray-400 text-center py-8">
+        Connect your wallet to see your activity
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {ACTIVITY_TYPES.map((type) => (
+          <Button
+            key={type}
+            size="sm"
+            variant="outline"
+            onClick={() => toggleType(type)}
+            className={
+              types.includes(type)
+                ? "bg-blue-600/20 text-blue-300 border-blue-500/50 hover:bg-blue-600/30"
+                : "bg-gray-800/40 text-gray-400 border-gray-700 hover:bg-gray-800/60"
+            }
+          >
+            {type}
+          </Button>
+        ))}
+        <select
+          value={asset ?? ""}
+          onChange={(e) => {
+            setAsset((e.target.value || undefined) as Address | undefined)
+            setPage(0)
+          }}
+          className="ml-auto h-8 rounded-md bg-gray-800/60 border border-gray-700 px-3 text-sm text-gray-300"
+        >
+          <option value="">All assets</option>
+          {assets.map((token) => (
+            <option key={token} value={token}>
+              {metadata[token]?.symbol ?? formatHederaAddress(token)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-red-400 text-sm">Failed to sync activity: {error.message}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8 text-gray-400">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Syncing on-chain activity...
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-gray-400 text-center py-8">No activity found</p>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => (
+            <TransactionItem
+              key={item.id}
+              type={item.type}
+              asset={item.label}
+              amount={item.amounts[0] ? formatAmount(item.amounts[0], metadata) : ""}
+              value={item.amounts[1] ? formatAmount(item.amounts[1], metadata) : ""}
+              time={formatTimeAgo(item.timestamp)}
+              href={getExplorerTxUrl(chainId, item.transactionHash)}
+            />
+          ))}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-gray-400">
+          <span>
+            Page {page + 1} of {pageCount} · {total} transactions
+          </span>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={page === 0}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={page + 1 >= pageCount}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect } from "react"
+import { Address } from "viem"
+import { Input } from "@/components/ui/input"
+import { useResolvedAddress } from "@/hooks/useHederaAddress"
+
+interface AddressInputProps {
+  label: string
+  value: string
+  onValueChange: (value: string) => void
+  // Called with the resolved EVM address, or null while the input is invalid
+  onAddressChange?: (address: Address | null) => void
+  placeholder?: string
+  className?: string
+}
+
+/**
+ * Text input that accepts either an EVM address or a Hedera `0.0.x` ID and
+ * shows the form it resolves to
+ */
+export function AddressInput({
+  label,
+  value,
+  onValueChange,
+  onAddressChange,
+  placeholder = "0x… or 0.0.1234",
+  className,
+}: AddressInputProps) {
+  const { address, entityId, isValid, isResolving } = useResolvedAddress(value)
+
+  useEffect(() => {
+    onAddressChange?.(isValid ? address : null)
+  }, [address, isValid, onAddressChange])
+
+  const showHint = value.trim().length > 0
+
+  return (
+    <div className={className}>
+      <label className="text-sm text-gray-400 mb-2 block">{label}</label>
+      <Input
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onValueChange(e.target.value)}
+        spellCheck={false}
+        className={showHint && !isValid ? "border-red-500" : undefined}
+      />
+      {showHint && (
+        <p className={`mt-1 text-xs font-mono ${isValid ? "text-gray-400" : "text-red-400"}`}>
+          {!isValid
+            ? "Enter a 0x address or a shard.realm.num ID"
+            : isResolving
+              ? "Resolving…"
+              : entityId && value.trim().startsWith("0x")
+                ? entityId
+                : address}
+        </p>
+      )}
+    </div>
+  )
+}
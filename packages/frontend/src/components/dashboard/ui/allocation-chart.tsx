@@ -0,0 +1,137 @@
+"use client"
+
+// Distinct enough on the dark background; cycles past eight assets
+const SLICE_COLORS = [
+  "#4ade80",
+  "#60a5fa",
+  "#facc15",
+  "#f472b6",
+  "#a78bfa",
+  "#fb923c",
+  "#2dd4bf",
+  "#f87171",
+]
+
+export const allocationColor = (index: number) => SLICE_COLORS[index % SLICE_COLORS.length]
+
+const formatPercent = (bps: number) => `${(bps / 100).toFixed(bps % 100 === 0 ? 0 : 2)}%`
+
+export interface AllocationSlice {
+  label: string
+  // Basis points of the whole
+  bps: number
+}
+
+/**
+ * Donut of how a portfolio is split. Slices are drawn in order, so keep it
+ * the same as the legend or table next to it.
+ */
+export function AllocationDonut({
+  slices,
+  centerLabel,
+  centerValue,
+}: {
+  slices: AllocationSlice[]
+  centerLabel?: string
+  centerValue?: string
+}) {
+  // A circle with circumference 100 lets dash lengths be percentages
+  const radius = 100 / (2 * Math.PI)
+  let offset = 0
+
+  return (
+    <div className="flex flex-col items-center gap-4 sm:flex-row">
+      <div className="relative h-40 w-40 shrink-0">
+        <svg viewBox="0 0 42 42" className="h-full w-full -rotate-90">
+          <circle cx="21" cy="21" r={radius} fill="none" stroke="#1f2937" strokeWidth="5" />
+          {slices.map((slice, index) => {
+            const length = slice.bps / 100
+            const dash = (
+              <circle
+                key={slice.label}
+                cx="21"
+                cy="21"
+                r={radius}
+                fill="none"
+                stroke={allocationColor(index)}
+                strokeWidth="5"
+                strokeDasharray={`${length} ${100 - length}`}
+                strokeDashoffset={-offset}
+              />
+            )
+            offset += length
+            return dash
+          })}
+        </svg>
+        {centerValue && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <span className="text-lg font-bold text-white">{centerValue}</span>
+            {centerLabel && <span className="text-xs text-gray-400">{centerLabel}</span>}
+          </div>
+        )}
+      </div>
+      <ul className="space-y-2 text-sm">
+        {slices.map((slice, index) => (
+          <li key={slice.label} className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: allocationColor(index) }} />
+            <span className="text-gray-300">{slice.label}</span>
+            <span className="text-gray-500">{formatPercent(slice.bps)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export interface AllocationComparison {
+  label: string
+  targetBps: number
+  currentBps: number
+}
+
+/**
+ * Target vs current allocation per asset. Drift beyond `thresholdBps` is
+ * highlighted, matching when the contract considers a rebalance due.
+ */
+export function AllocationBars({
+  rows,
+  thresholdBps,
+}: {
+  rows: AllocationComparison[]
+  thresholdBps?: number
+}) {
+  return (
+    <div className="space-y-4">
+      {rows.map((row, index) => {
+        const drift = row.currentBps - row.targetBps
+        const drifted = thresholdBps !== undefined && Math.abs(drift) > thresholdBps
+
+        return (
+          <div key={row.label} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-300">{row.label}</span>
+              <span className={drifted ? "text-amber-400" : "text-gray-500"}>
+                {formatPercent(row.currentBps)} / {formatPercent(row.targetBps)}
+                {drift !== 0 && ` (${drift > 0 ? "+" : "-"}${formatPercent(Math.abs(drift))})`}
+              </span>
+            </div>
+            <div className="relative h-2 rounded-full bg-gray-800">
+              <div
+                className="absolute inset-y-0 left-0 rounded-full"
+                style={{
+                  width: `${Math.min(row.currentBps / 100, 100)}%`,
+                  backgroundColor: allocationColor(index),
+                }}
+              />
+              <div
+                className="absolute -inset-y-1 w-0.5 bg-white"
+                style={{ left: `${Math.min(row.targetBps / 100, 100)}%` }}
+                title="Target"
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
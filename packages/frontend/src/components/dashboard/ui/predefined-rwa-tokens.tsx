@@ -3,7 +3,9 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ExternalLink, MapPin, DollarSign, Coins } from "lucide-react";
-import { RWA_TOKEN_ADDRESSES, getRWATokenAddress, type RWATokenType } from "@/config/rwaTokenFactory";
+import { ALL_RWA_TOKEN_ADDRESSES, RWA_TOKEN_IDS, getRWATokenAddress, type RWATokenType } from "@/config/rwaTokenFactory";
+import { useTokenAssociations } from "@/hooks/useTokenAssociation";
+import { TokenAssociationBadge } from "./token-association";
 
 interface PredefinedToken {
   type: RWATokenType;
@@ -50,10 +52,11 @@ interface PredefinedRWATokensProps {
 }
 
 export function PredefinedRWATokens({ className }: PredefinedRWATokensProps) {
+  const { statuses, needsAssociation } = useTokenAssociations(ALL_RWA_TOKEN_ADDRESSES);
+
   const handleViewOnExplorer = (tokenType: RWATokenType) => {
-    const address = getRWATokenAddress(tokenType);
-    // Using HashScan (Hedera's official explorer) for contract viewing
-    window.open(`https://hashscan.io/testnet/contract/${address}`, "_blank");
+    // Using HashScan (Hedera's official explorer) for token viewing
+    window.open(`https://hashscan.io/testnet/token/${RWA_TOKEN_IDS[tokenType]}`, "_blank");
   };
 
   return (
@@ -94,6 +97,11 @@ export function PredefinedRWATokens({ className }: PredefinedRWATokensProps) {
                       <span className="px-2 py-1 text-xs bg-green-500/20 text-green-400 border border-green-500/30 rounded">
                         Active
                       </span>
+                      <TokenAssociationBadge
+                        token={address}
+                        status={statuses[address.toLowerCase()]}
+                        needsAssociation={needsAssociation(address)}
+                      />
                     </div>
 
                     <p className="text-sm text-gray-300 mb-3">
@@ -110,7 +118,7 @@ export function PredefinedRWATokens({ className }: PredefinedRWATokensProps) {
                         <span>Est. Value: {token.estimatedValue}</span>
                       </div>
                       <div className="text-xs text-gray-500 font-mono">
-                        {address}
+                        {RWA_TOKEN_IDS[token.type]} · {address}
                       </div>
                     </div>
                   </div>
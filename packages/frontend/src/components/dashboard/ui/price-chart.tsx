@@ -0,0 +1,300 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { Address } from "viem"
+import { Button } from "@/components/ui/button"
+import { usePriceCandles } from "@/hooks/usePriceCandles"
+import { useTokenMetadata } from "@/hooks/useTokenMetadata"
+import {
+  CANDLE_INTERVALS,
+  PRICE_SOURCES,
+  type Candle,
+  type CandleInterval,
+  type PriceSource,
+} from "@/lib/candles"
+
+const SOURCE_LABELS: Record<PriceSource, string> = {
+  marketplace: "Marketplace",
+  swap: "Swaps",
+  oracle: "Oracle",
+}
+
+// viewBox units; the SVG scales to the card width
+const WIDTH = 720
+const AXIS_WIDTH = 64
+const PRICE_HEIGHT = 220
+const VOLUME_HEIGHT = 60
+const PANE_GAP = 12
+const LABEL_HEIGHT = 18
+const PLOT_WIDTH = WIDTH - AXIS_WIDTH
+
+const UP = "#4ade80"
+const DOWN = "#f87171"
+const FLAT = "#4b5563"
+
+const formatPrice = (value: number) =>
+  value.toLocaleString("en-US", { maximumSignificantDigits: 6 })
+
+const formatVolume = (value: number) =>
+  value.toLocaleString("en-US", { notation: "compact", maximumFractionDigits: 2 })
+
+const formatCandleTime = (time: number, interval: number) =>
+  new Date(time * 1000).toLocaleString(
+    undefined,
+    interval >= CANDLE_INTERVALS["1d"]
+      ? { month: "short", day: "numeric" }
+      : { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }
+  )
+
+const candleColor = (candle: Candle) =>
+  candle.trades === 0 ? FLAT : candle.close >= candle.open ? UP : DOWN
+
+function ToggleGroup<T extends string>({
+  options,
+  value,
+  onChange,
+  label,
+}: {
+  options: readonly T[]
+  value: T
+  onChange: (value: T) => void
+  label?: (value: T) => string
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => (
+        <Button
+          key={option}
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(option)}
+          className={
+            value === option
+              ? "h-7 px-2 border-green-500/50 bg-green-500/10 text-green-400"
+              : "h-7 px-2 border-gray-700 bg-transparent text-gray-300"
+          }
+        >
+          {label ? label(option) : option}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+function CandleSvg({
+  candles,
+  interval,
+  showVolume,
+  onHover,
+}: {
+  candles: Candle[]
+  interval: number
+  showVolume: boolean
+  onHover: (index?: number) => void
+}) {
+  const highs = candles.map((candle) => candle.high)
+  const lows = candles.map((candle) => candle.low)
+  let max = Math.max(...highs)
+  let min = Math.min(...lows)
+  // Pad the range so wicks don't touch the edges, and give a flat series height
+  const padding = max > min ? (max - min) * 0.08 : Math.abs(max) * 0.01 || 1
+  max += padding
+  min -= padding
+  const maxVolume = Math.max(...candles.map((candle) => candle.volume), 0)
+
+  const step = PLOT_WIDTH / candles.length
+  const bodyWidth = Math.max(1, step * 0.6)
+  const x = (index: number) => (index + 0.5) * step
+  const y = (price: number) => ((max - price) / (max - min)) * PRICE_HEIGHT
+  const volumeTop = PRICE_HEIGHT + PANE_GAP
+  const height = (showVolume ? volumeTop + VOLUME_HEIGHT : PRICE_HEIGHT) + LABEL_HEIGHT
+  const gridPrices = [0, 1, 2, 3].map((line) => max - ((max - min) * (line + 0.5)) / 4)
+  const labelled = [0, Math.floor((candles.length - 1) / 2), candles.length - 1]
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full"
+      onMouseLeave={() => onHover(undefined)}
+    >
+      {gridPrices.map((price) => (
+        <g key={price}>
+          <line x1={0} x2={PLOT_WIDTH} y1={y(price)} y2={y(price)} stroke="#1f2937" strokeDasharray="4 4" />
+          <text x={PLOT_WIDTH + 6} y={y(price) + 4} fontSize={11} fill="#6b7280">
+            {formatPrice(price)}
+          </text>
+        </g>
+      ))}
+
+      {candles.map((candle, index) => {
+        const color = candleColor(candle)
+        const top = y(Math.max(candle.open, candle.close))
+        const bottom = y(Math.min(candle.open, candle.close))
+        const volumeHeight = maxVolume > 0 ? (candle.volume / maxVolume) * VOLUME_HEIGHT : 0
+        return (
+          <g key={candle.time}>
+            <line x1={x(index)} x2={x(index)} y1={y(candle.high)} y2={y(candle.low)} stroke={color} />
+            <rect
+              x={x(index) - bodyWidth / 2}
+              y={top}
+              width={bodyWidth}
+              height={Math.max(1, bottom - top)}
+              fill={color}
+            />
+            {showVolume && volumeHeight > 0 && (
+              <rect
+                x={x(index) - bodyWidth / 2}
+                y={volumeTop + VOLUME_HEIGHT - volumeHeight}
+                width={bodyWidth}
+                height={volumeHeight}
+                fill={color}
+                opacity={0.5}
+              />
+            )}
+            <rect
+              x={index * step}
+              y={0}
+              width={step}
+              height={height - LABEL_HEIGHT}
+              fill="transparent"
+              onMouseEnter={() => onHover(index)}
+            />
+          </g>
+        )
+      })}
+
+      {showVolume && (
+        <text x={PLOT_WIDTH + 6} y={volumeTop + 10} fontSize={11} fill="#6b7280">
+          {formatVolume(maxVolume)}
+        </text>
+      )}
+      {[...new Set(labelled)].map((index) => (
+        <text
+          key={index}
+          x={x(index)}
+          y={height - 4}
+          fontSize={11}
+          fill="#6b7280"
+          textAnchor={index === 0 ? "start" : index === candles.length - 1 ? "end" : "middle"}
+        >
+          {formatCandleTime(candles[index].time, interval)}
+        </text>
+      ))}
+    </svg>
+  )
+}
+
+/**
+ * Candlestick and volume chart of one asset, built in the browser from
+ * indexed Marketplace trades, swaps or oracle updates. `quote` pins the token
+ * trade prices are shown in; otherwise the reader can pick from those the
+ * asset has traded against.
+ */
+export function PriceChart({
+  asset,
+  quote,
+  defaultSource = "marketplace",
+  title = "Price History",
+}: {
+  asset?: Address
+  quote?: Address
+  defaultSource?: PriceSource
+  title?: string
+}) {
+  const [source, setSource] = useState<PriceSource>(defaultSource)
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>("1h")
+  const [selectedQuote, setSelectedQuote] = useState<Address>()
+  const [hovered, setHovered] = useState<number>()
+
+  const { candles, pointCount, quotes, quote: activeQuote, assetToken, quoteToken, isLoading } =
+    usePriceCandles({ asset, source, quote: quote ?? selectedQuote, interval: candleInterval })
+  const { metadata } = useTokenMetadata(quotes)
+
+  const quoteSymbol = source === "oracle" ? "USD" : quoteToken?.symbol
+  const shown = candles[hovered ?? candles.length - 1]
+  const change =
+    candles.length > 0 && candles[0].open !== 0
+      ? ((candles[candles.length - 1].close - candles[0].open) / candles[0].open) * 100
+      : undefined
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-white font-semibold">{title}</h3>
+        <div className="flex flex-wrap gap-3">
+          <ToggleGroup
+            options={PRICE_SOURCES}
+            value={source}
+            onChange={(next) => {
+              setSource(next)
+              setSelectedQuote(undefined)
+            }}
+            label={(option) => SOURCE_LABELS[option]}
+          />
+          <ToggleGroup
+            options={Object.keys(CANDLE_INTERVALS) as CandleInterval[]}
+            value={candleInterval}
+            onChange={setCandleInterval}
+          />
+        </div>
+      </div>
+
+      {!quote && source !== "oracle" && quotes.length > 1 && activeQuote && (
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <span>Quoted in</span>
+          <ToggleGroup
+            options={quotes}
+            value={activeQuote}
+            onChange={setSelectedQuote}
+            label={(token) => metadata[token.toLowerCase()]?.symbol ?? `${token.slice(0, 6)}…`}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : candles.length === 0 ? (
+        <p className="text-gray-400 text-sm py-8 text-center">
+          {pointCount === 0
+            ? `No ${SOURCE_LABELS[source].toLowerCase()} prices for this asset yet.`
+            : "No prices in this time range."}
+        </p>
+      ) : (
+        <>
+          {shown && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono text-gray-400">
+              <span className="text-gray-300">
+                {formatCandleTime(shown.time, CANDLE_INTERVALS[candleInterval])}
+              </span>
+              <span>O {formatPrice(shown.open)}</span>
+              <span>H {formatPrice(shown.high)}</span>
+              <span>L {formatPrice(shown.low)}</span>
+              <span>C {formatPrice(shown.close)}</span>
+              {source !== "oracle" && (
+                <span>
+                  V {formatVolume(shown.volume)} {assetToken?.symbol}
+                </span>
+              )}
+              {quoteSymbol && <span>{assetToken?.symbol ?? "Asset"}/{quoteSymbol}</span>}
+              {hovered === undefined && change !== undefined && (
+                <span className={change >= 0 ? "text-green-400" : "text-red-400"}>
+                  {change >= 0 ? "+" : ""}
+                  {change.toFixed(2)}%
+                </span>
+              )}
+            </div>
+          )}
+          <CandleSvg
+            candles={candles}
+            interval={CANDLE_INTERVALS[candleInterval]}
+            showVolume={source !== "oracle"}
+            onHover={setHovered}
+          />
+        </>
+      )}
+    </div>
+  )
+}
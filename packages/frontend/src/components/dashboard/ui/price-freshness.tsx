@@ -0,0 +1,53 @@
+"use client"
+
+import { AlertTriangle, Info } from "lucide-react"
+import type { AssetPrice } from "@/hooks/useAssetPrices"
+import { formatTimeAgo } from "@/lib/activity"
+import { isPriceStale } from "@/lib/sdk"
+
+const formatConfidence = (confidence: bigint) => `${(Number(confidence) / 100).toFixed(0)}% confidence`
+
+/**
+ * Marks a USD figure whose oracle price is stale, or that has no oracle
+ * price behind it. Without a price the figure is either missing or an
+ * estimate, in which case `fallback` says what it's based on. Renders
+ * nothing for a fresh price; hover for the price's age and confidence.
+ */
+export function PriceFreshness({
+  price,
+  now,
+  fallback,
+  className = "",
+}: {
+  price?: AssetPrice
+  now: bigint
+  fallback?: string
+  className?: string
+}) {
+  if (!price) {
+    return (
+      <span
+        title={fallback ?? "The oracle has no price for this asset"}
+        className={`inline-flex items-center gap-1 rounded border border-gray-600/40 bg-gray-500/10 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide text-gray-400 ${className}`}
+      >
+        <Info className="h-3 w-3" />
+        {fallback ? "Est." : "No price"}
+      </span>
+    )
+  }
+
+  if (!isPriceStale(price, now)) return null
+
+  const updated =
+    price.timestamp === BigInt(0) ? "Never updated" : `Updated ${formatTimeAgo(price.timestamp, Number(now) * 1000)}`
+
+  return (
+    <span
+      title={`Stale price · ${updated} · ${formatConfidence(price.confidence)}`}
+      className={`inline-flex items-center gap-1 rounded border border-amber-500/30 bg-amber-500/10 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide text-amber-400 ${className}`}
+    >
+      <AlertTriangle className="h-3 w-3" />
+      Stale
+    </span>
+  )
+}
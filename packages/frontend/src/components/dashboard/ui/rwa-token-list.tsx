@@ -1,19 +1,22 @@
 "use client";
 
 import { useRWATokenFactoryTokens } from "@/hooks/useRWATokenFactoryTokens";
+import { useTokenAssociations } from "@/hooks/useTokenAssociation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { RefreshCw, ExternalLink, MapPin, DollarSign } from "lucide-react";
+import { TokenAssociationBadge } from "./token-association";
 
 interface RWAMetadata {
   assetType: string;
   location: string;
   valuation: bigint;
+  lastValuationDate: bigint;
+  certificationHash: string;
+  isActive: boolean;
   oracle: `0x${string}`;
   totalSupply: bigint;
   minInvestment: bigint;
-  certificationHash: string;
-  additionalData: string;
 }
 
 interface AssetInfo {
@@ -38,6 +41,7 @@ export function RWATokenList({ className }: RWATokenListProps) {
     Array.from(data[0] || []),
     Array.from(data[1] || []),
   ];
+  const { statuses, needsAssociation } = useTokenAssociations(tokenAddresses);
 
   const formatCurrency = (value: bigint) => {
     return new Intl.NumberFormat("en-US", {
@@ -136,6 +140,11 @@ export function RWATokenList({ className }: RWATokenListProps) {
                       <span className="px-2 py-1 text-xs border border-gray-600 rounded">
                         {info.complianceLevel > 0 ? "Verified" : "Pending"}
                       </span>
+                      <TokenAssociationBadge
+                        token={address}
+                        status={statuses[address.toLowerCase()]}
+                        needsAssociation={needsAssociation(address)}
+                      />
                     </div>
 
                     <div className="text-sm text-gray-400 space-y-1">
@@ -1,6 +1,7 @@
 "use client"
 
 import { Button } from "@/components/ui/button"
+import { sanitizeAmountInput, validateAmount } from "@/lib/sdk"
 
 interface SwapInputProps {
   label: string
@@ -9,6 +10,10 @@ interface SwapInputProps {
   onValueChange?: (value: string) => void
   selectedAsset?: string
   onAssetSelect?: () => void
+  // Precision of the selected token; input past it is dropped as it is typed
+  decimals?: number
+  // Shown under the field, e.g. an insufficient balance
+  error?: string
   className?: string
 }
 
@@ -19,23 +24,31 @@ export function SwapInput({
   onValueChange,
   selectedAsset = "Select Asset",
   onAssetSelect,
+  decimals,
+  error,
   className,
 }: SwapInputProps) {
+  const invalid =
+    error ?? (value && decimals !== undefined ? validateAmount(value, decimals) : undefined)
+
   return (
     <div className={`p-4 rounded-lg bg-gray-800/50 ${className || ""}`}>
       <label className="text-sm text-gray-400 mb-2 block">{label}</label>
       <div className="flex items-center justify-between">
         <input
           type="text"
+          inputMode="decimal"
           placeholder={placeholder}
           value={value}
-          onChange={(e) => onValueChange?.(e.target.value)}
+          onChange={(e) => onValueChange?.(sanitizeAmountInput(e.target.value, decimals))}
+          aria-invalid={!!invalid}
           className="bg-transparent text-2xl text-white outline-none flex-1"
         />
         <Button variant="outline" className="border-gray-700 text-white bg-transparent" onClick={onAssetSelect}>
           {selectedAsset}
         </Button>
       </div>
+      {invalid && <p className="mt-2 text-xs text-red-400">{invalid}</p>}
     </div>
   )
 }
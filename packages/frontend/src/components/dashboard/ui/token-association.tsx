@@ -0,0 +1,87 @@
+"use client"
+
+import { AlertTriangle, Link2, Loader2 } from "lucide-react"
+import type { Address } from "viem"
+import { Button } from "@/components/ui/button"
+import {
+  type TokenAssociationStatus,
+  useAssociateToken,
+  useTokenAssociation,
+} from "@/hooks/useTokenAssociation"
+
+function AssociateButton({ token }: { token: Address }) {
+  const { associate, isPending, isConfirming } = useAssociateToken()
+  const busy = isPending || isConfirming
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="border-amber-500/30 text-amber-400 hover:bg-amber-500/10"
+      onClick={() => {
+        associate(token)
+      }}
+      disabled={busy}
+    >
+      {busy ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Link2 className="mr-1 h-3 w-3" />}
+      Associate
+    </Button>
+  )
+}
+
+/**
+ * Warns before an action pays out a token the account isn't associated
+ * with, and offers to associate it. Renders nothing when no association is
+ * needed.
+ */
+export function TokenAssociationNotice({ token, symbol }: { token?: Address; symbol?: string }) {
+  const { needsAssociation } = useTokenAssociation(token)
+  if (!token || !needsAssociation) return null
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-lg border border-amber-500/20 bg-amber-500/10 p-3">
+      <div className="flex items-start gap-2 text-sm">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-400" />
+        <p className="text-amber-300/90">
+          Your account isn&apos;t associated with {symbol ?? "this token"} yet, so it can&apos;t
+          receive it. Associate once to continue.
+        </p>
+      </div>
+      <AssociateButton token={token} />
+    </div>
+  )
+}
+
+const BADGE_STYLES: Record<Exclude<TokenAssociationStatus, "not-required">, string> = {
+  associated: "bg-green-500/20 text-green-400 border-green-500/30",
+  "not-associated": "bg-amber-500/20 text-amber-400 border-amber-500/30",
+}
+
+/**
+ * Association state for token lists: a badge, plus the associate button
+ * when the account still needs it. Nothing for plain ERC20 tokens.
+ */
+export function TokenAssociationBadge({
+  token,
+  status,
+  needsAssociation,
+}: {
+  token: Address
+  status?: TokenAssociationStatus
+  needsAssociation: boolean
+}) {
+  if (!status || status === "not-required") return null
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className={`rounded border px-2 py-1 text-xs ${BADGE_STYLES[status]}`}>
+        {status === "associated"
+          ? "Associated"
+          : needsAssociation
+            ? "Not associated"
+            : "Associates on receipt"}
+      </span>
+      {needsAssociation && <AssociateButton token={token} />}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { CheckCircle2, ExternalLink, Loader2, Receipt, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { getExplorerTxUrl } from "@/lib/chains"
+import type { TransactionRecord } from "@/lib/transactions"
+import { useTransactionManager, useTransactions } from "@/hooks/useTransactions"
+
+const STATUS_TEXT: Record<TransactionRecord["status"], string> = {
+  pending: "Pending",
+  mined: "Mined",
+  confirmed: "Confirmed",
+  failed: "Failed",
+}
+
+function StatusIcon({ status }: { status: TransactionRecord["status"] }) {
+  switch (status) {
+    case "confirmed":
+      return <CheckCircle2 className="h-5 w-5 text-green-400" />
+    case "failed":
+      return <XCircle className="h-5 w-5 text-red-400" />
+    default:
+      return <Loader2 className="h-5 w-5 animate-spin text-blue-400" />
+  }
+}
+
+function TransactionRow({ transaction }: { transaction: TransactionRecord }) {
+  const href = transaction.hash && getExplorerTxUrl(transaction.chainId, transaction.hash)
+  const detail =
+    transaction.status === "failed"
+      ? transaction.error?.message
+      : transaction.status === "pending" && !transaction.hash
+        ? "Awaiting wallet signature"
+        : STATUS_TEXT[transaction.status]
+
+  return (
+    <div className="flex items-center justify-between rounded-xl border border-gray-700/50 bg-gray-800/40 p-4">
+      <div className="flex min-w-0 items-center space-x-3">
+        <StatusIcon status={transaction.status} />
+        <div className="min-w-0">
+          <p className="truncate font-semibold text-white">{transaction.label}</p>
+          <p
+            className={`truncate text-sm ${transaction.status === "failed" ? "text-red-400" : "text-gray-400"}`}
+          >
+            {detail} · {new Date(transaction.submittedAt).toLocaleTimeString()}
+          </p>
+        </div>
+      </div>
+      {href && (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="ml-3 shrink-0 text-blue-400 hover:text-blue-300"
+          title="View on HashScan"
+        >
+          <ExternalLink className="h-4 w-4" />
+        </a>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Transactions submitted this session, opened from the dashboard header
+ */
+export function TransactionDrawer() {
+  const manager = useTransactionManager()
+  const transactions = useTransactions()
+  const inFlight = transactions.filter(
+    ({ status }) => status === "pending" || status === "mined"
+  ).length
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative text-gray-400 hover:text-white">
+          <Receipt className="h-4 w-4" />
+          {inFlight > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-blue-500 px-1 text-[10px] font-bold text-white">
+              {inFlight}
+            </span>
+          )}
+          <span className="sr-only">Transactions</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="left-auto right-0 top-0 flex h-full max-w-md translate-x-0 translate-y-0 flex-col rounded-none sm:rounded-none data-[state=closed]:slide-out-to-right data-[state=open]:slide-in-from-right">
+        <DialogHeader>
+          <DialogTitle>Transactions</DialogTitle>
+          <DialogDescription>Submitted from this browser session</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 space-y-3 overflow-y-auto">
+          {transactions.length === 0 ? (
+            <p className="py-8 text-center text-gray-400">No transactions yet</p>
+          ) : (
+            transactions.map((transaction) => (
+              <TransactionRow key={transaction.id} transaction={transaction} />
+            ))
+          )}
+        </div>
+
+        {transactions.length > inFlight && (
+          <Button
+            variant="outline"
+            className="border-gray-700 text-gray-300"
+            onClick={manager.clearFinished}
+          >
+            Clear finished
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,9 +4,11 @@ interface TransactionItemProps {
   amount: string
   value: string
   time: string
+  // Block explorer link for the transaction
+  href?: string
 }
 
-export function TransactionItem({ type, asset, amount, value, time }: TransactionItemProps) {
+export function TransactionItem({ type, asset, amount, value, time, href }: TransactionItemProps) {
   const getTypeColor = () => {
     switch (type) {
       case "Buy":
@@ -14,7 +16,14 @@ export function TransactionItem({ type, asset, amount, value, time }: Transactio
       case "Swap":
         return "bg-blue-500/20 text-blue-400 border-blue-500/30"
       case "Lend":
+      case "Loan":
         return "bg-purple-500/20 text-purple-400 border-purple-500/30"
+      case "Order":
+        return "bg-emerald-500/20 text-emerald-400 border-emerald-500/30"
+      case "Deposit":
+        return "bg-cyan-500/20 text-cyan-400 border-cyan-500/30"
+      case "Bridge":
+        return "bg-orange-500/20 text-orange-400 border-orange-500/30"
       case "Reward":
         return "bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
       default:
@@ -32,7 +41,22 @@ export function TransactionItem({ type, asset, amount, value, time }: Transactio
           <p className="text-white font-semibold">
             {type} {asset}
           </p>
-          <p className="text-gray-400 text-sm">{time}</p>
+          <p className="text-gray-400 text-sm">
+            {time}
+            {href && (
+              <>
+                {" · "}
+                <a
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 hover:underline"
+                >
+                  View on HashScan
+                </a>
+              </>
+            )}
+          </p>
         </div>
       </div>
       <div className="text-right">
@@ -0,0 +1,379 @@
+"use client"
+
+import { useState } from "react"
+import { FileUp, Loader2, Plus, XCircle } from "lucide-react"
+import { Address } from "viem"
+import { useAccount } from "wagmi"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  useCreateVestingSchedule,
+  useGetVestingSchedules,
+  useIsRewardsAdmin,
+  useRevokeVestingSchedule,
+} from "@/hooks/contracts/useRewardsDistributor"
+import { useTokenAllowance, useTokenApproval } from "@/hooks/contracts/useLendingPool"
+import { useContractConfig } from "@/hooks/useContractConfig"
+import { formatAmount, sanitizeAmountInput } from "@/lib/sdk"
+import {
+  VESTING_CSV_TEMPLATE,
+  type VestingScheduleInput,
+  parseVestingCsv,
+  toVestingSchedule,
+} from "@/lib/vesting"
+import { AddressInput } from "./address-input"
+import { VestingTimeline } from "./vesting-schedules"
+
+interface RewardTokenDetails {
+  address?: Address
+  decimals?: number
+  symbol: string
+}
+
+const inputClassName = "bg-gray-800 border-gray-600 text-white"
+
+/**
+ * Creates vesting schedules, funding them from the admin's reward tokens.
+ * Approves the RewardsDistributor for the whole batch once, then creates
+ * each schedule in turn; lines already created are skipped on a retry.
+ */
+function useVestingScheduleCreator(rewardToken: RewardTokenDetails) {
+  const rewardsDistributor = useContractConfig("RewardsDistributor")
+  const allowance = useTokenAllowance(rewardToken.address, rewardsDistributor.address)
+  const tokenApproval = useTokenApproval(rewardToken.address)
+  const createVestingSchedule = useCreateVestingSchedule()
+  const [isCreating, setIsCreating] = useState(false)
+
+  const create = async (
+    schedules: VestingScheduleInput[],
+    onCreated?: (index: number) => void
+  ): Promise<number> => {
+    const total = schedules.reduce((sum, schedule) => sum + schedule.amount, BigInt(0))
+    let created = 0
+    setIsCreating(true)
+    try {
+      if ((allowance.data ?? BigInt(0)) < total) {
+        await tokenApproval.submit(rewardsDistributor.address, total).confirmed
+      }
+      for (const [index, schedule] of schedules.entries()) {
+        await createVestingSchedule.submit(
+          schedule.beneficiary,
+          schedule.amount,
+          schedule.duration,
+          schedule.cliffDuration,
+          schedule.revocable
+        ).confirmed
+        created++
+        onCreated?.(index)
+      }
+    } catch {
+      // The transaction toast reports the failure
+    } finally {
+      setIsCreating(false)
+    }
+    return created
+  }
+
+  return { create, isCreating, isApproving: tokenApproval.isPending || tokenApproval.isConfirming }
+}
+
+function CreateScheduleForm({
+  rewardToken,
+  onCreated,
+}: {
+  rewardToken: RewardTokenDetails
+  onCreated: () => Promise<unknown>
+}) {
+  const [beneficiaryInput, setBeneficiaryInput] = useState("")
+  const [beneficiary, setBeneficiary] = useState<Address | null>(null)
+  const [amount, setAmount] = useState("")
+  const [durationDays, setDurationDays] = useState("365")
+  const [cliffDays, setCliffDays] = useState("0")
+  const [revocable, setRevocable] = useState(true)
+  const { create, isCreating, isApproving } = useVestingScheduleCreator(rewardToken)
+
+  const handleCreate = async () => {
+    if (rewardToken.decimals === undefined) {
+      toast.error("Token details are still loading")
+      return
+    }
+    const { schedule, error } = toVestingSchedule(
+      { beneficiary: beneficiary ?? beneficiaryInput, amount, durationDays, cliffDays, revocable },
+      rewardToken.decimals
+    )
+    if (error !== undefined) {
+      toast.error(error)
+      return
+    }
+    if ((await create([schedule])) === 1) {
+      setAmount("")
+      await onCreated()
+    }
+  }
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg bg-gray-900/70">
+      <h3 className="text-white font-semibold">New Schedule</h3>
+      <AddressInput
+        label="Beneficiary"
+        value={beneficiaryInput}
+        onValueChange={setBeneficiaryInput}
+        onAddressChange={setBeneficiary}
+      />
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="vesting-amount" className="text-gray-400 text-sm">
+            Amount ({rewardToken.symbol})
+          </Label>
+          <Input
+            id="vesting-amount"
+            type="text"
+            inputMode="decimal"
+            placeholder="0.0"
+            value={amount}
+            onChange={(e) => setAmount(sanitizeAmountInput(e.target.value, rewardToken.decimals))}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="vesting-duration" className="text-gray-400 text-sm">
+            Duration (days)
+          </Label>
+          <Input
+            id="vesting-duration"
+            type="text"
+            inputMode="decimal"
+            value={durationDays}
+            onChange={(e) => setDurationDays(sanitizeAmountInput(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="vesting-cliff" className="text-gray-400 text-sm">
+            Cliff (days)
+          </Label>
+          <Input
+            id="vesting-cliff"
+            type="text"
+            inputMode="decimal"
+            value={cliffDays}
+            onChange={(e) => setCliffDays(sanitizeAmountInput(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input type="checkbox" checked={revocable} onChange={(e) => setRevocable(e.target.checked)} />
+        Revocable by a rewards admin
+      </label>
+      <Button
+        onClick={handleCreate}
+        disabled={isCreating || !amount || !beneficiaryInput}
+        className="w-full bg-green-600 hover:bg-green-700 text-white"
+      >
+        {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+        {isApproving ? "Approving..." : "Create Schedule"}
+      </Button>
+    </div>
+  )
+}
+
+function CsvImport({
+  rewardToken,
+  onCreated,
+}: {
+  rewardToken: RewardTokenDetails
+  onCreated: () => Promise<unknown>
+}) {
+  const [csv, setCsv] = useState("")
+  // Lines created by an earlier, interrupted import of the same text
+  const [createdLines, setCreatedLines] = useState<number[]>([])
+  const { create, isCreating, isApproving } = useVestingScheduleCreator(rewardToken)
+
+  const rows =
+    csv.trim() && rewardToken.decimals !== undefined ? parseVestingCsv(csv, rewardToken.decimals) : []
+  const pending = rows.filter(({ line }) => !createdLines.includes(line))
+  const invalid = pending.filter(({ result }) => result.error !== undefined)
+  const schedules = pending.flatMap(({ result }) => (result.schedule ? [result.schedule] : []))
+  const total = schedules.reduce((sum, schedule) => sum + schedule.amount, BigInt(0))
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    setCsv(await file.text())
+    setCreatedLines([])
+  }
+
+  const handleImport = async () => {
+    if (invalid.length > 0) {
+      toast.error(`Fix line ${invalid[0].line} first: ${invalid[0].result.error}`)
+      return
+    }
+    const lines = pending.map(({ line }) => line)
+    const created = await create(schedules, (index) =>
+      setCreatedLines((previous) => [...previous, lines[index]])
+    )
+    if (created === schedules.length) {
+      toast.success(`Created ${created} vesting schedules`)
+      setCsv("")
+      setCreatedLines([])
+    } else if (created > 0) {
+      toast.error(`Created ${created} of ${schedules.length} schedules; import again to continue`)
+    }
+    if (created > 0) await onCreated()
+  }
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg bg-gray-900/70">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold">Bulk Import</h3>
+        <label className="flex cursor-pointer items-center text-sm text-blue-400 hover:text-blue-300">
+          <FileUp className="mr-1 h-4 w-4" />
+          Upload CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </label>
+      </div>
+      <textarea
+        value={csv}
+        onChange={(e) => {
+          setCsv(e.target.value)
+          setCreatedLines([])
+        }}
+        placeholder={VESTING_CSV_TEMPLATE}
+        rows={5}
+        spellCheck={false}
+        className="w-full rounded-md border border-gray-600 bg-gray-800 p-3 font-mono text-xs text-white focus:outline-none focus:ring-2 focus:ring-green-500"
+      />
+      {rows.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="text-gray-300">
+            {schedules.length} schedules totalling{" "}
+            {rewardToken.decimals !== undefined && formatAmount(total, rewardToken.decimals)} {rewardToken.symbol}
+            {createdLines.length > 0 && ` · ${createdLines.length} already created`}
+          </p>
+          {invalid.map(({ line, result }) => (
+            <p key={line} className="text-xs text-red-400">
+              Line {line}: {result.error}
+            </p>
+          ))}
+        </div>
+      )}
+      <Button
+        onClick={handleImport}
+        disabled={isCreating || schedules.length === 0 || invalid.length > 0}
+        className="w-full bg-green-600 hover:bg-green-700 text-white"
+      >
+        {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {isApproving
+          ? "Approving..."
+          : isCreating
+            ? `Creating ${createdLines.length + 1} of ${rows.length}...`
+            : `Create ${schedules.length} Schedules`}
+      </Button>
+    </div>
+  )
+}
+
+function RevokeSchedules({
+  rewardToken,
+  onRevoked,
+}: {
+  rewardToken: RewardTokenDetails
+  onRevoked: () => Promise<unknown>
+}) {
+  const [beneficiaryInput, setBeneficiaryInput] = useState("")
+  const [beneficiary, setBeneficiary] = useState<Address | null>(null)
+  const { data: schedules, isLoading } = useGetVestingSchedules(beneficiary ?? undefined)
+  const revoke = useRevokeVestingSchedule()
+  const now = BigInt(Math.floor(Date.now() / 1000))
+
+  const format = (value: bigint) =>
+    rewardToken.decimals === undefined ? "—" : `${formatAmount(value, rewardToken.decimals)} ${rewardToken.symbol}`
+
+  // Revoking pays out whatever has vested so far and cancels the rest
+  const handleRevoke = async (scheduleId: bigint) => {
+    if (!beneficiary) return
+    try {
+      await revoke.submit(beneficiary, scheduleId).confirmed
+      await onRevoked()
+    } catch {
+      // The transaction toast reports the failure
+    }
+  }
+
+  return (
+    <div className="space-y-4 p-4 rounded-lg bg-gray-900/70">
+      <h3 className="text-white font-semibold">Revoke Schedules</h3>
+      <AddressInput
+        label="Beneficiary"
+        value={beneficiaryInput}
+        onValueChange={setBeneficiaryInput}
+        onAddressChange={setBeneficiary}
+      />
+      {isLoading && beneficiary ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        schedules?.map((schedule) => (
+          <div key={schedule.scheduleId.toString()} className="space-y-3 rounded-lg border border-gray-700/50 p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-white font-medium">Schedule #{schedule.scheduleId.toString()}</p>
+                <p className="text-gray-400 text-sm">
+                  {format(schedule.totalAmount)} · {format(schedule.releasedAmount)} released
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRevoke(schedule.scheduleId)}
+                disabled={!schedule.revocable || schedule.revoked || revoke.isPending || revoke.isConfirming}
+                className="border-red-500/30 text-red-400 bg-transparent hover:bg-red-500/10"
+              >
+                <XCircle className="mr-1 h-4 w-4" />
+                {schedule.revoked ? "Revoked" : schedule.revocable ? "Revoke" : "Not revocable"}
+              </Button>
+            </div>
+            <VestingTimeline schedule={schedule} now={now} />
+          </div>
+        ))
+      )}
+      {beneficiary && schedules?.length === 0 && (
+        <p className="text-gray-500 text-sm">This account has no vesting schedules.</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Vesting administration for accounts with the rewards admin role; renders
+ * nothing for everyone else
+ */
+export function VestingAdmin({
+  rewardToken,
+  onChanged,
+}: {
+  rewardToken: RewardTokenDetails
+  onChanged: () => Promise<unknown>
+}) {
+  const { address } = useAccount()
+  const { data: isAdmin } = useIsRewardsAdmin(address)
+  if (!isAdmin) return null
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-6">
+        <CreateScheduleForm rewardToken={rewardToken} onCreated={onChanged} />
+        <CsvImport rewardToken={rewardToken} onCreated={onChanged} />
+      </div>
+      <RevokeSchedules rewardToken={rewardToken} onRevoked={onChanged} />
+    </div>
+  )
+}
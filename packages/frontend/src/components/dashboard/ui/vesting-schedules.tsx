@@ -0,0 +1,211 @@
+"use client"
+
+import { Hourglass, Loader2, Unlock } from "lucide-react"
+import { useAccount } from "wagmi"
+import { Button } from "@/components/ui/button"
+import {
+  type VestingScheduleInfo,
+  useGetVestingSchedules,
+  useReleaseVestedTokens,
+} from "@/hooks/contracts/useRewardsDistributor"
+import { formatAmount, vestedAmount } from "@/lib/sdk"
+
+interface RewardTokenDisplay {
+  decimals?: number
+  symbol: string
+}
+
+const toDate = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleDateString()
+
+const percentOf = (part: bigint, whole: bigint) =>
+  whole === BigInt(0) ? 0 : Number((part * BigInt(10000)) / whole) / 100
+
+function scheduleStatus(schedule: VestingScheduleInfo, now: bigint) {
+  if (schedule.revoked) return { label: "Revoked", className: "bg-red-500/20 text-red-400 border-red-500/30" }
+  if (now < schedule.startTime + schedule.cliffDuration)
+    return { label: "In cliff", className: "bg-gray-500/20 text-gray-300 border-gray-500/30" }
+  if (now < schedule.startTime + schedule.duration)
+    return { label: "Vesting", className: "bg-blue-500/20 text-blue-400 border-blue-500/30" }
+  return schedule.releasedAmount < schedule.totalAmount
+    ? { label: "Fully vested", className: "bg-green-500/20 text-green-400 border-green-500/30" }
+    : { label: "Completed", className: "bg-gray-500/20 text-gray-400 border-gray-500/30" }
+}
+
+/**
+ * Cliff and linear unlock over the schedule's lifetime. The curve shows how
+ * much is unlocked at each point in time; the bar under it splits the total
+ * into released, vested but unreleased, and still locked.
+ */
+export function VestingTimeline({ schedule, now }: { schedule: VestingScheduleInfo; now: bigint }) {
+  const end = schedule.startTime + schedule.duration
+  const releasedPercent = percentOf(schedule.releasedAmount, schedule.totalAmount)
+  const vestedPercent = percentOf(vestedAmount(schedule, now), schedule.totalAmount)
+  const cliffPercent = percentOf(schedule.cliffDuration, schedule.duration)
+  const elapsed = now > schedule.startTime ? now - schedule.startTime : BigInt(0)
+  const nowPercent = Math.min(100, percentOf(elapsed, schedule.duration))
+
+  // Chart space is 100 x 40, y growing downwards; nothing unlocks before the
+  // cliff, which then releases everything vested since the start at once
+  const y = (percent: number) => 40 - (percent * 40) / 100
+  const curve = `0,40 ${cliffPercent},40 ${cliffPercent},${y(cliffPercent)} 100,0`
+  const vestedArea =
+    nowPercent <= cliffPercent
+      ? ""
+      : `0,40 ${cliffPercent},40 ${cliffPercent},${y(cliffPercent)} ${nowPercent},${y(nowPercent)} ${nowPercent},40`
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="h-16 w-full">
+        {vestedArea && !schedule.revoked && <polygon points={vestedArea} fill="rgba(34,197,94,0.25)" />}
+        <polyline
+          points={curve}
+          fill="none"
+          stroke={schedule.revoked ? "#6b7280" : "#22c55e"}
+          strokeWidth="1.5"
+          vectorEffect="non-scaling-stroke"
+        />
+        {!schedule.revoked && nowPercent < 100 && (
+          <line
+            x1={nowPercent}
+            x2={nowPercent}
+            y1="0"
+            y2="40"
+            stroke="#ffffff"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div className="relative h-2 rounded-full bg-gray-800">
+        <div
+          className="absolute inset-y-0 left-0 rounded-full bg-green-500/40"
+          style={{ width: `${vestedPercent}%` }}
+          title="Vested"
+        />
+        <div
+          className="absolute inset-y-0 left-0 rounded-full bg-green-500"
+          style={{ width: `${releasedPercent}%` }}
+          title="Released"
+        />
+      </div>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Start {toDate(schedule.startTime)}</span>
+        {schedule.cliffDuration > BigInt(0) && (
+          <span className="text-amber-400/80">Cliff {toDate(schedule.startTime + schedule.cliffDuration)}</span>
+        )}
+        <span>End {toDate(end)}</span>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * The connected account's vesting schedules, with what each can release now
+ */
+export function VestingSchedules({
+  rewardToken,
+  onReleased,
+}: {
+  rewardToken: RewardTokenDisplay
+  onReleased?: () => Promise<unknown>
+}) {
+  const { address } = useAccount()
+  const { data: schedules, isLoading } = useGetVestingSchedules(address)
+  const release = useReleaseVestedTokens()
+  const now = BigInt(Math.floor(Date.now() / 1000))
+
+  const format = (value: bigint) =>
+    rewardToken.decimals === undefined ? "—" : `${formatAmount(value, rewardToken.decimals)} ${rewardToken.symbol}`
+
+  const handleRelease = async (scheduleId: bigint) => {
+    try {
+      await release.submit(scheduleId).confirmed
+      await onReleased?.()
+    } catch {
+      // The transaction toast reports the failure
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  if (!schedules?.length) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-400 text-lg mb-2">No vesting schedules</p>
+        <p className="text-gray-500">Tokens granted to you with a vesting schedule show up here</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {schedules.map((schedule) => {
+        const status = scheduleStatus(schedule, now)
+        const locked = schedule.revoked
+          ? BigInt(0)
+          : schedule.totalAmount - vestedAmount(schedule, now)
+        const releasing = release.isPending || release.isConfirming
+
+        return (
+          <div
+            key={schedule.scheduleId.toString()}
+            className="p-6 rounded-xl bg-gray-900/60 backdrop-blur-sm border border-gray-700/50"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 rounded-xl bg-purple-500/10 border border-purple-500/20 flex items-center justify-center">
+                  <Hourglass className="h-5 w-5 text-purple-400" />
+                </div>
+                <div>
+                  <h3 className="text-white font-semibold">Schedule #{schedule.scheduleId.toString()}</h3>
+                  <p className="text-gray-400 text-sm">
+                    {format(schedule.totalAmount)}
+                    {schedule.revocable && " · Revocable"}
+                  </p>
+                </div>
+              </div>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium border ${status.className}`}>
+                {status.label}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+              <div>
+                <p className="text-gray-400 text-xs uppercase tracking-wide">Released</p>
+                <p className="text-white font-medium">{format(schedule.releasedAmount)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs uppercase tracking-wide">Releasable now</p>
+                <p className="text-yellow-400 font-semibold">{format(schedule.releasable)}</p>
+              </div>
+              <div>
+                <p className="text-gray-400 text-xs uppercase tracking-wide">Still locked</p>
+                <p className="text-gray-300 font-medium">{format(locked)}</p>
+              </div>
+            </div>
+
+            <VestingTimeline schedule={schedule} now={now} />
+
+            <div className="flex justify-end pt-4">
+              <Button
+                size="sm"
+                className="bg-green-500 hover:bg-green-600 text-black"
+                onClick={() => handleRelease(schedule.scheduleId)}
+                disabled={schedule.releasable === BigInt(0) || releasing}
+              >
+                {releasing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Unlock className="h-4 w-4 mr-2" />}
+                Release {format(schedule.releasable)}
+              </Button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useChainId, usePublicClient } from "wagmi";
+import { DEFAULT_CHAIN_ID, SUPPORTED_CHAIN_IDS } from "@/lib/contracts";
+import {
+  createEventIndexer,
+  createIndexedDbEventStore,
+  createMemoryEventStore,
+} from "@/lib/indexer";
+import {
+  EventIndexerContext,
+  type EventIndexerStatus,
+} from "@/hooks/useIndexedEvents";
+
+const INITIAL_STATUS: EventIndexerStatus = {
+  isSyncing: true,
+  version: 0,
+  lastSyncedAt: null,
+  historyComplete: false,
+  error: null,
+};
+
+// Fresh browser indexes start about half a day back on Hedera and page
+// older history in behind it, instead of replaying from deployment first
+const CHECKPOINT_BLOCKS = BigInt(20_000);
+
+/**
+ * Runs the event indexer for the chain the contracts resolve to and shares
+ * its store with the indexed event hooks
+ */
+export function EventIndexerProvider({ children }: { children: React.ReactNode }) {
+  const connectedChainId = useChainId();
+  const chainId = SUPPORTED_CHAIN_IDS.includes(connectedChainId)
+    ? connectedChainId
+    : DEFAULT_CHAIN_ID;
+  const client = usePublicClient({ chainId });
+
+  // IndexedDB only exists in the browser; server renders get an empty store
+  const [store] = useState(() =>
+    typeof indexedDB === "undefined"
+      ? createMemoryEventStore()
+      : createIndexedDbEventStore()
+  );
+  const [status, setStatus] = useState<EventIndexerStatus>(INITIAL_STATUS);
+
+  useEffect(() => {
+    if (!client) return;
+
+    setStatus(INITIAL_STATUS);
+    const indexer = createEventIndexer({
+      client,
+      chainId,
+      store,
+      checkpointBlocks: CHECKPOINT_BLOCKS,
+    });
+    // Aborted when the chain changes, so the old chain's pass stops mid-way
+    const controller = new AbortController();
+
+    indexer.watch({
+      signal: controller.signal,
+      onProgress: ({ events }) => {
+        if (events.length === 0) return;
+        setStatus((previous) => ({ ...previous, version: previous.version + 1 }));
+      },
+      onHead: () =>
+        setStatus((previous) => ({
+          ...previous,
+          isSyncing: false,
+          lastSyncedAt: Date.now(),
+          error: null,
+        })),
+      onSync: ({ historyComplete }) =>
+        setStatus((previous) => ({ ...previous, historyComplete })),
+      onError: (error) =>
+        setStatus((previous) => ({
+          ...previous,
+          isSyncing: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        })),
+    });
+    return () => controller.abort();
+  }, [client, chainId, store]);
+
+  const value = useMemo(() => ({ chainId, store, status }), [chainId, store, status]);
+
+  return (
+    <EventIndexerContext.Provider value={value}>{children}</EventIndexerContext.Provider>
+  );
+}
@@ -6,6 +6,9 @@ import { WagmiProvider } from "wagmi";
 import { QueryClientProvider, QueryClient } from "@tanstack/react-query";
 import { Toaster } from "sonner";
 import { config } from "@/lib/wagmi";
+import { DEFAULT_CHAIN_ID } from "@/lib/contracts";
+import { EventIndexerProvider } from "@/components/event-indexer-provider";
+import { TransactionProvider } from "@/components/transaction-provider";
 
 const queryClient = new QueryClient();
 
@@ -14,11 +17,13 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider
-          initialChain={296} // Hedera Testnet
+          initialChain={DEFAULT_CHAIN_ID}
           showRecentTransactions={true}
           coolMode
         >
-          {children}
+          <EventIndexerProvider>
+            <TransactionProvider>{children}</TransactionProvider>
+          </EventIndexerProvider>
           <Toaster position="top-right" theme="dark" richColors closeButton />
         </RainbowKitProvider>
       </QueryClientProvider>
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { PublicClient } from "viem";
+import { useConfig } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+import { getExplorerTxUrl } from "@/lib/chains";
+import { createTransactionManager, type TransactionRecord } from "@/lib/transactions";
+import { TransactionManagerContext } from "@/hooks/useTransactions";
+
+const viewAction = ({ chainId, hash }: TransactionRecord) => {
+  const url = hash && getExplorerTxUrl(chainId, hash);
+  return url
+    ? { label: "View", onClick: () => window.open(url, "_blank", "noopener,noreferrer") }
+    : undefined;
+};
+
+// Prefixes the simulated outcome, e.g. "Loan #12 · Confirm in your wallet"
+const withSummary = ({ preview }: TransactionRecord, text: string) =>
+  preview?.summary ? `${preview.summary} · ${text}` : text;
+
+// One toast per transaction, updated in place as it moves through its lifecycle
+const showToast = (record: TransactionRecord) => {
+  const options = { id: record.id, action: viewAction(record) };
+
+  switch (record.status) {
+    case "pending":
+      toast.loading(record.label, {
+        ...options,
+        description: withSummary(
+          record,
+          record.hash ? "Waiting for the transaction to be mined" : "Confirm in your wallet"
+        ),
+      });
+      break;
+    case "mined":
+      toast.loading(record.label, {
+        ...options,
+        description: withSummary(record, "Mined, waiting for confirmations"),
+      });
+      break;
+    case "confirmed":
+      toast.success(record.label, {
+        ...options,
+        description: withSummary(record, "Transaction confirmed"),
+      });
+      break;
+    case "failed":
+      toast.error(record.label, {
+        ...options,
+        description: record.error?.hint
+          ? `${record.error.message}. ${record.error.hint}`
+          : record.error?.message,
+      });
+      break;
+  }
+};
+
+/**
+ * Tracks every transaction submitted through the app, toasting its progress
+ * and sharing the session history with the transaction hooks
+ */
+export function TransactionProvider({ children }: { children: React.ReactNode }) {
+  const config = useConfig();
+  const [manager] = useState(() =>
+    createTransactionManager({
+      getPublicClient: (chainId) => getPublicClient(config, { chainId }) as PublicClient | undefined,
+    })
+  );
+
+  useEffect(
+    () =>
+      manager.subscribe((_, changed) => {
+        if (changed) showToast(changed);
+      }),
+    [manager]
+  );
+
+  return (
+    <TransactionManagerContext.Provider value={manager}>{children}</TransactionManagerContext.Provider>
+  );
+}
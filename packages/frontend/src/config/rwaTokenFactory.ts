@@ -1,59 +1,52 @@
 // Configuration file for RWATokenFactory contract
-// This file helps extract the contract address from the broadcast JSON
+// The factory address comes from the deployment registry, which is generated
+// from the Foundry broadcast output (see scripts/sync-deployments.mjs)
 
-// Import the broadcast JSON file
-// You can use this to programmatically get the address from your deployment
-export const getRWATokenFactoryAddress = () => {
-  // The actual address should be extracted from your broadcast file:
-  // /Users/iteoluwakisibello/Documents/Hedvault/packages/contract/broadcast/DeployRWATokenFactory.s.sol/296/run-1754499082.json
+import { Address } from "viem";
+import { DEFAULT_CHAIN_ID, getContractAddress } from "@/lib/contracts";
+import { formatHederaAddress, toEvmAddress } from "@/lib/hedera";
 
-  // For now, replace this with the actual address from your broadcast file
-  // Look for "contractAddress" or "transactionReceipt.contractAddress" in the JSON
-  return "0xYourActualContractAddressHere" as const;
-};
-
-// Example of how to use the broadcast JSON:
-/*
-// In your component or setup file:
-import broadcastData from '../../../contract/broadcast/DeployRWATokenFactory.s.sol/296/run-1754499082.json';
-
-const getAddressFromBroadcast = () => {
-  // Assuming the broadcast JSON has transactions array
-  const deploymentTransaction = broadcastData.transactions?.find(
-    (tx: any) => tx.contractName === 'RWATokenFactory'
-  );
-  return deploymentTransaction?.contractAddress || deploymentTransaction?.transactionReceipt?.contractAddress;
-};
-*/
+// RWATokenFactory address on the given chain (defaults to the app's default chain)
+export const getRWATokenFactoryAddress = (
+  chainId: number = DEFAULT_CHAIN_ID
+): Address | undefined => getContractAddress("RWATokenFactory", chainId);
 
 // RWATokenFactory address from deployment
-export const RWATOKEN_FACTORY_ADDRESS =
-  "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9" as const;
-
-// RWA Token addresses for frontend integration
-// These are Hedera token addresses in EVM format (long-zero format)
-export const RWA_TOKEN_ADDRESSES = {
-  GOLD: "0x0000000000000000000000000000000000636359" as const,
-  SILVER: "0x00000000000000000000000000000000006363ad" as const,
-  REAL_ESTATE: "0x00000000000000000000000000000000006363ba" as const,
-} as const;
-
-// Alternative: If the above addresses don't work, try these converted formats
-// These convert the Hedera token IDs to proper EVM addresses
-export const ALTERNATIVE_TOKEN_ADDRESSES = {
-  // Token ID 0.0.6513497 (636359 in hex) -> proper EVM format
-  GOLD: "0x0000000000000000000000000000000000636359" as const,
-  // Token ID 0.0.6513581 (6363ad in hex) -> proper EVM format
-  SILVER: "0x00000000000000000000000000000000006363ad" as const,
-  // Token ID 0.0.6513594 (6363ba in hex) -> proper EVM format
-  REAL_ESTATE: "0x00000000000000000000000000000000006363ba" as const,
+export const RWATOKEN_FACTORY_ADDRESS = getRWATokenFactoryAddress();
+
+// Predefined RWA tokens. Entries may be written either as a Hedera entity ID
+// or as an EVM address; both are normalised below.
+const RWA_TOKENS = {
+  GOLD: "0.0.6513497",
+  SILVER: "0.0.6513581",
+  REAL_ESTATE: "0.0.6513594",
 } as const;
 
 // Type for RWA token types
-export type RWATokenType = keyof typeof RWA_TOKEN_ADDRESSES;
+export type RWATokenType = keyof typeof RWA_TOKENS;
+
+const mapTokens = <T>(fn: (value: string, type: RWATokenType) => T) =>
+  Object.fromEntries(
+    Object.entries(RWA_TOKENS).map(([type, value]) => [
+      type,
+      fn(value, type as RWATokenType),
+    ])
+  ) as Record<RWATokenType, T>;
+
+// RWA token addresses in EVM (long-zero) format for contract calls
+export const RWA_TOKEN_ADDRESSES = mapTokens((value, type) => {
+  const address = toEvmAddress(value);
+  if (!address) throw new Error(`Invalid address for RWA token ${type}: ${value}`);
+  return address;
+});
+
+// RWA token entity IDs (0.0.x) for display and HashScan links
+export const RWA_TOKEN_IDS = mapTokens((_, type) =>
+  formatHederaAddress(RWA_TOKEN_ADDRESSES[type])
+);
 
 // Helper function to get token address by type
-export const getRWATokenAddress = (tokenType: RWATokenType): string => {
+export const getRWATokenAddress = (tokenType: RWATokenType): Address => {
   return RWA_TOKEN_ADDRESSES[tokenType];
 };
 
@@ -1,352 +1,150 @@
 /**
  * ComplianceManager Contract Hooks
- * Custom hooks for interacting with the ComplianceManager smart contract
+ * React bindings for the compliance module of the HedVault client
  */
 
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { Address } from 'viem';
-import { ComplianceManagerABI } from '../../lib/abis';
-import { CONTRACT_ADDRESSES, HEDERA_TESTNET_CHAIN_ID } from '../../lib/contracts';
+import { useHedVaultQuery, useHedVaultWrite } from '../useHedVaultClient';
 
-// Types for ComplianceManager
-export interface UserCompliance {
-  level: number;
-  riskLevel: number;
-  isVerified: boolean;
-  isBlacklisted: boolean;
-  isSanctioned: boolean;
-  verificationDate: bigint;
-  lastReviewDate: bigint;
-  dailyTransactionLimit: bigint;
-  monthlyTransactionLimit: bigint;
-  dailyTransactionVolume: bigint;
-  monthlyTransactionVolume: bigint;
-  lastTransactionDate: bigint;
-  jurisdiction: string;
-  kycHash: string;
-  verifiedBy: Address;
-}
-
-export interface TransactionMonitoring {
-  transactionId: bigint;
-  user: Address;
-  asset: Address;
-  amount: bigint;
-  timestamp: bigint;
-  status: number;
-  riskLevel: number;
-  transactionType: string;
-  flagReason: string;
-  reviewedBy: Address;
-  reviewDate: bigint;
-}
-
-export interface RegulatoryReport {
-  reportId: bigint;
-  startDate: bigint;
-  endDate: bigint;
-  totalTransactions: bigint;
-  flaggedTransactions: bigint;
-  totalVolume: bigint;
-  reportType: string;
-  jurisdiction: string;
-  reportHash: string;
-  isSubmitted: boolean;
-  submissionDate: bigint;
-}
+export type { UserCompliance, TransactionMonitoring, RegulatoryReport } from '@/lib/sdk';
 
 // Read Hooks
 export function useGetUserCompliance(userAddress?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'getUserCompliance',
-    args: userAddress ? [userAddress] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!userAddress,
-    },
-  });
+  return useHedVaultQuery(
+    ['compliance', 'getUserCompliance', userAddress],
+    (client) => client.compliance.getUserCompliance(userAddress as Address),
+    !!userAddress
+  );
 }
 
 export function useIsUserCompliant(userAddress?: Address, amount?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'isUserCompliant',
-    args: userAddress && amount ? [userAddress, amount] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!userAddress && amount !== undefined,
-    },
-  });
+  return useHedVaultQuery(
+    ['compliance', 'isUserCompliant', userAddress, amount],
+    (client) => client.compliance.isUserCompliant(userAddress as Address, amount as bigint),
+    !!userAddress && amount !== undefined
+  );
 }
 
 export function useIsSanctioned(entityAddress?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'isSanctioned',
-    args: entityAddress ? [entityAddress] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!entityAddress,
-    },
-  });
+  return useHedVaultQuery(
+    ['compliance', 'isSanctioned', entityAddress],
+    (client) => client.compliance.isSanctioned(entityAddress as Address),
+    !!entityAddress
+  );
 }
 
 export function useGetRemainingDailyLimit(userAddress?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'getRemainingDailyLimit',
-    args: userAddress ? [userAddress] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!userAddress,
-    },
-  });
+  return useHedVaultQuery(
+    ['compliance', 'getRemainingDailyLimit', userAddress],
+    (client) => client.compliance.getRemainingDailyLimit(userAddress as Address),
+    !!userAddress
+  );
 }
 
 export function useGetTransactionMonitoring(transactionId?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'getTransactionMonitoring',
-    args: transactionId ? [transactionId] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: transactionId !== undefined,
-    },
-  });
+  return useHedVaultQuery(
+    ['compliance', 'getTransactionMonitoring', transactionId],
+    (client) => client.compliance.getTransactionMonitoring(transactionId as bigint),
+    transactionId !== undefined
+  );
 }
 
 export function useGetRegulatoryReport(reportId?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'getRegulatoryReport',
-    args: reportId ? [reportId] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: reportId !== undefined,
-    },
-  });
+  return useHedVaultQuery(
+    ['compliance', 'getRegulatoryReport', reportId],
+    (client) => client.compliance.getRegulatoryReport(reportId as bigint),
+    reportId !== undefined
+  );
 }
 
 // Constants Hooks
 export function useComplianceConstants() {
-  const { data: maxDailyBasic } = useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'MAX_DAILY_TRANSACTION_BASIC',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: maxDailyEnhanced } = useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'MAX_DAILY_TRANSACTION_ENHANCED',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: maxMonthlyBasic } = useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'MAX_MONTHLY_TRANSACTION_BASIC',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: maxMonthlyEnhanced } = useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'MAX_MONTHLY_TRANSACTION_ENHANCED',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: highRiskThreshold } = useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'HIGH_RISK_THRESHOLD',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: suspiciousThreshold } = useReadContract({
-    address: CONTRACT_ADDRESSES.ComplianceManager,
-    abi: ComplianceManagerABI,
-    functionName: 'SUSPICIOUS_TRANSACTION_THRESHOLD',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
+  const { data } = useHedVaultQuery(['compliance', 'constants'], async (client) => {
+    const { read } = client.compliance;
+    const [
+      maxDailyBasic,
+      maxDailyEnhanced,
+      maxMonthlyBasic,
+      maxMonthlyEnhanced,
+      highRiskThreshold,
+      suspiciousThreshold,
+    ] = await Promise.all([
+      read.MAX_DAILY_TRANSACTION_BASIC(),
+      read.MAX_DAILY_TRANSACTION_ENHANCED(),
+      read.MAX_MONTHLY_TRANSACTION_BASIC(),
+      read.MAX_MONTHLY_TRANSACTION_ENHANCED(),
+      read.HIGH_RISK_THRESHOLD(),
+      read.SUSPICIOUS_TRANSACTION_THRESHOLD(),
+    ]);
+    return {
+      maxDailyBasic,
+      maxDailyEnhanced,
+      maxMonthlyBasic,
+      maxMonthlyEnhanced,
+      highRiskThreshold,
+      suspiciousThreshold,
+    };
   });
 
   return {
-    maxDailyBasic,
-    maxDailyEnhanced,
-    maxMonthlyBasic,
-    maxMonthlyEnhanced,
-    highRiskThreshold,
-    suspiciousThreshold,
+    maxDailyBasic: data?.maxDailyBasic,
+    maxDailyEnhanced: data?.maxDailyEnhanced,
+    maxMonthlyBasic: data?.maxMonthlyBasic,
+    maxMonthlyEnhanced: data?.maxMonthlyEnhanced,
+    highRiskThreshold: data?.highRiskThreshold,
+    suspiciousThreshold: data?.suspiciousThreshold,
   };
 }
 
 // Write Hooks
 export function useVerifyUser() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const verifyUser = (user: Address, level: number, jurisdiction: string, kycHash: `0x${string}`) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.ComplianceManager,
-      abi: ComplianceManagerABI,
-      functionName: 'verifyUser',
-      args: [user, level, jurisdiction, kycHash],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
-
-  return {
-    verifyUser,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: verifyUser, ...state } = useHedVaultWrite(
+    (client, user: Address, level: number, jurisdiction: string, kycHash: `0x${string}`) =>
+      client.compliance.verifyUser(user, level, jurisdiction, kycHash),
+    'Verify user'
+  );
+  return { verifyUser, ...state };
 }
 
 export function useMonitorTransaction() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const monitorTransaction = (user: Address, asset: Address, amount: bigint, transactionType: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.ComplianceManager,
-      abi: ComplianceManagerABI,
-      functionName: 'monitorTransaction',
-      args: [user, asset, amount, transactionType],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
-
-  return {
-    monitorTransaction,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: monitorTransaction, ...state } = useHedVaultWrite(
+    (client, user: Address, asset: Address, amount: bigint, transactionType: string) =>
+      client.compliance.monitorTransaction(user, asset, amount, transactionType),
+    'Record monitored transaction'
+  );
+  return { monitorTransaction, ...state };
 }
 
 export function useBlacklistUser() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const blacklistUser = (user: Address, reason: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.ComplianceManager,
-      abi: ComplianceManagerABI,
-      functionName: 'blacklistUser',
-      args: [user, reason],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
-
-  return {
-    blacklistUser,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: blacklistUser, ...state } = useHedVaultWrite(
+    (client, user: Address, reason: string) => client.compliance.blacklistUser(user, reason),
+    'Blacklist user'
+  );
+  return { blacklistUser, ...state };
 }
 
 export function useRemoveFromBlacklist() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const removeFromBlacklist = (user: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.ComplianceManager,
-      abi: ComplianceManagerABI,
-      functionName: 'removeFromBlacklist',
-      args: [user],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
-
-  return {
-    removeFromBlacklist,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: removeFromBlacklist, ...state } = useHedVaultWrite(
+    (client, user: Address) => client.compliance.removeFromBlacklist(user),
+    'Remove from blacklist'
+  );
+  return { removeFromBlacklist, ...state };
 }
 
 export function useUpdateUserRiskLevel() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const updateUserRiskLevel = (user: Address, riskLevel: number) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.ComplianceManager,
-      abi: ComplianceManagerABI,
-      functionName: 'updateUserRiskLevel',
-      args: [user, riskLevel],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
-
-  return {
-    updateUserRiskLevel,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: updateUserRiskLevel, ...state } = useHedVaultWrite(
+    (client, user: Address, riskLevel: number) =>
+      client.compliance.updateUserRiskLevel(user, riskLevel),
+    'Update risk level'
+  );
+  return { updateUserRiskLevel, ...state };
 }
 
 export function useGenerateRegulatoryReport() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const generateRegulatoryReport = (startDate: bigint, endDate: bigint, reportType: string, jurisdiction: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.ComplianceManager,
-      abi: ComplianceManagerABI,
-      functionName: 'generateRegulatoryReport',
-      args: [startDate, endDate, reportType, jurisdiction],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
-
-  return {
-    generateRegulatoryReport,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
-}
\ No newline at end of file
+  const { write: generateRegulatoryReport, ...state } = useHedVaultWrite(
+    (client, startDate: bigint, endDate: bigint, reportType: string, jurisdiction: string) =>
+      client.compliance.generateRegulatoryReport(startDate, endDate, reportType, jurisdiction),
+    'Generate regulatory report'
+  );
+  return { generateRegulatoryReport, ...state };
+}
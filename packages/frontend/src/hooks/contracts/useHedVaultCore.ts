@@ -1,290 +1,156 @@
 /**
  * HedVaultCore Contract Hooks
- * Custom hooks for interacting with the HedVaultCore smart contract
+ * React bindings for the core module of the HedVault client
  */
 
-import {
-  useReadContract,
-  useWriteContract,
-  useWaitForTransactionReceipt,
-} from "wagmi";
 import { Address } from "viem";
-import { HedVaultCoreABI } from "../../lib/abis";
-import {
-  CONTRACT_ADDRESSES,
-  HEDERA_TESTNET_CHAIN_ID,
-} from "../../lib/contracts";
+import { CORE_FEE_TYPES, CORE_MODULE_TYPES, type CoreFeeType, type CoreModuleType } from "@/lib/admin";
+import { useHedVaultQuery, useHedVaultWrite } from "../useHedVaultClient";
 
-// Types
-export interface ProtocolHealth {
-  isHealthy: boolean;
-  tvlUtilization: bigint;
-  activeModules: bigint;
-  lastActivity: bigint;
-}
-
-export interface ProtocolLimits {
-  maxTVLLimit: bigint;
-  minTxAmount: bigint;
-  maxTxAmount: bigint;
-  dailyTxLimit: bigint;
-  dailyVolumeLimit: bigint;
-}
-
-export interface ProtocolStats {
-  tvl: bigint;
-  users: bigint;
-  transactions: bigint;
-  fees: bigint;
-}
-
-export interface UserInfo {
-  isRegistered: boolean;
-  registrationTime: bigint;
-  lastTransaction: bigint;
-  dailyTxCount: bigint;
-  dailyVolume: bigint;
-}
+export type {
+  ProtocolHealth,
+  ProtocolLimits,
+  ProtocolStats,
+  UserInfo,
+} from "@/lib/sdk";
 
 // Read Hooks - Core Module Addresses
 export function useGetFeeRecipient() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "feeRecipient",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "feeRecipient"], (client) => client.core.read.feeRecipient());
 }
 
 export function useGetMarketplace() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "marketplace",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "marketplace"], (client) => client.core.read.marketplace());
 }
 
 export function useGetLendingPool() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "lendingPool",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "lendingPool"], (client) => client.core.read.lendingPool());
 }
 
 export function useGetPriceOracle() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "priceOracle",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "priceOracle"], (client) => client.core.read.priceOracle());
 }
 
 export function useGetComplianceManager() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "complianceManager",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "complianceManager"], (client) => client.core.read.complianceManager());
 }
 
 export function useGetPortfolioManager() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "portfolioManager",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "portfolioManager"], (client) => client.core.read.portfolioManager());
 }
 
 export function useGetRewardsDistributor() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "rewardsDistributor",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "rewardsDistributor"], (client) => client.core.read.rewardsDistributor());
 }
 
 export function useGetSwapEngine() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "swapEngine",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "swapEngine"], (client) => client.core.read.swapEngine());
 }
 
 export function useGetAnalyticsEngine() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "analyticsEngine",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "analyticsEngine"], (client) => client.core.read.analyticsEngine());
 }
 
 export function useGetCrossChainBridge() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "crossChainBridge",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "crossChainBridge"], (client) => client.core.read.crossChainBridge());
 }
 
 export function useGetRwaTokenFactory() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "rwaTokenFactory",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
+  return useHedVaultQuery(["core", "rwaTokenFactory"], (client) => client.core.read.rwaTokenFactory());
+}
+
+// Every module address, keyed by the type updateModule takes
+export function useGetCoreModules() {
+  return useHedVaultQuery(["core", "modules"], async (client) => {
+    const addresses = await Promise.all(CORE_MODULE_TYPES.map((type) => client.core.read[type]()));
+    return Object.fromEntries(
+      CORE_MODULE_TYPES.map((type, index) => [type, addresses[index]])
+    ) as Record<CoreModuleType, Address>;
   });
 }
 
 // Read Hooks - Protocol State
 export function useIsPaused() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "paused",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "paused"], (client) => client.core.read.paused());
 }
 
 export function useIsInitialized() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "isInitialized",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "isInitialized"], (client) => client.core.read.isInitialized());
 }
 
 export function useIsEmergencyMode() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "emergencyMode",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "emergencyMode"], (client) => client.core.read.emergencyMode());
 }
 
 export function useGetOwner() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "owner",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["core", "owner"], (client) => client.core.read.owner());
 }
 
 // Read Hooks - Protocol Constants
 export function useGetProtocolConstants() {
-  const { data: version } = useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "VERSION",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: dailyTransactionLimit } = useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "DAILY_TRANSACTION_LIMIT",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: dailyVolumeLimit } = useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "DAILY_VOLUME_LIMIT",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  const { data: rateLimitWindow } = useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "RATE_LIMIT_WINDOW",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
+  const { data } = useHedVaultQuery(["core", "constants"], async (client) => {
+    const { read } = client.core;
+    const [version, dailyTransactionLimit, dailyVolumeLimit, rateLimitWindow] =
+      await Promise.all([
+        read.VERSION(),
+        read.DAILY_TRANSACTION_LIMIT(),
+        read.DAILY_VOLUME_LIMIT(),
+        read.RATE_LIMIT_WINDOW(),
+      ]);
+    return { version, dailyTransactionLimit, dailyVolumeLimit, rateLimitWindow };
   });
 
   return {
-    version,
-    dailyTransactionLimit,
-    dailyVolumeLimit,
-    rateLimitWindow,
+    version: data?.version,
+    dailyTransactionLimit: data?.dailyTransactionLimit,
+    dailyVolumeLimit: data?.dailyVolumeLimit,
+    rateLimitWindow: data?.rateLimitWindow,
   };
 }
 
 // Read Hooks - Fees and Limits
 export function useGetProtocolFee(operation?: string) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "getProtocolFee",
-    args: operation ? [operation] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!operation,
-    },
+  return useHedVaultQuery(
+    ["core", "getProtocolFee", operation],
+    (client) => client.core.getProtocolFee(operation as string),
+    !!operation
+  );
+}
+
+// Every protocol fee in basis points, keyed by fee type
+export function useGetProtocolFees() {
+  return useHedVaultQuery(["core", "protocolFees"], async (client) => {
+    const fees = await Promise.all(CORE_FEE_TYPES.map(({ type }) => client.core.getProtocolFee(type)));
+    return Object.fromEntries(
+      CORE_FEE_TYPES.map(({ type }, index) => [type, fees[index]])
+    ) as Record<CoreFeeType, bigint>;
   });
 }
 
 export function useGetProtocolHealth() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "getProtocolHealth",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  }) as {
-    data: ProtocolHealth | undefined;
-    isLoading: boolean;
-    error: Error | null;
-  };
+  return useHedVaultQuery(["core", "getProtocolHealth"], (client) =>
+    client.core.getProtocolHealth()
+  );
 }
 
 export function useGetProtocolLimits() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "getProtocolLimits",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  }) as {
-    data: ProtocolLimits | undefined;
-    isLoading: boolean;
-    error: Error | null;
-  };
+  return useHedVaultQuery(["core", "getProtocolLimits"], (client) =>
+    client.core.getProtocolLimits()
+  );
 }
 
 export function useGetProtocolStats() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "getProtocolStats",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  }) as {
-    data: ProtocolStats | undefined;
-    isLoading: boolean;
-    error: Error | null;
-  };
+  return useHedVaultQuery(["core", "getProtocolStats"], (client) =>
+    client.core.getProtocolStats()
+  );
 }
 
 export function useGetUserInfo(user?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "getUserInfo",
-    args: user ? [user] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!user,
-    },
-  }) as { data: UserInfo | undefined; isLoading: boolean; error: Error | null };
+  return useHedVaultQuery(
+    ["core", "getUserInfo", user],
+    (client) => client.core.getUserInfo(user as Address),
+    !!user
+  );
 }
 
 export function useValidateTransaction(
@@ -292,375 +158,127 @@ export function useValidateTransaction(
   amount?: bigint,
   operation?: string
 ) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "validateTransaction",
-    args: user && amount && operation ? [user, amount, operation] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!user && !!amount && !!operation,
-    },
-  });
+  return useHedVaultQuery(
+    ["core", "validateTransaction", user, amount, operation],
+    (client) =>
+      client.core.validateTransaction(user as Address, amount as bigint, operation as string),
+    !!user && !!amount && !!operation
+  );
 }
 
 export function useIsValidModule(module?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "isValidModule",
-    args: module ? [module] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!module,
-    },
-  });
+  return useHedVaultQuery(
+    ["core", "isValidModule", module],
+    (client) => client.core.isValidModule(module as Address),
+    !!module
+  );
 }
 
 export function useIsCircuitBreakerActive(module?: string) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.HedVaultCore,
-    abi: HedVaultCoreABI,
-    functionName: "isCircuitBreakerActive",
-    args: module ? [module] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!module,
-    },
-  });
+  return useHedVaultQuery(
+    ["core", "isCircuitBreakerActive", module],
+    (client) => client.core.isCircuitBreakerActive(module as string),
+    !!module
+  );
 }
 
 // Write Hooks - Admin Functions
 export function useUpdateModule() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const updateModule = (moduleType: string, newModule: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "updateModule",
-      args: [moduleType, newModule],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    updateModule,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: updateModule, ...state } = useHedVaultWrite(
+    (client, moduleType: string, newModule: Address) =>
+      client.core.updateModule(moduleType, newModule),
+    "Update module"
+  );
+  return { updateModule, ...state };
 }
 
 export function useUpdateFee() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const updateFee = (feeType: string, newFee: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "updateFee",
-      args: [feeType, newFee],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    updateFee,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: updateFee, ...state } = useHedVaultWrite(
+    (client, feeType: string, newFee: bigint) => client.core.updateFee(feeType, newFee),
+    "Update fee"
+  );
+  return { updateFee, ...state };
 }
 
 export function useBatchUpdateFees() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const batchUpdateFees = (feeTypes: string[], newFees: bigint[]) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "batchUpdateFees",
-      args: [feeTypes, newFees],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    batchUpdateFees,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: batchUpdateFees, ...state } = useHedVaultWrite(
+    (client, feeTypes: string[], newFees: bigint[]) =>
+      client.core.batchUpdateFees(feeTypes, newFees),
+    "Update fees"
+  );
+  return { batchUpdateFees, ...state };
 }
 
 export function useUpdateFeeRecipient() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const updateFeeRecipient = (newFeeRecipient: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "updateFeeRecipient",
-      args: [newFeeRecipient],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    updateFeeRecipient,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: updateFeeRecipient, ...state } = useHedVaultWrite(
+    (client, newFeeRecipient: Address) => client.core.updateFeeRecipient(newFeeRecipient),
+    "Update fee recipient"
+  );
+  return { updateFeeRecipient, ...state };
 }
 
 export function useUpdateProtocolLimit() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const updateProtocolLimit = (limitType: string, newLimit: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "updateProtocolLimit",
-      args: [limitType, newLimit],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    updateProtocolLimit,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: updateProtocolLimit, ...state } = useHedVaultWrite(
+    (client, limitType: string, newLimit: bigint) =>
+      client.core.updateProtocolLimit(limitType, newLimit),
+    "Update protocol limit"
+  );
+  return { updateProtocolLimit, ...state };
 }
 
 // Write Hooks - Protocol Control
 export function usePauseContract() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const pauseContract = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "pause",
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    pauseContract,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: pauseContract, ...state } = useHedVaultWrite(
+    (client) => client.core.pause(),
+    "Pause protocol"
+  );
+  return { pauseContract, ...state };
 }
 
 export function useUnpauseContract() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const unpauseContract = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "unpause",
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    unpauseContract,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: unpauseContract, ...state } = useHedVaultWrite(
+    (client) => client.core.unpause(),
+    "Unpause protocol"
+  );
+  return { unpauseContract, ...state };
 }
 
 export function useActivateEmergencyMode() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const activateEmergencyMode = (reason: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "activateEmergencyMode",
-      args: [reason],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    activateEmergencyMode,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: activateEmergencyMode, ...state } = useHedVaultWrite(
+    (client, reason: string) => client.core.activateEmergencyMode(reason),
+    "Activate emergency mode"
+  );
+  return { activateEmergencyMode, ...state };
 }
 
 export function useDeactivateEmergencyMode() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const deactivateEmergencyMode = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "deactivateEmergencyMode",
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    deactivateEmergencyMode,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: deactivateEmergencyMode, ...state } = useHedVaultWrite(
+    (client) => client.core.deactivateEmergencyMode(),
+    "Deactivate emergency mode"
+  );
+  return { deactivateEmergencyMode, ...state };
 }
 
 export function useRegisterUser() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const registerUser = (user: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "registerUser",
-      args: [user],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    registerUser,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: registerUser, ...state } = useHedVaultWrite(
+    (client, user: Address) => client.core.registerUser(user),
+    "Register user"
+  );
+  return { registerUser, ...state };
 }
 
 export function useAddAdmin() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const addAdmin = (admin: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "addAdmin",
-      args: [admin],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    addAdmin,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: addAdmin, ...state } = useHedVaultWrite(
+    (client, admin: Address) => client.core.addAdmin(admin),
+    "Add admin"
+  );
+  return { addAdmin, ...state };
 }
 
 export function useRemoveAdmin() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const removeAdmin = (admin: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.HedVaultCore,
-      abi: HedVaultCoreABI,
-      functionName: "removeAdmin",
-      args: [admin],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    removeAdmin,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: removeAdmin, ...state } = useHedVaultWrite(
+    (client, admin: Address) => client.core.removeAdmin(admin),
+    "Remove admin"
+  );
+  return { removeAdmin, ...state };
 }
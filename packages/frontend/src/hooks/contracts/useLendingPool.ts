@@ -1,190 +1,113 @@
 /**
  * LendingPool Contract Hooks
- * Custom hooks for interacting with the LendingPool smart contract
+ * React bindings for the lending module of the HedVault client
  */
 
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt, useAccount } from 'wagmi';
+import { useAccount } from 'wagmi';
 import { Address } from 'viem';
-import { LendingPoolABI, ERC20ABI } from '../../lib/abis';
-import { CONTRACT_ADDRESSES, HEDERA_TESTNET_CHAIN_ID } from '../../lib/contracts';
-
-// Types
-export interface PoolInfo {
-  totalDeposits: bigint;
-  totalBorrows: bigint;
-  totalReserves: bigint;
-  lastUpdateTime: bigint;
-  isActive: boolean;
-  borrowingEnabled: boolean;
-  depositsEnabled: boolean;
-}
+import { useHedVaultQuery, useHedVaultWrite } from '../useHedVaultClient';
 
-export interface LoanInfo {
-  loanId: bigint;
-  borrower: string;
-  collateralToken: string;
-  borrowToken: string;
-  collateralAmount: bigint;
-  borrowAmount: bigint;
-  interestRate: bigint;
-  startTime: bigint;
-  lastUpdateTime: bigint;
-  accruedInterest: bigint;
-  status: number;
-  liquidationThreshold: bigint;
-}
+export type { PoolInfo, LoanInfo } from '@/lib/sdk';
 
 // Read Hooks - Pool Information
 export function useGetPoolInfo(token?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getPoolInfo',
-    args: token ? [token] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!token,
-    },
-  }) as { data: PoolInfo | undefined; isLoading: boolean; error: Error | null };
+  return useHedVaultQuery(
+    ['lending', 'getPoolInfo', token],
+    (client) => client.lending.getPoolInfo(token as Address),
+    !!token
+  );
 }
 
 export function useGetLoanInfo(loanId?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getLoanInfo',
-    args: loanId ? [loanId] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!loanId,
-    },
-  }) as { data: LoanInfo | undefined; isLoading: boolean; error: Error | null };
+  return useHedVaultQuery(
+    ['lending', 'getLoanInfo', loanId],
+    (client) => client.lending.getLoanInfo(loanId as bigint),
+    !!loanId
+  );
 }
 
 export function useGetUserLoans(user?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getUserLoans',
-    args: user ? [user] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!user,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getUserLoans', user],
+    (client) => client.lending.getUserLoans(user as Address),
+    !!user
+  );
 }
 
 export function useGetUserBalance(user?: Address, token?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getUserBalance',
-    args: user && token ? [user, token] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!user && !!token,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getUserBalance', user, token],
+    (client) => client.lending.getUserBalance(user as Address, token as Address),
+    !!user && !!token
+  );
 }
 
 export function useGetLoanHealthFactor(loanId?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getLoanHealthFactor',
-    args: loanId ? [loanId] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!loanId,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getLoanHealthFactor', loanId],
+    (client) => client.lending.getLoanHealthFactor(loanId as bigint),
+    !!loanId
+  );
 }
 
 export function useCanBorrow(user?: Address, token?: Address, amount?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'canBorrow',
-    args: user && token && amount ? [user, token, amount] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!user && !!token && !!amount,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'canBorrow', user, token, amount],
+    (client) => client.lending.canBorrow(user as Address, token as Address, amount as bigint),
+    !!user && !!token && !!amount
+  );
 }
 
 export function useGetUtilizationRate(asset?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getUtilizationRate',
-    args: asset ? [asset] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!asset,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getUtilizationRate', asset],
+    (client) => client.lending.getUtilizationRate(asset as Address),
+    !!asset
+  );
 }
 
 export function useGetSupplyAPY(token?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getSupplyAPY',
-    args: token ? [token] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!token,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getSupplyAPY', token],
+    (client) => client.lending.getSupplyAPY(token as Address),
+    !!token
+  );
 }
 
 export function useGetBorrowAPY(token?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getBorrowAPY',
-    args: token ? [token] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!token,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getBorrowAPY', token],
+    (client) => client.lending.getBorrowAPY(token as Address),
+    !!token
+  );
 }
 
 export function useGetCollateralFactor(token?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'collateralFactors',
-    args: token ? [token] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!token,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getCollateralFactor', token],
+    (client) => client.lending.getCollateralFactor(token as Address),
+    !!token
+  );
 }
 
 export function useGetLiquidationBonus(token?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'liquidationBonuses',
-    args: token ? [token] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!token,
-    },
-  });
+  return useHedVaultQuery(
+    ['lending', 'getLiquidationBonus', token],
+    (client) => client.lending.getLiquidationBonus(token as Address),
+    !!token
+  );
+}
+
+export function useIsSupportedToken(token?: Address) {
+  return useHedVaultQuery(
+    ['lending', 'supportedTokens', token],
+    (client) => client.lending.read.supportedTokens([token as Address]),
+    !!token
+  );
 }
 
 export function useGetNextLoanId() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'nextLoanId',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(['lending', 'nextLoanId'], (client) => client.lending.read.nextLoanId());
 }
 
 export function useGetTotalDeposits(token?: Address) {
@@ -197,350 +120,149 @@ export function useGetTotalDeposits(token?: Address) {
 }
 
 // Token Approval Hooks
+// Tokens live on the same chain as the LendingPool they are used with
 export function useTokenAllowance(tokenAddress?: Address, spenderAddress?: Address) {
   const { address: userAddress } = useAccount();
-  
-  return useReadContract({
-    address: tokenAddress,
-    abi: ERC20ABI,
-    functionName: 'allowance',
-    args: userAddress && spenderAddress ? [userAddress, spenderAddress] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!tokenAddress && !!spenderAddress && !!userAddress,
-    },
-  }) as { data: bigint | undefined; isLoading: boolean; error: Error | null };
+
+  return useHedVaultQuery(
+    ['token', tokenAddress, 'allowance', userAddress, spenderAddress],
+    (client) =>
+      client.token(tokenAddress as Address).allowance(userAddress as Address, spenderAddress as Address),
+    !!tokenAddress && !!spenderAddress && !!userAddress
+  );
 }
 
 export function useTokenApproval(tokenAddress?: Address) {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
+  const { write, ...state } = useHedVaultWrite(
+    (client, spenderAddress: Address, amount: bigint) =>
+      client.token(tokenAddress as Address).approve(spenderAddress, amount),
+    'Approve token'
+  );
 
   const approve = (spenderAddress: Address, amount: bigint) => {
     if (!tokenAddress) return;
-    
-    writeContract({
-      address: tokenAddress,
-      abi: ERC20ABI,
-      functionName: 'approve',
-      args: [spenderAddress, amount],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
+    write(spenderAddress, amount);
   };
 
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    approve,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  return { approve, ...state };
 }
 
 export function useTokenBalance(tokenAddress?: Address) {
   const { address: userAddress } = useAccount();
-  
-  return useReadContract({
-    address: tokenAddress,
-    abi: ERC20ABI,
-    functionName: 'balanceOf',
-    args: userAddress ? [userAddress] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!tokenAddress && !!userAddress,
-    },
-  }) as { data: bigint | undefined; isLoading: boolean; error: Error | null };
+
+  return useHedVaultQuery(
+    ['token', tokenAddress, 'balanceOf', userAddress],
+    (client) => client.token(tokenAddress as Address).balanceOf(userAddress as Address),
+    !!tokenAddress && !!userAddress
+  );
 }
 
 // Read Hooks - Protocol State
 export function useIsPaused() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'paused',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(['lending', 'paused'], (client) => client.lending.read.paused());
 }
 
 export function useGetPriceOracle() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'priceOracle',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(['lending', 'priceOracle'], (client) => client.lending.read.priceOracle());
 }
 
 export function useGetHedVaultCore() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'hedVaultCore',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(['lending', 'hedVaultCore'], (client) => client.lending.read.hedVaultCore());
 }
 
 export function useGetFeeRecipient() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.LendingPool,
-    abi: LendingPoolABI,
-    functionName: 'feeRecipient',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(['lending', 'feeRecipient'], (client) => client.lending.read.feeRecipient());
 }
 
 // Write Hooks - User Actions
 export function useDeposit() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const deposit = (token: Address, amount: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'deposit',
-      args: [token, amount],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    deposit,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: deposit, ...state } = useHedVaultWrite(
+    (client, token: Address, amount: bigint) => client.lending.deposit(token, amount),
+    'Deposit',
+    {
+      simulate: (client, token, amount) =>
+        client.lending.simulate.deposit([token, amount], { account: client.account }),
+    }
+  );
+  return { deposit, ...state };
 }
 
 export function useWithdraw() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const withdraw = (token: Address, amount: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'withdraw',
-      args: [token, amount],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    withdraw,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: withdraw, ...state } = useHedVaultWrite(
+    (client, token: Address, amount: bigint) => client.lending.withdraw(token, amount),
+    'Withdraw'
+  );
+  return { withdraw, ...state };
 }
 
 export function useCreateLoan() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const createLoan = (collateralToken: Address, borrowToken: Address, collateralAmount: bigint, borrowAmount: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'createLoan',
-      args: [collateralToken, borrowToken, collateralAmount, borrowAmount],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    createLoan,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: createLoan, ...state } = useHedVaultWrite(
+    (
+      client,
+      collateralToken: Address,
+      borrowToken: Address,
+      collateralAmount: bigint,
+      borrowAmount: bigint
+    ) => client.lending.createLoan(collateralToken, borrowToken, collateralAmount, borrowAmount),
+    'Create loan',
+    {
+      simulate: (client, collateralToken, borrowToken, collateralAmount, borrowAmount) =>
+        client.lending.simulate.createLoan(
+          [collateralToken, borrowToken, collateralAmount, borrowAmount],
+          { account: client.account }
+        ),
+      summarize: (loanId) => `Loan #${loanId}`,
+    }
+  );
+  return { createLoan, ...state };
 }
 
 export function useRepayLoan() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const repayLoan = (loanId: bigint, amount: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'repayLoan',
-      args: [loanId, amount],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    repayLoan,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: repayLoan, ...state } = useHedVaultWrite(
+    (client, loanId: bigint, amount: bigint) => client.lending.repayLoan(loanId, amount),
+    'Repay loan'
+  );
+  return { repayLoan, ...state };
 }
 
 export function useLiquidateLoan() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const liquidateLoan = (loanId: bigint, repayAmount: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'liquidateLoan',
-      args: [loanId, repayAmount],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    liquidateLoan,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: liquidateLoan, ...state } = useHedVaultWrite(
+    (client, loanId: bigint, repayAmount: bigint) => client.lending.liquidateLoan(loanId, repayAmount),
+    'Liquidate loan'
+  );
+  return { liquidateLoan, ...state };
 }
 
 // Write Hooks - Admin Functions
 export function useAddSupportedToken() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const addSupportedToken = (token: Address, collateralFactor: bigint, liquidationBonus: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'addSupportedToken',
-      args: [token, collateralFactor, liquidationBonus],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    addSupportedToken,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: addSupportedToken, ...state } = useHedVaultWrite(
+    (client, token: Address, collateralFactor: bigint, liquidationBonus: bigint) =>
+      client.lending.addSupportedToken(token, collateralFactor, liquidationBonus),
+    'Add lending token'
+  );
+  return { addSupportedToken, ...state };
 }
 
 export function useUpdateFeeRecipient() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const updateFeeRecipient = (newFeeRecipient: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'updateFeeRecipient',
-      args: [newFeeRecipient],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    updateFeeRecipient,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: updateFeeRecipient, ...state } = useHedVaultWrite(
+    (client, newFeeRecipient: Address) => client.lending.updateFeeRecipient(newFeeRecipient),
+    'Update lending fee recipient'
+  );
+  return { updateFeeRecipient, ...state };
 }
 
 export function usePause() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const pause = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'pause',
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-
-  return {
-    pause,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: pause, ...state } = useHedVaultWrite(
+    (client) => client.lending.pause(),
+    'Pause lending pool'
+  );
+  return { pause, ...state };
 }
 
 export function useUnpause() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const unpause = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.LendingPool,
-      abi: LendingPoolABI,
-      functionName: 'unpause',
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
-
-  return {
-    unpause,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
-}
\ No newline at end of file
+  const { write: unpause, ...state } = useHedVaultWrite(
+    (client) => client.lending.unpause(),
+    'Unpause lending pool'
+  );
+  return { unpause, ...state };
+}
@@ -1,844 +1,441 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import { MarketplaceABI } from '@/lib/abis'
 import { Address } from 'viem'
-import { CONTRACT_ADDRESSES, HEDERA_TESTNET_CHAIN_ID } from '@/lib/contracts'
-
-// Types based on the Marketplace contract
-export interface Order {
-  orderId: bigint
-  maker: Address
-  asset: Address
-  paymentToken: Address
-  amount: bigint
-  price: bigint
-  filled: bigint
-  expiry: bigint
-  orderType: number
-  status: number
-  createdAt: bigint
-  fee: bigint
-}
-
-export interface AuctionData {
-  auctionId: bigint
-  seller: Address
-  asset: Address
-  amount: bigint
-  startPrice: bigint
-  reservePrice: bigint
-  currentBid: bigint
-  highestBidder: Address
-  startTime: bigint
-  endTime: bigint
-  isActive: boolean
-  isSettled: boolean
-}
-
-export interface MarketData {
-  asset: Address
-  lastPrice: bigint
-  volume24h: bigint
-  high24h: bigint
-  low24h: bigint
-  priceChange24h: bigint
-  totalTrades: bigint
-  lastTradeTime: bigint
-}
-
-export interface TradeData {
-  tradeId: bigint
-  buyOrderId: bigint
-  sellOrderId: bigint
-  buyer: Address
-  seller: Address
-  asset: Address
-  amount: bigint
-  price: bigint
-  timestamp: bigint
-  buyerFee: bigint
-  sellerFee: bigint
-}
+import { useHedVaultQuery, useHedVaultWrite } from '@/hooks/useHedVaultClient'
+import { type RoleName, getRoleId } from '@/lib/sdk'
+
+export type {
+  Order,
+  AuctionData,
+  MarketData,
+  TradeData,
+  AssetOrders,
+  MarketplaceFees,
+  TradingLimits,
+  AuctionStatus,
+} from '@/lib/sdk'
 
 // Read Hooks - Order Information
 export function useGetOrder(orderId?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'getOrder',
-    args: orderId ? [orderId] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!orderId,
-    },
-  }) as { data: Order | undefined; isLoading: boolean; error: Error | null }
+  return useHedVaultQuery(
+    ['marketplace', 'getOrder', orderId],
+    (client) => client.marketplace.getOrder(orderId as bigint),
+    !!orderId
+  )
 }
 
 export function useGetAuction(auctionId?: bigint) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'getAuction',
-    args: auctionId ? [auctionId] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!auctionId,
-    },
-  }) as { data: AuctionData | undefined; isLoading: boolean; error: Error | null }
+  return useHedVaultQuery(
+    ['marketplace', 'getAuction', auctionId],
+    (client) => client.marketplace.getAuction(auctionId as bigint),
+    !!auctionId
+  )
+}
+
+export function useGetAuctions() {
+  return useHedVaultQuery(['marketplace', 'auctions'], (client) => client.marketplace.getAuctions())
 }
 
 export function useGetMarketData(asset?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'getMarketData',
-    args: asset ? [asset] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!asset,
-    },
-  }) as { data: MarketData | undefined; isLoading: boolean; error: Error | null }
+  return useHedVaultQuery(
+    ['marketplace', 'getMarketData', asset],
+    (client) => client.marketplace.getMarketData(asset as Address),
+    !!asset
+  )
 }
 
 export function useGetAssetOrders(asset?: Address, orderType?: number) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'getAssetOrders',
-    args: asset && orderType !== undefined ? [asset, orderType] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!asset && orderType !== undefined,
-    },
-  })
+  return useHedVaultQuery(
+    ['marketplace', 'getAssetOrders', asset, orderType],
+    (client) => client.marketplace.getAssetOrders(asset as Address, orderType as number),
+    !!asset && orderType !== undefined
+  )
+}
+
+// Every order on both sides of the asset, for the depth view and market quotes
+export function useGetAssetOrderBook(asset?: Address) {
+  return useHedVaultQuery(
+    ['marketplace', 'assetOrderBook', asset],
+    (client) => client.marketplace.getAssetOrderBook(asset as Address),
+    !!asset
+  )
+}
+
+export function useGetOrders(orderIds?: readonly bigint[]) {
+  return useHedVaultQuery(
+    ['marketplace', 'getOrders', ...(orderIds ?? [])],
+    (client) => client.marketplace.getOrders(orderIds ?? []),
+    !!orderIds && orderIds.length > 0
+  )
 }
 
 export function useGetUserOrders(user?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'getUserOrders',
-    args: user ? [user] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!user,
-    },
-  })
+  return useHedVaultQuery(
+    ['marketplace', 'getUserOrders', user],
+    (client) => client.marketplace.getUserOrders(user as Address),
+    !!user
+  )
 }
 
 export function useGetBestAskPrice(asset?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'bestAskPrice',
-    args: asset ? [asset] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!asset,
-    },
-  })
+  return useHedVaultQuery(
+    ['marketplace', 'getBestAskPrice', asset],
+    (client) => client.marketplace.getBestAskPrice(asset as Address),
+    !!asset
+  )
 }
 
 export function useGetBestBidPrice(asset?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'bestBidPrice',
-    args: asset ? [asset] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!asset,
-    },
-  })
+  return useHedVaultQuery(
+    ['marketplace', 'getBestBidPrice', asset],
+    (client) => client.marketplace.getBestBidPrice(asset as Address),
+    !!asset
+  )
 }
 
-// Read Hooks - Platform Information
+// Read Hooks - Protocol State
 export function useIsPaused() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'paused',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'paused'], (client) => client.marketplace.read.paused())
 }
 
 export function useGetNextOrderId() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'nextOrderId',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'nextOrderId'], (client) =>
+    client.marketplace.read.nextOrderId()
+  )
 }
 
 export function useGetNextAuctionId() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'nextAuctionId',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'nextAuctionId'], (client) =>
+    client.marketplace.read.nextAuctionId()
+  )
 }
 
 export function useGetNextTradeId() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'nextTradeId',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'nextTradeId'], (client) =>
+    client.marketplace.read.nextTradeId()
+  )
 }
 
 export function useGetHedVaultCore() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'hedVaultCore',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'hedVaultCore'], (client) =>
+    client.marketplace.read.hedVaultCore()
+  )
 }
 
 export function useGetPriceOracle() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'priceOracle',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'priceOracle'], (client) =>
+    client.marketplace.read.priceOracle()
+  )
 }
 
 export function useGetFeeRecipient() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'feeRecipient',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'feeRecipient'], (client) =>
+    client.marketplace.read.feeRecipient()
+  )
 }
 
+// Read Hooks - Fees and Statistics
 export function useGetMakerFee() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'makerFee',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'makerFee'], (client) => client.marketplace.read.makerFee())
 }
 
 export function useGetTakerFee() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'takerFee',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'takerFee'], (client) => client.marketplace.read.takerFee())
 }
 
 export function useGetAuctionFee() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'auctionFee',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'auctionFee'], (client) =>
+    client.marketplace.read.auctionFee()
+  )
 }
 
 export function useGetProtocolFee() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'protocolFee',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'protocolFee'], (client) =>
+    client.marketplace.read.protocolFee()
+  )
 }
 
 export function useGetTotalFeesCollected() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'totalFeesCollected',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'totalFeesCollected'], (client) =>
+    client.marketplace.read.totalFeesCollected()
+  )
 }
 
 export function useGetTotalTradesExecuted() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'totalTradesExecuted',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'totalTradesExecuted'], (client) =>
+    client.marketplace.read.totalTradesExecuted()
+  )
 }
 
 export function useGetTotalVolumeTraded() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'totalVolumeTraded',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+  return useHedVaultQuery(['marketplace', 'totalVolumeTraded'], (client) =>
+    client.marketplace.read.totalVolumeTraded()
+  )
+}
+
+export function useGetMarketplaceFees() {
+  return useHedVaultQuery(['marketplace', 'fees'], (client) => client.marketplace.getFees())
+}
+
+export function useGetTradingLimits() {
+  return useHedVaultQuery(['marketplace', 'tradingLimits'], (client) =>
+    client.marketplace.getTradingLimits()
+  )
 }
 
+// Read Hooks - Asset Configuration
 export function useIsAssetTradingEnabled(asset?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'assetTradingEnabled',
-    args: asset ? [asset] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!asset,
-    },
-  })
+  return useHedVaultQuery(
+    ['marketplace', 'isAssetTradingEnabled', asset],
+    (client) => client.marketplace.isAssetTradingEnabled(asset as Address),
+    !!asset
+  )
 }
 
 export function useIsSupportedAsset(asset?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'supportedAssets',
-    args: asset ? [asset] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!asset,
-    },
-  })
+  return useHedVaultQuery(
+    ['marketplace', 'isSupportedAsset', asset],
+    (client) => client.marketplace.isSupportedAsset(asset as Address),
+    !!asset
+  )
 }
 
 export function useIsSupportedPaymentToken(token?: Address) {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'supportedPaymentTokens',
-    args: token ? [token] : undefined,
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: !!token,
-    },
-  })
+  return useHedVaultQuery(
+    ['marketplace', 'isSupportedPaymentToken', token],
+    (client) => client.marketplace.isSupportedPaymentToken(token as Address),
+    !!token
+  )
 }
 
-export function useIsEmergencyStop() {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'emergencyStop',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+export function useGetTradableAssets(assets: readonly Address[]) {
+  return useHedVaultQuery(
+    ['marketplace', 'tradableAssets', ...assets],
+    (client) => client.marketplace.getTradableAssets(assets),
+    assets.length > 0
+  )
 }
 
-// Read Hooks - Constants
-export function useMarketplaceConstants() {
-  const defaultAdminRole = useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'DEFAULT_ADMIN_ROLE',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+export function useGetSupportedPaymentTokens(tokens: readonly Address[]) {
+  return useHedVaultQuery(
+    ['marketplace', 'supportedPaymentTokens', ...tokens],
+    (client) => client.marketplace.getSupportedPaymentTokens(tokens),
+    tokens.length > 0
+  )
+}
 
-  const emergencyRole = useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'EMERGENCY_ROLE',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+export function useIsEmergencyStop() {
+  return useHedVaultQuery(['marketplace', 'emergencyStop'], (client) =>
+    client.marketplace.read.emergencyStop()
+  )
+}
 
-  const feeManagerRole = useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'FEE_MANAGER_ROLE',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  })
+export function useHasRole(role?: RoleName, account?: Address) {
+  return useHedVaultQuery(
+    ['marketplace', 'hasRole', role, account],
+    (client) => client.marketplace.read.hasRole([getRoleId(role as RoleName), account as Address]),
+    !!role && !!account
+  )
+}
 
-  const marketplaceAdminRole = useReadContract({
-    address: CONTRACT_ADDRESSES.Marketplace,
-    abi: MarketplaceABI,
-    functionName: 'MARKETPLACE_ADMIN_ROLE',
-    chainId: HEDERA_TESTNET_CHAIN_ID,
+// Read Hooks - Constants
+export function useMarketplaceConstants() {
+  const { data } = useHedVaultQuery(['marketplace', 'roles'], async (client) => {
+    const { read } = client.marketplace
+    const [DEFAULT_ADMIN_ROLE, EMERGENCY_ROLE, FEE_MANAGER_ROLE, MARKETPLACE_ADMIN_ROLE] =
+      await Promise.all([
+        read.DEFAULT_ADMIN_ROLE(),
+        read.EMERGENCY_ROLE(),
+        read.FEE_MANAGER_ROLE(),
+        read.MARKETPLACE_ADMIN_ROLE(),
+      ])
+    return { DEFAULT_ADMIN_ROLE, EMERGENCY_ROLE, FEE_MANAGER_ROLE, MARKETPLACE_ADMIN_ROLE }
   })
 
   return {
-    DEFAULT_ADMIN_ROLE: defaultAdminRole.data,
-    EMERGENCY_ROLE: emergencyRole.data,
-    FEE_MANAGER_ROLE: feeManagerRole.data,
-    MARKETPLACE_ADMIN_ROLE: marketplaceAdminRole.data,
+    DEFAULT_ADMIN_ROLE: data?.DEFAULT_ADMIN_ROLE,
+    EMERGENCY_ROLE: data?.EMERGENCY_ROLE,
+    FEE_MANAGER_ROLE: data?.FEE_MANAGER_ROLE,
+    MARKETPLACE_ADMIN_ROLE: data?.MARKETPLACE_ADMIN_ROLE,
   }
 }
 
 // Write Hooks - Order Management
 export function useCreateOrder() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const createOrder = (
-    asset: Address,
-    paymentToken: Address,
-    amount: bigint,
-    price: bigint,
-    orderType: number,
-    expiry: bigint
-  ) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'createOrder',
-      args: [asset, paymentToken, amount, price, orderType, expiry],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    createOrder,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: createOrder, ...state } = useHedVaultWrite(
+    (
+      client,
+      asset: Address,
+      paymentToken: Address,
+      amount: bigint,
+      price: bigint,
+      orderType: number,
+      expiry: bigint
+    ) => client.marketplace.createOrder(asset, paymentToken, amount, price, orderType, expiry),
+    'Create order',
+    {
+      simulate: (client, asset, paymentToken, amount, price, orderType, expiry) =>
+        client.marketplace.simulate.createOrder(
+          [asset, paymentToken, amount, price, orderType, expiry],
+          { account: client.account }
+        ),
+      summarize: (orderId) => `Order #${orderId}`,
+    }
+  )
+  return { createOrder, ...state }
 }
 
 export function useCancelOrder() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const cancelOrder = (orderId: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'cancelOrder',
-      args: [orderId],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    cancelOrder,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: cancelOrder, ...state } = useHedVaultWrite(
+    (client, orderId: bigint) => client.marketplace.cancelOrder(orderId),
+    'Cancel order'
+  )
+  return { cancelOrder, ...state }
 }
 
 export function useMarketOrder() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const marketOrder = (
-    asset: Address,
-    paymentToken: Address,
-    amount: bigint,
-    orderType: number,
-    maxSlippage: bigint
-  ) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'marketOrder',
-      args: [asset, paymentToken, amount, orderType, maxSlippage],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    marketOrder,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
-}
-
-// Write Hooks - Auction Management
+  const { write: marketOrder, ...state } = useHedVaultWrite(
+    (
+      client,
+      asset: Address,
+      paymentToken: Address,
+      amount: bigint,
+      orderType: number,
+      maxSlippage: bigint
+    ) => client.marketplace.marketOrder(asset, paymentToken, amount, orderType, maxSlippage),
+    'Market order'
+  )
+  return { marketOrder, ...state }
+}
+
+// Write Hooks - Auctions
 export function useCreateAuction() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const createAuction = (
-    asset: Address,
-    amount: bigint,
-    startPrice: bigint,
-    reservePrice: bigint,
-    duration: bigint
-  ) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'createAuction',
-      args: [asset, amount, startPrice, reservePrice, duration],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    createAuction,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: createAuction, ...state } = useHedVaultWrite(
+    (
+      client,
+      asset: Address,
+      amount: bigint,
+      startPrice: bigint,
+      reservePrice: bigint,
+      duration: bigint
+    ) => client.marketplace.createAuction(asset, amount, startPrice, reservePrice, duration),
+    'Create auction',
+    {
+      simulate: (client, asset, amount, startPrice, reservePrice, duration) =>
+        client.marketplace.simulate.createAuction(
+          [asset, amount, startPrice, reservePrice, duration],
+          { account: client.account }
+        ),
+      summarize: (auctionId) => `Auction #${auctionId}`,
+    }
+  )
+  return { createAuction, ...state }
 }
 
 export function usePlaceBid() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const placeBid = (auctionId: bigint, bidAmount: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'placeBid',
-      args: [auctionId, bidAmount],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    placeBid,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: placeBid, ...state } = useHedVaultWrite(
+    (client, auctionId: bigint, bidAmount: bigint) =>
+      client.marketplace.placeBid(auctionId, bidAmount),
+    'Place bid'
+  )
+  return { placeBid, ...state }
 }
 
 export function useSettleAuction() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const settleAuction = (auctionId: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'settleAuction',
-      args: [auctionId],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    settleAuction,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: settleAuction, ...state } = useHedVaultWrite(
+    (client, auctionId: bigint) => client.marketplace.settleAuction(auctionId),
+    'Settle auction'
+  )
+  return { settleAuction, ...state }
 }
 
 // Write Hooks - Admin Functions
 export function useAddSupportedAsset() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const addSupportedAsset = (asset: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'addSupportedAsset',
-      args: [asset],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    addSupportedAsset,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: addSupportedAsset, ...state } = useHedVaultWrite(
+    (client, asset: Address) => client.marketplace.addSupportedAsset(asset),
+    'Add marketplace asset'
+  )
+  return { addSupportedAsset, ...state }
 }
 
 export function useAddSupportedPaymentToken() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const addSupportedPaymentToken = (token: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'addSupportedPaymentToken',
-      args: [token],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    addSupportedPaymentToken,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: addSupportedPaymentToken, ...state } = useHedVaultWrite(
+    (client, token: Address) => client.marketplace.addSupportedPaymentToken(token),
+    'Add payment token'
+  )
+  return { addSupportedPaymentToken, ...state }
 }
 
 export function useSetAssetTradingEnabled() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const setAssetTradingEnabled = (asset: Address, enabled: boolean) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'setAssetTradingEnabled',
-      args: [asset, enabled],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    setAssetTradingEnabled,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: setAssetTradingEnabled, ...state } = useHedVaultWrite(
+    (client, asset: Address, enabled: boolean) =>
+      client.marketplace.setAssetTradingEnabled(asset, enabled),
+    'Set asset trading'
+  )
+  return { setAssetTradingEnabled, ...state }
 }
 
 export function useUpdateFees() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const updateFees = (makerFee: bigint, takerFee: bigint, auctionFee: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'updateFees',
-      args: [makerFee, takerFee, auctionFee],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    updateFees,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: updateFees, ...state } = useHedVaultWrite(
+    (client, makerFee: bigint, takerFee: bigint, auctionFee: bigint) =>
+      client.marketplace.updateFees(makerFee, takerFee, auctionFee),
+    'Update marketplace fees'
+  )
+  return { updateFees, ...state }
 }
 
 export function useUpdateTradingLimits() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const updateTradingLimits = (maxActiveOrdersPerUser: bigint, maxSlippageAllowed: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'updateTradingLimits',
-      args: [maxActiveOrdersPerUser, maxSlippageAllowed],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    updateTradingLimits,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: updateTradingLimits, ...state } = useHedVaultWrite(
+    (client, maxActiveOrdersPerUser: bigint, maxSlippageAllowed: bigint) =>
+      client.marketplace.updateTradingLimits(maxActiveOrdersPerUser, maxSlippageAllowed),
+    'Update trading limits'
+  )
+  return { updateTradingLimits, ...state }
 }
 
-// Write Hooks - Emergency Functions
 export function useActivateEmergencyStop() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const activateEmergencyStop = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'activateEmergencyStop',
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    activateEmergencyStop,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: activateEmergencyStop, ...state } = useHedVaultWrite(
+    (client) => client.marketplace.activateEmergencyStop(),
+    'Activate emergency stop'
+  )
+  return { activateEmergencyStop, ...state }
 }
 
 export function useDeactivateEmergencyStop() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const deactivateEmergencyStop = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'deactivateEmergencyStop',
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    deactivateEmergencyStop,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: deactivateEmergencyStop, ...state } = useHedVaultWrite(
+    (client) => client.marketplace.deactivateEmergencyStop(),
+    'Deactivate emergency stop'
+  )
+  return { deactivateEmergencyStop, ...state }
 }
 
 export function usePause() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const pause = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'pause',
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    pause,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: pause, ...state } = useHedVaultWrite(
+    (client) => client.marketplace.pause(),
+    'Pause marketplace'
+  )
+  return { pause, ...state }
 }
 
 export function useUnpause() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const unpause = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'unpause',
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    unpause,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: unpause, ...state } = useHedVaultWrite(
+    (client) => client.marketplace.unpause(),
+    'Unpause marketplace'
+  )
+  return { unpause, ...state }
 }
 
 // Write Hooks - Role Management
 export function useGrantRole() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const grantRole = (role: `0x${string}`, account: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'grantRole',
-      args: [role, account],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    grantRole,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
+  const { write: grantRole, ...state } = useHedVaultWrite(
+    (client, role: `0x${string}`, account: Address) => client.marketplace.grantRole(role, account),
+    'Grant role'
+  )
+  return { grantRole, ...state }
 }
 
 export function useRevokeRole() {
-  const { writeContract, data: hash, error, isPending } = useWriteContract()
-
-  const revokeRole = (role: `0x${string}`, account: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.Marketplace,
-      abi: MarketplaceABI,
-      functionName: 'revokeRole',
-      args: [role, account],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    })
-  }
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  })
-
-  return {
-    revokeRole,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  }
-}
\ No newline at end of file
+  const { write: revokeRole, ...state } = useHedVaultWrite(
+    (client, role: `0x${string}`, account: Address) => client.marketplace.revokeRole(role, account),
+    'Revoke role'
+  )
+  return { revokeRole, ...state }
+}
@@ -0,0 +1,122 @@
+/**
+ * PortfolioManager Contract Hooks
+ * React bindings for the portfolio module of the HedVault client
+ */
+
+import { Address } from 'viem';
+import { useHedVaultQuery, useHedVaultWrite } from '../useHedVaultClient';
+
+export type { PortfolioBreakdown, PortfolioPerformance, PortfolioStats } from '@/lib/sdk';
+
+// Read Hooks - Portfolios
+export function useGetUserPortfolios(user?: Address) {
+  return useHedVaultQuery(
+    ['portfolio', 'getUserPortfolios', user],
+    (client) => client.portfolio.getUserPortfolios(user as Address),
+    !!user
+  );
+}
+
+export function useGetPortfolio(portfolioId?: bigint) {
+  return useHedVaultQuery(
+    ['portfolio', 'getPortfolio', portfolioId],
+    (client) => client.portfolio.getPortfolio(portfolioId as bigint),
+    !!portfolioId
+  );
+}
+
+export function useGetPortfolioValue(portfolioId?: bigint) {
+  return useHedVaultQuery(
+    ['portfolio', 'getPortfolioValue', portfolioId],
+    (client) => client.portfolio.getPortfolioValue(portfolioId as bigint),
+    !!portfolioId
+  );
+}
+
+export function useGetPortfolioPerformance(portfolioId?: bigint) {
+  return useHedVaultQuery(
+    ['portfolio', 'getPortfolioPerformance', portfolioId],
+    (client) => client.portfolio.getPortfolioPerformance(portfolioId as bigint),
+    !!portfolioId
+  );
+}
+
+export function useGetPortfolioBreakdown(portfolioId?: bigint) {
+  return useHedVaultQuery(
+    ['portfolio', 'getPortfolioBreakdown', portfolioId],
+    (client) => client.portfolio.getPortfolioBreakdown(portfolioId as bigint),
+    !!portfolioId
+  );
+}
+
+export function useGetPortfolioStats(portfolioId?: bigint) {
+  return useHedVaultQuery(
+    ['portfolio', 'getPortfolioStats', portfolioId],
+    (client) => client.portfolio.getPortfolioStats(portfolioId as bigint),
+    !!portfolioId
+  );
+}
+
+// Read Hooks - Protocol State
+export function useIsPortfolioAssetSupported(asset?: Address) {
+  return useHedVaultQuery(
+    ['portfolio', 'supportedAssets', asset],
+    (client) => client.portfolio.read.supportedAssets([asset as Address]),
+    !!asset
+  );
+}
+
+// Write Hooks - User Actions
+export function useCreatePortfolio() {
+  const { write: createPortfolio, ...state } = useHedVaultWrite(
+    (client, name: string, riskLevel: number, targetRebalanceThreshold: bigint) =>
+      client.portfolio.createPortfolio(name, riskLevel, targetRebalanceThreshold),
+    'Create portfolio',
+    {
+      simulate: (client, name, riskLevel, targetRebalanceThreshold) =>
+        client.portfolio.simulate.createPortfolio(
+          [name, riskLevel, targetRebalanceThreshold],
+          { account: client.account }
+        ),
+      summarize: (portfolioId) => `Portfolio #${portfolioId}`,
+    }
+  );
+  return { createPortfolio, ...state };
+}
+
+// The asset is pulled with transferFrom, so approve the PortfolioManager first
+export function useAddPortfolioAsset() {
+  const { write: addAsset, ...state } = useHedVaultWrite(
+    (client, portfolioId: bigint, asset: Address, amount: bigint, targetAllocation: bigint) =>
+      client.portfolio.addAsset(portfolioId, asset, amount, targetAllocation),
+    'Add portfolio asset'
+  );
+  return { addAsset, ...state };
+}
+
+// An amount of 0 withdraws the whole holding and drops the asset
+export function useRemovePortfolioAsset() {
+  const { write: removeAsset, ...state } = useHedVaultWrite(
+    (client, portfolioId: bigint, asset: Address, amount: bigint) =>
+      client.portfolio.removeAsset(portfolioId, asset, amount),
+    'Remove portfolio asset'
+  );
+  return { removeAsset, ...state };
+}
+
+export function useUpdateAllocations() {
+  const { write: updateAllocations, ...state } = useHedVaultWrite(
+    (client, portfolioId: bigint, assets: Address[], allocations: bigint[]) =>
+      client.portfolio.updateAllocations(portfolioId, assets, allocations),
+    'Update allocations'
+  );
+  return { updateAllocations, ...state };
+}
+
+export function useRebalancePortfolio() {
+  const { write: rebalancePortfolio, ...state } = useHedVaultWrite(
+    (client, portfolioId: bigint) => client.portfolio.rebalancePortfolio(portfolioId),
+    'Rebalance portfolio'
+  );
+  return { rebalancePortfolio, ...state };
+}
@@ -0,0 +1,59 @@
+/**
+ * PriceOracle Contract Hooks
+ * React bindings for the oracle module of the HedVault client
+ */
+
+import { Address } from 'viem';
+import { useHedVaultQuery } from '../useHedVaultClient';
+
+export type { AssetPrice, PriceData, PriceFeedConfig } from '@/lib/sdk';
+
+// Read Hooks - Prices
+// Fails while the price is stale; use useGetPriceUnsafe to show it anyway
+export function useGetPrice(asset?: Address) {
+  return useHedVaultQuery(
+    ['oracle', 'getPrice', asset],
+    (client) => client.oracle.getPrice(asset as Address),
+    !!asset
+  );
+}
+
+export function useGetPriceUnsafe(asset?: Address) {
+  return useHedVaultQuery(
+    ['oracle', 'getPriceUnsafe', asset],
+    (client) => client.oracle.getPriceUnsafe(asset as Address),
+    !!asset
+  );
+}
+
+// Fails as a whole if any asset is stale or unsupported
+export function useGetPrices(assets: readonly Address[]) {
+  return useHedVaultQuery(
+    ['oracle', 'getPrices', ...assets],
+    (client) => client.oracle.getPrices([...assets]),
+    assets.length > 0
+  );
+}
+
+export function useIsPriceFresh(asset?: Address) {
+  return useHedVaultQuery(
+    ['oracle', 'isPriceFresh', asset],
+    (client) => client.oracle.isPriceFresh(asset as Address),
+    !!asset
+  );
+}
+
+// Read Hooks - Feeds
+export function useGetSupportedAssets() {
+  return useHedVaultQuery(['oracle', 'getSupportedAssets'], (client) =>
+    client.oracle.getSupportedAssets()
+  );
+}
+
+export function useGetPriceFeedConfig(asset?: Address) {
+  return useHedVaultQuery(
+    ['oracle', 'priceFeedConfigs', asset],
+    (client) => client.oracle.getPriceFeedConfig(asset as Address),
+    !!asset
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * RWAOffchainOracle Contract Hooks
+ * React bindings for the rwaOracle module of the HedVault client
+ */
+
+import { Address, Hex } from 'viem';
+import { useHedVaultQuery, useHedVaultWrite } from '../useHedVaultClient';
+
+export type { OffchainDataRequest, RWAAssetData, RWAMarketData } from '@/lib/sdk';
+
+// Read Hooks - Appraisals
+// Fails once the appraisal is older than an hour; useGetRWAAsset keeps it
+export function useGetRWAPrice(asset?: Address) {
+  return useHedVaultQuery(
+    ['rwaOracle', 'getRWAPrice', asset],
+    (client) => client.rwaOracle.getRWAPrice(asset as Address),
+    !!asset
+  );
+}
+
+export function useGetRWAAsset(asset?: Address) {
+  return useHedVaultQuery(
+    ['rwaOracle', 'rwaAssets', asset],
+    (client) => client.rwaOracle.getAsset(asset as Address),
+    !!asset
+  );
+}
+
+export function useGetRWAMarketData(asset?: Address) {
+  return useHedVaultQuery(
+    ['rwaOracle', 'getMarketData', asset],
+    (client) => client.rwaOracle.getMarketData(asset as Address),
+    !!asset
+  );
+}
+
+// Read Hooks - Assets
+export function useGetAllRWAAssets() {
+  return useHedVaultQuery(['rwaOracle', 'getAllAssets'], (client) => client.rwaOracle.getAllAssets());
+}
+
+export function useGetRWAAssetsByType(assetType?: string) {
+  return useHedVaultQuery(
+    ['rwaOracle', 'getAssetsByType', assetType],
+    (client) => client.rwaOracle.getAssetsByType(assetType as string),
+    !!assetType
+  );
+}
+
+// Read Hooks - Offchain Requests
+export function useGetOffchainRequestFee() {
+  return useHedVaultQuery(['rwaOracle', 'OFFCHAIN_REQUEST_FEE'], (client) =>
+    client.rwaOracle.getRequestFee()
+  );
+}
+
+export function useGetOffchainDataRequest(requestId?: Hex) {
+  return useHedVaultQuery(
+    ['rwaOracle', 'dataRequests', requestId],
+    (client) => client.rwaOracle.getDataRequest(requestId as Hex),
+    !!requestId
+  );
+}
+
+// Write Hooks - User Actions
+// Pays OFFCHAIN_REQUEST_FEE in the native token; the request id is in the
+// receipt (getOffchainRequestId)
+export function useRequestOffchainData() {
+  const { write: requestOffchainData, ...state } = useHedVaultWrite(
+    (client, asset: Address, parameters: string[], fee?: bigint) =>
+      client.rwaOracle.requestOffchainData(asset, parameters, fee),
+    'Request offchain appraisal'
+  );
+  return { requestOffchainData, ...state };
+}
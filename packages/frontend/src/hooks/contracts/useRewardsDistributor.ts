@@ -0,0 +1,216 @@
+/**
+ * RewardsDistributor Contract Hooks
+ * React bindings for the rewards module of the HedVault client
+ */
+
+import { Address } from 'viem';
+import { useHedVaultQuery, useHedVaultWrite } from '../useHedVaultClient';
+
+export type {
+  PositionBreakdown,
+  RewardPool,
+  RewardsOverview,
+  VestingSchedule,
+  VestingScheduleInfo,
+} from '@/lib/sdk';
+
+// Read Hooks - Pools
+export function useGetPoolNames() {
+  return useHedVaultQuery(['rewards', 'getPoolNames'], (client) => client.rewards.getPoolNames());
+}
+
+export function useGetRewardPool(poolName?: string) {
+  return useHedVaultQuery(
+    ['rewards', 'rewardPools', poolName],
+    (client) => client.rewards.getRewardPool(poolName as string),
+    !!poolName
+  );
+}
+
+export function useGetPoolTotalStaked(poolName?: string) {
+  return useHedVaultQuery(
+    ['rewards', 'poolTotalStaked', poolName],
+    (client) => client.rewards.getPoolTotalStaked(poolName as string),
+    !!poolName
+  );
+}
+
+// Every pool's parameters and total stake in one query, for comparing APYs
+export function useGetRewardPools(poolNames: readonly string[]) {
+  return useHedVaultQuery(
+    ['rewards', 'poolSummaries', ...poolNames],
+    (client) =>
+      Promise.all(
+        poolNames.map(async (poolName) => {
+          const [pool, totalStaked] = await Promise.all([
+            client.rewards.getRewardPool(poolName),
+            client.rewards.getPoolTotalStaked(poolName),
+          ]);
+          return { poolName, pool, totalStaked };
+        })
+      ),
+    poolNames.length > 0
+  );
+}
+
+// Read Hooks - User Positions
+export function useGetUserStakeInfo(user?: Address, poolName?: string) {
+  return useHedVaultQuery(
+    ['rewards', 'getUserStakeInfo', user, poolName],
+    (client) => client.rewards.getUserStakeInfo(user as Address, poolName as string),
+    !!user && !!poolName
+  );
+}
+
+export function useEarned(account?: Address, poolName?: string) {
+  return useHedVaultQuery(
+    ['rewards', 'earned', account, poolName],
+    (client) => client.rewards.earned(account as Address, poolName as string),
+    !!account && !!poolName
+  );
+}
+
+export function useGetUserRewardsOverview(user?: Address) {
+  return useHedVaultQuery(
+    ['rewards', 'getUserRewardsOverview', user],
+    (client) => client.rewards.getUserRewardsOverview(user as Address),
+    !!user
+  );
+}
+
+export function useGetUserPositionBreakdown(user?: Address) {
+  return useHedVaultQuery(
+    ['rewards', 'getUserPositionBreakdown', user],
+    (client) => client.rewards.getUserPositionBreakdown(user as Address),
+    !!user
+  );
+}
+
+// Read Hooks - Vesting
+export function useGetVestingScheduleCount(beneficiary?: Address) {
+  return useHedVaultQuery(
+    ['rewards', 'getVestingScheduleCount', beneficiary],
+    (client) => client.rewards.getVestingScheduleCount(beneficiary as Address),
+    !!beneficiary
+  );
+}
+
+export function useGetVestingSchedule(beneficiary?: Address, scheduleId?: bigint) {
+  return useHedVaultQuery(
+    ['rewards', 'getVestingSchedule', beneficiary, scheduleId],
+    (client) => client.rewards.getVestingSchedule(beneficiary as Address, scheduleId as bigint),
+    !!beneficiary && scheduleId !== undefined
+  );
+}
+
+export function useGetReleasableAmount(beneficiary?: Address, scheduleId?: bigint) {
+  return useHedVaultQuery(
+    ['rewards', 'getReleasableAmount', beneficiary, scheduleId],
+    (client) => client.rewards.getReleasableAmount(beneficiary as Address, scheduleId as bigint),
+    !!beneficiary && scheduleId !== undefined
+  );
+}
+
+export function useGetVestingSchedules(beneficiary?: Address) {
+  return useHedVaultQuery(
+    ['rewards', 'getVestingSchedules', beneficiary],
+    (client) => client.rewards.getVestingSchedules(beneficiary as Address),
+    !!beneficiary
+  );
+}
+
+// Read Hooks - Protocol State
+export function useGetRewardToken() {
+  return useHedVaultQuery(['rewards', 'rewardToken'], (client) => client.rewards.getRewardToken());
+}
+
+export function useIsRewardsAdmin(account?: Address) {
+  return useHedVaultQuery(
+    ['rewards', 'isRewardsAdmin', account],
+    (client) => client.rewards.isRewardsAdmin(account as Address),
+    !!account
+  );
+}
+
+export function useGetMinStakeAmount() {
+  return useHedVaultQuery(['rewards', 'MIN_STAKE_AMOUNT'], (client) =>
+    client.rewards.read.MIN_STAKE_AMOUNT()
+  );
+}
+
+export function useGetStakingFee() {
+  return useHedVaultQuery(['rewards', 'stakingFee'], (client) => client.rewards.read.stakingFee());
+}
+
+export function useGetUnstakingFee() {
+  return useHedVaultQuery(['rewards', 'unstakingFee'], (client) => client.rewards.read.unstakingFee());
+}
+
+// Write Hooks - User Actions
+// Stakes the reward token itself; approve the RewardsDistributor first
+export function useStake() {
+  const { write: stake, ...state } = useHedVaultWrite(
+    (client, poolName: string, amount: bigint, lockPeriod: bigint) =>
+      client.rewards.stake(poolName, amount, lockPeriod),
+    (poolName) => `Stake in ${poolName}`
+  );
+  return { stake, ...state };
+}
+
+export function useUnstake() {
+  const { write: unstake, ...state } = useHedVaultWrite(
+    (client, poolName: string, amount: bigint) => client.rewards.unstake(poolName, amount),
+    (poolName) => `Unstake from ${poolName}`
+  );
+  return { unstake, ...state };
+}
+
+export function useClaimRewards() {
+  const { write: claimRewards, ...state } = useHedVaultWrite(
+    (client, poolName: string) => client.rewards.claimRewards(poolName),
+    (poolName) => `Claim ${poolName} rewards`
+  );
+  return { claimRewards, ...state };
+}
+
+export function useAutoClaimRewards() {
+  const { write: autoClaimRewards, ...state } = useHedVaultWrite(
+    (client, user: Address) => client.rewards.autoClaimRewards(user),
+    'Claim activity rewards'
+  );
+  return { autoClaimRewards, ...state };
+}
+
+export function useReleaseVestedTokens() {
+  const { write: releaseVestedTokens, ...state } = useHedVaultWrite(
+    (client, scheduleId: bigint) => client.rewards.releaseVestedTokens(scheduleId),
+    'Release vested tokens'
+  );
+  return { releaseVestedTokens, ...state };
+}
+
+// Write Hooks - Admin Functions
+// Funds the schedule from the admin's reward tokens; approve the RewardsDistributor first
+export function useCreateVestingSchedule() {
+  const { write: createVestingSchedule, ...state } = useHedVaultWrite(
+    (
+      client,
+      beneficiary: Address,
+      amount: bigint,
+      duration: bigint,
+      cliffDuration: bigint,
+      revocable: boolean
+    ) => client.rewards.createVestingSchedule(beneficiary, amount, duration, cliffDuration, revocable),
+    'Create vesting schedule'
+  );
+  return { createVestingSchedule, ...state };
+}
+
+export function useRevokeVestingSchedule() {
+  const { write: revokeVestingSchedule, ...state } = useHedVaultWrite(
+    (client, beneficiary: Address, scheduleId: bigint) =>
+      client.rewards.revokeVestingSchedule(beneficiary, scheduleId),
+    'Revoke vesting schedule'
+  );
+  return { revokeVestingSchedule, ...state };
+}
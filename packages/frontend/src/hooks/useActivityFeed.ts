@@ -0,0 +1,105 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useReadContract } from "wagmi";
+import type { Address } from "viem";
+import { RewardsDistributorABI } from "@/lib/abis";
+import { getContractAddress } from "@/lib/contracts";
+import {
+  ACTIVITY_CONTRACTS,
+  ACTIVITY_EVENT_NAMES,
+  type ActivityType,
+  buildActivityContext,
+  dedupeActivityEvents,
+  toActivityItem,
+} from "@/lib/activity";
+import { useEventIndexer } from "./useIndexedEvents";
+
+export interface ActivityFeedOptions {
+  account?: Address;
+  types?: ActivityType[];
+  asset?: Address;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Paginated activity for one account, built from the local event index.
+ * Filtering happens after decoding since asset and type are derived from
+ * event args rather than stored columns.
+ */
+export function useActivityFeed({
+  account,
+  types,
+  asset,
+  page = 0,
+  pageSize = 10,
+}: ActivityFeedOptions) {
+  const { chainId, store, status } = useEventIndexer();
+  const rewardsDistributor = getContractAddress("RewardsDistributor", chainId);
+
+  const { data: rewardToken } = useReadContract({
+    address: rewardsDistributor,
+    abi: RewardsDistributorABI,
+    functionName: "rewardToken",
+    chainId,
+    query: { enabled: !!rewardsDistributor, staleTime: Infinity },
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["activity-feed", chainId, status.version, account?.toLowerCase()],
+    queryFn: async () => {
+      const [events, creations] = await Promise.all([
+        store.queryEvents({
+          chainId,
+          account,
+          contracts: ACTIVITY_CONTRACTS,
+          eventNames: ACTIVITY_EVENT_NAMES,
+        }),
+        // Repayments and liquidations only carry an id, so resolve their
+        // tokens from the loans that created them, whoever created them
+        store.queryEvents({
+          chainId,
+          contracts: ["LendingPool"],
+          eventNames: ["LoanCreated"],
+        }),
+      ]);
+      return { events, creations };
+    },
+    enabled: !!account,
+    placeholderData: (previous) => previous,
+  });
+
+  const items = useMemo(() => {
+    if (!data) return [];
+    const context = buildActivityContext(chainId, data.creations, rewardToken, account);
+    return dedupeActivityEvents(data.events).flatMap((event) => {
+      const item = toActivityItem(event, context);
+      return item ? [item] : [];
+    });
+  }, [chainId, data, rewardToken, account]);
+
+  // Every asset the account has touched, for the asset filter
+  const assets = useMemo(
+    () => [...new Set(items.flatMap((item) => item.assets.map((a) => a.toLowerCase() as Address)))],
+    [items]
+  );
+
+  const filtered = useMemo(
+    () =>
+      items.filter(
+        (item) =>
+          (!types?.length || types.includes(item.type)) &&
+          (!asset || item.assets.some((a) => a.toLowerCase() === asset.toLowerCase()))
+      ),
+    [items, types, asset]
+  );
+
+  return {
+    items: filtered.slice(page * pageSize, (page + 1) * pageSize),
+    total: filtered.length,
+    pageCount: Math.max(1, Math.ceil(filtered.length / pageSize)),
+    assets,
+    isLoading: isLoading || (status.isSyncing && status.lastSyncedAt === null),
+    error: status.error,
+  };
+}
@@ -0,0 +1,19 @@
+import { useAccount } from "wagmi";
+import type { Address } from "viem";
+import { getAdminAccess } from "@/lib/admin";
+import { useHedVaultQuery } from "./useHedVaultClient";
+
+/**
+ * Admin controls the connected account may use, checked against each
+ * contract's roles. `hasAny` stays false until the checks come back.
+ */
+export function useAdminAccess() {
+  const { address } = useAccount();
+  const query = useHedVaultQuery(
+    ["admin", "access", address?.toLowerCase()],
+    (client) => getAdminAccess(client, address as Address),
+    !!address
+  );
+  const access = query.data;
+  return { ...query, access, hasAny: !!access && Object.values(access).some(Boolean) };
+}
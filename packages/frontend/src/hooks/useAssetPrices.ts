@@ -0,0 +1,57 @@
+import { useEffect, useMemo, useState } from "react";
+import { Address } from "viem";
+import { type AssetPrice, assetValueUsd, isPriceStale } from "@/lib/sdk";
+import { useHedVaultQuery } from "@/hooks/useHedVaultClient";
+
+export type { AssetPrice };
+
+const NO_PRICES: Record<string, AssetPrice> = {};
+
+// How often prices are re-checked against the clock for staleness
+const STALENESS_TICK_MS = 30_000;
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+/**
+ * Oracle prices for a set of assets in one batch, keyed by lowercased
+ * address. Stale prices are kept so they can be shown marked as stale;
+ * `isStale` follows the clock, so a price goes stale on screen without a
+ * refetch. Assets the oracle doesn't support have no price.
+ */
+export function useAssetPrices(assets: readonly Address[]) {
+  const unique = useMemo(
+    () => [...new Set(assets.map((asset) => asset.toLowerCase() as Address))].sort(),
+    [assets]
+  );
+  const [now, setNow] = useState(nowSeconds);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(nowSeconds()), STALENESS_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data, isLoading } = useHedVaultQuery(
+    ["oracle", "assetPrices", ...unique],
+    (client) => client.oracle.getAssetPrices(unique),
+    unique.length > 0
+  );
+  const prices = data ?? NO_PRICES;
+
+  const priceOf = (asset: Address): AssetPrice | undefined => prices[asset.toLowerCase()];
+
+  return {
+    prices,
+    isLoading,
+    now,
+    priceOf,
+    isStale: (asset: Address) => {
+      const price = priceOf(asset);
+      return !!price && isPriceStale(price, now);
+    },
+    // USD value with 18 decimals, or undefined without a price
+    valueUsd: (asset: Address, amount: bigint, tokenDecimals: number) => {
+      const price = priceOf(asset);
+      return price ? assetValueUsd(amount, tokenDecimals, price) : undefined;
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
+import { type ContractName, getContractConfig } from "@/lib/contracts";
+
+/**
+ * Hook to resolve a HedVault contract against the connected chain
+ */
+export function useContractConfig(contractName: ContractName) {
+  const chainId = useChainId();
+
+  return useMemo(
+    () => getContractConfig(contractName, chainId),
+    [contractName, chainId]
+  );
+}
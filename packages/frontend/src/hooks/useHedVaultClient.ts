@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useChainId, usePublicClient, useWalletClient } from "wagmi";
+import { hashFn } from "wagmi/query";
+import type { Hash, PublicClient } from "viem";
+import { DEFAULT_CHAIN_ID, SUPPORTED_CHAIN_IDS } from "@/lib/contracts";
+import {
+  createHedVaultClient,
+  decodeHedVaultErrorWithTokens,
+  isAllowanceError,
+  type HedVaultClient,
+  type SimulatedRequest,
+} from "@/lib/sdk";
+import type { TrackedTransaction } from "@/lib/transactions";
+import { useTransaction, useTransactionManager } from "@/hooks/useTransactions";
+
+/**
+ * HedVaultClient bound to wagmi's clients. Reads target the connected chain
+ * (or `targetChainId`) when HedVault is deployed there and the default chain
+ * otherwise; writes use the connected wallet.
+ */
+export function useHedVaultClient(targetChainId?: number): HedVaultClient {
+  const connectedChainId = useChainId();
+  const preferredChainId = targetChainId ?? connectedChainId;
+  const chainId = SUPPORTED_CHAIN_IDS.includes(preferredChainId)
+    ? preferredChainId
+    : DEFAULT_CHAIN_ID;
+  const publicClient = usePublicClient({ chainId }) as PublicClient;
+  const { data: walletClient } = useWalletClient();
+
+  return useMemo(
+    () => createHedVaultClient({ publicClient, walletClient, chainId }),
+    [publicClient, walletClient, chainId]
+  );
+}
+
+/**
+ * Query over the client. The key identifies the call and its arguments and
+ * may contain bigints.
+ */
+export function useHedVaultQuery<T>(
+  key: readonly unknown[],
+  read: (client: HedVaultClient) => Promise<T>,
+  enabled = true
+) {
+  const client = useHedVaultClient();
+
+  return useQuery({
+    queryKey: ["hedvault", client.chainId, ...key],
+    queryFn: () => read(client),
+    queryKeyHashFn: hashFn,
+    enabled,
+  });
+}
+
+/**
+ * Query against HedVault on a chain other than the connected one, such as a
+ * bridge transfer's destination. Stays disabled where HedVault isn't
+ * deployed rather than falling back to the default chain.
+ */
+export function useHedVaultChainQuery<T>(
+  chainId: number | undefined,
+  key: readonly unknown[],
+  read: (client: HedVaultClient) => Promise<T>,
+  enabled = true
+) {
+  const client = useHedVaultClient(chainId);
+
+  return useQuery({
+    queryKey: ["hedvault", client.chainId, ...key],
+    queryFn: () => read(client),
+    queryKeyHashFn: hashFn,
+    enabled: enabled && client.chainId === chainId,
+  });
+}
+
+export interface HedVaultWritePreview<TArgs extends unknown[], TResult> {
+  // Simulates the call from the connected account, e.g. with a module's
+  // `simulate`. The returned request is what gets signed
+  simulate: (
+    client: HedVaultClient,
+    ...args: TArgs
+  ) => Promise<{ result: TResult; request: SimulatedRequest }>;
+  // Short description of the result for toasts, e.g. "Loan #12". Gets the
+  // call too, for lookups such as the output token's decimals
+  summarize?: (
+    result: TResult,
+    call: { client: HedVaultClient; args: TArgs }
+  ) => string | Promise<string>;
+}
+
+/**
+ * Write through the client, tracked by the app's transaction manager so it
+ * gets the shared toasts and shows up in the transaction drawer. `submit`
+ * returns the tracked transaction (`await tx.confirmed`); `write` fires and
+ * forgets, with failures landing in `error`.
+ *
+ * The SDK simulates every write before the wallet prompts. With a `preview`,
+ * that simulation is the preview's, whose request is then signed as is; the
+ * simulated return value (a new loan id, a swap's amount out) is kept as
+ * `expected`, and `simulate` checks a call without sending it. For calls that
+ * follow an approval, `checkBeforeApproval` runs the same simulation up front
+ * and lets only the missing allowance through.
+ */
+export function useHedVaultWrite<TArgs extends unknown[], TResult = undefined>(
+  send: (client: HedVaultClient, ...args: TArgs) => Promise<Hash>,
+  label: string | ((...args: TArgs) => string),
+  preview?: HedVaultWritePreview<TArgs, TResult>
+) {
+  const client = useHedVaultClient();
+  const manager = useTransactionManager();
+  const [transactionId, setTransactionId] = useState<string>();
+  const transaction = useTransaction(transactionId);
+
+  // Amounts in reverts are shown in the decimals of the token among the args
+  const decodeError = (error: unknown, args: TArgs) =>
+    decodeHedVaultErrorWithTokens(error, client.tokens, { chainId: client.chainId, candidates: args });
+
+  const simulate = async (...args: TArgs): Promise<TResult | undefined> => {
+    if (!preview) return undefined;
+    try {
+      return (await preview.simulate(client, ...args)).result;
+    } catch (error) {
+      throw await decodeError(error, args);
+    }
+  };
+
+  const checkBeforeApproval = async (...args: TArgs): Promise<void> => {
+    if (!preview) return;
+    try {
+      await preview.simulate(client, ...args);
+    } catch (error) {
+      const decoded = await decodeError(error, args);
+      if (!isAllowanceError(decoded)) throw decoded;
+    }
+  };
+
+  const submit = (...args: TArgs): TrackedTransaction => {
+    let request: SimulatedRequest | undefined;
+    const tx = manager.submit({
+      label: typeof label === "function" ? label(...args) : label,
+      chainId: client.chainId,
+      preview:
+        preview &&
+        (async () => {
+          const simulated = await preview.simulate(client, ...args);
+          request = simulated.request;
+          return {
+            result: simulated.result,
+            summary: await preview.summarize?.(simulated.result, { client, args }),
+          };
+        }),
+      send: () => (request ? client.sendSimulated(request) : send(client, ...args)),
+      decodeError: (error) => decodeError(error, args),
+    });
+    setTransactionId(tx.id);
+    return tx;
+  };
+
+  const status = transaction?.status;
+  return {
+    submit,
+    simulate,
+    checkBeforeApproval,
+    write: (...args: TArgs) => {
+      submit(...args);
+    },
+    writeAsync: (...args: TArgs) => submit(...args).submitted,
+    transaction,
+    expected: transaction?.preview?.result as TResult | undefined,
+    hash: transaction?.hash,
+    error: transaction?.error ?? null,
+    isPending: status === "pending" && !transaction?.hash,
+    isConfirming: !!transaction?.hash && (status === "pending" || status === "mined"),
+    isConfirmed: status === "confirmed",
+  };
+}
@@ -0,0 +1,45 @@
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { isAddress } from "viem";
+import { createMirrorNodeClient, getMirrorNodeUrl } from "@/lib/mirrorNode";
+import { isEntityId, toEvmAddress } from "@/lib/hedera";
+
+/**
+ * Mirror node client for the connected chain, or null off Hedera
+ */
+export function useMirrorNodeClient() {
+  const chainId = useChainId();
+
+  return useMemo(() => {
+    const baseUrl = getMirrorNodeUrl(chainId);
+    return baseUrl ? createMirrorNodeClient({ baseUrl }) : null;
+  }, [chainId]);
+}
+
+/**
+ * Resolve user input that may be an EVM address or a `shard.realm.num` ID.
+ * The long-zero address is available immediately; the mirror node then
+ * upgrades account IDs to their ECDSA alias and fills in the entity ID.
+ */
+export function useResolvedAddress(value: string) {
+  const client = useMirrorNodeClient();
+  const trimmed = value.trim();
+  const isValid = isAddress(trimmed, { strict: false }) || isEntityId(trimmed);
+  const fallback = isValid ? toEvmAddress(trimmed) : null;
+
+  const query = useQuery({
+    queryKey: ["hedera-address", client?.baseUrl, trimmed],
+    queryFn: () => client!.resolveAddress(trimmed),
+    enabled: !!client && isValid,
+    staleTime: Infinity,
+  });
+
+  return {
+    address: query.data?.address ?? fallback,
+    entityId: query.data?.entityId ?? null,
+    isValid,
+    isResolving: query.isLoading,
+    error: query.error,
+  };
+}
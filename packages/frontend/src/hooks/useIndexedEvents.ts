@@ -0,0 +1,175 @@
+import { createContext, useContext, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Address } from "viem";
+import type { ContractName } from "@/lib/contracts";
+import type {
+  ContractEventNameOf,
+  EventQuery,
+  EventStore,
+  IndexedEvent,
+} from "@/lib/indexer";
+
+export interface EventIndexerStatus {
+  // Catching up to head; older history may still be paging in afterwards
+  isSyncing: boolean;
+  // Bumped whenever a synced chunk stores new events
+  version: number;
+  // When the index last reached head
+  lastSyncedAt: number | null;
+  // Every module is indexed back to its deployment block
+  historyComplete: boolean;
+  error: Error | null;
+}
+
+export interface EventIndexerContextValue {
+  chainId: number;
+  store: EventStore;
+  status: EventIndexerStatus;
+}
+
+export const EventIndexerContext = createContext<EventIndexerContextValue | null>(null);
+
+/**
+ * Access the app-wide indexer started by EventIndexerProvider
+ */
+export function useEventIndexer() {
+  const context = useContext(EventIndexerContext);
+  if (!context) {
+    throw new Error("useEventIndexer must be used within an EventIndexerProvider");
+  }
+  return context;
+}
+
+/**
+ * Runs `onSync` whenever a synced chunk stores new events, e.g. to refetch
+ * contract reads that the new events have made stale
+ */
+export function useOnIndexerSync(onSync: () => void) {
+  const { status } = useEventIndexer();
+  const callback = useRef(onSync);
+  callback.current = onSync;
+
+  useEffect(() => {
+    callback.current();
+  }, [status.version]);
+}
+
+export type IndexedEventFilter = Omit<EventQuery, "chainId">;
+
+// Query keys are hashed with JSON.stringify, which cannot handle bigints
+const toQueryKey = (filter: IndexedEventFilter) => ({
+  ...filter,
+  account: filter.account?.toLowerCase(),
+  fromBlock: filter.fromBlock?.toString(),
+  toBlock: filter.toBlock?.toString(),
+});
+
+/**
+ * Untyped query over every indexed event on the indexer's chain, with the
+ * total count for pagination
+ */
+export function useIndexedEventQuery(filter: IndexedEventFilter, enabled = true) {
+  const { chainId, store, status } = useEventIndexer();
+
+  return useQuery({
+    queryKey: ["indexed-events", chainId, status.version, toQueryKey(filter)],
+    queryFn: async () => {
+      const query = { ...filter, chainId };
+      const [events, total] = await Promise.all([
+        store.queryEvents(query),
+        store.countEvents({ ...query, limit: undefined, offset: undefined }),
+      ]);
+      return { events, total };
+    },
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+}
+
+/**
+ * Typed query for events of one contract. Args are decoded with that
+ * contract's generated ABI.
+ */
+export function useIndexedEvents<
+  C extends ContractName,
+  E extends ContractEventNameOf<C> = ContractEventNameOf<C>,
+>({
+  contract,
+  eventNames,
+  ...filter
+}: Omit<IndexedEventFilter, "contracts" | "eventNames"> & {
+  contract: C;
+  eventNames?: E[];
+}) {
+  const query = useIndexedEventQuery({
+    ...filter,
+    contracts: [contract],
+    eventNames,
+  });
+
+  return {
+    ...query,
+    events: (query.data?.events ?? []) as unknown as IndexedEvent<C, E>[],
+    total: query.data?.total ?? 0,
+  };
+}
+
+export function useSwapHistory(account?: Address) {
+  return useIndexedEvents({
+    contract: "SwapEngine",
+    eventNames: ["SwapExecuted"],
+    account,
+  });
+}
+
+export function useLoanHistory(account?: Address) {
+  return useIndexedEvents({
+    contract: "LendingPool",
+    eventNames: ["LoanCreated", "LoanRepaid", "LoanLiquidated"],
+    account,
+  });
+}
+
+// Fills are TradeExecuted; the contract never emits OrderFilled
+export function useOrderHistory(account?: Address) {
+  return useIndexedEvents({
+    contract: "Marketplace",
+    eventNames: ["OrderCreated", "TradeExecuted", "OrderCancelled"],
+    account,
+  });
+}
+
+// Auction events carry the bidder but not the other bidders, so the whole
+// history is read and narrowed down by auction
+export function useAuctionHistory() {
+  return useIndexedEvents({
+    contract: "Marketplace",
+    eventNames: ["AuctionCreated", "BidPlaced", "AuctionSettled"],
+  });
+}
+
+export function useRewardClaimHistory(account?: Address) {
+  return useIndexedEvents({
+    contract: "RewardsDistributor",
+    eventNames: ["RewardClaimed"],
+    account,
+  });
+}
+
+export function useBridgeTransferHistory(account?: Address) {
+  return useIndexedEvents({
+    contract: "CrossChainBridge",
+    eventNames: ["BridgeInitiated", "BridgeCompleted", "BridgeCancelled"],
+    account,
+  });
+}
+
+// Requests and fulfilments for one asset; they carry no requester, so
+// they are looked up by the asset token instead
+export function useOffchainDataRequestHistory(asset?: Address) {
+  return useIndexedEvents({
+    contract: "RWAOffchainOracle",
+    eventNames: ["OffchainDataRequested", "OffchainDataReceived"],
+    account: asset,
+  });
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useAccount } from "wagmi";
+import { getContractNativeUnit } from "@/lib/chains";
+import { findOutbids, formatAmount } from "@/lib/sdk";
+import { useAuctionHistory, useEventIndexer } from "@/hooks/useIndexedEvents";
+
+const seenKey = (chainId: number, account: string) =>
+  `hedvault_outbids_${chainId}_${account.toLowerCase()}`;
+
+const readSeen = (key: string): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(key) ?? "[]") as string[]);
+  } catch {
+    return new Set();
+  }
+};
+
+/**
+ * Toasts when another bidder takes the lead from the connected account on a
+ * Marketplace auction that is still running. Each outbid is announced once
+ * per browser; those on auctions that have already ended are only marked as
+ * seen. `onView` adds a button to the toast, e.g. to open the auctions tab.
+ */
+export function useOutbidNotifications(onView?: () => void) {
+  const { address } = useAccount();
+  const { chainId } = useEventIndexer();
+  const { events } = useAuctionHistory();
+  const onViewRef = useRef(onView);
+  onViewRef.current = onView;
+
+  useEffect(() => {
+    if (!address || events.length === 0) return;
+
+    // Events come newest first; bids are replayed in the order they were placed
+    const bids = events
+      .flatMap((event) => ("bidder" in event.args ? [{ id: event.id, ...event.args }] : []))
+      .reverse();
+    const endTimes = new Map(
+      events.flatMap((event) =>
+        "endTime" in event.args ? [[event.args.auctionId, event.args.endTime] as const] : []
+      )
+    );
+    const settled = new Set(
+      events.flatMap((event) => ("finalPrice" in event.args ? [event.args.auctionId] : []))
+    );
+
+    const key = seenKey(chainId, address);
+    const seen = readSeen(key);
+    const fresh = findOutbids(bids, address).filter((bid) => !seen.has(bid.id));
+    if (fresh.length === 0) return;
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const native = getContractNativeUnit(chainId);
+    for (const bid of fresh) {
+      seen.add(bid.id);
+      const endTime = endTimes.get(bid.auctionId);
+      if (settled.has(bid.auctionId) || (endTime !== undefined && endTime <= now)) continue;
+
+      toast.warning(`You've been outbid on auction #${bid.auctionId}`, {
+        description: `The leading bid is now ${formatAmount(bid.amount, native.decimals)} ${native.symbol}`,
+        action: onViewRef.current
+          ? { label: "View", onClick: () => onViewRef.current?.() }
+          : undefined,
+      });
+    }
+    localStorage.setItem(key, JSON.stringify([...seen]));
+  }, [address, chainId, events]);
+}
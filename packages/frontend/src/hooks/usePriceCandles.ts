@@ -0,0 +1,114 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Address } from "viem";
+import {
+  CANDLE_EVENTS,
+  CANDLE_INTERVALS,
+  type CandleInterval,
+  type PriceSource,
+  buildCandles,
+  getOraclePricePoints,
+  getSwapCounterTokens,
+  getSwapPricePoints,
+  getTradeOrderIds,
+  getTradePricePoints,
+} from "@/lib/candles";
+import { useGetOrders } from "@/hooks/contracts/useMarketplace";
+import { useGetPriceFeedConfig } from "@/hooks/contracts/usePriceOracle";
+import { useToken } from "@/hooks/useTokenMetadata";
+import { useEventIndexer } from "./useIndexedEvents";
+
+export interface PriceCandlesOptions {
+  asset?: Address;
+  source: PriceSource;
+  // Token to quote prices in; defaults to the first one seen for the source.
+  // Oracle prices are always in USD
+  quote?: Address;
+  interval: CandleInterval;
+  limit?: number;
+}
+
+/**
+ * OHLCV candles for one asset from the local event index. Marketplace trades
+ * are matched to a quote token through the orders they filled, which takes
+ * one read per order.
+ */
+export function usePriceCandles({ asset, source, quote, interval, limit = 60 }: PriceCandlesOptions) {
+  const { chainId, store, status } = useEventIndexer();
+  const { contract, eventNames } = CANDLE_EVENTS[source];
+
+  const { data: events, isLoading } = useQuery({
+    queryKey: ["price-candles", chainId, status.version, source, asset?.toLowerCase()],
+    queryFn: () =>
+      store.queryEvents({
+        chainId,
+        contracts: [contract],
+        eventNames: [...eventNames],
+        account: asset,
+        order: "asc",
+      }),
+    enabled: !!asset,
+  });
+
+  // One order per trade is enough to learn its payment token
+  const orderIds = useMemo(
+    () =>
+      source === "marketplace"
+        ? [
+            ...new Set(
+              (events ?? []).flatMap((event) =>
+                getTradeOrderIds(event.args as Record<string, unknown>).slice(0, 1)
+              )
+            ),
+          ].map(BigInt)
+        : [],
+    [events, source]
+  );
+  const { data: orders } = useGetOrders(orderIds);
+  const paymentTokens = useMemo(
+    () => new Map((orders ?? []).map((order) => [order.orderId.toString(), order.paymentToken])),
+    [orders]
+  );
+
+  const quotes = useMemo(() => {
+    if (!asset || !events) return [];
+    if (source === "swap") return getSwapCounterTokens([...events].reverse(), asset);
+    if (source === "marketplace") {
+      const seen = new Map([...paymentTokens.values()].map((token) => [token.toLowerCase(), token]));
+      return [...seen.values()];
+    }
+    return [];
+  }, [asset, events, source, paymentTokens]);
+  const activeQuote = source === "oracle" ? undefined : (quote ?? quotes[0]);
+
+  const { data: assetToken } = useToken(asset);
+  const { data: quoteToken } = useToken(activeQuote);
+  const { data: feedConfig } = useGetPriceFeedConfig(source === "oracle" ? asset : undefined);
+
+  const points = useMemo(() => {
+    if (!asset || !events) return [];
+    if (source === "oracle") {
+      return feedConfig ? getOraclePricePoints(events, { asset, priceDecimals: feedConfig.decimals }) : [];
+    }
+    if (!activeQuote || !assetToken || !quoteToken) return [];
+    const tokens = { asset, quote: activeQuote, assetDecimals: assetToken.decimals, quoteDecimals: quoteToken.decimals };
+    return source === "swap"
+      ? getSwapPricePoints(events, tokens)
+      : getTradePricePoints(events, { ...tokens, paymentTokens });
+  }, [asset, events, source, feedConfig, activeQuote, assetToken, quoteToken, paymentTokens]);
+
+  const candles = useMemo(
+    () => buildCandles(points, CANDLE_INTERVALS[interval], { limit }),
+    [points, interval, limit]
+  );
+
+  return {
+    candles,
+    pointCount: points.length,
+    quotes,
+    quote: activeQuote,
+    assetToken,
+    quoteToken,
+    isLoading: isLoading || (status.isSyncing && status.lastSyncedAt === null),
+  };
+}
@@ -1,135 +1,21 @@
 import { useReadContract } from "wagmi";
 import { Address } from "viem";
+import { RWATokenFactoryABI } from "@/lib/abis";
 
-// ABI for RWATokenFactory - focusing on the two required functions
-export const RWATOKEN_FACTORY_ABI = [
-  {
-    inputs: [],
-    name: "getAllRWATokens",
-    outputs: [
-      {
-        internalType: "address[]",
-        name: "tokens",
-        type: "address[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "getAllRWATokensWithInfo",
-    outputs: [
-      {
-        internalType: "address[]",
-        name: "tokenAddresses",
-        type: "address[]",
-      },
-      {
-        components: [
-          {
-            internalType: "address",
-            name: "tokenAddress",
-            type: "address",
-          },
-          {
-            internalType: "address",
-            name: "creator",
-            type: "address",
-          },
-          {
-            internalType: "uint256",
-            name: "creationTime",
-            type: "uint256",
-          },
-          {
-            components: [
-              {
-                internalType: "string",
-                name: "assetType",
-                type: "string",
-              },
-              {
-                internalType: "string",
-                name: "location",
-                type: "string",
-              },
-              {
-                internalType: "uint256",
-                name: "valuation",
-                type: "uint256",
-              },
-              {
-                internalType: "address",
-                name: "oracle",
-                type: "address",
-              },
-              {
-                internalType: "uint256",
-                name: "totalSupply",
-                type: "uint256",
-              },
-              {
-                internalType: "uint256",
-                name: "minInvestment",
-                type: "uint256",
-              },
-              {
-                internalType: "string",
-                name: "certificationHash",
-                type: "string",
-              },
-              {
-                internalType: "string",
-                name: "additionalData",
-                type: "string",
-              },
-            ],
-            internalType: "struct DataTypes.RWAMetadata",
-            name: "metadata",
-            type: "tuple",
-          },
-          {
-            internalType: "uint8",
-            name: "complianceLevel",
-            type: "uint8",
-          },
-          {
-            internalType: "bool",
-            name: "isListed",
-            type: "bool",
-          },
-          {
-            internalType: "uint256",
-            name: "tradingVolume",
-            type: "uint256",
-          },
-          {
-            internalType: "uint256",
-            name: "holders",
-            type: "uint256",
-          },
-        ],
-        internalType: "struct DataTypes.AssetInfo[]",
-        name: "assetInfos",
-        type: "tuple[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
+// Full RWATokenFactory ABI, re-exported for existing callers
+export const RWATOKEN_FACTORY_ABI = RWATokenFactoryABI;
 
 // Type definitions for the contract data
 export interface RWAMetadata {
   assetType: string;
   location: string;
   valuation: bigint;
+  lastValuationDate: bigint;
+  certificationHash: string;
+  isActive: boolean;
   oracle: Address;
   totalSupply: bigint;
   minInvestment: bigint;
-  certificationHash: string;
-  additionalData: string;
 }
 
 export interface AssetInfo {
@@ -1,24 +1,18 @@
-import { useReadContract } from "wagmi";
 import { useMemo } from "react";
-import { RWATOKEN_FACTORY_ABI } from "../abis/RWATokenFactory";
-import { RWATOKEN_FACTORY_ADDRESS } from "../config/rwaTokenFactory";
+import { useHedVaultQuery } from "./useHedVaultClient";
 
 // Hook for getting all RWA token addresses
 export function useGetAllRWATokens() {
-  return useReadContract({
-    address: RWATOKEN_FACTORY_ADDRESS,
-    abi: RWATOKEN_FACTORY_ABI,
-    functionName: "getAllRWATokens",
-  });
+  return useHedVaultQuery(["factory", "getAllRWATokens"], (client) =>
+    client.factory.getAllRWATokens()
+  );
 }
 
 // Hook for getting all RWA tokens with detailed info
 export function useGetAllRWATokensWithInfo() {
-  return useReadContract({
-    address: RWATOKEN_FACTORY_ADDRESS,
-    abi: RWATOKEN_FACTORY_ABI,
-    functionName: "getAllRWATokensWithInfo",
-  });
+  return useHedVaultQuery(["factory", "getAllRWATokensWithInfo"], (client) =>
+    client.factory.getAllRWATokensWithInfo()
+  );
 }
 
 // Combined hook for both functions
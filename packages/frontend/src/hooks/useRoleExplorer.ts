@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  ROLE_CONTRACTS,
+  ROLE_EVENTS,
+  buildRoleEntries,
+  findRoleRisks,
+  getContractAccounts,
+  getRoleAdmins,
+  getRoleMembers,
+  getUnguardedFunctions,
+} from "@/lib/accessControl";
+import { isDeployedOn } from "@/lib/contracts";
+import { useHedVaultClient } from "./useHedVaultClient";
+import { useEventIndexer } from "./useIndexedEvents";
+
+/**
+ * Role holders on every AccessControl module, rebuilt from the local event
+ * index, with each role's admin and the risks the setup carries. Waits until
+ * history is indexed back to deployment, where the initial grants are, so a
+ * partial history isn't reported as empty roles.
+ */
+export function useRoleExplorer() {
+  const client = useHedVaultClient();
+  const { chainId, store, status } = useEventIndexer();
+  const synced = status.historyComplete;
+
+  const query = useQuery({
+    queryKey: ["role-explorer", chainId, status.version],
+    queryFn: async () => {
+      const contracts = ROLE_CONTRACTS.filter((contract) => isDeployedOn(contract, client.chainId));
+      const events = await store.queryEvents({
+        chainId,
+        contracts,
+        eventNames: ROLE_EVENTS,
+        order: "asc",
+      });
+      const members = getRoleMembers(events);
+      const [adminRoles, coreOwner] = await Promise.all([
+        getRoleAdmins(client, contracts, members),
+        // HedVaultCore is bound lazily and throws when it isn't deployed
+        Promise.resolve()
+          .then(() => client.core.read.owner())
+          .catch(() => undefined),
+      ]);
+      const holders = [...members.values()].flat().map((member) => member.account);
+      const contractAccounts = await getContractAccounts(
+        client,
+        coreOwner ? [...holders, coreOwner] : holders
+      );
+      const entries = buildRoleEntries(contracts, members, adminRoles);
+      return {
+        entries,
+        contractAccounts,
+        coreOwner,
+        risks: findRoleRisks({
+          entries,
+          contractAccounts,
+          coreOwner,
+          unguarded: getUnguardedFunctions(client.chainId),
+        }),
+      };
+    },
+    enabled: synced,
+    placeholderData: (previous) => previous,
+  });
+
+  return { ...query, isLoading: query.isLoading || !synced };
+}
@@ -1,114 +1,62 @@
 /**
  * SwapEngine Contract Hooks
- * Custom hooks for interacting with the SwapEngine smart contract
+ * React bindings for the swap module of the HedVault client
  */
 
-import {
-  useReadContract,
-  useWriteContract,
-  useWaitForTransactionReceipt,
-} from "wagmi";
 import { Address } from "viem";
-import { CONTRACT_ADDRESSES, HEDERA_TESTNET_CHAIN_ID } from "@/lib/contracts";
-import SwapEngineABI from "@/lib/abis/SwapEngine.json";
-
-// Types based on SwapEngine contract
-export interface LiquidityPool {
-  tokenA: Address;
-  tokenB: Address;
-  reserveA: bigint;
-  reserveB: bigint;
-  totalLiquidity: bigint;
-  feeRate: bigint;
-  lastUpdate: bigint;
-  isActive: boolean;
-  minLiquidity: bigint;
-  maxSlippage: bigint;
-}
-
-export interface LiquidityPosition {
-  provider: Address;
-  poolId: bigint;
-  liquidity: bigint;
-  tokenADeposited: bigint;
-  tokenBDeposited: bigint;
-  createdAt: bigint;
-  lastRewardClaim: bigint;
-  accumulatedFees: bigint;
-}
-
-export interface SwapInfo {
-  swapId: bigint;
-  user: Address;
-  poolId: bigint;
-  tokenIn: Address;
-  tokenOut: Address;
-  amountIn: bigint;
-  amountOut: bigint;
-  fee: bigint;
-  slippage: bigint;
-  timestamp: bigint;
-  priceImpact: bigint;
-}
-
-export interface PoolStats {
-  totalVolume: bigint;
-  totalSwaps: bigint;
-  totalFeesCollected: bigint;
-  apy: bigint;
-  utilization: bigint;
-  lastStatsUpdate: bigint;
-}
+import { useHedVaultQuery, useHedVaultWrite } from "@/hooks/useHedVaultClient";
+import { type HedVaultClient, formatAmount } from "@/lib/sdk";
+
+export type {
+  LiquidityPool,
+  LiquidityPosition,
+  SwapInfo,
+  PoolStats,
+  SwapQuote,
+} from "@/lib/sdk";
+
+// LP shares are not a token; the SwapEngine mints them with 18 decimals
+const LP_DECIMALS = 18;
+
+// "1,500.25 HVGOLD", in the token's own decimals
+const formatTokenAmount = async (client: HedVaultClient, token: Address, amount: bigint) => {
+  const { decimals, symbol } = await client.tokens.get(token);
+  return `${formatAmount(amount, decimals)} ${symbol}`;
+};
 
 // Read Hooks
 export const useGetPool = (poolId: bigint) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "getPool",
-    args: [poolId],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "getPool", poolId], (client) =>
+    client.swap.getPool(poolId)
+  );
 };
 
 export const useGetPoolByTokens = (tokenA: Address, tokenB: Address) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "getPoolByTokens",
-    args: [tokenA, tokenB],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(
+    ["swap", "getPoolByTokens", tokenA, tokenB],
+    (client) => client.swap.getPoolByTokens(tokenA, tokenB),
+    !!tokenA && !!tokenB
+  );
 };
 
 export const useGetPoolPositions = (poolId: bigint) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "getPoolPositions",
-    args: [poolId],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "getPoolPositions", poolId], (client) =>
+    client.swap.getPoolPositions(poolId)
+  );
 };
 
 export const useGetUserPositions = (user: Address) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "getUserPositions",
-    args: [user],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(
+    ["swap", "getUserPositions", user],
+    (client) => client.swap.getUserPositions(user),
+    !!user
+  );
 };
 
 export const useGetPoolStats = (poolId: bigint) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "getPoolStats",
-    args: [poolId],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "getPoolStats", poolId], (client) =>
+    client.swap.getPoolStats(poolId)
+  );
 };
 
 export const useGetSwapQuote = (
@@ -116,511 +64,254 @@ export const useGetSwapQuote = (
   tokenIn: Address,
   amountIn: bigint
 ) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "getSwapQuote",
-    args: [poolId, tokenIn, amountIn],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-    query: {
-      enabled: poolId > BigInt(0) && tokenIn && amountIn > BigInt(0),
-    },
-  });
+  return useHedVaultQuery(
+    ["swap", "getSwapQuote", poolId, tokenIn, amountIn],
+    (client) => client.swap.getSwapQuote(poolId, tokenIn, amountIn),
+    poolId > BigInt(0) && !!tokenIn && amountIn > BigInt(0)
+  );
 };
 
 export const useIsPaused = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "paused",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "paused"], (client) =>
+    client.swap.read.paused()
+  );
 };
 
 export const useGetHedVaultCore = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "hedVaultCore",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "hedVaultCore"], (client) =>
+    client.swap.read.hedVaultCore()
+  );
 };
 
 export const useGetPriceOracle = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "priceOracle",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "priceOracle"], (client) =>
+    client.swap.read.priceOracle()
+  );
 };
 
 export const useGetFeeRecipient = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "feeRecipient",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "feeRecipient"], (client) =>
+    client.swap.read.feeRecipient()
+  );
 };
 
 export const useGetDefaultFeeRate = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "defaultFeeRate",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "defaultFeeRate"], (client) =>
+    client.swap.read.defaultFeeRate()
+  );
 };
 
 export const useGetProtocolFeeShare = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "protocolFeeShare",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "protocolFeeShare"], (client) =>
+    client.swap.read.protocolFeeShare()
+  );
 };
 
 export const useGetTotalProtocolFees = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "totalProtocolFees",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "totalProtocolFees"], (client) =>
+    client.swap.read.totalProtocolFees()
+  );
 };
 
 export const useGetNextPoolId = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "nextPoolId",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "nextPoolId"], (client) =>
+    client.swap.read.nextPoolId()
+  );
 };
 
 export const useGetNextSwapId = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "nextSwapId",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "nextSwapId"], (client) =>
+    client.swap.read.nextSwapId()
+  );
 };
 
 export const useGetTotalPools = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "totalPools",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "totalPools"], (client) =>
+    client.swap.read.totalPools()
+  );
 };
 
 export const useIsSupportedToken = (token: Address) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "supportedTokens",
-    args: [token],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(
+    ["swap", "isSupportedToken", token],
+    (client) => client.swap.isSupportedToken(token),
+    !!token
+  );
 };
 
 // Constant Hooks
-export const useSwapAdminRole = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "SWAP_ADMIN_ROLE",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-};
-
-export const useLiquidityManagerRole = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "LIQUIDITY_MANAGER_ROLE",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-};
-
-export const useFeeManagerRole = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "FEE_MANAGER_ROLE",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-};
-
-export const useEmergencyRole = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "EMERGENCY_ROLE",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-};
-
-export const useDefaultAdminRole = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "DEFAULT_ADMIN_ROLE",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-};
-
 export const useMinLiquidity = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "MIN_LIQUIDITY",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "MIN_LIQUIDITY"], (client) =>
+    client.swap.read.MIN_LIQUIDITY()
+  );
 };
 
 export const useMaxFeeRate = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "MAX_FEE_RATE",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "MAX_FEE_RATE"], (client) =>
+    client.swap.read.MAX_FEE_RATE()
+  );
 };
 
 export const useMaxSlippage = () => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "MAX_SLIPPAGE",
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  return useHedVaultQuery(["swap", "MAX_SLIPPAGE"], (client) =>
+    client.swap.read.MAX_SLIPPAGE()
+  );
 };
 
 // Write Hooks
 export const useCreatePool = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const createPool = (
-    tokenA: Address,
-    tokenB: Address,
-    amountA: bigint,
-    amountB: bigint,
-    feeRate: bigint
-  ) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "createPool",
-      args: [tokenA, tokenB, amountA, amountB, feeRate],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-      gas: BigInt(10000000), // Set high gas limit to prevent INSUFFICIENT_GAS errors
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    createPool,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: createPool, ...state } = useHedVaultWrite(
+    (
+      client,
+      tokenA: Address,
+      tokenB: Address,
+      amountA: bigint,
+      amountB: bigint,
+      feeRate: bigint
+    ) => client.swap.createPool(tokenA, tokenB, amountA, amountB, feeRate),
+    "Create pool",
+    {
+      simulate: (client, tokenA, tokenB, amountA, amountB, feeRate) =>
+        client.swap.simulate.createPool(
+          [tokenA, tokenB, amountA, amountB, feeRate],
+          { account: client.account }
+        ),
+      summarize: (poolId) => `Pool #${poolId}`,
+    }
+  );
+  return { createPool, ...state };
 };
 
 export const useAddLiquidity = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const addLiquidity = (
-    poolId: bigint,
-    amountA: bigint,
-    amountB: bigint,
-    minLiquidity: bigint
-  ) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "addLiquidity",
-      args: [poolId, amountA, amountB, minLiquidity],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    addLiquidity,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: addLiquidity, ...state } = useHedVaultWrite(
+    (
+      client,
+      poolId: bigint,
+      amountA: bigint,
+      amountB: bigint,
+      minLiquidity: bigint
+    ) => client.swap.addLiquidity(poolId, amountA, amountB, minLiquidity),
+    "Add liquidity",
+    {
+      simulate: (client, poolId, amountA, amountB, minLiquidity) =>
+        client.swap.simulate.addLiquidity(
+          [poolId, amountA, amountB, minLiquidity],
+          { account: client.account }
+        ),
+      summarize: (liquidity) => `${formatAmount(liquidity, LP_DECIMALS)} LP`,
+    }
+  );
+  return { addLiquidity, ...state };
 };
 
 export const useRemoveLiquidity = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const removeLiquidity = (
-    poolId: bigint,
-    positionIndex: bigint,
-    liquidity: bigint,
-    minAmountA: bigint,
-    minAmountB: bigint
-  ) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "removeLiquidity",
-      args: [poolId, positionIndex, liquidity, minAmountA, minAmountB],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    removeLiquidity,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: removeLiquidity, ...state } = useHedVaultWrite(
+    (
+      client,
+      poolId: bigint,
+      positionIndex: bigint,
+      liquidity: bigint,
+      minAmountA: bigint,
+      minAmountB: bigint
+    ) =>
+      client.swap.removeLiquidity(
+        poolId,
+        positionIndex,
+        liquidity,
+        minAmountA,
+        minAmountB
+      ),
+    "Remove liquidity",
+    {
+      simulate: (
+        client,
+        poolId,
+        positionIndex,
+        liquidity,
+        minAmountA,
+        minAmountB
+      ) =>
+        client.swap.simulate.removeLiquidity(
+          [poolId, positionIndex, liquidity, minAmountA, minAmountB],
+          { account: client.account }
+        ),
+      summarize: async (amounts, { client, args: [poolId] }) => {
+        const [amountA, amountB] = amounts;
+        const { tokenA, tokenB } = await client.swap.getPool(poolId);
+        const [outA, outB] = await Promise.all([
+          formatTokenAmount(client, tokenA, amountA),
+          formatTokenAmount(client, tokenB, amountB),
+        ]);
+        return `${outA} + ${outB} out`;
+      },
+    }
+  );
+  return { removeLiquidity, ...state };
 };
 
 export const useSwap = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const swap = (
-    poolId: bigint,
-    tokenIn: Address,
-    amountIn: bigint,
-    minAmountOut: bigint,
-    maxSlippage: bigint
-  ) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "swap",
-      args: [poolId, tokenIn, amountIn, minAmountOut, maxSlippage],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    swap,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: swap, ...state } = useHedVaultWrite(
+    (
+      client,
+      poolId: bigint,
+      tokenIn: Address,
+      amountIn: bigint,
+      minAmountOut: bigint,
+      maxSlippage: bigint
+    ) => client.swap.swap(poolId, tokenIn, amountIn, minAmountOut, maxSlippage),
+    "Swap",
+    {
+      simulate: (
+        client,
+        poolId,
+        tokenIn,
+        amountIn,
+        minAmountOut,
+        maxSlippage
+      ) =>
+        client.swap.simulate.swap(
+          [poolId, tokenIn, amountIn, minAmountOut, maxSlippage],
+          { account: client.account }
+        ),
+      summarize: async (amountOut, { client, args: [poolId, tokenIn] }) => {
+        const { tokenA, tokenB } = await client.swap.getPool(poolId);
+        const tokenOut = tokenA.toLowerCase() === tokenIn.toLowerCase() ? tokenB : tokenA;
+        return `≈ ${await formatTokenAmount(client, tokenOut, amountOut)} out`;
+      },
+    }
+  );
+  return { swap, ...state };
 };
 
 export const useAddSupportedToken = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const addSupportedToken = (token: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "addSupportedToken",
-      args: [token],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    addSupportedToken,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: addSupportedToken, ...state } = useHedVaultWrite(
+    (client, token: Address) => client.swap.addSupportedToken(token),
+    "Add swap token"
+  );
+  return { addSupportedToken, ...state };
 };
 
 export const useUpdatePoolFeeRate = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const updatePoolFeeRate = (poolId: bigint, newFeeRate: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "updatePoolFeeRate",
-      args: [poolId, newFeeRate],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    updatePoolFeeRate,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: updatePoolFeeRate, ...state } = useHedVaultWrite(
+    (client, poolId: bigint, newFeeRate: bigint) =>
+      client.swap.updatePoolFeeRate(poolId, newFeeRate),
+    "Update pool fee rate"
+  );
+  return { updatePoolFeeRate, ...state };
 };
 
 export const usePause = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const pause = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "pause",
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    pause,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
+  const { write: pause, ...state } = useHedVaultWrite(
+    (client) => client.swap.pause(),
+    "Pause swap engine"
+  );
+  return { pause, ...state };
 };
 
 export const useUnpause = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const unpause = () => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "unpause",
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    unpause,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
-};
-
-// Role Management Hooks
-export const useGrantRole = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const grantRole = (role: string, account: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "grantRole",
-      args: [role, account],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    grantRole,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
-};
-
-export const useRevokeRole = () => {
-  const { writeContract, data: hash, error, isPending } = useWriteContract();
-
-  const revokeRole = (role: string, account: Address) => {
-    writeContract({
-      address: CONTRACT_ADDRESSES.SwapEngine,
-      abi: SwapEngineABI,
-      functionName: "revokeRole",
-      args: [role, account],
-      chainId: HEDERA_TESTNET_CHAIN_ID,
-    });
-  };
-
-  const { isLoading: isConfirming, isSuccess: isConfirmed } =
-    useWaitForTransactionReceipt({
-      hash,
-    });
-
-  return {
-    revokeRole,
-    hash,
-    error,
-    isPending,
-    isConfirming,
-    isConfirmed,
-  };
-};
-
-export const useHasRole = (role: string, account: Address) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "hasRole",
-    args: [role, account],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
-};
-
-export const useGetRoleAdmin = (role: string) => {
-  return useReadContract({
-    address: CONTRACT_ADDRESSES.SwapEngine,
-    abi: SwapEngineABI,
-    functionName: "getRoleAdmin",
-    args: [role],
-    chainId: HEDERA_TESTNET_CHAIN_ID,
-  });
+  const { write: unpause, ...state } = useHedVaultWrite(
+    (client) => client.swap.unpause(),
+    "Unpause swap engine"
+  );
+  return { unpause, ...state };
 };
@@ -0,0 +1,100 @@
+import { useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import { Address } from "viem";
+import type { TokenAssociationStatus } from "@/lib/sdk";
+import { useHedVaultClient, useHedVaultQuery, useHedVaultWrite } from "@/hooks/useHedVaultClient";
+import { useMirrorNodeClient } from "@/hooks/useHederaAddress";
+
+export type { TokenAssociationStatus };
+
+const NO_STATUSES: Record<string, TokenAssociationStatus> = {};
+
+/**
+ * Whether the next token the connected account receives associates itself:
+ * it has unlimited automatic associations, or a limit with slots still free
+ */
+function useAutoAssociates() {
+  const { address } = useAccount();
+  const mirrorNode = useMirrorNodeClient();
+
+  const { data } = useQuery({
+    queryKey: ["hedera-account", mirrorNode?.baseUrl, address, "auto-associations"],
+    queryFn: async () => {
+      const account = await mirrorNode!.getAccount(address as Address);
+      const limit = account?.max_automatic_token_associations ?? 0;
+      if (limit === -1) return true;
+      if (limit <= 0) return false;
+      const relationships = await mirrorNode!.getTokenRelationships(address as Address);
+      return relationships.filter((relationship) => relationship.automatic_association).length < limit;
+    },
+    enabled: !!mirrorNode && !!address,
+  });
+  return data === true;
+}
+
+/**
+ * Association state of the connected account for each token, keyed by
+ * lowercased address. `needsAssociation` is true only for HTS tokens the
+ * account could not receive right now.
+ */
+export function useTokenAssociations(tokens: Address[]) {
+  const { address } = useAccount();
+  const unique = useMemo(
+    () => [...new Set(tokens.map((token) => token.toLowerCase() as Address))].sort(),
+    [tokens]
+  );
+  const autoAssociates = useAutoAssociates();
+
+  const { data, isLoading, error } = useHedVaultQuery(
+    ["hts", "associations", address, ...unique],
+    async (client) => {
+      const statuses = await Promise.all(
+        unique.map((token) => client.hts.getAssociationStatus(token, address as Address))
+      );
+      return Object.fromEntries(unique.map((token, index) => [token, statuses[index]]));
+    },
+    !!address && unique.length > 0
+  );
+
+  const statuses = data ?? NO_STATUSES;
+  const needsAssociation = (token?: Address) =>
+    !!token && !autoAssociates && statuses[token.toLowerCase()] === "not-associated";
+
+  return { statuses, needsAssociation, isLoading, error };
+}
+
+export function useTokenAssociation(token?: Address) {
+  const tokens = useMemo(() => (token ? [token] : []), [token]);
+  const { statuses, needsAssociation, isLoading, error } = useTokenAssociations(tokens);
+
+  return {
+    status: token ? statuses[token.toLowerCase()] : undefined,
+    needsAssociation: needsAssociation(token),
+    isLoading,
+    error,
+  };
+}
+
+/**
+ * Associates the connected account with a token through the HTS system
+ * contract, then refreshes every association status
+ */
+export function useAssociateToken() {
+  const client = useHedVaultClient();
+  const queryClient = useQueryClient();
+  const { submit, ...state } = useHedVaultWrite(
+    (client, token: Address) => client.hts.associateToken(token),
+    "Associate token"
+  );
+
+  const associate = (token: Address) => {
+    const tx = submit(token);
+    tx.confirmed
+      .then(() => queryClient.invalidateQueries({ queryKey: ["hedvault", client.chainId, "hts"] }))
+      .catch(() => undefined);
+    return tx;
+  };
+
+  return { associate, ...state };
+}
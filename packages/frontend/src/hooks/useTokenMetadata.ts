@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { Address } from "viem";
+import type { TokenMetadata } from "@/lib/sdk";
+import { useHedVaultQuery } from "@/hooks/useHedVaultClient";
+
+export type { TokenMetadata };
+
+const NO_METADATA: Record<string, TokenMetadata> = {};
+
+/**
+ * Decimals, symbol and name for a set of tokens, keyed by lowercased
+ * address. Tokens that fail to answer are left out of the result.
+ */
+export function useTokenMetadata(tokens: Address[]) {
+  const unique = useMemo(
+    () => [...new Set(tokens.map((token) => token.toLowerCase() as Address))].sort(),
+    [tokens]
+  );
+
+  const { data, isLoading } = useHedVaultQuery(
+    ["tokens", "metadataMany", ...unique],
+    (client) => client.tokens.getMany(unique),
+    unique.length > 0
+  );
+
+  return { metadata: data ?? NO_METADATA, isLoading };
+}
+
+/**
+ * Metadata for a single token; `data` is undefined until it has loaded, so
+ * amount inputs should stay disabled until then rather than assume 18.
+ */
+export function useToken(token?: Address) {
+  return useHedVaultQuery(
+    ["tokens", "metadata", token?.toLowerCase()],
+    (client) => client.tokens.get(token as Address),
+    !!token
+  );
+}
@@ -0,0 +1,33 @@
+import { createContext, useContext, useSyncExternalStore } from "react";
+import type { TransactionManager, TransactionRecord } from "@/lib/transactions";
+
+export const TransactionManagerContext = createContext<TransactionManager | null>(null);
+
+const EMPTY: TransactionRecord[] = [];
+
+/**
+ * Access the app-wide transaction manager started by TransactionProvider
+ */
+export function useTransactionManager() {
+  const manager = useContext(TransactionManagerContext);
+  if (!manager) {
+    throw new Error("useTransactionManager must be used within a TransactionProvider");
+  }
+  return manager;
+}
+
+/**
+ * Every transaction submitted this session, newest first
+ */
+export function useTransactions() {
+  const manager = useTransactionManager();
+  return useSyncExternalStore(manager.subscribe, manager.getTransactions, () => EMPTY);
+}
+
+/**
+ * Live record of one tracked transaction
+ */
+export function useTransaction(id: string | undefined) {
+  const transactions = useTransactions();
+  return id ? transactions.find((transaction) => transaction.id === id) : undefined;
+}
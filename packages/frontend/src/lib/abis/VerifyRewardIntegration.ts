@@ -0,0 +1,389 @@
+export const VerifyRewardIntegrationABI = [
+  {
+    "type": "constructor",
+    "inputs": [
+      {
+        "name": "_rewardsDistributor",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "_lendingPool",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "_marketplace",
+        "type": "address",
+        "internalType": "address payable"
+      },
+      {
+        "name": "_hedVaultCore",
+        "type": "address",
+        "internalType": "address payable"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "getTestResultsDescription",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "results",
+        "type": "string[6]",
+        "internalType": "string[6]"
+      }
+    ],
+    "stateMutability": "pure"
+  },
+  {
+    "type": "function",
+    "name": "getUserPositionBreakdown",
+    "inputs": [
+      {
+        "name": "user",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "stakingRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "tradingRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "lendingRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "governanceRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "marketplaceRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "liquidityRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "rwaRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "referralRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "totalVestingAmount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "totalReleasableVesting",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getUserRewardsOverview",
+    "inputs": [
+      {
+        "name": "user",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "totalEarned",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "totalPending",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "totalStakedAmount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "totalClaimedRewards",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "poolEarnings",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      },
+      {
+        "name": "poolStakes",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      },
+      {
+        "name": "vestingAmounts",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      },
+      {
+        "name": "activePoolNames",
+        "type": "string[]",
+        "internalType": "string[]"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "hedVaultCore",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "contract HedVaultCore"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "lendingPool",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "contract LendingPool"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "marketplace",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "contract Marketplace"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "rewardsDistributor",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "contract RewardsDistributor"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "runComprehensiveTest",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "testResults",
+        "type": "bool[6]",
+        "internalType": "bool[6]"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "testLendingRewards",
+    "inputs": [
+      {
+        "name": "user",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "success",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "testMarketplaceRewards",
+    "inputs": [
+      {
+        "name": "user",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "success",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "verifyAllRewardPools",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "poolsExist",
+        "type": "bool[8]",
+        "internalType": "bool[8]"
+      },
+      {
+        "name": "poolRates",
+        "type": "uint256[8]",
+        "internalType": "uint256[8]"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "verifyContractIntegrations",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "lendingIntegrated",
+        "type": "bool",
+        "internalType": "bool"
+      },
+      {
+        "name": "marketplaceIntegrated",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "event",
+    "name": "ContractIntegrationVerified",
+    "inputs": [
+      {
+        "name": "contractAddr",
+        "type": "address",
+        "indexed": false,
+        "internalType": "address"
+      },
+      {
+        "name": "contractType",
+        "type": "string",
+        "indexed": false,
+        "internalType": "string"
+      },
+      {
+        "name": "integrated",
+        "type": "bool",
+        "indexed": false,
+        "internalType": "bool"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "RewardDistributionTest",
+    "inputs": [
+      {
+        "name": "user",
+        "type": "address",
+        "indexed": false,
+        "internalType": "address"
+      },
+      {
+        "name": "activityType",
+        "type": "string",
+        "indexed": false,
+        "internalType": "string"
+      },
+      {
+        "name": "amount",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "success",
+        "type": "bool",
+        "indexed": false,
+        "internalType": "bool"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "RewardPoolVerified",
+    "inputs": [
+      {
+        "name": "poolName",
+        "type": "string",
+        "indexed": false,
+        "internalType": "string"
+      },
+      {
+        "name": "exists",
+        "type": "bool",
+        "indexed": false,
+        "internalType": "bool"
+      },
+      {
+        "name": "rewardRate",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  }
+] as const;
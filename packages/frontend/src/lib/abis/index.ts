@@ -1,30 +1,69 @@
 /**
  * HedVault Contract ABIs
- * Auto-generated from Forge compilation artifacts
+ * Auto-generated from Forge compilation artifacts by scripts/generate-abis.mjs - do not edit
  */
 
+import { ChainlinkAdapterABI } from './ChainlinkAdapter';
 import { ComplianceManagerABI } from './ComplianceManager';
+import { CrossChainBridgeABI } from './CrossChainBridge';
+import { DataTypesABI } from './DataTypes';
 import { ERC20ABI } from './ERC20';
+import { EventsABI } from './Events';
 import { HedVaultCoreABI } from './HedVaultCore';
+import { HedVaultErrorsABI } from './HedVaultErrors';
 import { LendingPoolABI } from './LendingPool';
 import { MarketplaceABI } from './Marketplace';
 import { PortfolioManagerABI } from './PortfolioManager';
 import { PriceOracleABI } from './PriceOracle';
 import { RewardsDistributorABI } from './RewardsDistributor';
 import { RWAOffchainOracleABI } from './RWAOffchainOracle';
+import { RWATokenABI } from './RWAToken';
+import { RWATokenFactoryABI } from './RWATokenFactory';
+import { SwapEngineABI } from './SwapEngine';
+import { VerifyRewardIntegrationABI } from './VerifyRewardIntegration';
 
 // Export individual ABIs
-export { ComplianceManagerABI, ERC20ABI, HedVaultCoreABI, LendingPoolABI, MarketplaceABI, PortfolioManagerABI, PriceOracleABI, RewardsDistributorABI, RWAOffchainOracleABI };
+export {
+  ChainlinkAdapterABI,
+  ComplianceManagerABI,
+  CrossChainBridgeABI,
+  DataTypesABI,
+  ERC20ABI,
+  EventsABI,
+  HedVaultCoreABI,
+  HedVaultErrorsABI,
+  LendingPoolABI,
+  MarketplaceABI,
+  PortfolioManagerABI,
+  PriceOracleABI,
+  RewardsDistributorABI,
+  RWAOffchainOracleABI,
+  RWATokenABI,
+  RWATokenFactoryABI,
+  SwapEngineABI,
+  VerifyRewardIntegrationABI,
+};
 
 // Re-export all ABIs as a single object for convenience
 export const HEDVAULT_ABIS = {
+  ChainlinkAdapter: ChainlinkAdapterABI,
   ComplianceManager: ComplianceManagerABI,
+  CrossChainBridge: CrossChainBridgeABI,
+  DataTypes: DataTypesABI,
   ERC20: ERC20ABI,
+  Events: EventsABI,
   HedVaultCore: HedVaultCoreABI,
+  HedVaultErrors: HedVaultErrorsABI,
   LendingPool: LendingPoolABI,
   Marketplace: MarketplaceABI,
   PortfolioManager: PortfolioManagerABI,
   PriceOracle: PriceOracleABI,
   RewardsDistributor: RewardsDistributorABI,
   RWAOffchainOracle: RWAOffchainOracleABI,
-} as const;
\ No newline at end of file
+  RWAToken: RWATokenABI,
+  RWATokenFactory: RWATokenFactoryABI,
+  SwapEngine: SwapEngineABI,
+  VerifyRewardIntegration: VerifyRewardIntegrationABI,
+} as const;
+
+export type HedVaultAbiName = keyof typeof HEDVAULT_ABIS;
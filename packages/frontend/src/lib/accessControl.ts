@@ -0,0 +1,295 @@
+/**
+ * HedVault Access Control
+ * Role membership rebuilt from RoleGranted/RoleRevoked events, the
+ * role-admin hierarchy, and checks for risky setups
+ */
+
+import { type Abi, type Address, type Hex, getAddress, zeroHash } from "viem";
+import { HEDVAULT_ABIS } from "./abis";
+import { type ContractName, getContractAddress, isDeployedOn } from "./contracts";
+import { INDEXED_CONTRACTS, type IndexedEvent } from "./indexer";
+import { type HedVaultClient, ROLE_NAMES, type RoleName, getRoleId, getRoleName } from "./sdk";
+
+// Modules built on AccessControl; HedVaultCore is Ownable and has no roles
+export const ROLE_CONTRACTS = INDEXED_CONTRACTS.filter((contract) =>
+  (HEDVAULT_ABIS[contract] as Abi).some((item) => item.type === "function" && item.name === "getRoleAdmin")
+);
+
+export const ROLE_EVENTS = ["RoleGranted", "RoleRevoked"];
+
+export interface UnguardedFunction {
+  contract: ContractName;
+  functionName: string;
+  // What any caller can do with it
+  effect: string;
+}
+
+// Admin functions on contracts built without AccessControl, which any
+// account can call
+const UNGUARDED_ADMIN_FUNCTIONS: UnguardedFunction[] = [
+  { contract: "SwapEngine", functionName: "updatePoolFeeRate", effect: "set any pool's swap fee up to 10%" },
+  { contract: "SwapEngine", functionName: "addSupportedToken", effect: "mark any token as supported" },
+  { contract: "SwapEngine", functionName: "pause", effect: "halt every swap and liquidity change" },
+  { contract: "SwapEngine", functionName: "unpause", effect: "lift a pause" },
+];
+
+const hasAbiFunction = (contract: ContractName, name: string) =>
+  (HEDVAULT_ABIS[contract] as Abi).some((item) => item.type === "function" && item.name === name);
+
+/**
+ * The unguarded admin functions deployed on `chainId`. A contract whose ABI
+ * gains hasRole is taken to guard them and drops out.
+ */
+export const getUnguardedFunctions = (chainId: number) =>
+  UNGUARDED_ADMIN_FUNCTIONS.filter(
+    ({ contract, functionName }) =>
+      isDeployedOn(contract, chainId) && !hasAbiFunction(contract, "hasRole") && hasAbiFunction(contract, functionName)
+  );
+
+const isRoleName = (name: string): name is RoleName => (ROLE_NAMES as readonly string[]).includes(name);
+
+// The role constants a module declares, read off its ABI
+export const getDeclaredRoles = (contract: ContractName): Hex[] =>
+  (HEDVAULT_ABIS[contract] as Abi).flatMap((item) =>
+    item.type === "function" && item.inputs.length === 0 && isRoleName(item.name) ? [getRoleId(item.name)] : []
+  );
+
+export interface RoleMember {
+  account: Address;
+  // Who granted the role and in which block, from the latest RoleGranted
+  grantedBy: Address;
+  grantedAt: bigint;
+}
+
+export interface RoleEntry {
+  contract: ContractName;
+  role: Hex;
+  // Undefined for ids no HedVault contract declares
+  name?: RoleName;
+  // Role whose holders may grant and revoke this one
+  adminRole: Hex;
+  members: RoleMember[];
+}
+
+// `${contract}:${role}`
+export type RoleKey = string;
+
+export const roleKey = (contract: ContractName, role: Hex): RoleKey => `${contract}:${role.toLowerCase()}`;
+
+export const formatRole = (role: Hex) => getRoleName(role) ?? `${role.slice(0, 10)}…`;
+
+/**
+ * Current holders of every role that appears in the events. Events must be
+ * oldest first; AccessControl only emits when membership actually changes,
+ * so replaying them in order leaves exactly the live holders.
+ */
+export const getRoleMembers = (events: IndexedEvent[]) => {
+  const members = new Map<RoleKey, Map<string, RoleMember>>();
+
+  for (const event of events) {
+    const { role, account, sender } = event.args as { role: Hex; account: Address; sender: Address };
+    const key = roleKey(event.contract, role);
+    if (!members.has(key)) members.set(key, new Map());
+    const holders = members.get(key) as Map<string, RoleMember>;
+
+    if (event.eventName === "RoleGranted") {
+      holders.set(account.toLowerCase(), {
+        account: getAddress(account),
+        grantedBy: getAddress(sender),
+        grantedAt: event.blockNumber,
+      });
+    } else if (event.eventName === "RoleRevoked") {
+      holders.delete(account.toLowerCase());
+    }
+  }
+
+  return new Map([...members].map(([key, holders]) => [key, [...holders.values()]]));
+};
+
+// Declared roles plus any others granted on the module
+const getKnownRoles = (contract: ContractName, members: Map<RoleKey, RoleMember[]>) => {
+  const seen = [...members.keys()]
+    .filter((key) => key.startsWith(`${contract}:`))
+    .map((key) => key.slice(contract.length + 1) as Hex);
+  return [...new Set([...getDeclaredRoles(contract), ...seen])];
+};
+
+/**
+ * The admin role of every known role, read with getRoleAdmin. Roles whose
+ * read fails are left out and treated as DEFAULT_ADMIN_ROLE-administered,
+ * which is what they are until setRoleAdmin is called.
+ */
+export const getRoleAdmins = async (
+  client: HedVaultClient,
+  contracts: ContractName[],
+  members: Map<RoleKey, RoleMember[]>
+) => {
+  const reads = contracts.flatMap((contract) => {
+    const address = getContractAddress(contract, client.chainId);
+    if (!address) return [];
+    return getKnownRoles(contract, members).map(async (role) => {
+      try {
+        const adminRole = (await client.publicClient.readContract({
+          address,
+          abi: HEDVAULT_ABIS[contract] as Abi,
+          functionName: "getRoleAdmin",
+          args: [role],
+        })) as Hex;
+        return [[roleKey(contract, role), adminRole] as const];
+      } catch {
+        return [];
+      }
+    });
+  });
+  return new Map((await Promise.all(reads)).flat());
+};
+
+// Lower-cased accounts among `accounts` that have contract code
+export const getContractAccounts = async (client: HedVaultClient, accounts: Address[]) => {
+  const unique = [...new Set(accounts.map((account) => account.toLowerCase() as Address))];
+  const codes = await Promise.all(
+    unique.map((address) => client.publicClient.getCode({ address }).catch(() => undefined))
+  );
+  return new Set<string>(unique.filter((_, index) => !!codes[index] && codes[index] !== "0x"));
+};
+
+// Every known role on each module with its holders and admin role
+export const buildRoleEntries = (
+  contracts: ContractName[],
+  members: Map<RoleKey, RoleMember[]>,
+  adminRoles: Map<RoleKey, Hex>
+): RoleEntry[] =>
+  contracts.flatMap((contract) =>
+    getKnownRoles(contract, members).map((role) => ({
+      contract,
+      role,
+      name: getRoleName(role),
+      adminRole: adminRoles.get(roleKey(contract, role)) ?? zeroHash,
+      members: members.get(roleKey(contract, role)) ?? [],
+    }))
+  );
+
+export type RoleRiskLevel = "critical" | "warning" | "info";
+
+export interface RoleRisk {
+  level: RoleRiskLevel;
+  title: string;
+  detail: string;
+  contract?: ContractName;
+  account?: Address;
+}
+
+export interface RoleRiskInput {
+  entries: RoleEntry[];
+  // Lower-cased accounts known to have contract code; anything else is an EOA
+  contractAccounts: Set<string>;
+  // HedVaultCore's owner, which plays the default admin's part there
+  coreOwner?: Address;
+  unguarded?: UnguardedFunction[];
+}
+
+const RISK_ORDER: Record<RoleRiskLevel, number> = { critical: 0, warning: 1, info: 2 };
+
+const short = (account: Address) => `${account.slice(0, 6)}…${account.slice(-4)}`;
+
+/**
+ * Flags setups where one key or one mistake decides too much: admin
+ * functions anyone can call, a single EOA administering every module, admin
+ * roles nobody holds, and roles that no longer have anyone to exercise them.
+ */
+export const findRoleRisks = ({ entries, contractAccounts, coreOwner, unguarded = [] }: RoleRiskInput): RoleRisk[] => {
+  const risks: RoleRisk[] = [];
+
+  for (const contract of [...new Set(unguarded.map((item) => item.contract))]) {
+    const open = unguarded
+      .filter((item) => item.contract === contract)
+      .map(({ functionName, effect }) => `${effect} (${functionName})`);
+    risks.push({
+      level: "critical",
+      title: `${contract} admin functions are unguarded`,
+      detail: `${contract} has no access control, so any account can ${
+        open.length > 1 ? `${open.slice(0, -1).join(", ")} and ${open[open.length - 1]}` : open[0]
+      }.`,
+      contract,
+    });
+  }
+
+  const isEoa = (account: Address) => !contractAccounts.has(account.toLowerCase());
+  const contracts = [...new Set(entries.map((entry) => entry.contract))];
+  const find = (contract: ContractName, role: Hex) =>
+    entries.find((entry) => entry.contract === contract && entry.role.toLowerCase() === role.toLowerCase());
+
+  // Default admins per account, across every module
+  const adminOf = new Map<string, { account: Address; contracts: ContractName[] }>();
+  for (const contract of contracts) {
+    for (const { account } of find(contract, zeroHash)?.members ?? []) {
+      const holder = adminOf.get(account.toLowerCase()) ?? { account, contracts: [] };
+      holder.contracts.push(contract);
+      adminOf.set(account.toLowerCase(), holder);
+    }
+  }
+
+  for (const { account, contracts: administered } of adminOf.values()) {
+    if (!isEoa(account)) continue;
+    if (contracts.length > 1 && administered.length === contracts.length) {
+      const ownsCore = !!coreOwner && coreOwner.toLowerCase() === account.toLowerCase();
+      risks.push({
+        level: "critical",
+        title: "One EOA administers every module",
+        detail: `${short(account)} holds DEFAULT_ADMIN_ROLE on all ${contracts.length} modules${
+          ownsCore ? " and owns HedVaultCore" : ""
+        }. A single leaked key could reassign every role; move it to a multisig or timelock.`,
+        account,
+      });
+    } else {
+      for (const contract of administered) {
+        risks.push({
+          level: "warning",
+          title: "EOA holds DEFAULT_ADMIN_ROLE",
+          detail: `${short(account)} can grant and revoke every role on ${contract}.`,
+          contract,
+          account,
+        });
+      }
+    }
+  }
+
+  for (const contract of contracts) {
+    const roles = entries.filter((entry) => entry.contract === contract);
+
+    // An admin role nobody holds freezes every role it administers
+    const adminRoles = [...new Set(roles.map((entry) => entry.adminRole.toLowerCase() as Hex))];
+    for (const adminRole of adminRoles) {
+      if ((find(contract, adminRole)?.members.length ?? 0) > 0) continue;
+      const frozen = roles.filter((entry) => entry.adminRole.toLowerCase() === adminRole);
+      risks.push({
+        level: adminRole === zeroHash ? "critical" : "warning",
+        title: `Nobody holds ${formatRole(adminRole)}`,
+        detail: `${frozen.map((entry) => formatRole(entry.role)).join(", ")} on ${contract} can no longer be granted or revoked.`,
+        contract,
+      });
+    }
+
+    const emergency = find(contract, getRoleId("EMERGENCY_ROLE"));
+    if (emergency && emergency.members.length === 0) {
+      risks.push({
+        level: "warning",
+        title: "No emergency responder",
+        detail: `Nobody holds EMERGENCY_ROLE on ${contract}, so it cannot be paused in an incident.`,
+        contract,
+      });
+    }
+
+    for (const entry of roles) {
+      if (entry.role === zeroHash || entry.adminRole.toLowerCase() !== entry.role.toLowerCase()) continue;
+      risks.push({
+        level: "info",
+        title: `${formatRole(entry.role)} administers itself`,
+        detail: `Any holder of ${formatRole(entry.role)} on ${contract} can add or remove the others.`,
+        contract,
+      });
+    }
+  }
+
+  return risks.sort((a, b) => RISK_ORDER[a.level] - RISK_ORDER[b.level]);
+};
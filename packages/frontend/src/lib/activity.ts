@@ -0,0 +1,276 @@
+/**
+ * HedVault Activity Feed
+ * Turns indexed protocol events into per-user activity entries
+ */
+
+import { type Address, type Hash, isAddressEqual } from "viem";
+import { getContractNativeUnit } from "./chains";
+import type { ContractName } from "./contracts";
+import type { ContractEventNameOf, IndexedEvent } from "./indexer";
+
+export const ACTIVITY_TYPES = ["Swap", "Order", "Loan", "Deposit", "Reward", "Bridge"] as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+// Events that make up a user's activity feed, per contract
+export const ACTIVITY_EVENTS = {
+  SwapEngine: ["SwapExecuted", "LiquidityAdded", "LiquidityRemoved"],
+  // Fills only emit TradeExecuted; OrderFilled is declared but never emitted
+  Marketplace: ["OrderCreated", "TradeExecuted", "OrderCancelled", "BidPlaced", "AuctionSettled"],
+  LendingPool: ["LoanCreated", "LoanRepaid", "LoanLiquidated", "Deposit", "Withdraw"],
+  RewardsDistributor: ["RewardClaimed", "Staked", "Unstaked", "VestingReleased"],
+  CrossChainBridge: ["BridgeInitiated", "BridgeCompleted"],
+} satisfies { [C in ContractName]?: ContractEventNameOf<C>[] };
+
+export const ACTIVITY_CONTRACTS = Object.keys(ACTIVITY_EVENTS) as ContractName[];
+export const ACTIVITY_EVENT_NAMES: string[] = Object.values(ACTIVITY_EVENTS).flat();
+
+export interface ActivityAmount {
+  // Token the amount is denominated in; null when it cannot be determined
+  token: Address | null;
+  value: bigint;
+  // Fixed unit for amounts that are not ERC20 balances (LP shares, native bids)
+  unit?: { symbol: string; decimals: number };
+}
+
+const LP_SHARES = { symbol: "LP", decimals: 18 };
+
+export interface ActivityItem {
+  id: string;
+  type: ActivityType;
+  label: string;
+  // Tokens involved, used for asset filtering
+  assets: Address[];
+  // First amount is the headline; a second one is what was received/paid in return
+  amounts: ActivityAmount[];
+  contract: ContractName;
+  eventName: string;
+  transactionHash: Hash;
+  blockNumber: bigint;
+  timestamp: bigint | null;
+}
+
+/**
+ * Lookups for events that only carry an id (repayments, liquidations), built
+ * from the events that created those ids
+ */
+export interface ActivityContext {
+  rewardToken?: Address;
+  // Whose feed this is, to tell the buying side of a trade from the selling one
+  account?: Address;
+  loanTokens: Map<string, { collateralToken: Address; borrowToken: Address }>;
+  // Unit of native amounts such as Marketplace auction bids
+  nativeUnit: { symbol: string; decimals: number };
+}
+
+type Args = Record<string, unknown>;
+
+const addressArg = (args: Args, key: string) => args[key] as Address | undefined;
+const bigintArg = (args: Args, key: string) => (args[key] as bigint | undefined) ?? BigInt(0);
+
+export const buildActivityContext = (
+  chainId: number,
+  events: IndexedEvent[],
+  rewardToken?: Address,
+  account?: Address
+): ActivityContext => {
+  const context: ActivityContext = {
+    rewardToken,
+    account,
+    loanTokens: new Map(),
+    nativeUnit: getContractNativeUnit(chainId),
+  };
+
+  for (const event of events) {
+    const args = event.args as Args;
+    if (event.contract === "LendingPool" && event.eventName === "LoanCreated") {
+      context.loanTokens.set(String(args.loanId), {
+        collateralToken: args.collateralToken as Address,
+        borrowToken: args.borrowToken as Address,
+      });
+    }
+  }
+
+  return context;
+};
+
+// Marketplace and LendingPool emit these twice: their own event and the
+// Events library's, with different signatures. Both copies share the
+// transaction and the id they are about.
+const DOUBLE_EMITTED: Record<string, string> = {
+  "Marketplace.OrderCreated": "orderId",
+  "Marketplace.OrderCancelled": "orderId",
+  "LendingPool.LoanRepaid": "loanId",
+  "LendingPool.LoanLiquidated": "loanId",
+};
+
+/**
+ * Keeps one copy of each double-emitted event, whichever comes first, so an
+ * action shows up once in the feed
+ */
+export const dedupeActivityEvents = (events: IndexedEvent[]) => {
+  const seen = new Set<string>();
+  return events.filter((event) => {
+    const name = `${event.contract}.${event.eventName}`;
+    const idArg = DOUBLE_EMITTED[name];
+    if (!idArg) return true;
+    const key = `${event.transactionHash}:${name}:${String((event.args as Args)[idArg])}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const toActivityItem = (
+  event: IndexedEvent,
+  context: ActivityContext
+): ActivityItem | null => {
+  const args = event.args as Args;
+  const base = {
+    id: event.id,
+    contract: event.contract,
+    eventName: event.eventName,
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    timestamp: event.blockTimestamp,
+  };
+  const item = (
+    type: ActivityType,
+    label: string,
+    amounts: ActivityAmount[]
+  ): ActivityItem => ({
+    ...base,
+    type,
+    label,
+    amounts,
+    assets: [...new Set(amounts.flatMap((amount) => (amount.token ? [amount.token] : [])))],
+  });
+
+  switch (`${event.contract}.${event.eventName}`) {
+    case "SwapEngine.SwapExecuted":
+      return item("Swap", "Swap", [
+        { token: addressArg(args, "tokenIn") ?? null, value: bigintArg(args, "amountIn") },
+        { token: addressArg(args, "tokenOut") ?? null, value: bigintArg(args, "amountOut") },
+      ]);
+    case "SwapEngine.LiquidityAdded":
+      return item("Deposit", `Add liquidity · pool #${args.poolId}`, [
+        { token: null, value: bigintArg(args, "liquidity"), unit: LP_SHARES },
+      ]);
+    case "SwapEngine.LiquidityRemoved":
+      return item("Deposit", `Remove liquidity · pool #${args.poolId}`, [
+        { token: null, value: bigintArg(args, "liquidity"), unit: LP_SHARES },
+      ]);
+
+    case "Marketplace.OrderCreated": {
+      // Marketplace order type 0 is BUY, 1 is SELL
+      const side = Number(args.orderType) === 0 ? "Buy order" : "Sell order";
+      const asset = addressArg(args, "asset") ?? addressArg(args, "tokenAddress") ?? null;
+      return item("Order", `${side} #${args.orderId}`, [
+        { token: asset, value: bigintArg(args, "amount") },
+      ]);
+    }
+    case "Marketplace.TradeExecuted": {
+      const { account } = context;
+      const side =
+        account && isAddressEqual(account, args.buyer as Address)
+          ? "Bought"
+          : account && isAddressEqual(account, args.seller as Address)
+            ? "Sold"
+            : "Trade";
+      return item("Order", `${side} · trade #${args.tradeId}`, [
+        { token: addressArg(args, "asset") ?? null, value: bigintArg(args, "amount") },
+      ]);
+    }
+    case "Marketplace.OrderCancelled":
+      return item("Order", `Order #${args.orderId} cancelled`, []);
+    case "Marketplace.BidPlaced":
+      return item("Order", `Bid on auction #${args.auctionId}`, [
+        { token: null, value: bigintArg(args, "amount"), unit: context.nativeUnit },
+      ]);
+    case "Marketplace.AuctionSettled":
+      return item("Order", `Auction #${args.auctionId} settled`, [
+        { token: null, value: bigintArg(args, "finalPrice"), unit: context.nativeUnit },
+      ]);
+
+    case "LendingPool.LoanCreated":
+      return item("Loan", `Loan #${args.loanId}`, [
+        { token: addressArg(args, "borrowToken") ?? null, value: bigintArg(args, "borrowAmount") },
+        {
+          token: addressArg(args, "collateralToken") ?? null,
+          value: bigintArg(args, "collateralAmount"),
+        },
+      ]);
+    case "LendingPool.LoanRepaid":
+      return item("Loan", `Loan #${args.loanId} repaid`, [
+        {
+          token: context.loanTokens.get(String(args.loanId))?.borrowToken ?? null,
+          value: bigintArg(args, "repaidAmount"),
+        },
+      ]);
+    case "LendingPool.LoanLiquidated":
+      return item("Loan", `Loan #${args.loanId} liquidated`, [
+        {
+          token: context.loanTokens.get(String(args.loanId))?.collateralToken ?? null,
+          value: bigintArg(args, "collateralSeized"),
+        },
+      ]);
+    case "LendingPool.Deposit":
+      return item("Deposit", "Deposit", [
+        { token: addressArg(args, "token") ?? null, value: bigintArg(args, "amount") },
+      ]);
+    case "LendingPool.Withdraw":
+      return item("Deposit", "Withdraw", [
+        { token: addressArg(args, "token") ?? null, value: bigintArg(args, "amount") },
+      ]);
+
+    case "RewardsDistributor.RewardClaimed":
+      return item("Reward", "Reward claimed", [
+        { token: context.rewardToken ?? null, value: bigintArg(args, "amount") },
+      ]);
+    case "RewardsDistributor.Staked":
+      return item("Reward", "Staked", [
+        { token: context.rewardToken ?? null, value: bigintArg(args, "amount") },
+      ]);
+    case "RewardsDistributor.Unstaked":
+      return item("Reward", "Unstaked", [
+        { token: context.rewardToken ?? null, value: bigintArg(args, "amount") },
+      ]);
+    case "RewardsDistributor.VestingReleased":
+      return item("Reward", "Vesting released", [
+        { token: context.rewardToken ?? null, value: bigintArg(args, "amount") },
+      ]);
+
+    case "CrossChainBridge.BridgeInitiated":
+      return item("Bridge", `Bridge to chain ${args.destinationChain}`, [
+        { token: addressArg(args, "asset") ?? null, value: bigintArg(args, "amount") },
+      ]);
+    case "CrossChainBridge.BridgeCompleted":
+      return item("Bridge", "Bridge completed", [
+        { token: addressArg(args, "asset") ?? null, value: bigintArg(args, "amount") },
+      ]);
+
+    default:
+      return null;
+  }
+};
+
+// "5 minutes ago" style label for a unix timestamp in seconds
+export const formatTimeAgo = (timestamp: bigint | null, now = Date.now()) => {
+  if (timestamp === null) return "Pending timestamp";
+
+  const seconds = Math.max(0, Math.floor(now / 1000 - Number(timestamp)));
+  const units: [number, string][] = [
+    [60 * 60 * 24 * 7, "week"],
+    [60 * 60 * 24, "day"],
+    [60 * 60, "hour"],
+    [60, "minute"],
+  ];
+
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      const count = Math.floor(seconds / size);
+      return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+    }
+  }
+  return "Just now";
+};
@@ -0,0 +1,165 @@
+/**
+ * HedVault Admin
+ * Operator controls, who may use them, and the before/after rows shown when
+ * confirming a change
+ */
+
+import { type Address, isAddressEqual } from "viem";
+import type { ContractName } from "./contracts";
+import { type HedVaultClient, type ProtocolLimits, type RoleName, getRoleId } from "./sdk";
+
+// HedVaultCore fee types and their caps, in basis points
+export const CORE_FEE_TYPES = [
+  { type: "trading", label: "Trading fee", max: 500 },
+  { type: "lending", label: "Lending fee", max: 1000 },
+  { type: "swap", label: "Swap fee", max: 300 },
+  { type: "bridge", label: "Bridge fee", max: 1000 },
+] as const;
+
+export type CoreFeeType = (typeof CORE_FEE_TYPES)[number]["type"];
+
+// HedVaultCore limit types and where getProtocolLimits reports each
+export const PROTOCOL_LIMIT_TYPES = [
+  { type: "maxTVL", label: "Max TVL", field: "maxTVLLimit" },
+  { type: "minTransactionAmount", label: "Min transaction", field: "minTxAmount" },
+  { type: "maxTransactionAmount", label: "Max transaction", field: "maxTxAmount" },
+] as const satisfies readonly { type: string; label: string; field: keyof ProtocolLimits }[];
+
+// Module slots HedVaultCore.updateModule accepts, named as its getters
+export const CORE_MODULE_TYPES = [
+  "rwaTokenFactory",
+  "marketplace",
+  "swapEngine",
+  "lendingPool",
+  "rewardsDistributor",
+  "priceOracle",
+  "complianceManager",
+  "portfolioManager",
+  "crossChainBridge",
+  "analyticsEngine",
+] as const;
+
+export type CoreModuleType = (typeof CORE_MODULE_TYPES)[number];
+
+// Caps the contracts enforce, in basis points
+export const MARKETPLACE_MAX_FEE = 1000;
+export const LENDING_COLLATERAL_FACTOR_RANGE = { min: 1000, max: 9000 } as const;
+export const LENDING_MAX_LIQUIDATION_BONUS = 2000;
+
+// Roles an account can be granted on the Marketplace
+export const MARKETPLACE_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "MARKETPLACE_ADMIN_ROLE",
+  "FEE_MANAGER_ROLE",
+  "EMERGENCY_ROLE",
+] as const satisfies readonly RoleName[];
+
+type RoleModule = "marketplace" | "lending";
+
+/**
+ * What each control needs. HedVaultCore predates the role-based contracts:
+ * module swaps are owner-only and everything else takes a listed admin.
+ */
+export const ADMIN_CONTROLS = {
+  coreModules: { contract: "HedVaultCore", label: "Protocol modules", requires: "owner" },
+  coreFees: { contract: "HedVaultCore", label: "Protocol fees", requires: "admin" },
+  coreLimits: { contract: "HedVaultCore", label: "Protocol limits", requires: "admin" },
+  corePause: { contract: "HedVaultCore", label: "Pause protocol", requires: "admin" },
+  marketplaceFees: {
+    contract: "Marketplace",
+    label: "Marketplace fees",
+    module: "marketplace",
+    requires: "FEE_MANAGER_ROLE",
+  },
+  marketplaceAssets: {
+    contract: "Marketplace",
+    label: "Asset trading",
+    module: "marketplace",
+    requires: "MARKETPLACE_ADMIN_ROLE",
+  },
+  marketplaceEmergency: {
+    contract: "Marketplace",
+    label: "Emergency stop",
+    module: "marketplace",
+    requires: "EMERGENCY_ROLE",
+  },
+  marketplaceRoles: {
+    contract: "Marketplace",
+    label: "Marketplace roles",
+    module: "marketplace",
+    requires: "DEFAULT_ADMIN_ROLE",
+  },
+  lendingTokens: {
+    contract: "LendingPool",
+    label: "Lending tokens",
+    module: "lending",
+    requires: "POOL_ADMIN_ROLE",
+  },
+} as const satisfies Record<
+  string,
+  { contract: ContractName; label: string; module?: RoleModule; requires: "owner" | "admin" | RoleName }
+>;
+
+export type AdminControl = keyof typeof ADMIN_CONTROLS;
+
+export type AdminAccess = Record<AdminControl, boolean>;
+
+const hasRole = (client: HedVaultClient, module: RoleModule, role: RoleName, account: Address) => {
+  const args = [getRoleId(role), account] as const;
+  switch (module) {
+    case "marketplace":
+      return client.marketplace.read.hasRole(args);
+    case "lending":
+      return client.lending.read.hasRole(args);
+  }
+};
+
+/**
+ * Which controls `account` may use. A contract that can't be read (not
+ * deployed on this chain, or an older build without roles) grants nothing.
+ */
+export const getAdminAccess = async (client: HedVaultClient, account: Address): Promise<AdminAccess> => {
+  const checks = new Map<string, Promise<boolean>>();
+  const check = (key: string, read: () => Promise<boolean>) => {
+    if (!checks.has(key)) checks.set(key, read().catch(() => false));
+    return checks.get(key) as Promise<boolean>;
+  };
+
+  const entries = await Promise.all(
+    Object.entries(ADMIN_CONTROLS).map(async ([control, permission]) => {
+      if (!("module" in permission)) {
+        return [
+          control,
+          permission.requires === "owner"
+            ? await check("owner", async () => isAddressEqual(await client.core.read.owner(), account))
+            : await check("admin", () => client.core.isAdmin(account)),
+        ] as const;
+      }
+      const { module, requires } = permission;
+      return [control, await check(`${module}:${requires}`, () => hasRole(client, module, requires, account))] as const;
+    })
+  );
+  return Object.fromEntries(entries) as AdminAccess;
+};
+
+// One setting in a confirmation, before and after the change
+export interface ChangeRow {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export const isChanged = (row: ChangeRow) => row.from !== row.to;
+
+// "0.5% (50 bps)"
+export const formatBps = (bps: bigint | number) =>
+  `${(Number(bps) / 100).toLocaleString("en-US", { maximumFractionDigits: 2 })}% (${bps} bps)`;
+
+// Whole basis points typed as a percentage, e.g. "0.25" -> 25; undefined when not one
+export const parsePercentToBps = (input: string): number | undefined => {
+  const trimmed = input.trim();
+  if (!/^\d+(\.\d{0,2})?$/.test(trimmed)) return undefined;
+  return Math.round(Number(trimmed) * 100);
+};
+
+export const bpsToPercentInput = (bps: bigint | number) => String(Number(bps) / 100);
@@ -0,0 +1,174 @@
+/**
+ * HedVault Read Batching
+ * A viem transport that coalesces reads before they reach the RPC.
+ *
+ * Plain `eth_call`s ({ to, data } only) issued within a short window are
+ * folded into one Multicall3 `aggregate3` call when the chain has Multicall3
+ * deployed. Everything else, and every call on chains without it, goes out
+ * as a JSON-RPC batch. Identical in-flight requests share one response
+ * either way, so ten components asking for the same balance cost one read.
+ */
+
+import {
+  type EIP1193RequestFn,
+  type Hex,
+  type Transport,
+  RpcRequestError,
+  decodeFunctionResult,
+  encodeFunctionData,
+  http,
+  multicall3Abi,
+} from "viem";
+
+// Same address on every chain that has it (deterministic deployment)
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export interface BatchedTransportConfig {
+  // How long to collect calls before sending, in ms
+  wait?: number;
+  // Most calls per multicall or JSON-RPC batch
+  batchSize?: number;
+}
+
+interface PendingCall {
+  to: Hex;
+  data: Hex;
+  resolve: (result: Hex) => void;
+  reject: (error: unknown) => void;
+}
+
+type RpcRequest = { method: string; params?: unknown };
+
+// Only bare reads can be aggregated: Multicall3 becomes msg.sender, so
+// anything with from/value/gas or state overrides must be sent as is.
+const asAggregatableCall = ({ method, params }: RpcRequest) => {
+  if (method !== "eth_call" || !Array.isArray(params) || params.length > 2) return undefined;
+  const [call, block = "latest"] = params as [Record<string, unknown>, unknown];
+  const keys = Object.keys(call).filter((key) => call[key] !== undefined);
+  const isBare = keys.length === 2 && typeof call.to === "string" && typeof call.data === "string";
+  if (!isBare || typeof block !== "string") return undefined;
+  if ((call.to as string).toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()) return undefined;
+  return { to: call.to as Hex, data: call.data as Hex, block };
+};
+
+// Requests with side effects or per-caller state are never shared
+const NOT_SHAREABLE = /^(eth_send|eth_sign|eth_new|eth_uninstall|eth_subscribe|personal_|wallet_)/;
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/**
+ * HTTP transport with Multicall3 aggregation, JSON-RPC batching and request
+ * de-duplication. Drop-in for viem's/wagmi's `http()`.
+ */
+export const batchedTransport =
+  (url?: string, { wait = 16, batchSize = 100 }: BatchedTransportConfig = {}): Transport =>
+  (params) => {
+    const base = http(url, { batch: { wait, batchSize } })(params);
+    const send = base.request as (args: RpcRequest) => Promise<unknown>;
+
+    const inflight = new Map<string, Promise<unknown>>();
+    const queues = new Map<string, PendingCall[]>();
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    let multicallAvailable: Promise<boolean> | undefined;
+
+    // Probed once per transport; a missing contract just means no aggregation.
+    // A failed probe is retried on the next flush.
+    const hasMulticall = () =>
+      (multicallAvailable ??= send({ method: "eth_getCode", params: [MULTICALL3_ADDRESS, "latest"] })
+        .then((code) => typeof code === "string" && code !== "0x")
+        .catch(() => {
+          multicallAvailable = undefined;
+          return false;
+        }));
+
+    const sendIndividually = (block: string, calls: PendingCall[]) =>
+      calls.forEach(({ to, data, resolve, reject }) =>
+        send({ method: "eth_call", params: [{ to, data }, block] }).then(
+          (result) => resolve(result as Hex),
+          reject
+        )
+      );
+
+    const sendAggregated = async (block: string, calls: PendingCall[]) => {
+      let results: readonly { success: boolean; returnData: Hex }[];
+      try {
+        const response = await send({
+          method: "eth_call",
+          params: [
+            {
+              to: MULTICALL3_ADDRESS,
+              data: encodeFunctionData({
+                abi: multicall3Abi,
+                functionName: "aggregate3",
+                args: [calls.map(({ to, data }) => ({ target: to, allowFailure: true, callData: data }))],
+              }),
+            },
+            block,
+          ],
+        });
+        results = decodeFunctionResult({
+          abi: multicall3Abi,
+          functionName: "aggregate3",
+          data: response as Hex,
+        });
+      } catch {
+        // e.g. the aggregate ran out of gas; the calls may still work alone
+        sendIndividually(block, calls);
+        return;
+      }
+
+      calls.forEach(({ resolve, reject }, i) => {
+        const { success, returnData } = results[i];
+        if (success) {
+          resolve(returnData);
+          return;
+        }
+        // Shaped like the node's own revert so viem decodes the reason as usual
+        reject(
+          new RpcRequestError({
+            body: { method: "eth_call" },
+            error: { code: 3, message: "execution reverted", data: returnData },
+            url: url ?? params.chain?.rpcUrls.default.http[0] ?? "",
+          })
+        );
+      });
+    };
+
+    const flush = async () => {
+      flushTimer = undefined;
+      const batches = [...queues.entries()];
+      queues.clear();
+
+      const aggregate = await hasMulticall();
+      for (const [block, calls] of batches) {
+        for (const group of chunk(calls, batchSize)) {
+          if (aggregate && group.length > 1) void sendAggregated(block, group);
+          else sendIndividually(block, group);
+        }
+      }
+    };
+
+    const enqueue = (call: { to: Hex; data: Hex; block: string }) =>
+      new Promise<Hex>((resolve, reject) => {
+        const queue = queues.get(call.block) ?? [];
+        queue.push({ to: call.to, data: call.data, resolve, reject });
+        queues.set(call.block, queue);
+        flushTimer ??= setTimeout(flush, wait);
+      });
+
+    const request = (args: RpcRequest) => {
+      if (NOT_SHAREABLE.test(args.method)) return send(args);
+
+      const key = JSON.stringify(args);
+      const existing = inflight.get(key);
+      if (existing) return existing;
+
+      const call = asAggregatableCall(args);
+      const pending = (call ? enqueue(call) : send(args)).finally(() => inflight.delete(key));
+      inflight.set(key, pending);
+      return pending;
+    };
+
+    return { ...base, request: request as EIP1193RequestFn };
+  };
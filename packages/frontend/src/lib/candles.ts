@@ -0,0 +1,223 @@
+/**
+ * HedVault Price Candles
+ * Open/high/low/close/volume series built from indexed trades, swaps and
+ * oracle updates
+ */
+
+import { type Address, isAddressEqual } from "viem";
+import type { ContractName } from "./contracts";
+import type { IndexedEvent } from "./indexer";
+import { amountToNumber } from "./sdk";
+
+// Bucket sizes in seconds
+export const CANDLE_INTERVALS = {
+  "5m": 5 * 60,
+  "15m": 15 * 60,
+  "1h": 60 * 60,
+  "4h": 4 * 60 * 60,
+  "1d": 24 * 60 * 60,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+export const PRICE_SOURCES = ["marketplace", "swap", "oracle"] as const;
+
+export type PriceSource = (typeof PRICE_SOURCES)[number];
+
+// Events each source is built from. Marketplace fills only emit
+// TradeExecuted; OrderFilled and MarketOrderExecuted are never emitted
+export const CANDLE_EVENTS = {
+  marketplace: { contract: "Marketplace", eventNames: ["TradeExecuted"] },
+  swap: { contract: "SwapEngine", eventNames: ["SwapExecuted"] },
+  oracle: { contract: "PriceOracle", eventNames: ["PriceUpdated"] },
+} as const satisfies Record<PriceSource, { contract: ContractName; eventNames: readonly string[] }>;
+
+// One observed price, in quote units per whole asset token
+export interface PricePoint {
+  // Unix seconds
+  timestamp: number;
+  price: number;
+  // Asset traded at this price, in whole tokens; zero for oracle updates
+  volume: number;
+}
+
+export interface Candle {
+  // Start of the bucket, unix seconds
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  // Points in the bucket; zero for a gap carried over from the last close
+  trades: number;
+}
+
+type Args = Record<string, unknown>;
+
+const sameToken = (a: unknown, b: Address) => typeof a === "string" && isAddressEqual(a as Address, b);
+
+// Orders a TradeExecuted event names; market orders leave their own side as 0
+export const getTradeOrderIds = (args: Args) =>
+  [args.buyOrderId, args.sellOrderId].flatMap((id) =>
+    typeof id === "bigint" && id > BigInt(0) ? [id.toString()] : []
+  );
+
+/**
+ * Marketplace fills of `asset` priced in `quote`. TradeExecuted doesn't say
+ * which payment token was used, so `paymentTokens` maps order ids (as
+ * strings) to the payment token of the order they were matched against.
+ */
+export const getTradePricePoints = (
+  events: IndexedEvent[],
+  {
+    asset,
+    quote,
+    assetDecimals,
+    quoteDecimals,
+    paymentTokens,
+  }: {
+    asset: Address;
+    quote: Address;
+    assetDecimals: number;
+    quoteDecimals: number;
+    paymentTokens: Map<string, Address>;
+  }
+): PricePoint[] =>
+  events.flatMap((event) => {
+    const args = event.args as Args;
+    if (event.eventName !== "TradeExecuted" || !sameToken(args.asset, asset) || event.blockTimestamp === null) {
+      return [];
+    }
+    const paymentToken = getTradeOrderIds(args).map((id) => paymentTokens.get(id)).find(Boolean);
+    if (!paymentToken || !isAddressEqual(paymentToken, quote)) return [];
+
+    // Order prices are quote units per 1e18 asset units
+    const price = ((args.price as bigint) * BigInt(10) ** BigInt(assetDecimals)) / BigInt(10) ** BigInt(18);
+    return [
+      {
+        timestamp: Number(event.blockTimestamp),
+        price: amountToNumber(price, quoteDecimals),
+        volume: amountToNumber(args.amount as bigint, assetDecimals),
+      },
+    ];
+  });
+
+/**
+ * Swaps between `asset` and `quote` in either direction, priced from the
+ * amounts that changed hands (so including the pool fee)
+ */
+export const getSwapPricePoints = (
+  events: IndexedEvent[],
+  {
+    asset,
+    quote,
+    assetDecimals,
+    quoteDecimals,
+  }: { asset: Address; quote: Address; assetDecimals: number; quoteDecimals: number }
+): PricePoint[] =>
+  events.flatMap((event) => {
+    const args = event.args as Args;
+    if (event.eventName !== "SwapExecuted" || event.blockTimestamp === null) return [];
+
+    const selling = sameToken(args.tokenIn, asset) && sameToken(args.tokenOut, quote);
+    const buying = sameToken(args.tokenIn, quote) && sameToken(args.tokenOut, asset);
+    if (!selling && !buying) return [];
+
+    const assetAmount = amountToNumber((selling ? args.amountIn : args.amountOut) as bigint, assetDecimals);
+    const quoteAmount = amountToNumber((selling ? args.amountOut : args.amountIn) as bigint, quoteDecimals);
+    if (assetAmount === 0) return [];
+    return [{ timestamp: Number(event.blockTimestamp), price: quoteAmount / assetAmount, volume: assetAmount }];
+  });
+
+// Tokens `asset` has been swapped against, most recent first
+export const getSwapCounterTokens = (events: IndexedEvent[], asset: Address): Address[] => {
+  const tokens = new Map<string, Address>();
+  for (const event of events) {
+    const args = event.args as Args;
+    if (event.eventName !== "SwapExecuted") continue;
+    const counter = sameToken(args.tokenIn, asset)
+      ? (args.tokenOut as Address)
+      : sameToken(args.tokenOut, asset)
+        ? (args.tokenIn as Address)
+        : undefined;
+    if (counter && !tokens.has(counter.toLowerCase())) tokens.set(counter.toLowerCase(), counter);
+  }
+  return [...tokens.values()];
+};
+
+// Oracle prices of `asset` in USD, timed by the update rather than the block
+export const getOraclePricePoints = (
+  events: IndexedEvent[],
+  { asset, priceDecimals }: { asset: Address; priceDecimals: number }
+): PricePoint[] =>
+  events.flatMap((event) => {
+    const args = event.args as Args;
+    if (event.eventName !== "PriceUpdated" || !sameToken(args.asset, asset)) return [];
+    return [
+      {
+        timestamp: Number(args.timestamp as bigint),
+        price: amountToNumber(args.price as bigint, priceDecimals),
+        volume: 0,
+      },
+    ];
+  });
+
+/**
+ * The last `limit` candles up to the one containing `now`. Buckets without
+ * points repeat the previous close with no volume, so the series has no holes
+ * once it has started. Points with the same timestamp keep their order, so
+ * pass them oldest first.
+ */
+export const buildCandles = (
+  points: PricePoint[],
+  interval: number,
+  { limit = 60, now = Math.floor(Date.now() / 1000) }: { limit?: number; now?: number } = {}
+): Candle[] => {
+  const end = Math.floor(now / interval) * interval;
+  const start = end - (limit - 1) * interval;
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+
+  let previousClose: number | undefined;
+  const buckets = new Map<number, PricePoint[]>();
+  for (const point of sorted) {
+    if (point.timestamp < start) {
+      previousClose = point.price;
+      continue;
+    }
+    if (point.timestamp >= end + interval) continue;
+    const time = Math.floor(point.timestamp / interval) * interval;
+    const bucket = buckets.get(time) ?? [];
+    bucket.push(point);
+    buckets.set(time, bucket);
+  }
+
+  const candles: Candle[] = [];
+  for (let time = start; time <= end; time += interval) {
+    const bucket = buckets.get(time);
+    if (bucket) {
+      const prices = bucket.map((point) => point.price);
+      candles.push({
+        time,
+        open: prices[0],
+        high: Math.max(...prices),
+        low: Math.min(...prices),
+        close: prices[prices.length - 1],
+        volume: bucket.reduce((total, point) => total + point.volume, 0),
+        trades: bucket.length,
+      });
+      previousClose = prices[prices.length - 1];
+    } else if (previousClose !== undefined) {
+      candles.push({
+        time,
+        open: previousClose,
+        high: previousClose,
+        low: previousClose,
+        close: previousClose,
+        volume: 0,
+        trades: 0,
+      });
+    }
+  }
+  return candles;
+};
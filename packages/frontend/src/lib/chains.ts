@@ -0,0 +1,108 @@
+/**
+ * HedVault Chain Definitions
+ * Networks the protocol can be deployed to, keyed by EVM chain id
+ */
+
+import { defineChain } from "viem";
+import { foundry } from "viem/chains";
+
+export const hederaMainnet = defineChain({
+  id: 295,
+  name: "Hedera Mainnet",
+  nativeCurrency: {
+    decimals: 18,
+    name: "HBAR",
+    symbol: "HBAR",
+  },
+  rpcUrls: {
+    default: {
+      http: ["https://mainnet.hashio.io/api"],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: "HashScan",
+      url: "https://hashscan.io/mainnet",
+    },
+  },
+});
+
+export const hederaTestnet = defineChain({
+  id: 296,
+  name: "Hedera Testnet",
+  nativeCurrency: {
+    decimals: 18,
+    name: "HBAR",
+    symbol: "HBAR",
+  },
+  rpcUrls: {
+    default: {
+      http: ["https://testnet.hashio.io/api"],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: "HashScan",
+      url: "https://hashscan.io/testnet",
+    },
+  },
+  testnet: true,
+});
+
+// Hedera local node (hiero-local-node), matches `hedera_local` in foundry.toml
+export const hederaLocalnet = defineChain({
+  id: 298,
+  name: "Hedera Local",
+  nativeCurrency: {
+    decimals: 18,
+    name: "HBAR",
+    symbol: "HBAR",
+  },
+  rpcUrls: {
+    default: {
+      http: ["http://localhost:7546"],
+    },
+  },
+  testnet: true,
+});
+
+// Plain anvil devnet for contract development
+export const anvil = foundry;
+
+export const HEDVAULT_CHAINS = [
+  hederaMainnet,
+  hederaTestnet,
+  hederaLocalnet,
+  anvil,
+] as const;
+
+export const getHedVaultChain = (chainId: number) =>
+  HEDVAULT_CHAINS.find((chain) => chain.id === chainId);
+
+// Block explorer link for a transaction, when the chain has an explorer
+export const getExplorerTxUrl = (chainId: number, hash: string) => {
+  const explorer = getHedVaultChain(chainId)?.blockExplorers?.default.url;
+  return explorer ? `${explorer}/transaction/${hash}` : undefined;
+};
+
+// Decimals contracts see native amounts in. Hedera's EVM works in tinybars
+// (8 decimals), even though its JSON-RPC relay reports 18-decimal balances.
+const TINYBAR_DECIMALS = 8;
+
+export const getContractNativeDecimals = (chainId: number) =>
+  chainId === hederaMainnet.id || chainId === hederaTestnet.id || chainId === hederaLocalnet.id
+    ? TINYBAR_DECIMALS
+    : (getHedVaultChain(chainId)?.nativeCurrency.decimals ?? 18);
+
+// The native currency as contracts count it, for amounts they take or emit
+export const getContractNativeUnit = (chainId: number) => ({
+  symbol: getHedVaultChain(chainId)?.nativeCurrency.symbol ?? "HBAR",
+  decimals: getContractNativeDecimals(chainId),
+});
+
+// A native amount in contract units as a transaction `value`. Hedera's relay
+// takes value in weibars and divides it by 1e10 before the contract sees it.
+export const toTransactionValue = (chainId: number, amount: bigint) => {
+  const walletDecimals = getHedVaultChain(chainId)?.nativeCurrency.decimals ?? 18;
+  return amount * BigInt(10) ** BigInt(walletDecimals - getContractNativeDecimals(chainId));
+};
@@ -4,27 +4,23 @@
  */
 
 import { Address } from "viem";
+import { DEPLOYMENTS, type DeployedContract } from "./deployments";
 
 // Chain Configuration
+export const HEDERA_MAINNET_CHAIN_ID = 295;
 export const HEDERA_TESTNET_CHAIN_ID = 296;
+export const HEDERA_LOCALNET_CHAIN_ID = 298;
+export const ANVIL_CHAIN_ID = 31337;
 
-// Contract Addresses on Hedera Testnet
-export const CONTRACT_ADDRESSES = {
-  ComplianceManager: "0xcb33193f590227f71423007fe6d41f53da2ef0c8" as Address,
-  HedVaultCore: "0x7718032d7727fc38851ba83b452f5e10208b596f" as Address,
-  LendingPool: "0x98fddd1d8b61b12c0634d52bb3fdb193806e93a5" as Address,
-  Marketplace: "0x8688dc04987ee42671bcffe57c41c22a1704d313" as Address,
-  PortfolioManager: "0x6cdadcad00dc4bad41e5c50ed2b243dae5338fa8" as Address,
-  PriceOracle: "0x6dcbea0fa11b21a6b9f72bccacefeb0b1ed0b444" as Address,
-  RewardsDistributor: "0x9e1fe9f241142ab56804fcd69596812099873a2e" as Address,
-  RWAOffchainOracle: "0x526f1fd7e5e6220c8390c14fcb0b5a1c83d36e8d" as Address,
-  RWATokenFactory: "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9" as Address,
-  SwapEngine: "0x12354dc2fe41577989c4c82f68ac4d4f34d3572e" as Address,
-} as const;
+// Chain used when no wallet is connected or the wallet is on a chain without a deployment
+export const DEFAULT_CHAIN_ID = Number(
+  process.env.NEXT_PUBLIC_HEDVAULT_CHAIN_ID ?? HEDERA_TESTNET_CHAIN_ID
+);
 
 // Contract Names for easy reference
 export const CONTRACT_NAMES = {
   COMPLIANCE_MANAGER: "ComplianceManager",
+  CROSS_CHAIN_BRIDGE: "CrossChainBridge",
   HED_VAULT_CORE: "HedVaultCore",
   LENDING_POOL: "LendingPool",
   MARKETPLACE: "Marketplace",
@@ -32,9 +28,14 @@ export const CONTRACT_NAMES = {
   PRICE_ORACLE: "PriceOracle",
   REWARDS_DISTRIBUTOR: "RewardsDistributor",
   RWA_OFFCHAIN_ORACLE: "RWAOffchainOracle",
+  RWA_TOKEN_FACTORY: "RWATokenFactory",
   SWAP_ENGINE: "SwapEngine",
 } as const;
 
+export type ContractName = (typeof CONTRACT_NAMES)[keyof typeof CONTRACT_NAMES];
+
+export type ChainDeployment = Partial<Record<ContractName, DeployedContract>>;
+
 // Contract Configuration Type
 export interface ContractConfig {
   address: Address;
@@ -42,13 +43,51 @@ export interface ContractConfig {
   chainId: number;
 }
 
-// Export individual contract configurations
+// Deployment registry keyed by chain id, generated from packages/contract/broadcast
+export const getDeployment = (chainId: number): ChainDeployment =>
+  (DEPLOYMENTS[chainId] ?? {}) as ChainDeployment;
+
+export const SUPPORTED_CHAIN_IDS = Object.keys(DEPLOYMENTS).map(Number);
+
+export const isDeployedOn = (contractName: ContractName, chainId: number) =>
+  !!getDeployment(chainId)[contractName];
+
+export const getContractAddress = (
+  contractName: ContractName,
+  chainId: number = DEFAULT_CHAIN_ID
+): Address | undefined => getDeployment(chainId)[contractName]?.address;
+
+// Contract addresses on the default chain
+export const CONTRACT_ADDRESSES: Partial<Record<ContractName, Address>> =
+  Object.fromEntries(
+    Object.entries(getDeployment(DEFAULT_CHAIN_ID)).map(([name, deployed]) => [
+      name,
+      deployed.address,
+    ])
+  );
+
+/**
+ * Resolve a contract against a chain. Falls back to the default chain when
+ * the requested chain has no deployment of that contract, so reads keep
+ * working while the wallet sits on an unrelated network.
+ */
 export const getContractConfig = (
-  contractName: keyof typeof CONTRACT_ADDRESSES
-): Omit<ContractConfig, "abi"> => ({
-  address: CONTRACT_ADDRESSES[contractName],
-  chainId: HEDERA_TESTNET_CHAIN_ID,
-});
+  contractName: ContractName,
+  chainId: number = DEFAULT_CHAIN_ID
+): Omit<ContractConfig, "abi"> => {
+  const resolvedChainId = isDeployedOn(contractName, chainId)
+    ? chainId
+    : DEFAULT_CHAIN_ID;
+  const address = getContractAddress(contractName, resolvedChainId);
+
+  if (!address) {
+    throw new Error(
+      `${contractName} is not deployed on chain ${chainId} or default chain ${DEFAULT_CHAIN_ID}`
+    );
+  }
+
+  return { address, chainId: resolvedChainId };
+};
 
 // Utility function to check if address is valid
 export const isValidContractAddress = (address: string): address is Address => {
@@ -56,14 +95,15 @@ export const isValidContractAddress = (address: string): address is Address => {
 };
 
 // Contract deployment block numbers (for event filtering)
-export const CONTRACT_DEPLOYMENT_BLOCKS = {
-  ComplianceManager: 0, // Update with actual deployment block
-  HedVaultCore: 0,
-  LendingPool: 0,
-  Marketplace: 0,
-  PortfolioManager: 0,
-  PriceOracle: 0,
-  RewardsDistributor: 0,
-  RWAOffchainOracle: 0,
-  SwapEngine: 0,
-} as const;
+export const getDeploymentBlock = (
+  contractName: ContractName,
+  chainId: number = DEFAULT_CHAIN_ID
+): bigint => BigInt(getDeployment(chainId)[contractName]?.blockNumber ?? 0);
+
+export const CONTRACT_DEPLOYMENT_BLOCKS: Partial<Record<ContractName, number>> =
+  Object.fromEntries(
+    Object.entries(getDeployment(DEFAULT_CHAIN_ID)).map(([name, deployed]) => [
+      name,
+      deployed.blockNumber,
+    ])
+  );
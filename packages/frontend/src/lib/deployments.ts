@@ -0,0 +1,65 @@
+/**
+ * HedVault Deployment Registry
+ * Auto-generated from Foundry broadcast output by scripts/sync-deployments.mjs - do not edit
+ */
+
+export interface DeployedContract {
+  address: `0x${string}`;
+  blockNumber: number;
+  transactionHash: `0x${string}`;
+}
+
+export const DEPLOYMENTS: Record<number, Record<string, DeployedContract>> = {
+  296: {
+    ComplianceManager: {
+      address: "0xcb33193f590227f71423007fe6d41f53da2ef0c8",
+      blockNumber: 23220618,
+      transactionHash: "0x68345863763a8309bbdc4e49af52b3774a364ee3c4b8f543fef5d79731a264cf",
+    },
+    HedVaultCore: {
+      address: "0x7718032d7727fc38851ba83b452f5e10208b596f",
+      blockNumber: 23219827,
+      transactionHash: "0x103c4fd2583864eebbb59adc8a97a77f412fb97d7c1601dd3f271492636af980",
+    },
+    LendingPool: {
+      address: "0x98fddd1d8b61b12c0634d52bb3fdb193806e93a5",
+      blockNumber: 23220206,
+      transactionHash: "0x2c83ee799a0065ed91a861141ef4af08819b90d1f08a4798068b04eb7c174519",
+    },
+    Marketplace: {
+      address: "0x8688dc04987ee42671bcffe57c41c22a1704d313",
+      blockNumber: 23220572,
+      transactionHash: "0x3bb073c527955920e78af74546ec392095c095466db772efdb1512afe1a11dd9",
+    },
+    PortfolioManager: {
+      address: "0x6cdadcad00dc4bad41e5c50ed2b243dae5338fa8",
+      blockNumber: 23220629,
+      transactionHash: "0x1a46e48a747789ae909748c4ada60355881e00b0019fb45ce2aa14a74532e536",
+    },
+    PriceOracle: {
+      address: "0x6dcbea0fa11b21a6b9f72bccacefeb0b1ed0b444",
+      blockNumber: 23219881,
+      transactionHash: "0xde78b33db3c8480300867250b01edc6546a82feb8bf7651f034a85bdf6418c9a",
+    },
+    RWAOffchainOracle: {
+      address: "0x526f1fd7e5e6220c8390c14fcb0b5a1c83d36e8d",
+      blockNumber: 23220876,
+      transactionHash: "0x0d5d65c10762a104519545539aa5a85ff6dffa810bf0947cbea22602d07c8215",
+    },
+    RWATokenFactory: {
+      address: "0x49c8f98ed7a2a44db95f2088225e2c0f77f61f71",
+      blockNumber: 23234272,
+      transactionHash: "0x0a2540d4ce86153f08d03063ed09bab03940ae4553d8160dff4bbd81d3591cef",
+    },
+    RewardsDistributor: {
+      address: "0xdd2a30473ce053a14c22ebc9eeff22abf80363bb",
+      blockNumber: 23221785,
+      transactionHash: "0x0919930776cddda7c90b8bf1a60a650eb744ee1f5b8c1ded0b728fa6d4dc3c42",
+    },
+    SwapEngine: {
+      address: "0x12354dc2fe41577989c4c82f68ac4d4f34d3572e",
+      blockNumber: 23241507,
+      transactionHash: "0x6852f87993c45cce6cca74133c4df8cd56dd83b7a49d1b7a871f908e636f46f3",
+    },
+  },
+};
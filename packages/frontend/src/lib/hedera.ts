@@ -0,0 +1,177 @@
+/**
+ * Hedera Entity ID Utilities
+ * Parsing, formatting and long-zero EVM address conversion for shard.realm.num IDs
+ */
+
+import { Address, getAddress, isAddress } from "viem";
+
+export interface HederaEntityId {
+  shard: bigint;
+  realm: bigint;
+  num: bigint;
+}
+
+// Ledger ids used by the HIP-15 address checksum
+export const HEDERA_LEDGER_IDS: Record<number, number> = {
+  295: 0x00, // mainnet
+  296: 0x01, // testnet
+  297: 0x02, // previewnet
+};
+
+const ENTITY_ID_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([a-z]{5}))?$/;
+
+// Long-zero addresses pack shard (4 bytes), realm (8 bytes) and num (8 bytes)
+const MAX_SHARD = BigInt(2) ** BigInt(32) - BigInt(1);
+const MAX_REALM_OR_NUM = BigInt(2) ** BigInt(64) - BigInt(1);
+
+const CHECKSUM_P3 = 26 ** 3;
+const CHECKSUM_P5 = 26 ** 5;
+const CHECKSUM_M = 1_000_003;
+const CHECKSUM_W = 31;
+
+/**
+ * HIP-15 checksum of a `shard.realm.num` string for the given ledger
+ */
+export const entityIdChecksum = (entityId: string, ledgerId: number): string => {
+  const digits = [...entityId].map((char) => (char === "." ? 10 : Number(char)));
+  const ledgerBytes = [ledgerId, 0, 0, 0, 0, 0, 0];
+
+  let s = 0;
+  let s0 = 0;
+  let s1 = 0;
+  digits.forEach((digit, index) => {
+    s = (CHECKSUM_W * s + digit) % CHECKSUM_P3;
+    if (index % 2 === 0) s0 = (s0 + digit) % 11;
+    else s1 = (s1 + digit) % 11;
+  });
+
+  let sh = 0;
+  for (const byte of ledgerBytes) sh = (CHECKSUM_W * sh + byte) % CHECKSUM_P5;
+
+  let c =
+    ((((digits.length % 5) * 11 + s0) * 11 + s1) * CHECKSUM_P3 + s + sh) %
+    CHECKSUM_P5;
+  c = Number((BigInt(c) * BigInt(CHECKSUM_M)) % BigInt(CHECKSUM_P5));
+
+  let checksum = "";
+  for (let i = 0; i < 5; i++) {
+    checksum = String.fromCharCode(97 + (c % 26)) + checksum;
+    c = Math.floor(c / 26);
+  }
+  return checksum;
+};
+
+/**
+ * Parse `shard.realm.num` (optionally with a `-abcde` checksum).
+ * When a chain id is given, a supplied checksum is verified against its ledger.
+ * Returns null for anything that is not a valid entity ID.
+ */
+export const parseEntityId = (
+  value: string,
+  chainId?: number
+): HederaEntityId | null => {
+  const match = ENTITY_ID_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, shardPart, realmPart, numPart, checksum] = match;
+  const entityId = {
+    shard: BigInt(shardPart),
+    realm: BigInt(realmPart),
+    num: BigInt(numPart),
+  };
+
+  if (
+    entityId.shard > MAX_SHARD ||
+    entityId.realm > MAX_REALM_OR_NUM ||
+    entityId.num > MAX_REALM_OR_NUM
+  ) {
+    return null;
+  }
+
+  const ledgerId = chainId === undefined ? undefined : HEDERA_LEDGER_IDS[chainId];
+  if (checksum && ledgerId !== undefined) {
+    if (entityIdChecksum(formatEntityId(entityId), ledgerId) !== checksum) {
+      return null;
+    }
+  }
+
+  return entityId;
+};
+
+export const isEntityId = (value: string, chainId?: number): boolean =>
+  parseEntityId(value, chainId) !== null;
+
+/**
+ * Format an entity ID as `shard.realm.num`, appending the HIP-15 checksum
+ * when a Hedera chain id is given
+ */
+export const formatEntityId = (
+  entityId: HederaEntityId,
+  chainId?: number
+): string => {
+  const id = `${entityId.shard}.${entityId.realm}.${entityId.num}`;
+  const ledgerId = chainId === undefined ? undefined : HEDERA_LEDGER_IDS[chainId];
+  return ledgerId === undefined ? id : `${id}-${entityIdChecksum(id, ledgerId)}`;
+};
+
+/**
+ * Convert an entity ID to its long-zero EVM address
+ */
+export const entityIdToAddress = (entityId: HederaEntityId | string): Address => {
+  const parsed = typeof entityId === "string" ? parseEntityId(entityId) : entityId;
+  if (!parsed) {
+    throw new Error(`Invalid Hedera entity ID: ${entityId}`);
+  }
+
+  const hex =
+    parsed.shard.toString(16).padStart(8, "0") +
+    parsed.realm.toString(16).padStart(16, "0") +
+    parsed.num.toString(16).padStart(16, "0");
+  return getAddress(`0x${hex}`);
+};
+
+/**
+ * Whether an EVM address is a long-zero encoding of an entity ID. ECDSA
+ * alias addresses (derived from a public key) are not.
+ */
+export const isLongZeroAddress = (address: string): boolean =>
+  isAddress(address, { strict: false }) &&
+  // Hedera networks run shard 0 / realm 0, so these start with 12 zero bytes
+  /^0x0{24}/i.test(address);
+
+/**
+ * Convert a long-zero EVM address back to its entity ID. Returns null for
+ * alias addresses, which need a mirror node lookup instead.
+ */
+export const addressToEntityId = (address: string): HederaEntityId | null => {
+  if (!isLongZeroAddress(address)) return null;
+
+  const hex = address.slice(2);
+  return {
+    shard: BigInt(`0x${hex.slice(0, 8)}`),
+    realm: BigInt(`0x${hex.slice(8, 24)}`),
+    num: BigInt(`0x${hex.slice(24)}`),
+  };
+};
+
+/**
+ * Accept either an EVM address or an entity ID and return the long-zero /
+ * checksummed EVM address without touching the network. Use the mirror node
+ * client when an account's ECDSA alias is needed instead.
+ */
+export const toEvmAddress = (value: string): Address | null => {
+  const trimmed = value.trim();
+  if (isAddress(trimmed, { strict: false })) return getAddress(trimmed);
+
+  const entityId = parseEntityId(trimmed);
+  return entityId ? entityIdToAddress(entityId) : null;
+};
+
+/**
+ * Human-readable form of an address: the entity ID for long-zero addresses,
+ * otherwise the address itself
+ */
+export const formatHederaAddress = (address: string, chainId?: number): string => {
+  const entityId = addressToEntityId(address);
+  return entityId ? formatEntityId(entityId, chainId) : address;
+};
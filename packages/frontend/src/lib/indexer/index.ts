@@ -0,0 +1,18 @@
+/**
+ * HedVault Event Indexer
+ * The SQLite store lives in ./sqliteStore and is imported directly from Node
+ */
+
+export * from "./types";
+export { createEventIndexer, INDEXED_CONTRACTS } from "./indexer";
+export type {
+  EventIndexer,
+  EventIndexerOptions,
+  SyncOptions,
+  SyncProgress,
+  SyncResult,
+  WatchOptions,
+} from "./indexer";
+export { createMemoryEventStore } from "./memoryStore";
+export { createIndexedDbEventStore } from "./indexedDbStore";
+export { applyQuery, compareEvents, matchesQuery } from "./query";
@@ -0,0 +1,110 @@
+/**
+ * Browser EventStore backed by IndexedDB.
+ *
+ * Events are keyed by id with indexes on chainId and on the multi-entry
+ * `accounts` field, so per-user history only loads that user's records.
+ * Filtering beyond that happens in memory; protocol volume is small enough.
+ */
+
+import type { ContractName } from "../contracts";
+import { applyQuery, matchesQuery } from "./query";
+import {
+  type CursorKind,
+  type EventQuery,
+  type EventStore,
+  type IndexedEvent,
+  cursorName,
+} from "./types";
+
+const DB_VERSION = 1;
+const EVENTS = "events";
+const CURSORS = "cursors";
+
+// IndexedDB keys cannot be bigints, so block numbers are stored as numbers
+type StoredEvent = Omit<IndexedEvent, "blockNumber"> & { blockNumber: number };
+
+const toStored = (event: IndexedEvent): StoredEvent => ({
+  ...event,
+  blockNumber: Number(event.blockNumber),
+});
+
+const fromStored = (event: StoredEvent): IndexedEvent => ({
+  ...event,
+  blockNumber: BigInt(event.blockNumber),
+});
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const events = db.createObjectStore(EVENTS, { keyPath: "id" });
+      events.createIndex("chainId", "chainId");
+      events.createIndex("accounts", "accounts", { multiEntry: true });
+      db.createObjectStore(CURSORS);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbEventStore = (name = "hedvault-events"): EventStore => {
+  const dbPromise = openDatabase(name);
+  const cursorKey = (chainId: number, contract: ContractName, kind?: CursorKind) =>
+    `${chainId}:${cursorName(contract, kind)}`;
+
+  // Narrow the candidate set with an index before filtering in memory
+  const loadCandidates = async (query: EventQuery): Promise<IndexedEvent[]> => {
+    const db = await dbPromise;
+    const store = db.transaction(EVENTS, "readonly").objectStore(EVENTS);
+    const stored = query.account
+      ? await promisify(store.index("accounts").getAll(query.account.toLowerCase()))
+      : await promisify(store.index("chainId").getAll(query.chainId));
+    return (stored as StoredEvent[]).map(fromStored);
+  };
+
+  return {
+    async getCursor(chainId, contract, kind) {
+      const db = await dbPromise;
+      const value = await promisify(
+        db.transaction(CURSORS, "readonly").objectStore(CURSORS).get(cursorKey(chainId, contract, kind))
+      );
+      return typeof value === "string" ? BigInt(value) : null;
+    },
+    async setCursor(chainId, contract, blockNumber, kind) {
+      const db = await dbPromise;
+      const transaction = db.transaction(CURSORS, "readwrite");
+      transaction.objectStore(CURSORS).put(blockNumber.toString(), cursorKey(chainId, contract, kind));
+      await transactionDone(transaction);
+    },
+    async putEvents(events) {
+      if (events.length === 0) return;
+      const db = await dbPromise;
+      const transaction = db.transaction(EVENTS, "readwrite");
+      const store = transaction.objectStore(EVENTS);
+      for (const event of events) store.put(toStored(event));
+      await transactionDone(transaction);
+    },
+    async queryEvents(query) {
+      return applyQuery(await loadCandidates(query), query);
+    },
+    async countEvents(query) {
+      return (await loadCandidates(query)).filter((event) => matchesQuery(event, query)).length;
+    },
+    async close() {
+      (await dbPromise).close();
+    },
+  };
+};
@@ -0,0 +1,289 @@
+/**
+ * HedVault Event Indexer
+ * Backfills and tails protocol events from each module's deployment block
+ */
+
+import { type Address, type Log, type PublicClient, parseEventLogs } from "viem";
+import { HEDVAULT_ABIS } from "../abis";
+import {
+  CONTRACT_NAMES,
+  type ContractName,
+  getContractAddress,
+  getDeploymentBlock,
+} from "../contracts";
+import type { EventStore, IndexedEvent } from "./types";
+
+// Every protocol module in the deployment registry
+export const INDEXED_CONTRACTS: ContractName[] = Object.values(CONTRACT_NAMES);
+
+// Hedera's JSON-RPC relay rejects eth_getLogs spans above 1000 blocks
+const DEFAULT_BLOCK_RANGE = BigInt(1000);
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export interface EventIndexerOptions {
+  client: PublicClient;
+  chainId: number;
+  store: EventStore;
+  contracts?: ContractName[];
+  blockRange?: bigint;
+  // Blocks to stay behind head; Hedera has instant finality so 0 is safe there
+  confirmations?: bigint;
+  // Fetch block timestamps for each indexed log (one request per new block)
+  includeTimestamps?: boolean;
+  // Start a fresh index this many blocks behind head and page older history
+  // in backwards afterwards, so recent activity shows up first. Unset, the
+  // index replays forwards from each deployment block.
+  checkpointBlocks?: bigint;
+  // Backwards chunks per contract in one pass, so a long backfill never
+  // holds up new blocks for more than a pass
+  backfillChunksPerPass?: number;
+}
+
+export interface SyncProgress {
+  contract: ContractName;
+  fromBlock: bigint;
+  toBlock: bigint;
+  // Events the chunk stored (possibly none)
+  events: IndexedEvent[];
+}
+
+export interface SyncOptions {
+  // Stops the pass before its next request
+  signal?: AbortSignal;
+  // Called after every stored chunk, before the pass completes
+  onProgress?: (progress: SyncProgress) => void;
+  // Called once every contract is indexed up to head, before the backfill
+  onHead?: (head: bigint) => void;
+}
+
+export interface SyncResult {
+  events: IndexedEvent[];
+  // Every contract is indexed back to its deployment block
+  historyComplete: boolean;
+}
+
+export interface WatchOptions extends SyncOptions {
+  pollingInterval?: number;
+  // Called after every completed pass
+  onSync?: (result: SyncResult) => void;
+  onError?: (error: unknown) => void;
+}
+
+// Collect every address in decoded args, including inside tuples and arrays
+const collectAccounts = (value: unknown, accounts: Set<Address>) => {
+  if (typeof value === "string" && ADDRESS_PATTERN.test(value)) {
+    accounts.add(value.toLowerCase() as Address);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectAccounts(item, accounts));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectAccounts(item, accounts));
+  }
+  return accounts;
+};
+
+export const createEventIndexer = ({
+  client,
+  chainId,
+  store,
+  contracts = INDEXED_CONTRACTS,
+  blockRange = DEFAULT_BLOCK_RANGE,
+  confirmations = BigInt(0),
+  includeTimestamps = true,
+  checkpointBlocks,
+  backfillChunksPerPass = 10,
+}: EventIndexerOptions) => {
+  const timestamps = new Map<bigint, bigint>();
+  let running: Promise<SyncResult> | null = null;
+
+  const getTimestamp = async (blockNumber: bigint) => {
+    const cached = timestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+    const block = await client.getBlock({ blockNumber });
+    timestamps.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  };
+
+  const toIndexedEvents = async (
+    contract: ContractName,
+    logs: Log[]
+  ): Promise<IndexedEvent[]> => {
+    const decoded = parseEventLogs({
+      abi: HEDVAULT_ABIS[contract],
+      logs,
+      strict: true,
+    });
+
+    return Promise.all(
+      decoded.map(async (log) => ({
+        id: `${chainId}:${log.transactionHash}:${log.logIndex}`,
+        chainId,
+        contract,
+        address: log.address,
+        eventName: log.eventName,
+        args: log.args,
+        accounts: [...collectAccounts(log.args, new Set())],
+        blockNumber: log.blockNumber,
+        blockTimestamp: includeTimestamps ? await getTimestamp(log.blockNumber) : null,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      }) as IndexedEvent)
+    );
+  };
+
+  const fetchChunk = async (
+    contract: ContractName,
+    address: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    { signal }: SyncOptions
+  ) => {
+    signal?.throwIfAborted();
+    const logs = await client.getLogs({ address, fromBlock, toBlock });
+    const events = await toIndexedEvents(contract, logs);
+    await store.putEvents(events);
+    return events;
+  };
+
+  // Index from the head cursor up to `head`, chunk by chunk
+  const syncForward = async (contract: ContractName, head: bigint, options: SyncOptions) => {
+    const address = getContractAddress(contract, chainId);
+    if (!address) return [];
+
+    const cursor = await store.getCursor(chainId, contract);
+    let fromBlock: bigint;
+    if (cursor !== null) {
+      fromBlock = cursor + BigInt(1);
+    } else {
+      // A first run records where it starts so the backfill knows what is
+      // missing, and an interrupted first run resumes from the same block
+      let tail = await store.getCursor(chainId, contract, "tail");
+      if (tail === null) {
+        const deployment = getDeploymentBlock(contract, chainId);
+        const checkpoint =
+          checkpointBlocks === undefined ? deployment : head - checkpointBlocks + BigInt(1);
+        tail = checkpoint > deployment ? checkpoint : deployment;
+        await store.setCursor(chainId, contract, tail, "tail");
+      }
+      fromBlock = tail;
+    }
+    const indexed: IndexedEvent[] = [];
+
+    while (fromBlock <= head) {
+      const toBlock =
+        fromBlock + blockRange - BigInt(1) < head ? fromBlock + blockRange - BigInt(1) : head;
+      const events = await fetchChunk(contract, address, fromBlock, toBlock, options);
+
+      // Persist before advancing the cursor so an interrupted sync resumes cleanly
+      await store.setCursor(chainId, contract, toBlock);
+      options.onProgress?.({ contract, fromBlock, toBlock, events });
+
+      indexed.push(...events);
+      fromBlock = toBlock + BigInt(1);
+    }
+
+    return indexed;
+  };
+
+  /**
+   * Page history older than the tail cursor in, newest first, up to
+   * `backfillChunksPerPass` chunks. Resolves whether the contract is now
+   * indexed back to its deployment block.
+   */
+  const backfill = async (contract: ContractName, options: SyncOptions) => {
+    const address = getContractAddress(contract, chainId);
+    if (!address) return { events: [], complete: true };
+
+    const deployment = getDeploymentBlock(contract, chainId);
+    // Indexes from before tail cursors existed started at the deployment
+    let tail = (await store.getCursor(chainId, contract, "tail")) ?? deployment;
+    const indexed: IndexedEvent[] = [];
+
+    for (let chunk = 0; tail > deployment && chunk < backfillChunksPerPass; chunk++) {
+      const toBlock = tail - BigInt(1);
+      const fromBlock =
+        toBlock - blockRange + BigInt(1) > deployment ? toBlock - blockRange + BigInt(1) : deployment;
+      const events = await fetchChunk(contract, address, fromBlock, toBlock, options);
+
+      await store.setCursor(chainId, contract, fromBlock, "tail");
+      options.onProgress?.({ contract, fromBlock, toBlock, events });
+
+      indexed.push(...events);
+      tail = fromBlock;
+    }
+
+    return { events: indexed, complete: tail <= deployment };
+  };
+
+  // New blocks for every contract first, then a slice of older history
+  const runSync = async (options: SyncOptions): Promise<SyncResult> => {
+    options.signal?.throwIfAborted();
+    const head = (await client.getBlockNumber({ cacheTime: 0 })) - confirmations;
+    const events: IndexedEvent[] = [];
+    for (const contract of contracts) {
+      events.push(...(await syncForward(contract, head, options)));
+    }
+    options.onHead?.(head);
+
+    let historyComplete = true;
+    for (const contract of contracts) {
+      const result = await backfill(contract, options);
+      events.push(...result.events);
+      historyComplete &&= result.complete;
+    }
+    return { events, historyComplete };
+  };
+
+  /**
+   * Index everything up to the current head, plus a slice of older history
+   * when the index started from a checkpoint. Concurrent calls share one
+   * run, which uses the options of the call that started it.
+   */
+  const sync = (options: SyncOptions = {}) => {
+    running ??= runSync(options).finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  /**
+   * Keep syncing on an interval. Returns a function that stops the loop and
+   * aborts the pass in flight; aborting `signal` does the same.
+   */
+  const watch = ({
+    pollingInterval = 5_000,
+    signal,
+    onProgress,
+    onHead,
+    onSync,
+    onError,
+  }: WatchOptions = {}) => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const stop = () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+    signal?.addEventListener("abort", stop, { once: true });
+
+    const tick = async () => {
+      try {
+        const result = await sync({ signal: controller.signal, onProgress, onHead });
+        if (!controller.signal.aborted) onSync?.(result);
+      } catch (error) {
+        if (!controller.signal.aborted) onError?.(error);
+      } finally {
+        if (!controller.signal.aborted) timer = setTimeout(tick, pollingInterval);
+      }
+    };
+
+    if (signal?.aborted) stop();
+    else tick();
+    return stop;
+  };
+
+  return { chainId, contracts, sync, watch };
+};
+
+export type EventIndexer = ReturnType<typeof createEventIndexer>;
@@ -0,0 +1,44 @@
+/**
+ * Non-persistent EventStore, used during SSR and where no database is available
+ */
+
+import type { ContractName } from "../contracts";
+import { applyQuery, matchesQuery } from "./query";
+import {
+  type CursorKind,
+  type EventQuery,
+  type EventStore,
+  type IndexedEvent,
+  cursorName,
+} from "./types";
+
+export const createMemoryEventStore = (): EventStore => {
+  const events = new Map<string, IndexedEvent>();
+  const cursors = new Map<string, bigint>();
+  const cursorKey = (chainId: number, contract: ContractName, kind?: CursorKind) =>
+    `${chainId}:${cursorName(contract, kind)}`;
+
+  return {
+    async getCursor(chainId, contract, kind) {
+      return cursors.get(cursorKey(chainId, contract, kind)) ?? null;
+    },
+    async setCursor(chainId, contract, blockNumber, kind) {
+      cursors.set(cursorKey(chainId, contract, kind), blockNumber);
+    },
+    async putEvents(batch) {
+      for (const event of batch) events.set(event.id, event);
+    },
+    async queryEvents(query: EventQuery) {
+      return applyQuery([...events.values()], query);
+    },
+    async countEvents(query: EventQuery) {
+      let count = 0;
+      for (const event of events.values()) if (matchesQuery(event, query)) count++;
+      return count;
+    },
+    async close() {
+      events.clear();
+      cursors.clear();
+    },
+  };
+};
@@ -0,0 +1,33 @@
+/**
+ * In-memory evaluation of EventQuery, shared by stores without a query engine
+ */
+
+import type { Address } from "viem";
+import type { EventQuery, IndexedEvent } from "./types";
+
+export const matchesQuery = (event: IndexedEvent, query: EventQuery): boolean => {
+  if (event.chainId !== query.chainId) return false;
+  if (query.contracts && !query.contracts.includes(event.contract)) return false;
+  if (query.eventNames && !query.eventNames.includes(event.eventName)) return false;
+  if (query.account && !event.accounts.includes(query.account.toLowerCase() as Address)) {
+    return false;
+  }
+  if (query.fromBlock !== undefined && event.blockNumber < query.fromBlock) return false;
+  if (query.toBlock !== undefined && event.blockNumber > query.toBlock) return false;
+  return true;
+};
+
+export const compareEvents = (a: IndexedEvent, b: IndexedEvent): number => {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+};
+
+export const applyQuery = (events: IndexedEvent[], query: EventQuery): IndexedEvent[] => {
+  const sorted = events.filter((event) => matchesQuery(event, query)).sort(compareEvents);
+  if (query.order !== "asc") sorted.reverse();
+
+  const offset = query.offset ?? 0;
+  return query.limit === undefined
+    ? sorted.slice(offset)
+    : sorted.slice(offset, offset + query.limit);
+};
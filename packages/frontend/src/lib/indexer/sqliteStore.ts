@@ -0,0 +1,189 @@
+/**
+ * Node EventStore backed by SQLite (the built-in `node:sqlite`, Node 22.5+).
+ *
+ * Not exported from the indexer barrel so browser bundles never see the
+ * `node:sqlite` import; Node scripts import this module directly.
+ */
+
+import type { Address, Hash } from "viem";
+import type { ContractName } from "../contracts";
+import { type EventQuery, type EventStore, type IndexedEvent, cursorName } from "./types";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    address TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp TEXT,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_by_block ON events (chain_id, block_number, log_index);
+  CREATE TABLE IF NOT EXISTS event_accounts (
+    event_id TEXT NOT NULL,
+    account TEXT NOT NULL,
+    PRIMARY KEY (event_id, account)
+  );
+  CREATE INDEX IF NOT EXISTS event_accounts_by_account ON event_accounts (account);
+  CREATE TABLE IF NOT EXISTS cursors (
+    chain_id INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    block_number TEXT NOT NULL,
+    PRIMARY KEY (chain_id, contract)
+  );
+`;
+
+interface EventRow {
+  id: string;
+  chain_id: number;
+  contract: string;
+  address: string;
+  event_name: string;
+  args: string;
+  block_number: number;
+  block_timestamp: string | null;
+  transaction_hash: string;
+  log_index: number;
+  accounts: string | null;
+}
+
+// JSON has no bigint; tag them so decoded args round-trip exactly
+const encodeArgs = (args: unknown) =>
+  JSON.stringify(args, (_, value) =>
+    typeof value === "bigint" ? { $bigint: value.toString() } : value
+  );
+
+const decodeArgs = (json: string) =>
+  JSON.parse(json, (_, value) =>
+    value && typeof value === "object" && typeof value.$bigint === "string"
+      ? BigInt(value.$bigint)
+      : value
+  );
+
+const fromRow = (row: EventRow): IndexedEvent =>
+  ({
+    id: row.id,
+    chainId: row.chain_id,
+    contract: row.contract as ContractName,
+    address: row.address as Address,
+    eventName: row.event_name,
+    args: decodeArgs(row.args),
+    accounts: row.accounts ? (row.accounts.split(",") as Address[]) : [],
+    blockNumber: BigInt(row.block_number),
+    blockTimestamp: row.block_timestamp === null ? null : BigInt(row.block_timestamp),
+    transactionHash: row.transaction_hash as Hash,
+    logIndex: row.log_index,
+  }) as IndexedEvent;
+
+const buildWhere = (query: EventQuery) => {
+  const clauses = ["e.chain_id = ?"];
+  const params: (string | number)[] = [query.chainId];
+
+  if (query.contracts) {
+    clauses.push(`e.contract IN (${query.contracts.map(() => "?").join(", ")})`);
+    params.push(...query.contracts);
+  }
+  if (query.eventNames) {
+    clauses.push(`e.event_name IN (${query.eventNames.map(() => "?").join(", ")})`);
+    params.push(...query.eventNames);
+  }
+  if (query.account) {
+    clauses.push("e.id IN (SELECT event_id FROM event_accounts WHERE account = ?)");
+    params.push(query.account.toLowerCase());
+  }
+  if (query.fromBlock !== undefined) {
+    clauses.push("e.block_number >= ?");
+    params.push(Number(query.fromBlock));
+  }
+  if (query.toBlock !== undefined) {
+    clauses.push("e.block_number <= ?");
+    params.push(Number(query.toBlock));
+  }
+
+  return { where: clauses.join(" AND "), params };
+};
+
+export const createSqliteEventStore = async (path: string): Promise<EventStore> => {
+  const { DatabaseSync } = await import("node:sqlite");
+  const db = new DatabaseSync(path);
+  db.exec(SCHEMA);
+
+  const insertEvent = db.prepare(
+    `INSERT OR REPLACE INTO events
+      (id, chain_id, contract, address, event_name, args, block_number, block_timestamp, transaction_hash, log_index)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertAccount = db.prepare(
+    "INSERT OR IGNORE INTO event_accounts (event_id, account) VALUES (?, ?)"
+  );
+  const selectCursor = db.prepare(
+    "SELECT block_number FROM cursors WHERE chain_id = ? AND contract = ?"
+  );
+  const upsertCursor = db.prepare(
+    `INSERT INTO cursors (chain_id, contract, block_number) VALUES (?, ?, ?)
+     ON CONFLICT (chain_id, contract) DO UPDATE SET block_number = excluded.block_number`
+  );
+
+  return {
+    async getCursor(chainId, contract, kind) {
+      const row = selectCursor.get(chainId, cursorName(contract, kind)) as
+        | { block_number: string }
+        | undefined;
+      return row ? BigInt(row.block_number) : null;
+    },
+    async setCursor(chainId, contract, blockNumber, kind) {
+      upsertCursor.run(chainId, cursorName(contract, kind), blockNumber.toString());
+    },
+    async putEvents(events) {
+      db.exec("BEGIN");
+      try {
+        for (const event of events) {
+          insertEvent.run(
+            event.id,
+            event.chainId,
+            event.contract,
+            event.address,
+            event.eventName,
+            encodeArgs(event.args),
+            Number(event.blockNumber),
+            event.blockTimestamp === null ? null : event.blockTimestamp.toString(),
+            event.transactionHash,
+            event.logIndex
+          );
+          for (const account of event.accounts) insertAccount.run(event.id, account);
+        }
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+    async queryEvents(query) {
+      const { where, params } = buildWhere(query);
+      const direction = query.order === "asc" ? "ASC" : "DESC";
+      const rows = db
+        .prepare(
+          `SELECT e.*, (SELECT group_concat(account) FROM event_accounts WHERE event_id = e.id) AS accounts
+           FROM events e WHERE ${where}
+           ORDER BY e.block_number ${direction}, e.log_index ${direction}
+           LIMIT ? OFFSET ?`
+        )
+        .all(...params, query.limit ?? -1, query.offset ?? 0) as unknown as EventRow[];
+      return rows.map(fromRow);
+    },
+    async countEvents(query) {
+      const { where, params } = buildWhere(query);
+      const row = db
+        .prepare(`SELECT COUNT(*) AS count FROM events e WHERE ${where}`)
+        .get(...params) as { count: number };
+      return row.count;
+    },
+    async close() {
+      db.close();
+    },
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * HedVault Event Indexer Types
+ * Decoded protocol events and the storage interface they are persisted through
+ */
+
+import type { Address, ContractEventName, DecodeEventLogReturnType, Hash } from "viem";
+import type { HEDVAULT_ABIS } from "../abis";
+import type { ContractName } from "../contracts";
+
+export type ContractAbi<C extends ContractName> = (typeof HEDVAULT_ABIS)[C];
+
+export type ContractEventNameOf<C extends ContractName> = ContractEventName<
+  ContractAbi<C>
+>;
+
+export type ContractEventArgs<
+  C extends ContractName,
+  E extends ContractEventNameOf<C>,
+> = DecodeEventLogReturnType<ContractAbi<C>, E>["args"];
+
+export interface IndexedEvent<
+  C extends ContractName = ContractName,
+  E extends ContractEventNameOf<C> = ContractEventNameOf<C>,
+> {
+  // `${chainId}:${transactionHash}:${logIndex}`, unique per log
+  id: string;
+  chainId: number;
+  contract: C;
+  address: Address;
+  eventName: E;
+  args: ContractEventArgs<C, E>;
+  // Lower-cased addresses found in the args, used for per-account queries
+  accounts: Address[];
+  blockNumber: bigint;
+  blockTimestamp: bigint | null;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+export interface EventQuery {
+  chainId: number;
+  contracts?: ContractName[];
+  eventNames?: string[];
+  account?: Address;
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  // Newest first unless "asc"
+  order?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * "head" is the last block indexed going forward. "tail" is the lowest block
+ * indexed so far, which a backwards backfill lowers towards the deployment.
+ */
+export type CursorKind = "head" | "tail";
+
+// Tail cursors get their own key so stores written before they existed
+// keep reading their head cursors unchanged
+export const cursorName = (contract: ContractName, kind: CursorKind = "head") =>
+  kind === "head" ? contract : `${contract}:tail`;
+
+/**
+ * Persistence for decoded events and per-contract sync cursors. Writes must
+ * be idempotent on `IndexedEvent.id` so a range can safely be re-indexed.
+ */
+export interface EventStore {
+  getCursor(chainId: number, contract: ContractName, kind?: CursorKind): Promise<bigint | null>;
+  setCursor(
+    chainId: number,
+    contract: ContractName,
+    blockNumber: bigint,
+    kind?: CursorKind
+  ): Promise<void>;
+  putEvents(events: IndexedEvent[]): Promise<void>;
+  queryEvents(query: EventQuery): Promise<IndexedEvent[]>;
+  countEvents(query: EventQuery): Promise<number>;
+  close(): Promise<void>;
+}
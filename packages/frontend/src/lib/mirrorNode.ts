@@ -0,0 +1,175 @@
+/**
+ * Hedera Mirror Node Client
+ * Minimal REST client for resolving accounts and tokens between entity IDs
+ * and EVM addresses. Point `baseUrl` at a local fixture server in development.
+ */
+
+import { Address, getAddress } from "viem";
+import {
+  HEDERA_MAINNET_CHAIN_ID,
+  HEDERA_TESTNET_CHAIN_ID,
+  HEDERA_LOCALNET_CHAIN_ID,
+} from "./contracts";
+import {
+  addressToEntityId,
+  entityIdToAddress,
+  formatEntityId,
+  isLongZeroAddress,
+  parseEntityId,
+} from "./hedera";
+
+// Public mirror nodes per chain; NEXT_PUBLIC_HEDERA_MIRROR_NODE_URL overrides all of them
+export const MIRROR_NODE_URLS: Record<number, string> = {
+  [HEDERA_MAINNET_CHAIN_ID]: "https://mainnet-public.mirrornode.hedera.com",
+  [HEDERA_TESTNET_CHAIN_ID]: "https://testnet.mirrornode.hedera.com",
+  [HEDERA_LOCALNET_CHAIN_ID]: "http://localhost:5551",
+};
+
+export interface MirrorAccount {
+  account: string;
+  evm_address: string | null;
+  alias: string | null;
+  key: { _type: string; key: string } | null;
+  // -1 lets any token associate on first receipt; 0 requires explicit
+  // association; n > 0 lets the first n tokens received associate themselves
+  max_automatic_token_associations?: number;
+}
+
+// One of an account's token associations
+export interface MirrorTokenRelationship {
+  token_id: string;
+  // Made on first receipt, using one of the account's automatic slots
+  automatic_association: boolean;
+  balance: number;
+}
+
+export interface MirrorToken {
+  token_id: string;
+  name: string;
+  symbol: string;
+  decimals: string;
+  type: string;
+}
+
+export interface MirrorContract {
+  contract_id: string;
+  evm_address: string;
+}
+
+export interface MirrorNodeClientOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+export class MirrorNodeError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "MirrorNodeError";
+  }
+}
+
+export interface ResolvedAddress {
+  // Address to use in contract calls (the ECDSA alias for accounts that have one)
+  address: Address;
+  // Entity ID, when known
+  entityId: string | null;
+}
+
+export const getMirrorNodeUrl = (chainId: number): string | undefined =>
+  process.env.NEXT_PUBLIC_HEDERA_MIRROR_NODE_URL ?? MIRROR_NODE_URLS[chainId];
+
+export const createMirrorNodeClient = ({
+  baseUrl,
+  fetch: fetchFn = globalThis.fetch,
+}: MirrorNodeClientOptions) => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  // Returns null on 404 so callers can fall through to other entity types
+  const get = async <T>(path: string): Promise<T | null> => {
+    const response = await fetchFn(`${root}/api/v1${path}`, {
+      headers: { accept: "application/json" },
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new MirrorNodeError(
+        `Mirror node request ${path} failed with ${response.status}`,
+        response.status
+      );
+    }
+    return (await response.json()) as T;
+  };
+
+  const getAccount = (idOrAddress: string) =>
+    get<MirrorAccount>(`/accounts/${encodeURIComponent(idOrAddress)}`);
+
+  // Every token the account is associated with, following the pagination links
+  const getTokenRelationships = async (idOrAddress: string) => {
+    const relationships: MirrorTokenRelationship[] = [];
+    let path: string | null = `/accounts/${encodeURIComponent(idOrAddress)}/tokens?limit=100`;
+    while (path) {
+      const page: { tokens: MirrorTokenRelationship[]; links?: { next: string | null } } | null =
+        await get(path);
+      if (!page) break;
+      relationships.push(...page.tokens);
+      path = page.links?.next?.replace(/^\/api\/v1/, "") ?? null;
+    }
+    return relationships;
+  };
+
+  const getToken = (tokenId: string) =>
+    get<MirrorToken>(`/tokens/${encodeURIComponent(tokenId)}`);
+
+  const getContract = (idOrAddress: string) =>
+    get<MirrorContract>(`/contracts/${encodeURIComponent(idOrAddress)}`);
+
+  /**
+   * Resolve an entity ID or EVM address to the address contracts see.
+   * Accounts with an ECDSA key are addressed by their alias, everything else
+   * (tokens, contracts, ED25519 accounts) by the long-zero address.
+   */
+  const resolveAddress = async (value: string): Promise<ResolvedAddress> => {
+    const entityId = parseEntityId(value);
+
+    if (entityId) {
+      const id = formatEntityId(entityId);
+      const account = await getAccount(id);
+      const alias = account?.evm_address;
+      return {
+        address:
+          alias && !isLongZeroAddress(alias)
+            ? getAddress(alias)
+            : entityIdToAddress(entityId),
+        entityId: id,
+      };
+    }
+
+    return { address: getAddress(value), entityId: await resolveEntityId(value) };
+  };
+
+  /**
+   * Find the entity ID behind an EVM address. Long-zero addresses decode
+   * locally; aliases are looked up as accounts and then contracts.
+   */
+  const resolveEntityId = async (address: string): Promise<string | null> => {
+    const longZero = addressToEntityId(address);
+    if (longZero) return formatEntityId(longZero);
+
+    const account = await getAccount(address);
+    if (account) return account.account;
+
+    const contract = await getContract(address);
+    return contract?.contract_id ?? null;
+  };
+
+  return {
+    baseUrl: root,
+    getAccount,
+    getTokenRelationships,
+    getToken,
+    getContract,
+    resolveAddress,
+    resolveEntityId,
+  };
+};
+
+export type MirrorNodeClient = ReturnType<typeof createMirrorNodeClient>;
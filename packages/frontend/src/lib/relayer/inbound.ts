@@ -0,0 +1,51 @@
+/**
+ * HedVault Bridge Relayer - Inbound Records
+ * The destination-side entry points the relayer needs and the deployed
+ * CrossChainBridge lacks. completeBridge and executeMessage only act on
+ * records the bridge holds, and it only holds the ones it sent itself, so an
+ * operator has to copy each source record over first. Adding these to the
+ * contract is a separate change; until a bridge has them, relaying to it
+ * stops at a RelayFailure instead of sending anything.
+ */
+
+import { type Hash, parseAbi, toFunctionSelector } from "viem";
+import type { BridgeTransaction, CrossChainMessage, HedVaultClient } from "../sdk";
+
+export const INBOUND_BRIDGE_ABI = parseAbi([
+  "function recordInboundTransfer(bytes32 txHash, address user, address asset, uint256 amount, uint256 sourceChain, uint256 timestamp)",
+  "function recordInboundMessage(bytes32 messageId, address sender, uint256 sourceChain, bytes data, uint256 timestamp)",
+]);
+
+const INBOUND_SELECTORS = INBOUND_BRIDGE_ABI.map((item) => toFunctionSelector(item).slice(2));
+
+/**
+ * Whether the client's bridge has both entry points, going by the selectors
+ * its dispatcher compares calldata against
+ */
+export const supportsInboundRecords = async (client: HedVaultClient) => {
+  const code = await client.publicClient.getCode({ address: client.bridge.address });
+  return !!code && INBOUND_SELECTORS.every((selector) => code.toLowerCase().includes(selector));
+};
+
+// Simulated from the operator, then signed as simulated, like the SDK's writes
+export const recordInboundTransfer = async (client: HedVaultClient, transfer: BridgeTransaction): Promise<Hash> => {
+  const { request } = await client.publicClient.simulateContract({
+    address: client.bridge.address,
+    abi: INBOUND_BRIDGE_ABI,
+    functionName: "recordInboundTransfer",
+    args: [transfer.txHash, transfer.user, transfer.asset, transfer.amount, transfer.sourceChain, transfer.timestamp],
+    account: client.account,
+  });
+  return client.sendSimulated(request);
+};
+
+export const recordInboundMessage = async (client: HedVaultClient, message: CrossChainMessage): Promise<Hash> => {
+  const { request } = await client.publicClient.simulateContract({
+    address: client.bridge.address,
+    abi: INBOUND_BRIDGE_ABI,
+    functionName: "recordInboundMessage",
+    args: [message.messageId, message.sender, message.sourceChain, message.data, message.timestamp],
+    account: client.account,
+  });
+  return client.sendSimulated(request);
+};
@@ -0,0 +1,10 @@
+/**
+ * HedVault Bridge Relayer
+ * The SQLite job store lives in ./sqliteStore and is imported directly from Node
+ */
+
+export * from "./types";
+export { createBridgeRelayer, getRelayJobId, RelayFailure } from "./relayer";
+export type { BridgeRelayer, BridgeRelayerOptions, RelayChain, RelayPass, RelayWatchOptions } from "./relayer";
+export { createMemoryRelayJobStore, matchesJobQuery } from "./memoryStore";
+export { INBOUND_BRIDGE_ABI, recordInboundMessage, recordInboundTransfer, supportsInboundRecords } from "./inbound";
@@ -0,0 +1,42 @@
+/**
+ * Non-persistent RelayJobStore for tests and one-off runs; jobs are lost on exit
+ */
+
+import type { RelayJob, RelayJobQuery, RelayJobStore } from "./types";
+
+export const matchesJobQuery = (job: RelayJob, { statuses, dueBy }: RelayJobQuery) =>
+  (!statuses || statuses.includes(job.status)) && (dueBy === undefined || job.nextAttemptAt <= dueBy);
+
+export const createMemoryRelayJobStore = (): RelayJobStore => {
+  const jobs = new Map<string, RelayJob>();
+  const cursors = new Map<number, bigint>();
+
+  return {
+    async getCursor(chainId) {
+      return cursors.get(chainId) ?? null;
+    },
+    async setCursor(chainId, blockNumber) {
+      cursors.set(chainId, blockNumber);
+    },
+    async addJobs(batch) {
+      for (const job of batch) if (!jobs.has(job.id)) jobs.set(job.id, { ...job });
+    },
+    async updateJob(job) {
+      jobs.set(job.id, { ...job });
+    },
+    async getJob(id) {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+    async listJobs(query = {}) {
+      const matching = [...jobs.values()]
+        .filter((job) => matchesJobQuery(job, query))
+        .sort((a, b) => a.createdAt - b.createdAt);
+      return (query.limit === undefined ? matching : matching.slice(0, query.limit)).map((job) => ({ ...job }));
+    },
+    async close() {
+      jobs.clear();
+      cursors.clear();
+    },
+  };
+};
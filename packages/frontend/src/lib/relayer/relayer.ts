@@ -0,0 +1,436 @@
+/**
+ * HedVault Bridge Relayer
+ * Carries BridgeInitiated transfers and MessageSent messages from one
+ * CrossChainBridge to another: records them on the destination bridge, has
+ * the configured validators confirm them, then completes or executes them.
+ * Recording needs entry points the deployed bridge lacks (see ./inbound).
+ */
+
+import { type Address, type Hash, type Hex, zeroHash } from "viem";
+import { CrossChainBridgeABI } from "../abis";
+import { getDeploymentBlock } from "../contracts";
+import {
+  type BridgeTransaction,
+  type CrossChainMessage,
+  type HedVaultClient,
+  MESSAGE_EXPIRY_SECONDS,
+  decodeHedVaultError,
+  decodeHedVaultErrorWithTokens,
+} from "../sdk";
+import { recordInboundMessage, recordInboundTransfer, supportsInboundRecords } from "./inbound";
+import type { RelayJob, RelayJobKind, RelayJobStatus, RelayJobStore } from "./types";
+
+// Same span the indexer uses; Hedera's relay rejects larger eth_getLogs ranges
+const DEFAULT_BLOCK_RANGE = BigInt(1000);
+
+export interface RelayChain {
+  chainId: number;
+  // Holds BRIDGE_OPERATOR_ROLE: records, completes and executes on this chain
+  operator: HedVaultClient;
+  // Hold VALIDATOR_ROLE on this chain; without them the relayer waits for
+  // confirmations from validators that run elsewhere
+  validators?: HedVaultClient[];
+  // First block scanned when the store has no cursor (default: the bridge's deployment block)
+  startBlock?: bigint;
+  // Blocks to stay behind head before relaying a source event
+  confirmations?: bigint;
+}
+
+export interface BridgeRelayerOptions {
+  chains: RelayChain[];
+  store: RelayJobStore;
+  /**
+   * Contract on the destination chain a message is executed against. The
+   * bridge calls it with the message data, so unknown senders get no target
+   * and their messages fail instead of being sent anywhere.
+   */
+  resolveMessageTarget?: (message: CrossChainMessage, destinationChainId: number) => Address | undefined;
+  blockRange?: bigint;
+  // Failed attempts before a job is given up on
+  maxAttempts?: number;
+  // Backoff doubles from retryDelay up to maxRetryDelay (ms)
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  // How soon to look again at a transfer waiting on outside validators (ms)
+  confirmationPollInterval?: number;
+  now?: () => number;
+  log?: (message: string) => void;
+}
+
+export interface RelayPass {
+  // Jobs created from newly scanned source blocks
+  discovered: RelayJob[];
+  // Jobs worked on this pass, as they were left
+  processed: RelayJob[];
+}
+
+export interface RelayWatchOptions {
+  pollingInterval?: number;
+  onPass?: (pass: RelayPass) => void;
+  onError?: (error: unknown) => void;
+}
+
+// Failures a retry cannot fix: the job is marked failed straight away
+export class RelayFailure extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RelayFailure";
+  }
+}
+
+// Outcome of one pass over a job; "waiting" jobs are retried without counting an attempt
+type StepResult = { status: RelayJobStatus; waiting?: boolean };
+
+const OPEN_STATUSES: RelayJobStatus[] = ["pending", "recorded", "confirmed"];
+
+export const getRelayJobId = (kind: RelayJobKind, sourceChainId: number, transferId: Hex) =>
+  `${kind}:${sourceChainId}:${transferId.toLowerCase()}`;
+
+// Reverts come from the destination chain, so its tokens give the amounts their decimals
+const describeFailure = async (error: unknown, destination: RelayChain | undefined) => {
+  if (error instanceof RelayFailure) return error.message;
+  const { message, errorName } = destination
+    ? await decodeHedVaultErrorWithTokens(error, destination.operator.tokens, { chainId: destination.chainId })
+    : decodeHedVaultError(error);
+  return errorName ? `${message} [${errorName}]` : message;
+};
+
+const sameTransfer = (a: BridgeTransaction, b: BridgeTransaction) =>
+  a.user.toLowerCase() === b.user.toLowerCase() &&
+  a.asset.toLowerCase() === b.asset.toLowerCase() &&
+  a.amount === b.amount &&
+  a.sourceChain === b.sourceChain &&
+  a.destinationChain === b.destinationChain;
+
+export const createBridgeRelayer = ({
+  chains,
+  store,
+  resolveMessageTarget = () => undefined,
+  blockRange = DEFAULT_BLOCK_RANGE,
+  maxAttempts = 8,
+  retryDelay = 5_000,
+  maxRetryDelay = 10 * 60_000,
+  confirmationPollInterval = 15_000,
+  now = Date.now,
+  log = () => {},
+}: BridgeRelayerOptions) => {
+  const chainsById = new Map(chains.map((chain) => [chain.chainId, chain]));
+  const inboundSupport = new Map<number, Promise<boolean>>();
+  let running: Promise<RelayPass> | null = null;
+
+  const getChain = (chainId: number) => {
+    const chain = chainsById.get(chainId);
+    if (!chain) throw new RelayFailure(`Chain ${chainId} is not configured`);
+    return chain;
+  };
+
+  // Bytecode doesn't change under a running relayer, so each chain is checked once
+  const canRecordInbound = (chain: RelayChain) => {
+    if (!inboundSupport.has(chain.chainId)) {
+      inboundSupport.set(chain.chainId, supportsInboundRecords(chain.operator));
+    }
+    return inboundSupport.get(chain.chainId) as Promise<boolean>;
+  };
+
+  const requireInboundRecords = async (chain: RelayChain) => {
+    if (!(await canRecordInbound(chain))) {
+      throw new RelayFailure(
+        `CrossChainBridge on chain ${chain.chainId} cannot record inbound transfers or messages`
+      );
+    }
+  };
+
+  // Sends through `client`, keeps the hash on the job before waiting, and
+  // treats a reverted receipt as an error so the job is retried
+  const send = async (job: RelayJob, client: HedVaultClient, action: string, write: () => Promise<Hash>) => {
+    const hash = await write();
+    job.destinationTransactions = [...job.destinationTransactions, hash];
+    job.updatedAt = now();
+    await store.updateJob(job);
+
+    const receipt = await client.waitForTransaction(hash);
+    if (receipt.status !== "success") throw new Error(`${action} reverted in transaction ${hash}`);
+    log(`${job.id}: ${action} (${hash})`);
+  };
+
+  const save = async (job: RelayJob, status: RelayJobStatus) => {
+    if (job.status === status) return;
+    job.status = status;
+    job.updatedAt = now();
+    await store.updateJob(job);
+  };
+
+  // Source chain scanning
+
+  const toJob = (
+    kind: RelayJobKind,
+    sourceChainId: number,
+    destinationChainId: number,
+    transferId: Hex,
+    event: { transactionHash: Hash; blockNumber: bigint }
+  ): RelayJob => {
+    const createdAt = now();
+    return {
+      id: getRelayJobId(kind, sourceChainId, transferId),
+      kind,
+      sourceChainId,
+      destinationChainId,
+      transferId,
+      sourceTransactionHash: event.transactionHash,
+      sourceBlockNumber: event.blockNumber,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: createdAt,
+      destinationTransactions: [],
+      createdAt,
+      updatedAt: createdAt,
+    };
+  };
+
+  const scanChain = async (chain: RelayChain) => {
+    const { publicClient, bridge } = chain.operator;
+    const head = (await publicClient.getBlockNumber({ cacheTime: 0 })) - (chain.confirmations ?? BigInt(0));
+    const cursor = await store.getCursor(chain.chainId);
+    let fromBlock =
+      cursor === null
+        ? (chain.startBlock ?? getDeploymentBlock("CrossChainBridge", chain.chainId))
+        : cursor + BigInt(1);
+    const discovered: RelayJob[] = [];
+
+    while (fromBlock <= head) {
+      const toBlock =
+        fromBlock + blockRange - BigInt(1) < head ? fromBlock + blockRange - BigInt(1) : head;
+      const events = await publicClient.getContractEvents({
+        address: bridge.address,
+        abi: CrossChainBridgeABI,
+        fromBlock,
+        toBlock,
+        strict: true,
+      });
+
+      const jobs = events.flatMap((event) => {
+        if (event.eventName !== "BridgeInitiated" && event.eventName !== "MessageSent") return [];
+        const kind: RelayJobKind = event.eventName === "BridgeInitiated" ? "transfer" : "message";
+        const transferId = "txHash" in event.args ? event.args.txHash : event.args.messageId;
+        const destinationChainId = Number(event.args.destinationChain);
+        if (!chainsById.has(destinationChainId)) {
+          log(`Skipping ${kind} ${transferId}: chain ${destinationChainId} is not configured`);
+          return [];
+        }
+        return [toJob(kind, chain.chainId, destinationChainId, transferId, event)];
+      });
+
+      // Jobs are stored before the cursor moves so an interrupted scan resumes cleanly
+      await store.addJobs(jobs);
+      await store.setCursor(chain.chainId, toBlock);
+
+      discovered.push(...jobs);
+      fromBlock = toBlock + BigInt(1);
+    }
+
+    return discovered;
+  };
+
+  // Transfers
+
+  // Every step re-reads chain state first, so a job interrupted mid-way (or
+  // finished by another relayer) picks up where things actually stand
+  const relayTransfer = async (job: RelayJob): Promise<StepResult> => {
+    const source = getChain(job.sourceChainId);
+    const destination = getChain(job.destinationChainId);
+
+    const origin = await source.operator.bridge.getBridgeTransaction(job.transferId);
+    if (origin.txHash === zeroHash) throw new RelayFailure("Transfer not found on the source chain");
+    if (origin.isCancelled) throw new RelayFailure("Transfer was cancelled on the source chain");
+    if (Number(origin.destinationChain) !== destination.chainId) {
+      throw new RelayFailure(`Transfer is bound for chain ${origin.destinationChain}`);
+    }
+
+    const { bridge } = destination.operator;
+    let record = await bridge.getBridgeTransaction(job.transferId);
+    if (record.txHash === zeroHash) {
+      await requireInboundRecords(destination);
+      await send(job, destination.operator, "recordInboundTransfer", () =>
+        recordInboundTransfer(destination.operator, origin)
+      );
+      record = await bridge.getBridgeTransaction(job.transferId);
+    } else if (!sameTransfer(origin, record)) {
+      throw new RelayFailure("Destination record does not match the source transfer");
+    }
+    if (record.isCompleted) return { status: "completed" };
+    if (record.isCancelled) throw new RelayFailure("Transfer was cancelled on the destination chain");
+    await save(job, "recorded");
+
+    const { confirmationsRequired } = await bridge.getBridgeConfig(BigInt(job.sourceChainId));
+    for (const validator of destination.validators ?? []) {
+      if (record.confirmations >= confirmationsRequired) break;
+      const account = validator.account as Address;
+      if (await validator.bridge.hasConfirmed(job.transferId, account)) continue;
+      await send(job, validator, `confirmTransaction by ${account}`, () =>
+        validator.bridge.confirmTransaction(job.transferId, true)
+      );
+      record = await bridge.getBridgeTransaction(job.transferId);
+    }
+    if (record.confirmations < confirmationsRequired) {
+      log(`${job.id}: ${record.confirmations}/${confirmationsRequired} confirmations, waiting for validators`);
+      return { status: "recorded", waiting: true };
+    }
+    await save(job, "confirmed");
+
+    await send(job, destination.operator, "completeBridge", () => bridge.completeBridge(job.transferId));
+    return { status: "completed" };
+  };
+
+  // Messages
+
+  const relayMessage = async (job: RelayJob): Promise<StepResult> => {
+    const source = getChain(job.sourceChainId);
+    const destination = getChain(job.destinationChainId);
+
+    const origin = await source.operator.bridge.getCrossChainMessage(job.transferId);
+    if (origin.messageId === zeroHash) throw new RelayFailure("Message not found on the source chain");
+    if (Number(origin.destinationChain) !== destination.chainId) {
+      throw new RelayFailure(`Message is bound for chain ${origin.destinationChain}`);
+    }
+
+    const { bridge, publicClient } = destination.operator;
+    let record = await bridge.getCrossChainMessage(job.transferId);
+    if (record.isExecuted) return { status: "completed" };
+
+    const { timestamp } = await publicClient.getBlock();
+    if (timestamp > origin.timestamp + BigInt(MESSAGE_EXPIRY_SECONDS)) {
+      throw new RelayFailure("Message expired before it could be executed");
+    }
+    const target = resolveMessageTarget(origin, destination.chainId);
+    if (!target) throw new RelayFailure(`No message target configured for sender ${origin.sender}`);
+
+    if (record.messageId === zeroHash) {
+      await requireInboundRecords(destination);
+      await send(job, destination.operator, "recordInboundMessage", () =>
+        recordInboundMessage(destination.operator, origin)
+      );
+      record = await bridge.getCrossChainMessage(job.transferId);
+    } else if (record.sender.toLowerCase() !== origin.sender.toLowerCase() || record.data !== origin.data) {
+      throw new RelayFailure("Destination record does not match the source message");
+    }
+    await save(job, "recorded");
+
+    await send(job, destination.operator, `executeMessage on ${target}`, () =>
+      bridge.executeMessage(job.transferId, target)
+    );
+    return { status: "completed" };
+  };
+
+  // Jobs
+
+  const processJob = async (job: RelayJob): Promise<RelayJob> => {
+    try {
+      const { status, waiting } = await (job.kind === "transfer" ? relayTransfer(job) : relayMessage(job));
+      job.status = status;
+      job.lastError = undefined;
+      if (waiting) {
+        job.nextAttemptAt = now() + confirmationPollInterval;
+      } else {
+        job.attempts = 0;
+      }
+      if (status === "completed") log(`${job.id}: completed`);
+    } catch (error) {
+      job.lastError = await describeFailure(error, chainsById.get(job.destinationChainId));
+      job.attempts += 1;
+      if (error instanceof RelayFailure || job.attempts >= maxAttempts) {
+        job.status = "failed";
+        log(`${job.id}: failed - ${job.lastError}`);
+      } else {
+        const delay = Math.min(retryDelay * 2 ** (job.attempts - 1), maxRetryDelay);
+        job.nextAttemptAt = now() + delay;
+        log(`${job.id}: attempt ${job.attempts} failed, retrying in ${Math.round(delay / 1000)}s - ${job.lastError}`);
+      }
+    }
+
+    job.updatedAt = now();
+    await store.updateJob(job);
+    return job;
+  };
+
+  const runPass = async (): Promise<RelayPass> => {
+    const discovered: RelayJob[] = [];
+    for (const chain of chains) discovered.push(...(await scanChain(chain)));
+
+    const due = await store.listJobs({ statuses: OPEN_STATUSES, dueBy: now() });
+    const processed: RelayJob[] = [];
+    // One job at a time: the operator key's nonces stay in order
+    for (const job of due) processed.push(await processJob(job));
+
+    return { discovered, processed };
+  };
+
+  /**
+   * Scan every chain and work on every due job once. Concurrent calls share one pass.
+   */
+  const runOnce = () => {
+    running ??= runPass().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  /**
+   * Keep relaying on an interval. Returns a function that stops the loop and
+   * resolves once the pass in flight, if any, has finished.
+   */
+  const watch = ({ pollingInterval = 5_000, onPass, onError }: RelayWatchOptions = {}) => {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const tick = async () => {
+      try {
+        const pass = await runOnce();
+        if (!stopped) onPass?.(pass);
+      } catch (error) {
+        if (!stopped) onError?.(error);
+      } finally {
+        if (!stopped) timer = setTimeout(tick, pollingInterval);
+      }
+    };
+
+    tick();
+    return async () => {
+      stopped = true;
+      clearTimeout(timer);
+      await running?.catch(() => undefined);
+    };
+  };
+
+  /**
+   * Setup problems that would stall every job, e.g. an operator key without
+   * BRIDGE_OPERATOR_ROLE or a bridge that cannot take inbound records. Empty
+   * when the relayer can do its work.
+   */
+  const checkSetup = async () => {
+    const problems: string[] = [];
+    for (const chain of chains) {
+      if (!(await canRecordInbound(chain))) {
+        problems.push(
+          `Chain ${chain.chainId}: CrossChainBridge at ${chain.operator.bridge.address} has no recordInboundTransfer/recordInboundMessage, so nothing can be relayed to it`
+        );
+      }
+      const operator = chain.operator.account;
+      if (!operator) {
+        problems.push(`Chain ${chain.chainId}: no operator signer`);
+      } else if (!(await chain.operator.bridge.isBridgeOperator(operator))) {
+        problems.push(`Chain ${chain.chainId}: ${operator} lacks BRIDGE_OPERATOR_ROLE`);
+      }
+      for (const validator of chain.validators ?? []) {
+        const account = validator.account as Address;
+        if (!(await validator.bridge.isValidator(account))) {
+          problems.push(`Chain ${chain.chainId}: ${account} lacks VALIDATOR_ROLE`);
+        }
+      }
+    }
+    return problems;
+  };
+
+  return { chains, store, runOnce, watch, checkSetup };
+};
+
+export type BridgeRelayer = ReturnType<typeof createBridgeRelayer>;
@@ -0,0 +1,150 @@
+/**
+ * Node RelayJobStore backed by SQLite (the built-in `node:sqlite`, Node 22.5+).
+ *
+ * Kept out of the relayer barrel like the indexer's SQLite store; import it
+ * directly from Node.
+ */
+
+import type { Hash, Hex } from "viem";
+import type { RelayJob, RelayJobKind, RelayJobStatus, RelayJobStore } from "./types";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS relay_jobs (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    source_chain_id INTEGER NOT NULL,
+    destination_chain_id INTEGER NOT NULL,
+    transfer_id TEXT NOT NULL,
+    source_transaction_hash TEXT NOT NULL,
+    source_block_number TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    next_attempt_at INTEGER NOT NULL,
+    last_error TEXT,
+    destination_transactions TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS relay_jobs_by_status ON relay_jobs (status, next_attempt_at);
+  CREATE TABLE IF NOT EXISTS relay_cursors (
+    chain_id INTEGER PRIMARY KEY,
+    block_number TEXT NOT NULL
+  );
+`;
+
+interface JobRow {
+  id: string;
+  kind: string;
+  source_chain_id: number;
+  destination_chain_id: number;
+  transfer_id: string;
+  source_transaction_hash: string;
+  source_block_number: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  destination_transactions: string;
+  created_at: number;
+  updated_at: number;
+}
+
+const fromRow = (row: JobRow): RelayJob => ({
+  id: row.id,
+  kind: row.kind as RelayJobKind,
+  sourceChainId: row.source_chain_id,
+  destinationChainId: row.destination_chain_id,
+  transferId: row.transfer_id as Hex,
+  sourceTransactionHash: row.source_transaction_hash as Hash,
+  sourceBlockNumber: BigInt(row.source_block_number),
+  status: row.status as RelayJobStatus,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastError: row.last_error ?? undefined,
+  destinationTransactions: JSON.parse(row.destination_transactions) as Hash[],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toParams = (job: RelayJob) =>
+  [
+    job.id,
+    job.kind,
+    job.sourceChainId,
+    job.destinationChainId,
+    job.transferId,
+    job.sourceTransactionHash,
+    job.sourceBlockNumber.toString(),
+    job.status,
+    job.attempts,
+    job.nextAttemptAt,
+    job.lastError ?? null,
+    JSON.stringify(job.destinationTransactions),
+    job.createdAt,
+    job.updatedAt,
+  ] as const;
+
+export const createSqliteRelayJobStore = async (path: string): Promise<RelayJobStore> => {
+  const { DatabaseSync } = await import("node:sqlite");
+  const db = new DatabaseSync(path);
+  db.exec(SCHEMA);
+
+  const columns = `(id, kind, source_chain_id, destination_chain_id, transfer_id, source_transaction_hash,
+     source_block_number, status, attempts, next_attempt_at, last_error, destination_transactions,
+     created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+  const insertJob = db.prepare(`INSERT OR IGNORE INTO relay_jobs ${columns}`);
+  const replaceJob = db.prepare(`INSERT OR REPLACE INTO relay_jobs ${columns}`);
+  const selectJob = db.prepare("SELECT * FROM relay_jobs WHERE id = ?");
+  const selectCursor = db.prepare("SELECT block_number FROM relay_cursors WHERE chain_id = ?");
+  const upsertCursor = db.prepare(
+    `INSERT INTO relay_cursors (chain_id, block_number) VALUES (?, ?)
+     ON CONFLICT (chain_id) DO UPDATE SET block_number = excluded.block_number`
+  );
+
+  return {
+    async getCursor(chainId) {
+      const row = selectCursor.get(chainId) as { block_number: string } | undefined;
+      return row ? BigInt(row.block_number) : null;
+    },
+    async setCursor(chainId, blockNumber) {
+      upsertCursor.run(chainId, blockNumber.toString());
+    },
+    async addJobs(jobs) {
+      db.exec("BEGIN");
+      try {
+        for (const job of jobs) insertJob.run(...toParams(job));
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+    async updateJob(job) {
+      replaceJob.run(...toParams(job));
+    },
+    async getJob(id) {
+      const row = selectJob.get(id) as unknown as JobRow | undefined;
+      return row ? fromRow(row) : null;
+    },
+    async listJobs({ statuses, dueBy, limit } = {}) {
+      const clauses: string[] = [];
+      const params: (string | number)[] = [];
+      if (statuses) {
+        clauses.push(`status IN (${statuses.map(() => "?").join(", ")})`);
+        params.push(...statuses);
+      }
+      if (dueBy !== undefined) {
+        clauses.push("next_attempt_at <= ?");
+        params.push(dueBy);
+      }
+      const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+      const rows = db
+        .prepare(`SELECT * FROM relay_jobs ${where} ORDER BY created_at ASC, id ASC LIMIT ?`)
+        .all(...params, limit ?? -1) as unknown as JobRow[];
+      return rows.map(fromRow);
+    },
+    async close() {
+      db.close();
+    },
+  };
+};
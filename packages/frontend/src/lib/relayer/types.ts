@@ -0,0 +1,63 @@
+/**
+ * HedVault Bridge Relayer Types
+ * Relay jobs and the storage interface that makes them survive restarts
+ */
+
+import type { Hash, Hex } from "viem";
+
+// A BridgeInitiated transfer or a MessageSent message
+export type RelayJobKind = "transfer" | "message";
+
+/**
+ * - pending: found on the source chain, not yet on the destination bridge
+ * - recorded: on the destination bridge, waiting for validator confirmations
+ * - confirmed: enough confirmations, waiting for completeBridge / executeMessage
+ * - completed: released on the destination chain (by us or anyone else)
+ * - failed: gave up; `lastError` says why
+ */
+export type RelayJobStatus = "pending" | "recorded" | "confirmed" | "completed" | "failed";
+
+export interface RelayJob {
+  // `${kind}:${sourceChainId}:${transferId}`, unique per transfer or message
+  id: string;
+  kind: RelayJobKind;
+  sourceChainId: number;
+  destinationChainId: number;
+  // BridgeTransaction.txHash or CrossChainMessage.messageId
+  transferId: Hex;
+  // Where the source event was emitted
+  sourceTransactionHash: Hash;
+  sourceBlockNumber: bigint;
+  status: RelayJobStatus;
+  attempts: number;
+  // Unix ms; the job is not retried before this
+  nextAttemptAt: number;
+  lastError?: string;
+  // Destination transactions sent for this job, oldest first
+  destinationTransactions: Hash[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RelayJobQuery {
+  statuses?: RelayJobStatus[];
+  // Only jobs whose nextAttemptAt is at or before this time
+  dueBy?: number;
+  limit?: number;
+}
+
+/**
+ * Persistence for relay jobs and per-chain scan cursors. `addJobs` must
+ * ignore jobs whose id is already stored, so rescanning a block range never
+ * resets a job's progress.
+ */
+export interface RelayJobStore {
+  getCursor(chainId: number): Promise<bigint | null>;
+  setCursor(chainId: number, blockNumber: bigint): Promise<void>;
+  addJobs(jobs: RelayJob[]): Promise<void>;
+  updateJob(job: RelayJob): Promise<void>;
+  getJob(id: string): Promise<RelayJob | null>;
+  // Oldest first
+  listJobs(query?: RelayJobQuery): Promise<RelayJob[]>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,86 @@
+/**
+ * HedVault SDK - Token amounts
+ * Parsing and formatting that respects each token's decimals.
+ *
+ * Amounts stay bigints end to end; `Number` only comes into it for values
+ * that are displayed or multiplied by a price, never for what gets sent.
+ */
+
+import { formatUnits, parseUnits } from "viem";
+import { HedVaultError } from "./errors";
+
+const AMOUNT_PATTERN = /^\d*\.?\d*$/;
+
+/**
+ * Why `value` is not a valid amount of a token with `decimals`, or undefined
+ * when it is. Empty input is reported too, so check for it first if blank
+ * fields are allowed.
+ */
+export const validateAmount = (value: string, decimals: number): string | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === ".") return "Enter an amount";
+  if (!AMOUNT_PATTERN.test(trimmed)) return "Enter a number, e.g. 1500.25";
+
+  const fraction = trimmed.split(".")[1] ?? "";
+  if (fraction.length > decimals) {
+    return decimals === 0
+      ? "This token has no decimal places"
+      : `This token has at most ${decimals} decimal places`;
+  }
+  return undefined;
+};
+
+// Scales a human-readable amount by the token's decimals; throws a HedVaultError
+// with the validation message instead of silently rounding
+export const parseAmount = (value: string, decimals: number): bigint => {
+  const invalid = validateAmount(value, decimals);
+  if (invalid) throw new HedVaultError(invalid);
+  return parseUnits(value.trim(), decimals);
+};
+
+/**
+ * Keeps keystrokes that can still become a valid amount: digits, one
+ * decimal point (when the token has decimals) and no more fraction digits
+ * than the token supports. Meant for `onChange` handlers; without
+ * `decimals` (metadata still loading) only the shape is enforced.
+ */
+export const sanitizeAmountInput = (value: string, decimals?: number): string => {
+  const [whole, ...rest] = value.replace(/[^\d.]/g, "").split(".");
+  if (rest.length === 0 || decimals === 0) return whole;
+  const fraction = rest.join("");
+  return `${whole}.${decimals === undefined ? fraction : fraction.slice(0, decimals)}`;
+};
+
+// Exact, ungrouped string for an amount input, e.g. a "Max" button or a
+// quoted output; parseAmount reads it back unchanged
+export const formatAmountInput = (value: bigint, decimals: number): string =>
+  formatUnits(value, decimals);
+
+export interface FormatAmountOptions {
+  // Fraction digits to show; extra digits are cut, not rounded up
+  maximumFractionDigits?: number;
+  minimumFractionDigits?: number;
+}
+
+/**
+ * Grouped, truncated display string, e.g. 1234567890000n with 6 decimals ->
+ * "1,234,567.89". Exact for any size since it never goes through Number.
+ */
+export const formatAmount = (
+  value: bigint,
+  decimals: number,
+  { maximumFractionDigits = 4, minimumFractionDigits = 0 }: FormatAmountOptions = {}
+): string => {
+  const negative = value < BigInt(0);
+  const [whole, fraction = ""] = formatUnits(negative ? -value : value, decimals).split(".");
+  const shown = fraction
+    .slice(0, maximumFractionDigits)
+    .replace(/0+$/, "")
+    .padEnd(minimumFractionDigits, "0");
+  const grouped = BigInt(whole).toLocaleString("en-US");
+  return `${negative ? "-" : ""}${grouped}${shown ? `.${shown}` : ""}`;
+};
+
+// For prices and totals only; loses precision past ~15 significant digits
+export const amountToNumber = (value: bigint, decimals: number): number =>
+  Number(formatUnits(value, decimals));
@@ -0,0 +1,172 @@
+/**
+ * HedVault SDK - CrossChainBridge
+ */
+
+import { type Address, type Hex, type Log, parseEventLogs } from "viem";
+import { CrossChainBridgeABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+// Limits and transfer sizes per destination chain, in the asset's decimals
+export interface BridgeConfig {
+  isActive: boolean;
+  minTransferAmount: bigint;
+  maxTransferAmount: bigint;
+  dailyLimit: bigint;
+  dailyTransferred: bigint;
+  lastResetTime: bigint;
+  confirmationsRequired: bigint;
+}
+
+// Fee in basis points of the amount bridged
+export interface BridgeAssetConfig {
+  isSupported: boolean;
+  bridgeFee: bigint;
+  minAmount: bigint;
+  maxAmount: bigint;
+  wrappedToken: Address;
+}
+
+export interface BridgeTransaction {
+  txHash: Hex;
+  // The recipient on the destination chain
+  user: Address;
+  asset: Address;
+  // Net of the bridge fee
+  amount: bigint;
+  sourceChain: bigint;
+  destinationChain: bigint;
+  timestamp: bigint;
+  confirmations: bigint;
+  isCompleted: boolean;
+  isCancelled: boolean;
+}
+
+// A message sent through sendMessage; the operator picks the target contract
+// on the destination chain when executing it
+export interface CrossChainMessage {
+  messageId: Hex;
+  sender: Address;
+  sourceChain: bigint;
+  destinationChain: bigint;
+  data: Hex;
+  timestamp: bigint;
+  isExecuted: boolean;
+}
+
+// Messages can only be executed this long after they were sent
+export const MESSAGE_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+export type BridgeTransferStatus = "confirming" | "relaying" | "completed" | "cancelled";
+
+/**
+ * Where a transfer stands: validators confirm it, the operator completes it
+ * on the destination chain, or it is cancelled and refunded. The destination
+ * record is read from that chain's bridge when HedVault is deployed there.
+ */
+export const getBridgeTransferStatus = (
+  source: BridgeTransaction,
+  confirmationsRequired: bigint,
+  destination?: BridgeTransaction
+): BridgeTransferStatus => {
+  if (source.isCancelled || destination?.isCancelled) return "cancelled";
+  if (source.isCompleted || destination?.isCompleted) return "completed";
+  const confirmations =
+    destination && destination.confirmations > source.confirmations
+      ? destination.confirmations
+      : source.confirmations;
+  return confirmations < confirmationsRequired ? "confirming" : "relaying";
+};
+
+// Id of the transfer created by an initiateBridge transaction, from its receipt
+export const getBridgeTransferId = (logs: Log[]): Hex | undefined => {
+  const [initiated] = parseEventLogs({
+    abi: CrossChainBridgeABI,
+    eventName: "BridgeInitiated",
+    logs,
+  });
+  return initiated?.args.txHash;
+};
+
+export const createBridgeModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "CrossChainBridge", CrossChainBridgeABI);
+
+  const getBridgeConfig = async (chainId: bigint): Promise<BridgeConfig> => {
+    const [
+      isActive,
+      minTransferAmount,
+      maxTransferAmount,
+      dailyLimit,
+      dailyTransferred,
+      lastResetTime,
+      confirmationsRequired,
+    ] = await contract.read.bridgeConfigs([chainId]);
+    return {
+      isActive,
+      minTransferAmount,
+      maxTransferAmount,
+      dailyLimit,
+      dailyTransferred,
+      lastResetTime,
+      confirmationsRequired,
+    };
+  };
+
+  const isChainSupported = (chainId: bigint) => contract.read.isChainSupported([chainId]);
+  const isAssetSupported = (asset: Address) => contract.read.isAssetSupported([asset]);
+
+  return {
+    ...contract,
+
+    // Reads
+    getBridgeTransaction: (txHash: Hex): Promise<BridgeTransaction> =>
+      contract.read.getBridgeTransaction([txHash]),
+    getBridgeConfig,
+    getAssetConfig: async (asset: Address): Promise<BridgeAssetConfig> => {
+      const [isSupported, bridgeFee, minAmount, maxAmount, wrappedToken] =
+        await contract.read.assetConfigs([asset]);
+      return { isSupported, bridgeFee, minAmount, maxAmount, wrappedToken };
+    },
+    // The chain this bridge is deployed on, as transfers record it
+    getCurrentChainId: () => contract.read.CURRENT_CHAIN_ID(),
+    calculateBridgeFee: (asset: Address, amount: bigint) =>
+      contract.read.calculateBridgeFee([asset, amount]),
+    isAssetSupported,
+    isChainSupported,
+    // The subset of `chainIds` / `assets` the bridge accepts, in order
+    getSupportedChains: async (chainIds: readonly bigint[]) => {
+      const supported = await Promise.all(chainIds.map(isChainSupported));
+      return chainIds.filter((_, index) => supported[index]);
+    },
+    getSupportedAssets: async (assets: readonly Address[]) => {
+      const supported = await Promise.all(assets.map(isAssetSupported));
+      return assets.filter((_, index) => supported[index]);
+    },
+    getCrossChainMessage: (messageId: Hex): Promise<CrossChainMessage> =>
+      contract.read.getCrossChainMessage([messageId]),
+    isBridgeOperator: async (account: Address) =>
+      contract.read.hasRole([await contract.read.BRIDGE_OPERATOR_ROLE(), account]),
+    isValidator: async (account: Address) =>
+      contract.read.hasRole([await contract.read.VALIDATOR_ROLE(), account]),
+    // Whether `validator` has voted on the transfer, either way
+    hasConfirmed: (txHash: Hex, validator: Address) =>
+      contract.read.validatorConfirmations([txHash, validator]),
+    getUserDailyLimitRemaining: (chainId: bigint, user: Address) =>
+      contract.read.getUserDailyLimitRemaining([chainId, user]),
+
+    // Writes. The bridge pulls `amount` of the asset; approve it first
+    initiateBridge: (asset: Address, amount: bigint, destinationChain: bigint, recipient: Address) =>
+      contract.write.initiateBridge([asset, amount, destinationChain, recipient]),
+    sendMessage: (destinationChain: bigint, data: Hex) =>
+      contract.write.sendMessage([destinationChain, data]),
+
+    // Operators
+    confirmTransaction: (txHash: Hex, confirmed: boolean) =>
+      contract.write.confirmTransaction([txHash, confirmed]),
+    completeBridge: (txHash: Hex) => contract.write.completeBridge([txHash]),
+    cancelBridge: (txHash: Hex, reason: string) => contract.write.cancelBridge([txHash, reason]),
+    executeMessage: (messageId: Hex, target: Address) =>
+      contract.write.executeMessage([messageId, target]),
+  };
+};
+
+export type BridgeModule = ReturnType<typeof createBridgeModule>;
@@ -0,0 +1,94 @@
+/**
+ * HedVault Client
+ * Framework-agnostic access to every protocol module, built on viem
+ */
+
+import type { Address, Hash, PublicClient } from "viem";
+import { type ContractName, DEFAULT_CHAIN_ID } from "../contracts";
+import { type HedVaultWalletClient, type SdkContext, type SimulatedRequest, sendRequest } from "./contract";
+import { createBridgeModule } from "./bridge";
+import { createComplianceModule } from "./compliance";
+import { createCoreModule } from "./core";
+import { createFactoryModule } from "./factory";
+import { createHtsModule } from "./hts";
+import { createLendingModule } from "./lending";
+import { createMarketplaceModule } from "./marketplace";
+import { createOracleModule } from "./oracle";
+import { createPortfolioModule } from "./portfolio";
+import { createRewardsModule } from "./rewards";
+import { createRwaOracleModule } from "./rwaOracle";
+import { createSwapModule } from "./swap";
+import { createTokenModule } from "./token";
+import { createTokenMetadataModule } from "./tokenMetadata";
+
+export interface HedVaultClientOptions {
+  publicClient: PublicClient;
+  // Required for writes only
+  walletClient?: HedVaultWalletClient;
+  // Defaults to the public client's chain
+  chainId?: number;
+  addresses?: Partial<Record<ContractName, Address>>;
+}
+
+const MODULES = {
+  core: createCoreModule,
+  lending: createLendingModule,
+  marketplace: createMarketplaceModule,
+  swap: createSwapModule,
+  compliance: createComplianceModule,
+  rewards: createRewardsModule,
+  portfolio: createPortfolioModule,
+  oracle: createOracleModule,
+  rwaOracle: createRwaOracleModule,
+  bridge: createBridgeModule,
+  factory: createFactoryModule,
+  hts: createHtsModule,
+};
+
+type Modules = { readonly [K in keyof typeof MODULES]: ReturnType<(typeof MODULES)[K]> };
+
+/**
+ * Each module exposes typed `read`, `simulate`, `estimateGas` and `write`
+ * accessors for its whole ABI, plus named methods for the calls the app
+ * makes. Writes resolve to the transaction hash; pair them with
+ * `waitForTransaction` to get the receipt. `tokens` resolves (and caches)
+ * token decimals, symbol and name.
+ *
+ * Modules are bound on first access, so a chain that lacks one contract only
+ * fails when that module is used.
+ */
+export const createHedVaultClient = ({
+  publicClient,
+  walletClient,
+  chainId = publicClient.chain?.id ?? DEFAULT_CHAIN_ID,
+  addresses,
+}: HedVaultClientOptions) => {
+  const context: SdkContext = { chainId, publicClient, walletClient, addresses };
+  const bound = new Map<keyof Modules, unknown>();
+
+  const modules = {} as Modules;
+  for (const name of Object.keys(MODULES) as (keyof Modules)[]) {
+    Object.defineProperty(modules, name, {
+      enumerable: true,
+      get: () => {
+        if (!bound.has(name)) bound.set(name, MODULES[name](context));
+        return bound.get(name);
+      },
+    });
+  }
+
+  return Object.assign(modules, {
+    chainId,
+    publicClient,
+    walletClient,
+    account: walletClient?.account.address,
+    token: (address: Address) => createTokenModule(context, address),
+    tokens: createTokenMetadataModule(context),
+    // Sends what a module's `simulate` returned without the second
+    // simulation `write` would run
+    sendSimulated: (request: SimulatedRequest) => sendRequest(context, request),
+    waitForTransaction: (hash: Hash) => publicClient.waitForTransactionReceipt({ hash }),
+  });
+};
+
+export type HedVaultClient = ReturnType<typeof createHedVaultClient>;
@@ -0,0 +1,96 @@
+/**
+ * HedVault SDK - ComplianceManager
+ */
+
+import type { Address, Hex } from "viem";
+import { ComplianceManagerABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+export interface UserCompliance {
+  level: number;
+  riskLevel: number;
+  isVerified: boolean;
+  isBlacklisted: boolean;
+  isSanctioned: boolean;
+  verificationDate: bigint;
+  lastReviewDate: bigint;
+  dailyTransactionLimit: bigint;
+  monthlyTransactionLimit: bigint;
+  dailyTransactionVolume: bigint;
+  monthlyTransactionVolume: bigint;
+  lastTransactionDate: bigint;
+  jurisdiction: string;
+  kycHash: Hex;
+  verifiedBy: Address;
+}
+
+export interface TransactionMonitoring {
+  transactionId: bigint;
+  user: Address;
+  asset: Address;
+  amount: bigint;
+  timestamp: bigint;
+  status: number;
+  riskLevel: number;
+  transactionType: string;
+  flagReason: string;
+  reviewedBy: Address;
+  reviewDate: bigint;
+}
+
+export interface RegulatoryReport {
+  reportId: bigint;
+  startDate: bigint;
+  endDate: bigint;
+  totalTransactions: bigint;
+  flaggedTransactions: bigint;
+  totalVolume: bigint;
+  reportType: string;
+  jurisdiction: string;
+  reportHash: Hex;
+  isSubmitted: boolean;
+  submissionDate: bigint;
+}
+
+export const createComplianceModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "ComplianceManager", ComplianceManagerABI);
+
+  return {
+    ...contract,
+
+    // Reads
+    getUserCompliance: (user: Address): Promise<UserCompliance> =>
+      contract.read.getUserCompliance([user]),
+    isUserCompliant: (user: Address, amount: bigint) =>
+      contract.read.isUserCompliant([user, amount]),
+    isSanctioned: (entity: Address) => contract.read.isSanctioned([entity]),
+    getRemainingDailyLimit: (user: Address) => contract.read.getRemainingDailyLimit([user]),
+    getTransactionMonitoring: (transactionId: bigint): Promise<TransactionMonitoring> =>
+      contract.read.getTransactionMonitoring([transactionId]),
+    getRegulatoryReport: (reportId: bigint): Promise<RegulatoryReport> =>
+      contract.read.getRegulatoryReport([reportId]),
+
+    // Writes
+    verifyUser: (user: Address, level: number, jurisdiction: string, kycHash: Hex) =>
+      contract.write.verifyUser([user, level, jurisdiction, kycHash]),
+    monitorTransaction: (
+      user: Address,
+      asset: Address,
+      amount: bigint,
+      transactionType: string
+    ) => contract.write.monitorTransaction([user, asset, amount, transactionType]),
+    blacklistUser: (user: Address, reason: string) =>
+      contract.write.blacklistUser([user, reason]),
+    removeFromBlacklist: (user: Address) => contract.write.removeFromBlacklist([user]),
+    updateUserRiskLevel: (user: Address, riskLevel: number) =>
+      contract.write.updateUserRiskLevel([user, riskLevel]),
+    generateRegulatoryReport: (
+      startDate: bigint,
+      endDate: bigint,
+      reportType: string,
+      jurisdiction: string
+    ) => contract.write.generateRegulatoryReport([startDate, endDate, reportType, jurisdiction]),
+  };
+};
+
+export type ComplianceModule = ReturnType<typeof createComplianceModule>;
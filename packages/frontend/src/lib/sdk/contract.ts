@@ -0,0 +1,156 @@
+/**
+ * HedVault SDK Contract Binding
+ * Shared plumbing that ties a generated ABI to a deployed address and the
+ * caller's viem clients
+ */
+
+import {
+  type Abi,
+  type Account,
+  type Address,
+  type Chain,
+  type GetContractReturnType,
+  type Hash,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+  getContract,
+} from "viem";
+import { type ContractName, getContractAddress } from "../contracts";
+
+export type HedVaultWalletClient = WalletClient<Transport, Chain, Account>;
+
+export class HedVaultClientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HedVaultClientError";
+  }
+}
+
+export interface SdkContext {
+  chainId: number;
+  publicClient: PublicClient;
+  walletClient?: HedVaultWalletClient;
+  // Per-contract address overrides, e.g. for forks or ad-hoc local deployments
+  addresses?: Partial<Record<ContractName, Address>>;
+}
+
+export const resolveAddress = (context: SdkContext, name: ContractName) => {
+  const address = context.addresses?.[name] ?? getContractAddress(name, context.chainId);
+  if (!address) {
+    throw new HedVaultClientError(`${name} is not deployed on chain ${context.chainId}`);
+  }
+  return address;
+};
+
+/**
+ * The wallet that signs writes. It must sit on the client's chain, otherwise
+ * transactions would land on a network where the addresses mean nothing.
+ */
+export const requireWallet = (context: SdkContext) => {
+  const { walletClient, chainId } = context;
+  if (!walletClient) {
+    throw new HedVaultClientError("A wallet client is required to send transactions");
+  }
+  if (walletClient.chain.id !== chainId) {
+    throw new HedVaultClientError(
+      `Wallet is on chain ${walletClient.chain.id}, expected ${chainId}`
+    );
+  }
+  return walletClient;
+};
+
+// The `request` a `simulate` call returns, ready to be signed as is
+export type SimulatedRequest = {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+};
+
+/**
+ * Signs and sends a request that has already been simulated, with the
+ * wallet's own account and chain: a simulation from a plain address would
+ * otherwise make local accounts send unsigned.
+ */
+export const sendRequest = (context: SdkContext, request: SimulatedRequest): Promise<Hash> => {
+  const wallet = requireWallet(context);
+  return wallet.writeContract({
+    ...(request as Parameters<HedVaultWalletClient["writeContract"]>[0]),
+    account: wallet.account,
+    chain: wallet.chain,
+  });
+};
+
+type ContractReader<TAbi extends Abi> = GetContractReturnType<TAbi, PublicClient>;
+type ContractWriter<TAbi extends Abi> = GetContractReturnType<
+  TAbi,
+  { public: PublicClient; wallet: HedVaultWalletClient }
+>;
+
+// viem's contract types cannot be indexed while TAbi is still generic
+type Member<T, K extends string> = T extends { [P in K]: infer V } ? V : never;
+
+export interface BoundContract<TAbi extends Abi> {
+  address: Address;
+  abi: TAbi;
+  read: Member<ContractReader<TAbi>, "read">;
+  simulate: Member<ContractReader<TAbi>, "simulate">;
+  estimateGas: Member<ContractReader<TAbi>, "estimateGas">;
+  write: Member<ContractWriter<TAbi>, "write">;
+}
+
+/**
+ * Typed read/simulate/write accessors for one contract. Writes look up the
+ * wallet when they are called, so read-only clients never need one and
+ * modules can spread the accessors freely.
+ *
+ * Every write is simulated from the signer's account before it is sent, so
+ * a call that would revert fails with the contract's error before the wallet
+ * prompts, and the request that is signed is the one that was simulated.
+ */
+export const bindContract = <const TAbi extends Abi>(
+  context: SdkContext,
+  address: Address,
+  abi: TAbi
+): BoundContract<TAbi> => {
+  const reader = getContract({ address, abi: abi as Abi, client: context.publicClient });
+
+  return {
+    address,
+    abi,
+    read: reader.read,
+    simulate: reader.simulate,
+    estimateGas: reader.estimateGas,
+    write: new Proxy(
+      {},
+      {
+        get: (_, functionName: string) =>
+          async (...parameters: unknown[]) => {
+            const wallet = requireWallet(context);
+            // Same calling convention as viem's contract.write: ([args], options?)
+            // for functions with inputs, (options?) for those without
+            const [args, options] = Array.isArray(parameters[0])
+              ? [parameters[0], parameters[1]]
+              : [[], parameters[0]];
+            const { request } = await context.publicClient.simulateContract({
+              ...(options as object),
+              address,
+              abi: abi as Abi,
+              functionName,
+              args,
+              account: wallet.account,
+              chain: wallet.chain,
+            });
+            return sendRequest(context, request as SimulatedRequest);
+          },
+      }
+    ),
+  } as unknown as BoundContract<TAbi>;
+};
+
+export const bindDeployedContract = <const TAbi extends Abi>(
+  context: SdkContext,
+  name: ContractName,
+  abi: TAbi
+) => bindContract(context, resolveAddress(context, name), abi);
@@ -0,0 +1,96 @@
+/**
+ * HedVault SDK - HedVaultCore
+ */
+
+import { type Address, isAddressEqual } from "viem";
+import { HedVaultCoreABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+export interface ProtocolHealth {
+  isHealthy: boolean;
+  tvlUtilization: bigint;
+  activeModules: bigint;
+  lastActivity: bigint;
+}
+
+export interface ProtocolLimits {
+  maxTVLLimit: bigint;
+  minTxAmount: bigint;
+  maxTxAmount: bigint;
+  dailyTxLimit: bigint;
+  dailyVolumeLimit: bigint;
+}
+
+export interface ProtocolStats {
+  tvl: bigint;
+  users: bigint;
+  transactions: bigint;
+  fees: bigint;
+}
+
+export interface UserInfo {
+  isRegistered: boolean;
+  registrationTime: bigint;
+  lastTransaction: bigint;
+  dailyTxCount: bigint;
+  dailyVolume: bigint;
+}
+
+export const createCoreModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "HedVaultCore", HedVaultCoreABI);
+
+  return {
+    ...contract,
+
+    // Reads. Multi-value returns come back from viem as tuples and are
+    // named here after the contract's return parameters.
+    getProtocolFee: (operation: string) => contract.read.getProtocolFee([operation]),
+    getProtocolHealth: async (): Promise<ProtocolHealth> => {
+      const [isHealthy, tvlUtilization, activeModules, lastActivity] =
+        await contract.read.getProtocolHealth();
+      return { isHealthy, tvlUtilization, activeModules, lastActivity };
+    },
+    getProtocolLimits: async (): Promise<ProtocolLimits> => {
+      const [maxTVLLimit, minTxAmount, maxTxAmount, dailyTxLimit, dailyVolumeLimit] =
+        await contract.read.getProtocolLimits();
+      return { maxTVLLimit, minTxAmount, maxTxAmount, dailyTxLimit, dailyVolumeLimit };
+    },
+    getProtocolStats: async (): Promise<ProtocolStats> => {
+      const [tvl, users, transactions, fees] = await contract.read.getProtocolStats();
+      return { tvl, users, transactions, fees };
+    },
+    getUserInfo: async (user: Address): Promise<UserInfo> => {
+      const [isRegistered, registrationTime, lastTransaction, dailyTxCount, dailyVolume] =
+        await contract.read.getUserInfo([user]);
+      return { isRegistered, registrationTime, lastTransaction, dailyTxCount, dailyVolume };
+    },
+    validateTransaction: (user: Address, amount: bigint, operation: string) =>
+      contract.read.validateTransaction([user, amount, operation]),
+    isValidModule: (module: Address) => contract.read.isValidModule([module]),
+    isCircuitBreakerActive: (module: string) => contract.read.isCircuitBreakerActive([module]),
+    // Matches the contract's onlyAdmin: a listed admin or the owner
+    isAdmin: async (account: Address) => {
+      const [listed, owner] = await Promise.all([contract.read.admins([account]), contract.read.owner()]);
+      return listed || isAddressEqual(owner, account);
+    },
+
+    // Admin
+    updateModule: (moduleType: string, newModule: Address) =>
+      contract.write.updateModule([moduleType, newModule]),
+    updateFee: (feeType: string, newFee: bigint) => contract.write.updateFee([feeType, newFee]),
+    batchUpdateFees: (feeTypes: string[], newFees: bigint[]) =>
+      contract.write.batchUpdateFees([feeTypes, newFees]),
+    updateFeeRecipient: (recipient: Address) => contract.write.updateFeeRecipient([recipient]),
+    updateProtocolLimit: (limitType: string, newLimit: bigint) =>
+      contract.write.updateProtocolLimit([limitType, newLimit]),
+    pause: () => contract.write.pause(),
+    unpause: () => contract.write.unpause(),
+    activateEmergencyMode: (reason: string) => contract.write.activateEmergencyMode([reason]),
+    deactivateEmergencyMode: () => contract.write.deactivateEmergencyMode(),
+    registerUser: (user: Address) => contract.write.registerUser([user]),
+    addAdmin: (admin: Address) => contract.write.addAdmin([admin]),
+    removeAdmin: (admin: Address) => contract.write.removeAdmin([admin]),
+  };
+};
+
+export type CoreModule = ReturnType<typeof createCoreModule>;
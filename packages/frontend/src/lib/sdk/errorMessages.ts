@@ -0,0 +1,392 @@
+/**
+ * HedVault SDK - Error Messages (English)
+ * User-facing text for every custom error the contracts can revert with:
+ * HedVaultErrors plus the OpenZeppelin errors the contracts inherit.
+ */
+
+import type { ContractName } from "../contracts";
+
+export interface ErrorMessage {
+  message: string;
+  // What the user can do about it, when there is something
+  hint?: string;
+}
+
+// Renders revert arguments for display
+export interface ErrorFormatter {
+  // Contract the call was made to, when known
+  contract?: ContractName;
+  amount: (value: unknown) => string;
+  address: (value: unknown) => string;
+  role: (value: unknown) => string;
+  date: (value: unknown) => string;
+  duration: (value: unknown) => string;
+}
+
+// Revert arguments keyed by their ABI parameter names
+export type ErrorArgs = Record<string, unknown>;
+
+export type ErrorTemplate = ErrorMessage | ((args: ErrorArgs, format: ErrorFormatter) => ErrorMessage);
+
+export type ErrorCatalog = Record<string, ErrorTemplate>;
+
+const CONTACT_ADMIN = "Contact a HedVault administrator if you think this is wrong.";
+const TRY_LATER = "Try again later.";
+
+export const EN_ERROR_MESSAGES: ErrorCatalog = {
+  // Access control
+  UnauthorizedAccess: (a, f) => ({
+    message: `${f.address(a.caller)} lacks the ${a.requiredRole} permission`,
+    hint: `Switch to an account with that permission. ${CONTACT_ADMIN}`,
+  }),
+  OnlyOwner: { message: "Only the contract owner can do this", hint: "Switch to the owner account." },
+  OnlyAdmin: { message: "Only a protocol admin can do this", hint: "Switch to an admin account." },
+  AdminAlreadyExists: (a, f) => ({ message: `${f.address(a.admin)} is already an admin` }),
+  AdminDoesNotExist: (a, f) => ({ message: `${f.address(a.admin)} is not an admin` }),
+  CannotRemoveLastAdmin: {
+    message: "The last admin cannot be removed",
+    hint: "Add another admin first.",
+  },
+  AccessControlUnauthorizedAccount: (a, f) => ({
+    message: `${f.address(a.account)} is missing ${f.role(a.neededRole)}`,
+    hint: `Switch to an account with that role. ${CONTACT_ADMIN}`,
+  }),
+  AccessControlBadConfirmation: {
+    message: "Roles can only be renounced by the account holding them",
+  },
+  OwnableUnauthorizedAccount: (a, f) => ({
+    message: `${f.address(a.account)} is not the owner`,
+    hint: "Switch to the owner account.",
+  }),
+  OwnableInvalidOwner: (a, f) => ({ message: `${f.address(a.owner)} cannot be the owner` }),
+
+  // Protocol state
+  ProtocolPaused: { message: "The protocol is paused", hint: TRY_LATER },
+  ProtocolNotPaused: { message: "The protocol is not paused" },
+  ProtocolAlreadyInitialized: { message: "The protocol is already initialized" },
+  ProtocolNotInitialized: { message: "The protocol has not been initialized yet" },
+  InvalidConfiguration: (a) => ({ message: `Invalid configuration: ${a.parameter}` }),
+  EnforcedPause: (_, f) => ({
+    message: f.contract ? `${f.contract} is paused` : "This contract is paused",
+    hint: TRY_LATER,
+  }),
+  ExpectedPause: (_, f) => ({
+    message: f.contract ? `${f.contract} is not paused` : "This contract is not paused",
+  }),
+
+  // Validation
+  ZeroAddress: { message: "An address is missing", hint: "Fill in every address field." },
+  ZeroAmount: { message: "The amount must be greater than zero" },
+  InvalidAmount: (a, f) => ({
+    message: `Amount ${f.amount(a.amount)} is outside the allowed range`,
+    hint: `Enter an amount between ${f.amount(a.min)} and ${f.amount(a.max)}.`,
+  }),
+  InvalidPercentage: (a) => ({ message: `Invalid percentage: ${a.percentage}` }),
+  InvalidTimestamp: (a, f) => ({ message: `Invalid time: ${f.date(a.timestamp)}` }),
+  InvalidDuration: (a, f) => ({ message: `Invalid duration: ${f.duration(a.duration)}` }),
+  ArrayLengthMismatch: (a) => ({
+    message: `Mismatched list lengths (${a.length1} and ${a.length2})`,
+  }),
+  EmptyArray: { message: "The list is empty" },
+  IndexOutOfBounds: (a) => ({ message: `Index ${a.index} is out of range (length ${a.length})` }),
+
+  // RWA tokens
+  TokenAlreadyExists: (a, f) => ({ message: `Token ${f.address(a.token)} already exists` }),
+  TokenDoesNotExist: (a, f) => ({ message: `Token ${f.address(a.token)} does not exist` }),
+  TokenNotActive: (a, f) => ({
+    message: `Token ${f.address(a.token)} is not active`,
+    hint: "Pick an active token.",
+  }),
+  TokenCreationFailed: (a) => ({ message: `Token creation failed: ${a.reason}` }),
+  InvalidTokenMetadata: (a) => ({
+    message: `Invalid token metadata: ${a.field}`,
+    hint: "Check the token details and try again.",
+  }),
+  InsufficientTokenSupply: (a, f) => ({
+    message: `Not enough supply – ${f.amount(a.available)} available, ${f.amount(a.requested)} requested`,
+    hint: "Request a smaller amount.",
+  }),
+  TokenNotListed: (a, f) => ({
+    message:
+      f.contract === "SwapEngine"
+        ? `Token ${f.address(a.token)} is not supported by the SwapEngine`
+        : `Token ${f.address(a.token)} is not listed${f.contract ? ` on ${f.contract}` : ""}`,
+    hint:
+      f.contract === "SwapEngine"
+        ? "Add it as a supported swap token first."
+        : "Pick a listed token, or ask an admin to list it.",
+  }),
+  TokenAlreadyListed: (a, f) => ({ message: `Token ${f.address(a.token)} is already listed` }),
+  TokenAlreadySupported: (a, f) => ({
+    message: `Token ${f.address(a.token)} is already supported`,
+  }),
+  MinInvestmentNotMet: (a, f) => ({
+    message: `Below the minimum investment – at least ${f.amount(a.minimum)} required`,
+    hint: `Invest at least ${f.amount(a.minimum)}.`,
+  }),
+
+  // Trading and marketplace
+  OrderDoesNotExist: (a) => ({ message: `Order #${a.orderId} does not exist` }),
+  OrderAlreadyFilled: (a) => ({ message: `Order #${a.orderId} is already filled` }),
+  OrderAlreadyCancelled: (a) => ({ message: `Order #${a.orderId} is already cancelled` }),
+  OrderExpired: (a) => ({ message: `Order #${a.orderId} has expired` }),
+  InsufficientBalance: (a, f) => ({
+    message: `Insufficient balance – ${f.amount(a.available)} available, ${f.amount(a.required)} required`,
+    hint: "Top up the balance or use a smaller amount.",
+  }),
+  InvalidOrderType: (a) => ({ message: `Invalid order type: ${a.orderType}` }),
+  InvalidPrice: (a, f) => ({ message: `Invalid price: ${f.amount(a.price)}` }),
+  SelfTrade: { message: "You cannot trade against your own order" },
+  OrderNotOwned: (a) => ({
+    message: `Order #${a.orderId} belongs to another account`,
+    hint: "Only the order's creator can change it.",
+  }),
+  MarketClosed: { message: "The market is closed", hint: TRY_LATER },
+  TradingHalted: (a, f) => ({ message: `Trading in ${f.address(a.token)} is halted`, hint: TRY_LATER }),
+  TradingPaused: (a, f) => ({ message: `Trading in ${f.address(a.asset)} is paused`, hint: TRY_LATER }),
+  TooManyActiveOrders: (a) => ({
+    message: `Too many open orders – at most ${a.maxAllowed} allowed`,
+    hint: "Cancel or wait for an existing order to fill.",
+  }),
+  OrderInMatching: (a) => ({
+    message: `Order #${a.orderId} is being matched`,
+    hint: "Try again in a moment.",
+  }),
+
+  // Swaps
+  SwapExpired: (a, f) => ({
+    message: `The swap deadline passed at ${f.date(a.deadline)}`,
+    hint: "Submit the swap again.",
+  }),
+  SlippageExceeded: (a, f) => ({
+    message: `Price moved too much – expected ${f.amount(a.expected)}, got ${f.amount(a.actual)}`,
+    hint: "Raise the slippage tolerance or try a smaller amount.",
+  }),
+  InsufficientLiquidity: (a, f) => ({
+    message: `Not enough liquidity in the ${f.address(a.tokenA)}/${f.address(a.tokenB)} pool`,
+    hint: "Try a smaller amount.",
+  }),
+  InvalidSwapPath: { message: "Invalid swap route" },
+  SwapAmountTooSmall: (a, f) => ({ message: `Swap amount ${f.amount(a.amount)} is too small` }),
+  SwapAmountTooLarge: (a, f) => ({
+    message: `Swap amount ${f.amount(a.amount)} is too large`,
+    hint: "Split it into smaller swaps.",
+  }),
+  IdenticalTokens: { message: "Both sides of the swap are the same token", hint: "Pick two different tokens." },
+  PairDoesNotExist: (a, f) => ({
+    message: `No pool exists for ${f.address(a.tokenA)}/${f.address(a.tokenB)}`,
+    hint: "Create the pool first.",
+  }),
+
+  // Lending
+  LoanDoesNotExist: (a) => ({ message: `Loan #${a.loanId} does not exist` }),
+  LoanAlreadyRepaid: (a) => ({ message: `Loan #${a.loanId} is already repaid` }),
+  LoanAlreadyLiquidated: (a) => ({ message: `Loan #${a.loanId} has been liquidated` }),
+  InsufficientCollateral: (a, f) => ({
+    message: `Not enough collateral – ${f.amount(a.provided)} provided, ${f.amount(a.required)} required`,
+    hint: "Add collateral or borrow less.",
+  }),
+  CollateralRatioTooLow: (a) => ({
+    message: `Collateral ratio ${a.ratio} is below the minimum of ${a.minimum}`,
+    hint: "Add collateral or borrow less.",
+  }),
+  LoanNotDueForLiquidation: (a) => ({ message: `Loan #${a.loanId} is healthy and cannot be liquidated` }),
+  RepaymentAmountExceedsDebt: (a, f) => ({
+    message: `Repayment of ${f.amount(a.amount)} exceeds the debt of ${f.amount(a.debt)}`,
+    hint: `Repay at most ${f.amount(a.debt)}.`,
+  }),
+  InterestRateTooHigh: (a) => ({
+    message: `Interest rate ${a.rate} is above the maximum of ${a.maximum}`,
+  }),
+  LoanDurationInvalid: (a, f) => ({ message: `Invalid loan duration: ${f.duration(a.duration)}` }),
+  BorrowAmountTooSmall: (a, f) => ({
+    message: `Borrow amount is below the minimum – at least ${f.amount(a.minimum)}`,
+    hint: `Borrow at least ${f.amount(a.minimum)}.`,
+  }),
+  BorrowAmountTooLarge: (a, f) => ({
+    message: `Borrow amount is above the maximum of ${f.amount(a.maximum)}`,
+    hint: `Borrow at most ${f.amount(a.maximum)}.`,
+  }),
+  InvalidCollateralFactor: (a) => ({ message: `Invalid collateral factor: ${a.factor}` }),
+  InsufficientReserves: (a, f) => ({
+    message: `The pool only has ${f.amount(a.available)} available, ${f.amount(a.requested)} requested`,
+    hint: "Borrow or withdraw a smaller amount.",
+  }),
+
+  // Oracles
+  OracleNotFound: (a, f) => ({ message: `No price oracle for ${f.address(a.token)}` }),
+  StalePriceData: (a, f) => ({
+    message: `The price is stale – last updated ${f.date(a.lastUpdate)}`,
+    hint: "Wait for the next price update and try again.",
+  }),
+  InvalidPriceData: (a, f) => ({ message: `Oracle ${f.address(a.oracle)} reported an invalid price` }),
+  OracleAlreadyExists: (a, f) => ({ message: `${f.address(a.token)} already has an oracle` }),
+  PriceDeviationTooHigh: (a) => ({
+    message: `Price moved ${a.deviation}, above the ${a.threshold} threshold`,
+    hint: TRY_LATER,
+  }),
+  NoValidPriceFeeds: (a, f) => ({ message: `No valid price feed for ${f.address(a.token)}`, hint: TRY_LATER }),
+  OracleCallFailed: (a, f) => ({ message: `Oracle ${f.address(a.oracle)} did not respond`, hint: TRY_LATER }),
+  OracleUpdateFailed: (a, f) => ({ message: `Price update for ${f.address(a.token)} failed` }),
+  EmergencyPriceExpired: (a, f) => ({ message: `The emergency price for ${f.address(a.token)} expired` }),
+  AssetNotSupported: (a, f) => ({
+    message: `Asset ${f.address(a.asset)} is not supported${f.contract ? ` by ${f.contract}` : ""}`,
+  }),
+  SequencerDown: { message: "The price feed sequencer is down", hint: TRY_LATER },
+  GracePeriodNotOver: { message: "The price feed is still in its recovery grace period", hint: TRY_LATER },
+  InvalidParameter: (a) => ({ message: `Invalid parameter: ${a.parameter}` }),
+
+  // Rewards
+  RewardAlreadyClaimed: (a) => ({ message: `Reward #${a.rewardId} was already claimed` }),
+  RewardNotClaimable: (a, f) => ({
+    message: `Reward #${a.rewardId} is not claimable yet`,
+    hint: `It can be claimed from ${f.date(a.claimableDate)}.`,
+  }),
+  InsufficientRewardBalance: (a, f) => ({
+    message: `Not enough rewards – ${f.amount(a.available)} available, ${f.amount(a.required)} required`,
+  }),
+  InvalidRewardType: (a) => ({ message: `Invalid reward type: ${a.rewardType}` }),
+  RewardCalculationFailed: { message: "Rewards could not be calculated", hint: TRY_LATER },
+  VestingPeriodNotComplete: (a, f) => ({
+    message: "Still vesting",
+    hint: `Tokens can be released from ${f.date(a.claimableDate)}.`,
+  }),
+  RewardDistributionFailed: (a) => ({ message: `Reward distribution failed: ${a.reason}` }),
+
+  // Compliance
+  UserNotVerified: (a, f) => ({
+    message: `${f.address(a.user)} has not completed KYC`,
+    hint: "Complete verification before using this feature.",
+  }),
+  UserAlreadyRegistered: (a, f) => ({ message: `${f.address(a.user)} is already registered` }),
+  InsufficientComplianceLevel: (a) => ({
+    message: `Compliance level ${a.current} is below the required level ${a.required}`,
+    hint: "Upgrade your verification level to continue.",
+  }),
+  UserSuspended: (a, f) => ({ message: `${f.address(a.user)} is suspended`, hint: CONTACT_ADMIN }),
+  KYCExpired: (a, f) => ({
+    message: `KYC for ${f.address(a.user)} has expired`,
+    hint: "Renew your verification to continue.",
+  }),
+  ComplianceViolation: (a) => ({ message: `Compliance violation: ${a.violation}`, hint: CONTACT_ADMIN }),
+  InvalidComplianceLevel: (a) => ({ message: `Invalid compliance level: ${a.level}` }),
+  ComplianceCheckFailed: (a) => ({ message: `Compliance check failed: ${a.reason}` }),
+
+  // Portfolios
+  PortfolioNotFound: (a, f) => ({
+    message: `${f.address(a.user)} has no portfolio`,
+    hint: "Create a portfolio first.",
+  }),
+  InvalidAllocation: (a) => ({ message: `Invalid allocation: ${a.allocation}` }),
+  AllocationExceedsLimit: (a) => ({
+    message: `Allocations add up to ${a.total}, above the limit of ${a.limit}`,
+    hint: "Lower some allocations.",
+  }),
+  RebalanceNotRequired: { message: "The portfolio is already balanced" },
+  RebalanceFailed: (a) => ({ message: `Rebalance failed: ${a.reason}` }),
+  AssetNotInPortfolio: (a, f) => ({ message: `${f.address(a.token)} is not in the portfolio` }),
+  PortfolioValueCalculationFailed: { message: "The portfolio value could not be calculated", hint: TRY_LATER },
+
+  // Cross-chain
+  UnsupportedChain: (a) => ({ message: `Chain ${a.chainId} is not supported by the bridge` }),
+  BridgeNotActive: (a) => ({ message: `The bridge to chain ${a.chainId} is not active`, hint: TRY_LATER }),
+  InsufficientBridgeFee: (a, f) => ({
+    message: `Bridge fee too low – ${f.amount(a.provided)} sent, ${f.amount(a.required)} required`,
+    hint: `Send at least ${f.amount(a.required)} with the transfer.`,
+  }),
+  TransferAlreadyProcessed: { message: "This transfer was already processed" },
+  TransferNotFound: { message: "Transfer not found" },
+  CrossChainTransferFailed: (a) => ({ message: `Cross-chain transfer failed: ${a.reason}` }),
+  InvalidDestinationAddress: (a, f) => ({ message: `Invalid destination address ${f.address(a.destination)}` }),
+
+  // Analytics
+  AnalyticsDataNotAvailable: { message: "No analytics data yet", hint: TRY_LATER },
+  InvalidMetricType: (a) => ({ message: `Unknown metric: ${a.metricType}` }),
+  CalculationPeriodTooShort: (a, f) => ({
+    message: `The period is too short – at least ${f.duration(a.minimum)}`,
+  }),
+  InsufficientDataForAnalysis: { message: "Not enough history for this analysis", hint: TRY_LATER },
+  RiskAssessmentFailed: (a) => ({ message: `Risk assessment failed: ${a.reason}` }),
+
+  // Emergencies
+  EmergencyModeActive: { message: "The protocol is in emergency mode", hint: TRY_LATER },
+  EmergencyModeNotActive: { message: "The protocol is not in emergency mode" },
+  CircuitBreakerTriggered: (a) => ({ message: `Circuit breaker tripped on ${a.module}`, hint: TRY_LATER }),
+  RecoveryModeActive: { message: "The protocol is recovering", hint: TRY_LATER },
+  UnauthorizedEmergencyAction: (a, f) => ({
+    message: `${f.address(a.caller)} may not take emergency actions`,
+  }),
+  EmergencyWithdrawalFailed: (a) => ({ message: `Emergency withdrawal failed: ${a.reason}` }),
+
+  // Fees
+  FeeTooHigh: (a) => ({ message: `Fee ${a.fee} is above the maximum of ${a.maximum}` }),
+  InsufficientFeePayment: (a, f) => ({
+    message: `Fee too low – ${f.amount(a.provided)} sent, ${f.amount(a.required)} required`,
+    hint: `Send at least ${f.amount(a.required)}.`,
+  }),
+  FeeCollectionFailed: (a) => ({ message: `Fee collection failed: ${a.reason}` }),
+  InvalidFeeRecipient: (a, f) => ({ message: `Invalid fee recipient ${f.address(a.recipient)}` }),
+  InvalidFeeRate: (a) => ({ message: `Invalid fee rate: ${a.rate}` }),
+
+  // General
+  OperationNotAllowed: (a) => ({ message: `Not allowed: ${a.operation}` }),
+  ContractNotSupported: (a, f) => ({ message: `Contract ${f.address(a.contractAddress)} is not supported` }),
+  FunctionNotImplemented: (a) => ({ message: `${a.functionName} is not available yet` }),
+  DeprecatedFunction: (a) => ({ message: `${a.functionName} is deprecated` }),
+  MaintenanceMode: { message: "HedVault is under maintenance", hint: TRY_LATER },
+  RateLimitExceeded: { message: "Too many requests", hint: "Wait a moment and try again." },
+  DailyLimitExceeded: (a, f) => ({
+    message: `Daily limit exceeded – ${f.amount(a.amount)} against a limit of ${f.amount(a.limit)}`,
+    hint: "Use a smaller amount or wait for the limit to reset tomorrow.",
+  }),
+  TransactionTooLarge: (a, f) => ({
+    message: `Amount ${f.amount(a.amount)} is above the maximum of ${f.amount(a.maximum)}`,
+    hint: `Send at most ${f.amount(a.maximum)}.`,
+  }),
+  TransactionTooSmall: (a, f) => ({
+    message: `Amount ${f.amount(a.amount)} is below the minimum of ${f.amount(a.minimum)}`,
+    hint: `Send at least ${f.amount(a.minimum)}.`,
+  }),
+
+  // Reentrancy
+  ReentrantCall: { message: "Reentrant call blocked" },
+  NonReentrantFunction: { message: "Reentrant call blocked" },
+  ReentrancyGuardReentrantCall: { message: "Reentrant call blocked" },
+
+  // Upgrades
+  UpgradeNotAuthorized: (a, f) => ({ message: `${f.address(a.caller)} may not upgrade this contract` }),
+  InvalidImplementation: (a, f) => ({ message: `Invalid implementation ${f.address(a.implementation)}` }),
+  UpgradeFailed: (a) => ({ message: `Upgrade failed: ${a.reason}` }),
+  VersionMismatch: (a) => ({ message: `Version mismatch – expected ${a.expected}, found ${a.actual}` }),
+
+  // Integrations
+  ExternalCallFailed: (a, f) => ({ message: `Call to ${f.address(a.target)} failed` }),
+  InvalidExternalResponse: (a, f) => ({ message: `${f.address(a.target)} returned an invalid response` }),
+  ExternalServiceUnavailable: (a) => ({ message: `${a.service} is unavailable`, hint: TRY_LATER }),
+  IntegrationNotConfigured: (a) => ({ message: `${a.integration} is not configured` }),
+
+  // Math
+  DivisionByZero: { message: "Calculation failed (division by zero)" },
+  Overflow: { message: "Calculation failed (overflow)", hint: "Try a smaller amount." },
+  Underflow: { message: "Calculation failed (underflow)" },
+  InvalidCalculation: (a) => ({ message: `Calculation failed: ${a.calculation}` }),
+  PrecisionLoss: (a) => ({ message: `Amount too small to process precisely (${a.operation})` }),
+
+  // ERC-20
+  ERC20InsufficientBalance: (a, f) => ({
+    message: `Insufficient token balance – ${f.amount(a.balance)} available, ${f.amount(a.needed)} required`,
+    hint: "Top up the balance or use a smaller amount.",
+  }),
+  ERC20InsufficientAllowance: (a, f) => ({
+    message: `Allowance too low – ${f.amount(a.allowance)} approved, ${f.amount(a.needed)} required`,
+    hint: `Approve ${f.address(a.spender)} to spend at least ${f.amount(a.needed)}.`,
+  }),
+  ERC20InvalidApprover: (a, f) => ({ message: `Invalid approver ${f.address(a.approver)}` }),
+  ERC20InvalidReceiver: (a, f) => ({ message: `Invalid receiver ${f.address(a.receiver)}` }),
+  ERC20InvalidSender: (a, f) => ({ message: `Invalid sender ${f.address(a.sender)}` }),
+  ERC20InvalidSpender: (a, f) => ({ message: `Invalid spender ${f.address(a.spender)}` }),
+  SafeERC20FailedOperation: (a, f) => ({
+    message: `Token transfer failed for ${f.address(a.token)}`,
+    hint: "Check your balance and allowance for this token.",
+  }),
+};
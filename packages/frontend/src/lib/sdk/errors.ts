@@ -0,0 +1,246 @@
+/**
+ * HedVault SDK - Errors
+ * Turns failed calls into messages a user can act on.
+ *
+ * Reverts are decoded against every custom error in the generated ABIs, so
+ * errors bubbling up from a nested call (say, a token transfer inside a swap)
+ * are named even when the called contract's own ABI doesn't declare them.
+ */
+
+import {
+  type Abi,
+  type Address,
+  type Hex,
+  BaseError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  formatUnits,
+  isAddress,
+  isAddressEqual,
+} from "viem";
+import { HEDVAULT_ABIS } from "../abis";
+import { type ContractName, getDeployment } from "../contracts";
+import {
+  EN_ERROR_MESSAGES,
+  type ErrorArgs,
+  type ErrorCatalog,
+  type ErrorFormatter,
+  type ErrorMessage,
+} from "./errorMessages";
+import { getRoleName } from "./roles";
+import type { TokenMetadataModule } from "./tokenMetadata";
+
+export * from "./errorMessages";
+
+// Catalogs by locale; missing entries fall back to English
+export const ERROR_CATALOGS: Record<string, ErrorCatalog> = {
+  en: EN_ERROR_MESSAGES,
+};
+
+type AbiError = Extract<Abi[number], { type: "error" }>;
+
+// Every custom error across the protocol, one entry per selector
+export const HEDVAULT_ERRORS_ABI: readonly AbiError[] = Object.values(
+  Object.fromEntries(
+    (Object.values(HEDVAULT_ABIS) as Abi[])
+      .flat()
+      .filter((item): item is AbiError => item.type === "error")
+      .map((item) => [`${item.name}(${item.inputs.map(({ type }) => type).join(",")})`, item])
+  )
+);
+
+/**
+ * A failure with a user-facing message. `errorName` and `args` are set when
+ * it came from a decoded revert; `cause` keeps the original error.
+ */
+export class HedVaultError extends Error {
+  readonly hint?: string;
+  readonly errorName?: string;
+  readonly args?: ErrorArgs;
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    details: { hint?: string; errorName?: string; args?: ErrorArgs; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "HedVaultError";
+    this.hint = details.hint;
+    this.errorName = details.errorName;
+    this.args = details.args;
+    this.cause = details.cause;
+  }
+}
+
+// Formats a raw amount from a revert; `token` is the token it is in, when known
+export type ErrorAmountFormatter = (value: bigint, token?: Address) => string;
+
+export interface DecodeErrorOptions {
+  // Chain the call went to; lets the message name the contract involved
+  chainId?: number;
+  locale?: string;
+  // Token the call moved, for amounts in reverts that don't name their token
+  token?: Address;
+  // Token amounts in reverts carry no decimals; without a formatter they are
+  // shown with 18, which fits native value and the USD-denominated limits
+  formatAmount?: ErrorAmountFormatter;
+}
+
+const formatTokenAmount = (value: bigint, decimals = 18) =>
+  Number(formatUnits(value, decimals)).toLocaleString("en-US", { maximumFractionDigits: 6 });
+
+// Reverts whose amounts are the native value sent with the call, never a token
+const NATIVE_AMOUNT_ERRORS = new Set(["InsufficientBridgeFee", "InsufficientFeePayment"]);
+
+const tokenOf = (errorName: string, args: ErrorArgs, token: Address | undefined) => {
+  if (NATIVE_AMOUNT_ERRORS.has(errorName)) return undefined;
+  return typeof args.token === "string" && isAddress(args.token) ? args.token : token;
+};
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}…${value.slice(-4)}`;
+
+const createFormatter = (
+  contract: ContractName | undefined,
+  token: Address | undefined,
+  formatAmount: ErrorAmountFormatter
+): ErrorFormatter => ({
+  contract,
+  amount: (value) => (typeof value === "bigint" ? formatAmount(value, token) : String(value)),
+  address: (value) => (typeof value === "string" && value.startsWith("0x") ? shortAddress(value) : String(value)),
+  role: (value) => getRoleName(String(value) as Hex) ?? `role ${shortAddress(String(value))}`,
+  date: (value) => new Date(Number(value) * 1000).toLocaleString("en-US"),
+  duration: (value) => {
+    const seconds = Number(value);
+    if (seconds >= 86400) return `${Math.round(seconds / 86400)} days`;
+    if (seconds >= 3600) return `${Math.round(seconds / 3600)} hours`;
+    return `${seconds} seconds`;
+  },
+});
+
+const contractAt = (chainId: number | undefined, address: Address | undefined) => {
+  if (chainId === undefined || !address) return undefined;
+  const entry = Object.entries(getDeployment(chainId)).find(
+    ([, deployed]) => deployed && isAddressEqual(deployed.address, address)
+  );
+  return entry?.[0] as ContractName | undefined;
+};
+
+// Name and arguments of a custom error revert, if it is one
+const decodeRevert = (revert: ContractFunctionRevertedError) => {
+  let errorName = revert.data?.errorName;
+  let values = revert.data?.args;
+  let abiItem = revert.data?.abiItem;
+
+  // Not in the called contract's ABI, e.g. raised by a contract it called
+  if (!errorName && revert.raw) {
+    try {
+      const decoded = decodeErrorResult({ abi: HEDVAULT_ERRORS_ABI, data: revert.raw as Hex });
+      errorName = decoded.errorName;
+      values = decoded.args;
+      abiItem = decoded.abiItem;
+    } catch {
+      return undefined;
+    }
+  }
+  if (!errorName || errorName === "Error" || errorName === "Panic") return undefined;
+
+  const inputs = abiItem && "inputs" in abiItem ? abiItem.inputs : [];
+  const args: ErrorArgs = Object.fromEntries(
+    inputs.map((input, i) => [input.name || String(i), values?.[i]])
+  );
+  return { errorName, args };
+};
+
+/**
+ * Decode any failure from a HedVault call (simulation, gas estimate, write,
+ * or receipt) into a HedVaultError with a readable message and a hint
+ */
+export const decodeHedVaultError = (
+  error: unknown,
+  { chainId, locale = "en", token, formatAmount = (value) => formatTokenAmount(value) }: DecodeErrorOptions = {}
+): HedVaultError => {
+  if (error instanceof HedVaultError) return error;
+  if (!(error instanceof BaseError)) {
+    return new HedVaultError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+
+  if (error.walk((cause) => cause instanceof UserRejectedRequestError)) {
+    return new HedVaultError("Transaction rejected in your wallet", { cause: error });
+  }
+
+  const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError) {
+    const decoded = decodeRevert(revert);
+    if (decoded) {
+      const execution = error.walk((cause) => cause instanceof ContractFunctionExecutionError);
+      const contract = contractAt(
+        chainId,
+        execution instanceof ContractFunctionExecutionError ? execution.contractAddress : undefined
+      );
+      const template =
+        ERROR_CATALOGS[locale]?.[decoded.errorName] ?? EN_ERROR_MESSAGES[decoded.errorName];
+      const { message, hint }: ErrorMessage =
+        typeof template === "function"
+          ? template(
+              decoded.args,
+              createFormatter(contract, tokenOf(decoded.errorName, decoded.args, token), formatAmount)
+            )
+          : (template ?? { message: `Transaction reverted: ${decoded.errorName}` });
+      return new HedVaultError(message, { hint, ...decoded, cause: error });
+    }
+    // require() strings and panics
+    if (revert.reason) {
+      return new HedVaultError(revert.reason, { cause: error });
+    }
+  }
+
+  return new HedVaultError(error.shortMessage, { cause: error });
+};
+
+/**
+ * Whether a failure is the token transfer a pending approval would let
+ * through: the token's own allowance error, or SafeERC20's wrapper for
+ * tokens (HTS among them) that fail the transfer without one.
+ */
+export const isAllowanceError = (error: HedVaultError) =>
+  error.errorName === "ERC20InsufficientAllowance" ||
+  error.errorName === "SafeERC20FailedOperation" ||
+  /allowance/i.test(error.message);
+
+const addressesIn = (values: readonly unknown[]) =>
+  values.filter((value): value is Address => typeof value === "string" && isAddress(value));
+
+/**
+ * decodeHedVaultError with amounts in their token's own decimals, looked up
+ * through `tokens`. The token is the one the revert names, else the one
+ * address among `candidates` (typically the call's arguments) that answers
+ * as a token; with none or several, amounts keep the 18-decimal fallback.
+ */
+export const decodeHedVaultErrorWithTokens = async (
+  error: unknown,
+  tokens: TokenMetadataModule,
+  { candidates = [], ...options }: DecodeErrorOptions & { candidates?: readonly unknown[] } = {}
+): Promise<HedVaultError> => {
+  const decoded = decodeHedVaultError(error, options);
+  if (!decoded.errorName) return decoded;
+
+  const callAddresses = addressesIn([options.token, ...candidates]);
+  const addresses = [...addressesIn([decoded.args?.token]), ...callAddresses];
+  if (addresses.length === 0) return decoded;
+
+  const metadata = await tokens.getMany(addresses);
+  const callTokens = [...new Set(callAddresses.map((address) => address.toLowerCase()))].filter(
+    (address) => !!metadata[address]
+  );
+
+  return decodeHedVaultError(error, {
+    ...options,
+    token: callTokens.length === 1 ? (callTokens[0] as Address) : undefined,
+    formatAmount: (value, token) => {
+      const meta = token && metadata[token.toLowerCase()];
+      return meta ? `${formatTokenAmount(value, meta.decimals)} ${meta.symbol}` : formatTokenAmount(value);
+    },
+  });
+};
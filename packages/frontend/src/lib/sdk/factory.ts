@@ -0,0 +1,36 @@
+/**
+ * HedVault SDK - RWATokenFactory
+ */
+
+import type { Address, ContractFunctionArgs } from "viem";
+import { RWATokenFactoryABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+// DataTypes.RWAMetadata as accepted by createRWAToken
+export type RWAMetadataInput = ContractFunctionArgs<
+  typeof RWATokenFactoryABI,
+  "nonpayable",
+  "createRWAToken"
+>[0];
+
+export const createFactoryModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "RWATokenFactory", RWATokenFactoryABI);
+
+  return {
+    ...contract,
+
+    // Reads
+    getAllRWATokens: () => contract.read.getAllRWATokens(),
+    // [tokenAddresses, assetInfos], index-aligned
+    getAllRWATokensWithInfo: () => contract.read.getAllRWATokensWithInfo(),
+    getAssetInfo: (token: Address) => contract.read.getAssetInfo([token]),
+    isRWAToken: (token: Address) => contract.read.isRWAToken([token]),
+
+    // Writes
+    createRWAToken: (metadata: RWAMetadataInput, name: string, symbol: string, totalSupply: bigint) =>
+      contract.write.createRWAToken([metadata, name, symbol, totalSupply]),
+    approveCreator: (creator: Address) => contract.write.approveCreator([creator]),
+  };
+};
+
+export type FactoryModule = ReturnType<typeof createFactoryModule>;
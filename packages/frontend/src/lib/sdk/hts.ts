@@ -0,0 +1,113 @@
+/**
+ * HedVault SDK - Hedera Token Service
+ * Token association through the HTS system contract at 0x167.
+ *
+ * An account must be associated with an HTS token before it can hold any,
+ * so a swap, loan or purchase paying out an unassociated token fails. Plain
+ * ERC20 contracts (factory tokens, local test tokens) need no association.
+ */
+
+import {
+  type Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  parseAbi,
+} from "viem";
+import { type SdkContext, bindContract, requireWallet } from "./contract";
+import { HedVaultError } from "./errors";
+
+export const HTS_PRECOMPILE_ADDRESS: Address = "0x0000000000000000000000000000000000000167";
+
+export const HTS_PRECOMPILE_ABI = parseAbi([
+  "function associateToken(address account, address token) returns (int64 responseCode)",
+  "function associateTokens(address account, address[] tokens) returns (int64 responseCode)",
+  "function dissociateToken(address account, address token) returns (int64 responseCode)",
+]);
+
+// HIP-719 facade every HTS token exposes at its own address; answers for msg.sender
+export const HTS_TOKEN_FACADE_ABI = parseAbi(["function isAssociated() view returns (bool)"]);
+
+// The precompile reports failures as a response code rather than a revert
+export const HTS_SUCCESS = 22;
+
+const HTS_RESPONSE_MESSAGES: Record<number, { message: string; hint?: string }> = {
+  165: { message: "Your account is frozen for this token" },
+  166: {
+    message: "Your account has reached its token association limit",
+    hint: "Dissociate a token you no longer hold, then try again.",
+  },
+  167: { message: "This is not a Hedera token" },
+  184: { message: "Your account is not associated with this token" },
+  194: { message: "Your account is already associated with this token" },
+};
+
+export class HtsResponseError extends HedVaultError {
+  constructor(public readonly responseCode: number) {
+    const known = HTS_RESPONSE_MESSAGES[responseCode];
+    super(known?.message ?? `Token service call failed with response code ${responseCode}`, {
+      hint: known?.hint,
+    });
+    this.name = "HtsResponseError";
+  }
+}
+
+/**
+ * - associated: the account can receive the token
+ * - not-associated: receiving it would fail until the account associates
+ * - not-required: not an HTS token, any account can receive it
+ */
+export type TokenAssociationStatus = "associated" | "not-associated" | "not-required";
+
+// A token without the facade (a plain ERC20, or no code at all) reverts or returns nothing
+const isMissingFacade = (error: unknown) =>
+  error instanceof BaseError &&
+  !!error.walk(
+    (cause) =>
+      cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError
+  );
+
+export const createHtsModule = (context: SdkContext) => {
+  const contract = bindContract(context, HTS_PRECOMPILE_ADDRESS, HTS_PRECOMPILE_ABI);
+
+  // Simulates from the signer first: a failing response code is not a
+  // revert, so the write itself would "succeed" without associating
+  const checked = async (simulated: Promise<{ result: bigint }>) => {
+    const { result } = await simulated;
+    if (Number(result) !== HTS_SUCCESS) throw new HtsResponseError(Number(result));
+  };
+
+  return {
+    ...contract,
+
+    // Reads
+    getAssociationStatus: async (token: Address, account: Address): Promise<TokenAssociationStatus> => {
+      try {
+        const associated = await context.publicClient.readContract({
+          address: token,
+          abi: HTS_TOKEN_FACADE_ABI,
+          functionName: "isAssociated",
+          account,
+        });
+        return associated ? "associated" : "not-associated";
+      } catch (error) {
+        if (isMissingFacade(error)) return "not-required";
+        throw error;
+      }
+    },
+
+    // Writes; the signer associates itself
+    associateToken: async (token: Address) => {
+      const { address: account } = requireWallet(context).account;
+      await checked(contract.simulate.associateToken([account, token], { account }));
+      return contract.write.associateToken([account, token]);
+    },
+    associateTokens: async (tokens: Address[]) => {
+      const { address: account } = requireWallet(context).account;
+      await checked(contract.simulate.associateTokens([account, tokens], { account }));
+      return contract.write.associateTokens([account, tokens]);
+    },
+  };
+};
+
+export type HtsModule = ReturnType<typeof createHtsModule>;
@@ -0,0 +1,24 @@
+/**
+ * HedVault SDK
+ * One client for the React hooks and for Node scripts and services
+ */
+
+export * from "./client";
+export { HedVaultClientError, type HedVaultWalletClient, type SimulatedRequest } from "./contract";
+export * from "./core";
+export * from "./lending";
+export * from "./marketplace";
+export * from "./swap";
+export * from "./compliance";
+export * from "./rewards";
+export * from "./portfolio";
+export * from "./oracle";
+export * from "./rwaOracle";
+export * from "./bridge";
+export * from "./factory";
+export * from "./hts";
+export * from "./token";
+export * from "./tokenMetadata";
+export * from "./amounts";
+export * from "./roles";
+export * from "./errors";
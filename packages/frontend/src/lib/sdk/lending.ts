@@ -0,0 +1,78 @@
+/**
+ * HedVault SDK - LendingPool
+ */
+
+import type { Address } from "viem";
+import { LendingPoolABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+export interface PoolInfo {
+  totalDeposits: bigint;
+  totalBorrows: bigint;
+  totalReserves: bigint;
+  lastUpdateTime: bigint;
+  isActive: boolean;
+  borrowingEnabled: boolean;
+  depositsEnabled: boolean;
+}
+
+export interface LoanInfo {
+  loanId: bigint;
+  borrower: Address;
+  collateralToken: Address;
+  borrowToken: Address;
+  collateralAmount: bigint;
+  borrowAmount: bigint;
+  interestRate: bigint;
+  startTime: bigint;
+  lastUpdateTime: bigint;
+  accruedInterest: bigint;
+  status: number;
+  liquidationThreshold: bigint;
+}
+
+export const createLendingModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "LendingPool", LendingPoolABI);
+
+  return {
+    ...contract,
+
+    // Reads
+    getPoolInfo: (token: Address): Promise<PoolInfo> => contract.read.getPoolInfo([token]),
+    getLoanInfo: (loanId: bigint): Promise<LoanInfo> => contract.read.getLoanInfo([loanId]),
+    getUserLoans: (user: Address) => contract.read.getUserLoans([user]),
+    getUserBalance: (user: Address, token: Address) =>
+      contract.read.getUserBalance([user, token]),
+    getLoanHealthFactor: (loanId: bigint) => contract.read.getLoanHealthFactor([loanId]),
+    canBorrow: (user: Address, token: Address, amount: bigint) =>
+      contract.read.canBorrow([user, token, amount]),
+    getUtilizationRate: (token: Address) => contract.read.getUtilizationRate([token]),
+    getSupplyAPY: (token: Address) => contract.read.getSupplyAPY([token]),
+    getBorrowAPY: (token: Address) => contract.read.getBorrowAPY([token]),
+    getCollateralFactor: (token: Address) => contract.read.collateralFactors([token]),
+    getLiquidationBonus: (token: Address) => contract.read.liquidationBonuses([token]),
+
+    // Writes
+    deposit: (token: Address, amount: bigint) => contract.write.deposit([token, amount]),
+    withdraw: (token: Address, amount: bigint) => contract.write.withdraw([token, amount]),
+    createLoan: (
+      collateralToken: Address,
+      borrowToken: Address,
+      collateralAmount: bigint,
+      borrowAmount: bigint
+    ) =>
+      contract.write.createLoan([collateralToken, borrowToken, collateralAmount, borrowAmount]),
+    repayLoan: (loanId: bigint, amount: bigint) => contract.write.repayLoan([loanId, amount]),
+    liquidateLoan: (loanId: bigint, repayAmount: bigint) =>
+      contract.write.liquidateLoan([loanId, repayAmount]),
+
+    // Admin
+    addSupportedToken: (token: Address, collateralFactor: bigint, liquidationBonus: bigint) =>
+      contract.write.addSupportedToken([token, collateralFactor, liquidationBonus]),
+    updateFeeRecipient: (recipient: Address) => contract.write.updateFeeRecipient([recipient]),
+    pause: () => contract.write.pause(),
+    unpause: () => contract.write.unpause(),
+  };
+};
+
+export type LendingModule = ReturnType<typeof createLendingModule>;
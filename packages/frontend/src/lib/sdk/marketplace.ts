@@ -0,0 +1,389 @@
+/**
+ * HedVault SDK - Marketplace
+ */
+
+import { type Abi, type Address, type Hex, isAddressEqual, zeroAddress } from "viem";
+import { MarketplaceABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+// Marketplace.OrderType
+export const ORDER_TYPE = { BUY: 0, SELL: 1 } as const;
+
+// Order.status; expired orders stay ACTIVE until their maker cancels them
+export const ORDER_STATUS = { ACTIVE: 0, FILLED: 1, CANCELLED: 2 } as const;
+
+// Prices are payment-token units per 1e18 units of the asset
+const PRICE_SCALE = BigInt(10) ** BigInt(18);
+
+// Bounds createAuction puts on `duration`, in seconds
+export const AUCTION_MIN_DURATION = 60 * 60;
+export const AUCTION_MAX_DURATION = 7 * 24 * 60 * 60;
+
+// Newest auctions getAuctions reads by default
+const AUCTION_PAGE_SIZE = 50;
+
+export interface Order {
+  orderId: bigint;
+  maker: Address;
+  asset: Address;
+  paymentToken: Address;
+  amount: bigint;
+  price: bigint;
+  filled: bigint;
+  expiry: bigint;
+  orderType: number;
+  status: number;
+  createdAt: bigint;
+  fee: bigint;
+}
+
+export interface AuctionData {
+  auctionId: bigint;
+  seller: Address;
+  asset: Address;
+  amount: bigint;
+  startPrice: bigint;
+  reservePrice: bigint;
+  currentBid: bigint;
+  highestBidder: Address;
+  startTime: bigint;
+  endTime: bigint;
+  isActive: boolean;
+  isSettled: boolean;
+}
+
+export interface MarketData {
+  asset: Address;
+  lastPrice: bigint;
+  volume24h: bigint;
+  high24h: bigint;
+  low24h: bigint;
+  priceChange24h: bigint;
+  totalTrades: bigint;
+  lastTradeTime: bigint;
+}
+
+export interface TradeData {
+  tradeId: bigint;
+  buyOrderId: bigint;
+  sellOrderId: bigint;
+  buyer: Address;
+  seller: Address;
+  asset: Address;
+  amount: bigint;
+  price: bigint;
+  timestamp: bigint;
+  buyerFee: bigint;
+  sellerFee: bigint;
+}
+
+export interface MarketplaceFees {
+  // Basis points of the trade value; the buyer pays takerFee, the seller makerFee
+  makerFee: bigint;
+  takerFee: bigint;
+}
+
+export interface TradingLimits {
+  minOrderSize: bigint;
+  maxOrderSize: bigint;
+  // Seconds an order may stay open
+  maxOrderDuration: bigint;
+  // Basis points a market order may fill away from the oracle price
+  maxSlippageAllowed: bigint;
+  maxActiveOrdersPerUser: bigint;
+}
+
+// Both sides of an asset's book, every order ever placed, in the order the
+// contract walks them when matching
+export interface AssetOrders {
+  buys: Order[];
+  sells: Order[];
+}
+
+export interface OrderBookLevel {
+  price: bigint;
+  // Unfilled amount across the level's open orders
+  amount: bigint;
+  orders: number;
+}
+
+export interface OrderBook {
+  // Best first: bids high to low, asks low to high
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+export interface MarketOrderQuote {
+  // Asset amount the book can fill, at most the requested amount
+  filled: bigint;
+  // Payment tokens traded before fees
+  value: bigint;
+  // Paid on top by a buyer, taken from the proceeds of a seller
+  fee: bigint;
+  // marketOrder reverts unless the whole amount fills
+  complete: boolean;
+  // Resting orders taken, in order. The contract doesn't check that their
+  // payment token matches the one the market order names
+  fills: { order: Order; amount: bigint }[];
+}
+
+export const getOrderValue = (amount: bigint, price: bigint) => (amount * price) / PRICE_SCALE;
+
+// A price per whole asset token, in payment-token units, as the contract stores it
+export const toOrderPrice = (unitPrice: bigint, assetDecimals: number) =>
+  (unitPrice * PRICE_SCALE) / BigInt(10) ** BigInt(assetDecimals);
+
+export const fromOrderPrice = (price: bigint, assetDecimals: number) =>
+  (price * BigInt(10) ** BigInt(assetDecimals)) / PRICE_SCALE;
+
+// The maker fee createOrder charges up front; a BUY order also locks it
+export const getLimitOrderFee = (amount: bigint, price: bigint, makerFee: bigint) =>
+  (amount * price * makerFee) / (BigInt(10_000) * PRICE_SCALE);
+
+export const getRemainingAmount = (order: Order) => order.amount - order.filled;
+
+// Whether the order can still be matched; `now` is in seconds
+export const isOrderOpen = (order: Order, now: bigint) =>
+  order.status === ORDER_STATUS.ACTIVE && order.expiry > now && order.filled < order.amount;
+
+const aggregateLevels = (orders: Order[], descending: boolean) => {
+  const levels = new Map<bigint, OrderBookLevel>();
+  for (const order of orders) {
+    const level = levels.get(order.price) ?? { price: order.price, amount: BigInt(0), orders: 0 };
+    level.amount += getRemainingAmount(order);
+    level.orders += 1;
+    levels.set(order.price, level);
+  }
+  return [...levels.values()].sort((a, b) =>
+    a.price === b.price ? 0 : (a.price > b.price) === descending ? -1 : 1
+  );
+};
+
+// Open orders grouped by price into depth levels
+export const aggregateOrderBook = ({ buys, sells }: AssetOrders, now: bigint): OrderBook => ({
+  bids: aggregateLevels(buys.filter((order) => isOrderOpen(order, now)), true),
+  asks: aggregateLevels(sells.filter((order) => isOrderOpen(order, now)), false),
+});
+
+const slippageBps = (price: bigint, oraclePrice: bigint) => {
+  if (oraclePrice === BigInt(0)) return BigInt(0);
+  const diff = price > oraclePrice ? price - oraclePrice : oraclePrice - price;
+  return (diff * BigInt(10_000)) / oraclePrice;
+};
+
+/**
+ * What marketOrder would do against `book`. It mirrors the contract: orders
+ * on the other side are taken in placement order, not best price first, and
+ * any priced further than `maxSlippage` bps from the oracle are skipped.
+ */
+export const quoteMarketOrder = (
+  book: AssetOrders,
+  orderType: number,
+  amount: bigint,
+  { fees, oraclePrice, maxSlippage, now }: {
+    fees: MarketplaceFees;
+    oraclePrice: bigint;
+    maxSlippage: bigint;
+    now: bigint;
+  }
+): MarketOrderQuote => {
+  const opposite = orderType === ORDER_TYPE.BUY ? book.sells : book.buys;
+  let remaining = amount;
+  let value = BigInt(0);
+  let fee = BigInt(0);
+  const fills: MarketOrderQuote["fills"] = [];
+
+  for (const order of opposite) {
+    if (remaining === BigInt(0)) break;
+    if (!isOrderOpen(order, now) || slippageBps(order.price, oraclePrice) > maxSlippage) continue;
+
+    const fill = remaining < getRemainingAmount(order) ? remaining : getRemainingAmount(order);
+    const tradeValue = getOrderValue(fill, order.price);
+    value += tradeValue;
+    fee += (tradeValue * (orderType === ORDER_TYPE.BUY ? fees.takerFee : fees.makerFee)) / BigInt(10_000);
+    remaining -= fill;
+    fills.push({ order, amount: fill });
+  }
+
+  return { filled: amount - remaining, value, fee, complete: remaining === BigInt(0), fills };
+};
+
+// "ended" auctions take no more bids but wait for someone to settle them
+export type AuctionStatus = "live" | "ended" | "settled";
+
+export const getAuctionStatus = (auction: AuctionData, now: bigint): AuctionStatus =>
+  auction.isSettled || !auction.isActive ? "settled" : now < auction.endTime ? "live" : "ended";
+
+// Whether settling now would sell the asset rather than return it to the seller
+export const isReserveMet = (auction: AuctionData) =>
+  auction.highestBidder !== zeroAddress && auction.currentBid >= auction.reservePrice;
+
+/**
+ * Whether placeBid takes the bid as value. The deployed Marketplace only
+ * records the amount, yet refunds outbid bidders and pays the seller and fee
+ * out of its own balance: bidding costs nothing and settling hands the asset
+ * to a winner who never paid.
+ */
+export const AUCTION_BIDS_ESCROWED = (MarketplaceABI as Abi).some(
+  (item) => item.type === "function" && item.name === "placeBid" && item.stateMutability === "payable"
+);
+
+// Without bids, settling only returns the asset to the seller and moves no native funds
+export const canSettleAuction = (auction: AuctionData) =>
+  AUCTION_BIDS_ESCROWED || auction.highestBidder === zeroAddress;
+
+// placeBid wants more than the current bid and at least the start price
+export const getMinimumBid = (auction: AuctionData) =>
+  auction.currentBid >= auction.startPrice ? auction.currentBid + BigInt(1) : auction.startPrice;
+
+export interface AuctionBid {
+  auctionId: bigint;
+  bidder: Address;
+  amount: bigint;
+}
+
+/**
+ * The bids that took the lead from `account`, given every bid in the order
+ * it was placed
+ */
+export const findOutbids = <T extends AuctionBid>(bids: readonly T[], account: Address): T[] => {
+  const leaders = new Map<bigint, Address>();
+  const outbids: T[] = [];
+  for (const bid of bids) {
+    const leader = leaders.get(bid.auctionId);
+    if (leader && isAddressEqual(leader, account) && !isAddressEqual(bid.bidder, account)) {
+      outbids.push(bid);
+    }
+    leaders.set(bid.auctionId, bid.bidder);
+  }
+  return outbids;
+};
+
+export const createMarketplaceModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "Marketplace", MarketplaceABI);
+
+  const getOrder = (orderId: bigint): Promise<Order> => contract.read.getOrder([orderId]);
+  const getOrders = (orderIds: readonly bigint[]) => Promise.all(orderIds.map(getOrder));
+
+  return {
+    ...contract,
+
+    // Reads
+    getOrder,
+    getOrders,
+    getAssetOrderBook: async (asset: Address): Promise<AssetOrders> => {
+      const [buyIds, sellIds] = await Promise.all([
+        contract.read.getAssetOrders([asset, ORDER_TYPE.BUY]),
+        contract.read.getAssetOrders([asset, ORDER_TYPE.SELL]),
+      ]);
+      const [buys, sells] = await Promise.all([getOrders(buyIds), getOrders(sellIds)]);
+      return { buys, sells };
+    },
+    getFees: async (): Promise<MarketplaceFees> => {
+      const [makerFee, takerFee] = await Promise.all([
+        contract.read.makerFee(),
+        contract.read.takerFee(),
+      ]);
+      return { makerFee, takerFee };
+    },
+    getTradingLimits: async (): Promise<TradingLimits> => {
+      const [minOrderSize, maxOrderSize, maxOrderDuration, maxSlippageAllowed, maxActiveOrdersPerUser] =
+        await Promise.all([
+          contract.read.minOrderSize(),
+          contract.read.maxOrderSize(),
+          contract.read.maxOrderDuration(),
+          contract.read.maxSlippageAllowed(),
+          contract.read.maxActiveOrdersPerUser(),
+        ]);
+      return { minOrderSize, maxOrderSize, maxOrderDuration, maxSlippageAllowed, maxActiveOrdersPerUser };
+    },
+    getAuction: (auctionId: bigint): Promise<AuctionData> =>
+      contract.read.getAuction([auctionId]),
+    // Newest first; ids run from 1 to nextAuctionId - 1
+    getAuctions: async (limit = AUCTION_PAGE_SIZE): Promise<AuctionData[]> => {
+      const nextAuctionId = await contract.read.nextAuctionId();
+      const count = Math.min(limit, Number(nextAuctionId) - 1);
+      return Promise.all(
+        Array.from({ length: Math.max(count, 0) }, (_, index) =>
+          contract.read.getAuction([nextAuctionId - BigInt(index + 1)])
+        )
+      );
+    },
+    getMarketData: (asset: Address): Promise<MarketData> =>
+      contract.read.getMarketData([asset]),
+    getAssetOrders: (asset: Address, orderType: number) =>
+      contract.read.getAssetOrders([asset, orderType]),
+    getUserOrders: (user: Address) => contract.read.getUserOrders([user]),
+    getBestAskPrice: (asset: Address) => contract.read.bestAskPrice([asset]),
+    getBestBidPrice: (asset: Address) => contract.read.bestBidPrice([asset]),
+    isAssetTradingEnabled: (asset: Address) => contract.read.assetTradingEnabled([asset]),
+    isSupportedAsset: (asset: Address) => contract.read.supportedAssets([asset]),
+    isSupportedPaymentToken: (token: Address) => contract.read.supportedPaymentTokens([token]),
+    // The contract keeps no lists, so these narrow down known candidates
+    getTradableAssets: async (assets: readonly Address[]) => {
+      const tradable = await Promise.all(
+        assets.map(async (asset) => {
+          const [supported, enabled] = await Promise.all([
+            contract.read.supportedAssets([asset]),
+            contract.read.assetTradingEnabled([asset]),
+          ]);
+          return supported && enabled;
+        })
+      );
+      return assets.filter((_, index) => tradable[index]);
+    },
+    getSupportedPaymentTokens: async (tokens: readonly Address[]) => {
+      const supported = await Promise.all(
+        tokens.map((token) => contract.read.supportedPaymentTokens([token]))
+      );
+      return tokens.filter((_, index) => supported[index]);
+    },
+
+    // Writes
+    createOrder: (
+      asset: Address,
+      paymentToken: Address,
+      amount: bigint,
+      price: bigint,
+      orderType: number,
+      expiry: bigint
+    ) => contract.write.createOrder([asset, paymentToken, amount, price, orderType, expiry]),
+    cancelOrder: (orderId: bigint) => contract.write.cancelOrder([orderId]),
+    marketOrder: (
+      asset: Address,
+      paymentToken: Address,
+      amount: bigint,
+      orderType: number,
+      maxSlippage: bigint
+    ) => contract.write.marketOrder([asset, paymentToken, amount, orderType, maxSlippage]),
+    createAuction: (
+      asset: Address,
+      amount: bigint,
+      startPrice: bigint,
+      reservePrice: bigint,
+      duration: bigint
+    ) => contract.write.createAuction([asset, amount, startPrice, reservePrice, duration]),
+    placeBid: (auctionId: bigint, bidAmount: bigint) =>
+      contract.write.placeBid([auctionId, bidAmount]),
+    settleAuction: (auctionId: bigint) => contract.write.settleAuction([auctionId]),
+
+    // Admin
+    addSupportedAsset: (asset: Address) => contract.write.addSupportedAsset([asset]),
+    addSupportedPaymentToken: (token: Address) =>
+      contract.write.addSupportedPaymentToken([token]),
+    setAssetTradingEnabled: (asset: Address, enabled: boolean) =>
+      contract.write.setAssetTradingEnabled([asset, enabled]),
+    updateFees: (makerFee: bigint, takerFee: bigint, auctionFee: bigint) =>
+      contract.write.updateFees([makerFee, takerFee, auctionFee]),
+    updateTradingLimits: (maxActiveOrdersPerUser: bigint, maxSlippageAllowed: bigint) =>
+      contract.write.updateTradingLimits([maxActiveOrdersPerUser, maxSlippageAllowed]),
+    activateEmergencyStop: () => contract.write.activateEmergencyStop(),
+    deactivateEmergencyStop: () => contract.write.deactivateEmergencyStop(),
+    pause: () => contract.write.pause(),
+    unpause: () => contract.write.unpause(),
+    grantRole: (role: Hex, account: Address) => contract.write.grantRole([role, account]),
+    revokeRole: (role: Hex, account: Address) => contract.write.revokeRole([role, account]),
+  };
+};
+
+export type MarketplaceModule = ReturnType<typeof createMarketplaceModule>;
@@ -0,0 +1,143 @@
+/**
+ * HedVault SDK - PriceOracle
+ */
+
+import type { Address } from "viem";
+import { PriceOracleABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+// PriceOracle limits; confidence is in basis points
+export const ORACLE_LIMITS = {
+  MAX_PRICE_AGE_SECONDS: 3600,
+  MIN_CONFIDENCE: 8000,
+  FULL_CONFIDENCE: 10000,
+} as const;
+
+export interface PriceData {
+  price: bigint;
+  timestamp: bigint;
+  confidence: bigint;
+}
+
+export interface PriceFeedConfig {
+  chainlinkFeed: Address;
+  customOracle: Address;
+  heartbeat: bigint;
+  decimals: number;
+  isActive: boolean;
+  minPrice: bigint;
+  maxPrice: bigint;
+  maxPriceDeviation: bigint;
+}
+
+// An asset's latest price whether or not it is fresh, with the feed's decimals
+export interface AssetPrice extends PriceData {
+  asset: Address;
+  decimals: number;
+  // Set by an oracle admin; counts as fresh however old it is
+  emergency: boolean;
+}
+
+/**
+ * Whether getPrice would refuse the price: older than an hour and not an
+ * emergency price. Prices below the minimum confidence are flagged too,
+ * since updatePrice only accepts them from emergency paths.
+ */
+export const isPriceStale = (price: AssetPrice, now = BigInt(Math.floor(Date.now() / 1000))) =>
+  !price.emergency &&
+  (price.timestamp === BigInt(0) ||
+    now - price.timestamp > BigInt(ORACLE_LIMITS.MAX_PRICE_AGE_SECONDS) ||
+    price.confidence < BigInt(ORACLE_LIMITS.MIN_CONFIDENCE));
+
+/**
+ * USD value of `amount` (in the token's decimals) at `price`, with 18 decimals
+ * like every other USD figure in the protocol
+ */
+export const assetValueUsd = (amount: bigint, tokenDecimals: number, price: AssetPrice) =>
+  (amount * price.price * BigInt(10) ** BigInt(18)) /
+  BigInt(10) ** BigInt(tokenDecimals + price.decimals);
+
+export const createOracleModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "PriceOracle", PriceOracleABI);
+
+  const getPriceFeedConfig = async (asset: Address): Promise<PriceFeedConfig> => {
+    const [
+      chainlinkFeed,
+      customOracle,
+      heartbeat,
+      decimals,
+      isActive,
+      minPrice,
+      maxPrice,
+      maxPriceDeviation,
+    ] = await contract.read.priceFeedConfigs([asset]);
+    return {
+      chainlinkFeed,
+      customOracle,
+      heartbeat,
+      decimals,
+      isActive,
+      minPrice,
+      maxPrice,
+      maxPriceDeviation,
+    };
+  };
+
+  const getAssetPrice = async (asset: Address): Promise<AssetPrice> => {
+    const [[price, timestamp, confidence], config, [, , , emergency]] = await Promise.all([
+      contract.read.getPriceUnsafe([asset]),
+      getPriceFeedConfig(asset),
+      contract.read.emergencyPrices([asset]),
+    ]);
+    return { asset, price, timestamp, confidence, decimals: config.decimals, emergency };
+  };
+
+  return {
+    ...contract,
+
+    // Reads. getPrice reverts on stale prices; getPriceUnsafe does not.
+    getPrice: async (asset: Address): Promise<PriceData> => {
+      const [price, timestamp, confidence] = await contract.read.getPrice([asset]);
+      return { price, timestamp, confidence };
+    },
+    getPriceUnsafe: async (asset: Address): Promise<PriceData> => {
+      const [price, timestamp, confidence] = await contract.read.getPriceUnsafe([asset]);
+      return { price, timestamp, confidence };
+    },
+    getPrices: async (assets: Address[]): Promise<PriceData[]> => {
+      const [prices, timestamps, confidences] = await contract.read.getPrices([assets]);
+      return prices.map((price, index) => ({
+        price,
+        timestamp: timestamps[index],
+        confidence: confidences[index],
+      }));
+    },
+    isPriceFresh: (asset: Address) => contract.read.isPriceFresh([asset]),
+    getSupportedAssets: () => contract.read.getSupportedAssets(),
+    getPriceFeedConfig,
+    getAssetPrice,
+    /**
+     * Latest prices for many assets, keyed by lowercased address. Unlike
+     * getPrices, a stale price doesn't fail the batch, so callers can show
+     * it marked as stale; unsupported assets are left out.
+     */
+    getAssetPrices: async (assets: readonly Address[]): Promise<Record<string, AssetPrice>> => {
+      const unique = [...new Set(assets.map((asset) => asset.toLowerCase() as Address))];
+      const results = await Promise.allSettled(unique.map(getAssetPrice));
+      const prices: Record<string, AssetPrice> = {};
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") prices[unique[index]] = result.value;
+      });
+      return prices;
+    },
+
+    // Writes
+    updatePrice: (asset: Address, price: bigint, confidence: bigint) =>
+      contract.write.updatePrice([asset, price, confidence]),
+    setEmergencyPrice: (asset: Address, price: bigint) =>
+      contract.write.setEmergencyPrice([asset, price]),
+    clearEmergencyPrice: (asset: Address) => contract.write.clearEmergencyPrice([asset]),
+  };
+};
+
+export type OracleModule = ReturnType<typeof createOracleModule>;
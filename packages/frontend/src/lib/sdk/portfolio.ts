@@ -0,0 +1,104 @@
+/**
+ * HedVault SDK - PortfolioManager
+ */
+
+import type { Address } from "viem";
+import { PortfolioManagerABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+// PortfolioManager limits; allocations and thresholds are in basis points
+export const PORTFOLIO_LIMITS = {
+  MIN_RISK_LEVEL: 1,
+  MAX_RISK_LEVEL: 10,
+  MAX_REBALANCE_THRESHOLD: 5000,
+  MAX_ASSETS: 20,
+  MIN_ALLOCATION: 100,
+  MAX_ALLOCATION: 5000,
+  TOTAL_ALLOCATION: 10000,
+  REBALANCE_COOLDOWN_SECONDS: 86400,
+} as const;
+
+/**
+ * Why a set of target allocations (basis points) would be rejected by
+ * `addAsset` or `updateAllocations`, or undefined when it would pass
+ */
+export const validateAllocations = (allocations: readonly number[]): string | undefined => {
+  const { MIN_ALLOCATION, MAX_ALLOCATION, TOTAL_ALLOCATION } = PORTFOLIO_LIMITS;
+  if (allocations.some((allocation) => allocation < MIN_ALLOCATION || allocation > MAX_ALLOCATION)) {
+    return `Each allocation must be between ${MIN_ALLOCATION / 100}% and ${MAX_ALLOCATION / 100}%`;
+  }
+  const total = allocations.reduce((sum, allocation) => sum + allocation, 0);
+  if (total > TOTAL_ALLOCATION) {
+    return `Allocations add up to ${total / 100}%, more than 100%`;
+  }
+  return undefined;
+};
+
+export interface PortfolioBreakdown {
+  assets: readonly Address[];
+  targetAllocations: readonly bigint[];
+  currentAllocations: readonly bigint[];
+  values: readonly bigint[];
+}
+
+// Returns, drawdown and volatility are in basis points
+export interface PortfolioPerformance {
+  totalReturn: bigint;
+  dailyReturn: bigint;
+  weeklyReturn: bigint;
+  monthlyReturn: bigint;
+  yearlyReturn: bigint;
+  maxDrawdown: bigint;
+  sharpeRatio: bigint;
+  volatility: bigint;
+  lastUpdated: bigint;
+}
+
+export interface PortfolioStats {
+  totalAssets: bigint;
+  totalAllocation: bigint;
+  isBalanced: boolean;
+  riskScore: bigint;
+}
+
+export const createPortfolioModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "PortfolioManager", PortfolioManagerABI);
+
+  return {
+    ...contract,
+
+    // Reads
+    getUserPortfolios: (user: Address): Promise<readonly bigint[]> =>
+      contract.read.getUserPortfolios([user]),
+    getPortfolio: (portfolioId: bigint) => contract.read.getPortfolio([portfolioId]),
+    getPortfolioValue: (portfolioId: bigint) => contract.read.getPortfolioValue([portfolioId]),
+    getPortfolioAssets: (portfolioId: bigint) => contract.read.getPortfolioAssets([portfolioId]),
+    getPortfolioHolding: (portfolioId: bigint, asset: Address) =>
+      contract.read.getPortfolioHolding([portfolioId, asset]),
+    getPortfolioPerformance: (portfolioId: bigint): Promise<PortfolioPerformance> =>
+      contract.read.getPortfolioPerformance([portfolioId]),
+    getPortfolioBreakdown: async (portfolioId: bigint): Promise<PortfolioBreakdown> => {
+      const [assets, targetAllocations, currentAllocations, values] =
+        await contract.read.getPortfolioBreakdown([portfolioId]);
+      return { assets, targetAllocations, currentAllocations, values };
+    },
+    getPortfolioStats: async (portfolioId: bigint): Promise<PortfolioStats> => {
+      const [totalAssets, totalAllocation, isBalanced, riskScore] =
+        await contract.read.getPortfolioStats([portfolioId]);
+      return { totalAssets, totalAllocation, isBalanced, riskScore };
+    },
+
+    // Writes
+    createPortfolio: (name: string, riskLevel: number, targetRebalanceThreshold: bigint) =>
+      contract.write.createPortfolio([name, riskLevel, targetRebalanceThreshold]),
+    addAsset: (portfolioId: bigint, asset: Address, amount: bigint, targetAllocation: bigint) =>
+      contract.write.addAsset([portfolioId, asset, amount, targetAllocation]),
+    removeAsset: (portfolioId: bigint, asset: Address, amount: bigint) =>
+      contract.write.removeAsset([portfolioId, asset, amount]),
+    updateAllocations: (portfolioId: bigint, assets: Address[], allocations: bigint[]) =>
+      contract.write.updateAllocations([portfolioId, assets, allocations]),
+    rebalancePortfolio: (portfolioId: bigint) => contract.write.rebalancePortfolio([portfolioId]),
+  };
+};
+
+export type PortfolioModule = ReturnType<typeof createPortfolioModule>;
@@ -0,0 +1,228 @@
+/**
+ * HedVault SDK - RewardsDistributor
+ */
+
+import { type Address, type Hex, keccak256, toBytes } from "viem";
+import { RewardsDistributorABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+const SECONDS_PER_YEAR = BigInt(365 * 24 * 60 * 60);
+
+export interface RewardPool {
+  totalAllocated: bigint;
+  totalDistributed: bigint;
+  // Reward tokens emitted per second, shared by everyone staked in the pool
+  rewardRate: bigint;
+  lastUpdateTime: bigint;
+  rewardPerTokenStored: bigint;
+  isActive: boolean;
+  periodFinish: bigint;
+  duration: bigint;
+}
+
+// Rewards earned per default pool, plus vesting totals
+export interface PositionBreakdown {
+  stakingRewards: bigint;
+  tradingRewards: bigint;
+  lendingRewards: bigint;
+  governanceRewards: bigint;
+  marketplaceRewards: bigint;
+  liquidityRewards: bigint;
+  rwaRewards: bigint;
+  referralRewards: bigint;
+  totalVestingAmount: bigint;
+  totalReleasableVesting: bigint;
+}
+
+// Pool name `autoClaimRewards` reports its RewardClaimed events under
+export const AUTO_CLAIM_POOL = "auto-claim";
+
+// Events index the pool name, so logs only carry its keccak256
+export const poolNameTopic = (poolName: string): Hex => keccak256(toBytes(poolName));
+
+/**
+ * Yearly emission of a pool over what is staked in it, in basis points.
+ * Stakes and rewards are both the reward token, so no price is needed.
+ * Undefined while nothing is staked; 0 once the pool stops emitting.
+ */
+export const rewardPoolApyBps = (
+  pool: RewardPool,
+  totalStaked: bigint,
+  now = BigInt(Math.floor(Date.now() / 1000))
+): bigint | undefined => {
+  if (!pool.isActive || pool.periodFinish <= now) return BigInt(0);
+  if (totalStaked === BigInt(0)) return undefined;
+  return (pool.rewardRate * SECONDS_PER_YEAR * BigInt(10000)) / totalStaked;
+};
+
+export interface VestingSchedule {
+  totalAmount: bigint;
+  releasedAmount: bigint;
+  startTime: bigint;
+  duration: bigint;
+  // Nothing unlocks before startTime + cliffDuration; then it vests linearly from startTime
+  cliffDuration: bigint;
+  revocable: boolean;
+  revoked: boolean;
+}
+
+// A schedule with its index, which `releaseVestedTokens` and `revokeVestingSchedule` take
+export interface VestingScheduleInfo extends VestingSchedule {
+  scheduleId: bigint;
+  releasable: bigint;
+}
+
+/**
+ * Amount of a schedule unlocked at `at` (unix seconds), released or not,
+ * following RewardsDistributor._getReleasableAmount. A revoked schedule
+ * stops at what was released when it was revoked.
+ */
+export const vestedAmount = (schedule: VestingSchedule, at: bigint): bigint => {
+  if (schedule.revoked) return schedule.releasedAmount;
+  if (at < schedule.startTime + schedule.cliffDuration) return BigInt(0);
+  if (at >= schedule.startTime + schedule.duration) return schedule.totalAmount;
+  return (schedule.totalAmount * (at - schedule.startTime)) / schedule.duration;
+};
+
+export interface RewardsOverview {
+  totalEarned: bigint;
+  totalPending: bigint;
+  totalStakedAmount: bigint;
+  totalClaimedRewards: bigint;
+  poolEarnings: readonly bigint[];
+  poolStakes: readonly bigint[];
+  vestingAmounts: readonly bigint[];
+  activePoolNames: readonly string[];
+}
+
+export const createRewardsModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "RewardsDistributor", RewardsDistributorABI);
+
+  return {
+    ...contract,
+
+    // Reads
+    getPoolNames: () => contract.read.getPoolNames(),
+    getRewardToken: () => contract.read.rewardToken(),
+    getRewardPool: async (poolName: string): Promise<RewardPool> => {
+      const [
+        totalAllocated,
+        totalDistributed,
+        rewardRate,
+        lastUpdateTime,
+        rewardPerTokenStored,
+        isActive,
+        periodFinish,
+        duration,
+      ] = await contract.read.rewardPools([poolName]);
+      return {
+        totalAllocated,
+        totalDistributed,
+        rewardRate,
+        lastUpdateTime,
+        rewardPerTokenStored,
+        isActive,
+        periodFinish,
+        duration,
+      };
+    },
+    getPoolTotalStaked: (poolName: string) => contract.read.poolTotalStaked([poolName]),
+    earned: (account: Address, poolName: string) => contract.read.earned([account, poolName]),
+    getUserStakeInfo: (user: Address, poolName: string) =>
+      contract.read.getUserStakeInfo([user, poolName]),
+    getUserRewardsOverview: async (user: Address): Promise<RewardsOverview> => {
+      const [
+        totalEarned,
+        totalPending,
+        totalStakedAmount,
+        totalClaimedRewards,
+        poolEarnings,
+        poolStakes,
+        vestingAmounts,
+        activePoolNames,
+      ] = await contract.read.getUserRewardsOverview([user]);
+      return {
+        totalEarned,
+        totalPending,
+        totalStakedAmount,
+        totalClaimedRewards,
+        poolEarnings,
+        poolStakes,
+        vestingAmounts,
+        activePoolNames,
+      };
+    },
+    getUserPositionBreakdown: async (user: Address): Promise<PositionBreakdown> => {
+      const [
+        stakingRewards,
+        tradingRewards,
+        lendingRewards,
+        governanceRewards,
+        marketplaceRewards,
+        liquidityRewards,
+        rwaRewards,
+        referralRewards,
+        totalVestingAmount,
+        totalReleasableVesting,
+      ] = await contract.read.getUserPositionBreakdown([user]);
+      return {
+        stakingRewards,
+        tradingRewards,
+        lendingRewards,
+        governanceRewards,
+        marketplaceRewards,
+        liquidityRewards,
+        rwaRewards,
+        referralRewards,
+        totalVestingAmount,
+        totalReleasableVesting,
+      };
+    },
+    getVestingScheduleCount: (beneficiary: Address) =>
+      contract.read.getVestingScheduleCount([beneficiary]),
+    getVestingSchedule: (beneficiary: Address, scheduleId: bigint): Promise<VestingSchedule> =>
+      contract.read.getVestingSchedule([beneficiary, scheduleId]),
+    getReleasableAmount: (beneficiary: Address, scheduleId: bigint) =>
+      contract.read.getReleasableAmount([beneficiary, scheduleId]),
+    // Every schedule of a beneficiary, oldest first
+    getVestingSchedules: async (beneficiary: Address): Promise<VestingScheduleInfo[]> => {
+      const count = await contract.read.getVestingScheduleCount([beneficiary]);
+      return Promise.all(
+        Array.from({ length: Number(count) }, async (_, index) => {
+          const scheduleId = BigInt(index);
+          const [schedule, releasable] = await Promise.all([
+            contract.read.getVestingSchedule([beneficiary, scheduleId]),
+            contract.read.getReleasableAmount([beneficiary, scheduleId]),
+          ]);
+          return { ...schedule, scheduleId, releasable };
+        })
+      );
+    },
+    // Whether `account` may create and revoke vesting schedules and manage pools
+    isRewardsAdmin: async (account: Address) =>
+      contract.read.hasRole([await contract.read.REWARDS_ADMIN_ROLE(), account]),
+
+    // Writes
+    stake: (poolName: string, amount: bigint, lockPeriod: bigint) =>
+      contract.write.stake([poolName, amount, lockPeriod]),
+    unstake: (poolName: string, amount: bigint) => contract.write.unstake([poolName, amount]),
+    claimRewards: (poolName: string) => contract.write.claimRewards([poolName]),
+    // Pays out activity rewards, which accrue outside the staking pools
+    autoClaimRewards: (user: Address) => contract.write.autoClaimRewards([user]),
+    releaseVestedTokens: (scheduleId: bigint) => contract.write.releaseVestedTokens([scheduleId]),
+
+    // Admin
+    createVestingSchedule: (
+      beneficiary: Address,
+      amount: bigint,
+      duration: bigint,
+      cliffDuration: bigint,
+      revocable: boolean
+    ) =>
+      contract.write.createVestingSchedule([beneficiary, amount, duration, cliffDuration, revocable]),
+    revokeVestingSchedule: (beneficiary: Address, scheduleId: bigint) =>
+      contract.write.revokeVestingSchedule([beneficiary, scheduleId]),
+  };
+};
+
+export type RewardsModule = ReturnType<typeof createRewardsModule>;
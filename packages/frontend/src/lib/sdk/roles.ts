@@ -0,0 +1,50 @@
+/**
+ * HedVault SDK - Roles
+ * AccessControl role ids used across the protocol contracts
+ */
+
+import { type Hex, keccak256, toHex, zeroHash } from "viem";
+
+export const ROLE_NAMES = [
+  "DEFAULT_ADMIN_ROLE",
+  "ADAPTER_ADMIN_ROLE",
+  "ADMIN_ROLE",
+  "AML_OFFICER_ROLE",
+  "BRIDGE_OPERATOR_ROLE",
+  "BURNER_ROLE",
+  "COMPLIANCE_ADMIN_ROLE",
+  "COMPLIANCE_ROLE",
+  "CREATOR_ROLE",
+  "DATA_PROVIDER_ROLE",
+  "DISTRIBUTOR_ROLE",
+  "EMERGENCY_ROLE",
+  "FEED_MANAGER_ROLE",
+  "FEE_MANAGER_ROLE",
+  "KYC_OFFICER_ROLE",
+  "LENDING_ADMIN_ROLE",
+  "LIQUIDATOR_ROLE",
+  "MARKETPLACE_ADMIN_ROLE",
+  "MINTER_ROLE",
+  "ORACLE_ADMIN_ROLE",
+  "POOL_ADMIN_ROLE",
+  "PORTFOLIO_ADMIN_ROLE",
+  "PRICE_UPDATER_ROLE",
+  "RATE_MANAGER_ROLE",
+  "REBALANCER_ROLE",
+  "REGULATORY_ROLE",
+  "REWARDS_ADMIN_ROLE",
+  "VALIDATOR_ROLE",
+] as const;
+
+export type RoleName = (typeof ROLE_NAMES)[number];
+
+// As declared in the contracts: keccak256("<NAME>"), and zero for the default admin
+export const getRoleId = (name: RoleName): Hex =>
+  name === "DEFAULT_ADMIN_ROLE" ? zeroHash : keccak256(toHex(name));
+
+const ROLES_BY_ID: Record<string, RoleName> = Object.fromEntries(
+  ROLE_NAMES.map((name) => [getRoleId(name), name])
+);
+
+// Undefined for ids no HedVault contract declares
+export const getRoleName = (id: Hex): RoleName | undefined => ROLES_BY_ID[id.toLowerCase()];
@@ -0,0 +1,135 @@
+/**
+ * HedVault SDK - RWAOffchainOracle
+ */
+
+import { type Address, type Hex, type Log, parseEventLogs } from "viem";
+import { RWAOffchainOracleABI } from "../abis";
+import { toTransactionValue } from "../chains";
+import { type SdkContext, bindDeployedContract } from "./contract";
+import type { PriceData } from "./oracle";
+
+// RWAOffchainOracle limits; confidence and market indices are in basis points
+export const RWA_ORACLE_LIMITS = {
+  MAX_DATA_AGE_SECONDS: 3600,
+  MIN_CONFIDENCE: 7000,
+} as const;
+
+// Asset types the oracle ships with a Chainlink feed for
+export const RWA_ASSET_TYPES = ["RealEstate", "PreciousMetals", "Commodities", "Art", "Bonds"] as const;
+
+// Appraisals come from Chainlink feeds or the Functions source in feed units;
+// market cap and volume are USD with 18 decimals
+export const RWA_PRICE_DECIMALS = 8;
+
+export interface RWAAssetData {
+  assetToken: Address;
+  assetType: string;
+  chainlinkFeed: Address;
+  offchainDataSource: string;
+  lastPrice: bigint;
+  lastUpdate: bigint;
+  confidence: bigint;
+  useOffchainData: boolean;
+  isActive: boolean;
+}
+
+export interface RWAMarketData {
+  marketCap: bigint;
+  tradingVolume24h: bigint;
+  liquidityIndex: bigint;
+  volatilityIndex: bigint;
+  lastUpdated: bigint;
+}
+
+// The public getter leaves out the request's parameters
+export interface OffchainDataRequest {
+  assetToken: Address;
+  dataSource: string;
+  timestamp: bigint;
+  requester: Address;
+  fulfilled: boolean;
+}
+
+/**
+ * Id of the request created by a requestOffchainData transaction, taken
+ * from the OffchainDataRequested event in its receipt
+ */
+export const getOffchainRequestId = (logs: Log[]): Hex | undefined => {
+  const [requested] = parseEventLogs({
+    abi: RWAOffchainOracleABI,
+    eventName: "OffchainDataRequested",
+    logs,
+  });
+  return requested?.args.requestId;
+};
+
+export const createRwaOracleModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "RWAOffchainOracle", RWAOffchainOracleABI);
+
+  const getRequestFee = () => contract.read.OFFCHAIN_REQUEST_FEE();
+
+  return {
+    ...contract,
+
+    // Reads. getRWAPrice reverts once the data is older than an hour;
+    // getAsset returns the last appraisal either way.
+    getRWAPrice: async (asset: Address): Promise<PriceData> => {
+      const [price, timestamp, confidence] = await contract.read.getRWAPrice([asset]);
+      return { price, timestamp, confidence };
+    },
+    getAsset: async (asset: Address): Promise<RWAAssetData> => {
+      const [
+        assetToken,
+        assetType,
+        chainlinkFeed,
+        offchainDataSource,
+        lastPrice,
+        lastUpdate,
+        confidence,
+        useOffchainData,
+        isActive,
+      ] = await contract.read.rwaAssets([asset]);
+      return {
+        assetToken,
+        assetType,
+        chainlinkFeed,
+        offchainDataSource,
+        lastPrice,
+        lastUpdate,
+        confidence,
+        useOffchainData,
+        isActive,
+      };
+    },
+    getMarketData: (asset: Address): Promise<RWAMarketData> => contract.read.getMarketData([asset]),
+    getAssetsByType: (assetType: string) => contract.read.getAssetsByType([assetType]),
+    getAllAssets: () => contract.read.getAllAssets(),
+    isAssetSupported: (asset: Address) => contract.read.supportedAssets([asset]),
+    getRequestFee,
+    getDataRequest: async (requestId: Hex): Promise<OffchainDataRequest> => {
+      const [assetToken, dataSource, timestamp, requester, fulfilled] =
+        await contract.read.dataRequests([requestId]);
+      return { assetToken, dataSource, timestamp, requester, fulfilled };
+    },
+
+    // Writes
+    // Pays the request fee in the native token; reads it when not given
+    // `fee` is in contract units, as OFFCHAIN_REQUEST_FEE returns it
+    requestOffchainData: async (asset: Address, parameters: string[], fee?: bigint) =>
+      contract.write.requestOffchainData([asset, parameters], {
+        value: toTransactionValue(context.chainId, fee ?? (await getRequestFee())),
+      }),
+
+    // Data providers
+    updatePriceFromChainlink: (asset: Address) => contract.write.updatePriceFromChainlink([asset]),
+    updateMarketData: (
+      asset: Address,
+      marketCap: bigint,
+      volume24h: bigint,
+      liquidityIndex: bigint,
+      volatilityIndex: bigint
+    ) => contract.write.updateMarketData([asset, marketCap, volume24h, liquidityIndex, volatilityIndex]),
+  };
+};
+
+export type RwaOracleModule = ReturnType<typeof createRwaOracleModule>;
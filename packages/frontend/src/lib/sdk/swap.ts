@@ -0,0 +1,121 @@
+/**
+ * HedVault SDK - SwapEngine
+ */
+
+import type { Address } from "viem";
+import { SwapEngineABI } from "../abis";
+import { type SdkContext, bindDeployedContract } from "./contract";
+
+export interface LiquidityPool {
+  tokenA: Address;
+  tokenB: Address;
+  reserveA: bigint;
+  reserveB: bigint;
+  totalLiquidity: bigint;
+  feeRate: bigint;
+  lastUpdate: bigint;
+  isActive: boolean;
+  minLiquidity: bigint;
+  maxSlippage: bigint;
+}
+
+export interface LiquidityPosition {
+  provider: Address;
+  poolId: bigint;
+  liquidity: bigint;
+  tokenADeposited: bigint;
+  tokenBDeposited: bigint;
+  createdAt: bigint;
+  lastRewardClaim: bigint;
+  accumulatedFees: bigint;
+}
+
+export interface SwapInfo {
+  swapId: bigint;
+  user: Address;
+  poolId: bigint;
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+  fee: bigint;
+  slippage: bigint;
+  timestamp: bigint;
+  priceImpact: bigint;
+}
+
+export interface PoolStats {
+  totalVolume: bigint;
+  totalSwaps: bigint;
+  totalFeesCollected: bigint;
+  apy: bigint;
+  utilization: bigint;
+  lastStatsUpdate: bigint;
+}
+
+export interface SwapQuote {
+  amountOut: bigint;
+  fee: bigint;
+}
+
+// Pool creation runs out of gas on Hedera with the relay's estimate
+const CREATE_POOL_GAS = BigInt(10_000_000);
+
+export const createSwapModule = (context: SdkContext) => {
+  const contract = bindDeployedContract(context, "SwapEngine", SwapEngineABI);
+
+  return {
+    ...contract,
+
+    // Reads
+    getPool: (poolId: bigint): Promise<LiquidityPool> => contract.read.getPool([poolId]),
+    getPoolByTokens: (tokenA: Address, tokenB: Address) =>
+      contract.read.getPoolByTokens([tokenA, tokenB]),
+    getPoolPositions: (poolId: bigint): Promise<readonly LiquidityPosition[]> =>
+      contract.read.getPoolPositions([poolId]),
+    getUserPositions: (user: Address) => contract.read.getUserPositions([user]),
+    getPoolStats: (poolId: bigint): Promise<PoolStats> => contract.read.getPoolStats([poolId]),
+    getSwapQuote: async (poolId: bigint, tokenIn: Address, amountIn: bigint): Promise<SwapQuote> => {
+      const [amountOut, fee] = await contract.read.getSwapQuote([poolId, tokenIn, amountIn]);
+      return { amountOut, fee };
+    },
+    isSupportedToken: (token: Address) => contract.read.supportedTokens([token]),
+
+    // Writes
+    createPool: (
+      tokenA: Address,
+      tokenB: Address,
+      amountA: bigint,
+      amountB: bigint,
+      feeRate: bigint
+    ) =>
+      contract.write.createPool([tokenA, tokenB, amountA, amountB, feeRate], {
+        gas: CREATE_POOL_GAS,
+      }),
+    addLiquidity: (poolId: bigint, amountA: bigint, amountB: bigint, minLiquidity: bigint) =>
+      contract.write.addLiquidity([poolId, amountA, amountB, minLiquidity]),
+    removeLiquidity: (
+      poolId: bigint,
+      positionIndex: bigint,
+      liquidity: bigint,
+      minAmountA: bigint,
+      minAmountB: bigint
+    ) => contract.write.removeLiquidity([poolId, positionIndex, liquidity, minAmountA, minAmountB]),
+    swap: (
+      poolId: bigint,
+      tokenIn: Address,
+      amountIn: bigint,
+      minAmountOut: bigint,
+      maxSlippage: bigint
+    ) => contract.write.swap([poolId, tokenIn, amountIn, minAmountOut, maxSlippage]),
+
+    // Admin
+    addSupportedToken: (token: Address) => contract.write.addSupportedToken([token]),
+    updatePoolFeeRate: (poolId: bigint, newFeeRate: bigint) =>
+      contract.write.updatePoolFeeRate([poolId, newFeeRate]),
+    pause: () => contract.write.pause(),
+    unpause: () => contract.write.unpause(),
+  };
+};
+
+export type SwapModule = ReturnType<typeof createSwapModule>;
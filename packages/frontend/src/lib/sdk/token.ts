@@ -0,0 +1,28 @@
+/**
+ * HedVault SDK - ERC20 tokens (RWA tokens and HTS tokens through their EVM facade)
+ */
+
+import type { Address } from "viem";
+import { ERC20ABI } from "../abis";
+import { type SdkContext, bindContract } from "./contract";
+
+export const createTokenModule = (context: SdkContext, address: Address) => {
+  const contract = bindContract(context, address, ERC20ABI);
+
+  return {
+    ...contract,
+
+    // Reads
+    balanceOf: (account: Address) => contract.read.balanceOf([account]),
+    allowance: (owner: Address, spender: Address) => contract.read.allowance([owner, spender]),
+    decimals: () => contract.read.decimals(),
+    symbol: () => contract.read.symbol(),
+    name: () => contract.read.name(),
+
+    // Writes
+    approve: (spender: Address, amount: bigint) => contract.write.approve([spender, amount]),
+    transfer: (to: Address, amount: bigint) => contract.write.transfer([to, amount]),
+  };
+};
+
+export type TokenModule = ReturnType<typeof createTokenModule>;
@@ -0,0 +1,62 @@
+/**
+ * HedVault SDK - Token metadata
+ * Decimals, symbol and name per token, fetched once and cached per chain.
+ *
+ * HTS tokens (GOLD, SILVER, REAL_ESTATE and other long-zero addresses)
+ * answer these through their EVM facade and commonly use 0-8 decimals, so
+ * amounts must never assume 18.
+ */
+
+import type { Address } from "viem";
+import type { SdkContext } from "./contract";
+import { createTokenModule } from "./token";
+
+export interface TokenMetadata {
+  address: Address;
+  decimals: number;
+  symbol: string;
+  name: string;
+}
+
+// Shared across clients: metadata doesn't change, and the React hooks build
+// a new client whenever the wallet or chain changes
+const cache = new Map<string, Promise<TokenMetadata>>();
+
+const cacheKey = (chainId: number, address: Address) => `${chainId}:${address.toLowerCase()}`;
+
+export const createTokenMetadataModule = (context: SdkContext) => {
+  const get = (address: Address): Promise<TokenMetadata> => {
+    const key = cacheKey(context.chainId, address);
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const token = createTokenModule(context, address);
+    const pending = Promise.all([token.decimals(), token.symbol(), token.name()]).then(
+      ([decimals, symbol, name]) => ({ address, decimals: Number(decimals), symbol, name })
+    );
+    cache.set(key, pending);
+    // Failures are not cached so the next call retries
+    pending.catch(() => cache.delete(key));
+    return pending;
+  };
+
+  return {
+    get,
+    /**
+     * Metadata for several tokens, keyed by lowercased address. Tokens that
+     * fail to answer are left out rather than failing the whole lookup.
+     */
+    getMany: async (addresses: readonly Address[]): Promise<Record<string, TokenMetadata>> => {
+      const unique = [...new Set(addresses.map((address) => address.toLowerCase() as Address))];
+      const results = await Promise.allSettled(unique.map(get));
+      const metadata: Record<string, TokenMetadata> = {};
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") metadata[unique[index]] = result.value;
+      });
+      return metadata;
+    },
+    decimals: async (address: Address) => (await get(address)).decimals,
+  };
+};
+
+export type TokenMetadataModule = ReturnType<typeof createTokenMetadataModule>;
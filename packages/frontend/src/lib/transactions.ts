@@ -0,0 +1,191 @@
+/**
+ * HedVault Transaction Manager
+ * Tracks every submitted transaction from wallet prompt to confirmation.
+ *
+ * Lifecycle: pending (simulated, then awaiting signature, then inclusion) ->
+ * mined (receipt with success status) -> confirmed (enough confirmations).
+ * Any step can end in failed: a simulated revert, rejected in the wallet,
+ * reverted on chain, or dropped.
+ */
+
+import type { Hash, PublicClient, TransactionReceipt } from "viem";
+import { HedVaultError, decodeHedVaultError } from "./sdk/errors";
+
+export type TransactionStatus = "pending" | "mined" | "confirmed" | "failed";
+
+export interface TransactionRecord {
+  id: string;
+  label: string;
+  chainId: number;
+  status: TransactionStatus;
+  // Outcome of the pre-flight simulation, when one was run
+  preview?: TransactionPreview;
+  // Set once the wallet has signed and broadcast
+  hash?: Hash;
+  receipt?: TransactionReceipt;
+  error?: HedVaultError;
+  submittedAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Handle returned by `submit`. Each promise rejects with a HedVaultError when
+ * the transaction fails at or before that stage, so `await tx.confirmed` is
+ * the whole story.
+ */
+export interface TrackedTransaction {
+  id: string;
+  submitted: Promise<Hash>;
+  mined: Promise<TransactionReceipt>;
+  confirmed: Promise<TransactionReceipt>;
+}
+
+// What the transaction is expected to return, e.g. the id of a new loan
+export interface TransactionPreview {
+  result: unknown;
+  // One-line description for toasts, e.g. "Loan #12"
+  summary?: string;
+}
+
+export interface SubmitTransactionOptions {
+  label: string;
+  chainId: number;
+  // Simulation run before `send`; a revert fails the transaction unsigned
+  preview?: () => Promise<TransactionPreview>;
+  send: () => Promise<Hash>;
+  // Decodes failures, e.g. with the tokens' decimals; defaults to decodeHedVaultError
+  decodeError?: (error: unknown) => Promise<HedVaultError>;
+}
+
+export interface TransactionManagerOptions {
+  getPublicClient: (chainId: number) => PublicClient | undefined;
+  // Blocks on top of the receipt's block before a transaction counts as confirmed
+  confirmations?: number;
+}
+
+// Mined with a failed status; the receipt carries no revert reason
+export class TransactionRevertedError extends HedVaultError {
+  constructor(
+    public readonly hash: Hash,
+    public readonly receipt: TransactionReceipt
+  ) {
+    super("Transaction reverted on chain", {
+      hint: "Open it in the explorer for details.",
+    });
+    this.name = "TransactionRevertedError";
+  }
+}
+
+// Lets callers ignore stages they don't await without unhandled rejections
+const observed = <T>(promise: Promise<T>) => {
+  promise.catch(() => undefined);
+  return promise;
+};
+
+// `changed` is the record that moved, absent when the history was cleared
+export type TransactionListener = (records: TransactionRecord[], changed?: TransactionRecord) => void;
+
+export const createTransactionManager = ({
+  getPublicClient,
+  confirmations = 1,
+}: TransactionManagerOptions) => {
+  // Newest first; replaced on every change so it can be used as a snapshot
+  let records: TransactionRecord[] = [];
+  let nextId = 0;
+  const listeners = new Set<TransactionListener>();
+
+  const emit = (changed?: TransactionRecord) =>
+    listeners.forEach((listener) => listener(records, changed));
+
+  const update = (id: string, patch: Partial<TransactionRecord>) => {
+    const current = records.find((record) => record.id === id);
+    if (!current) return;
+    const changed = { ...current, ...patch, updatedAt: Date.now() };
+    records = records.map((record) => (record.id === id ? changed : record));
+    emit(changed);
+  };
+
+  const submit = ({
+    label,
+    chainId,
+    preview,
+    send,
+    decodeError = async (error) => decodeHedVaultError(error, { chainId }),
+  }: SubmitTransactionOptions): TrackedTransaction => {
+    const id = `tx-${Date.now()}-${nextId++}`;
+    const now = Date.now();
+    const record: TransactionRecord = { id, label, chainId, status: "pending", submittedAt: now, updatedAt: now };
+    records = [record, ...records];
+    emit(record);
+
+    const fail = async (error: unknown): Promise<never> => {
+      const decoded = await decodeError(error).catch(() => decodeHedVaultError(error, { chainId }));
+      update(id, { status: "failed", error: decoded });
+      throw decoded;
+    };
+
+    const client = () => {
+      const publicClient = getPublicClient(chainId);
+      if (!publicClient) throw new Error(`No RPC client for chain ${chainId}`);
+      return publicClient;
+    };
+
+    // A failure is recorded by the stage it happens in; later stages just
+    // inherit the rejection
+    const submitted = Promise.resolve()
+      .then(async () => {
+        if (preview) update(id, { preview: await preview() });
+        return send();
+      })
+      .then((hash) => {
+        update(id, { hash });
+        return hash;
+      }, fail);
+
+    const mined = submitted.then(async (hash) => {
+      const receipt = await client()
+        .waitForTransactionReceipt({ hash })
+        .catch(fail);
+      if (receipt.status !== "success") await fail(new TransactionRevertedError(hash, receipt));
+      update(id, { status: "mined", receipt });
+      return receipt;
+    });
+
+    const confirmed = mined.then(async (receipt) => {
+      const final =
+        confirmations > 1
+          ? await client()
+              .waitForTransactionReceipt({ hash: receipt.transactionHash, confirmations })
+              .catch(fail)
+          : receipt;
+      update(id, { status: "confirmed", receipt: final });
+      return final;
+    });
+
+    return {
+      id,
+      submitted: observed(submitted),
+      mined: observed(mined),
+      confirmed: observed(confirmed),
+    };
+  };
+
+  return {
+    submit,
+    getTransactions: () => records,
+    getTransaction: (id: string) => records.find((record) => record.id === id),
+    subscribe: (listener: TransactionListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    // Drops settled transactions from the session history
+    clearFinished: () => {
+      records = records.filter(({ status }) => status === "pending" || status === "mined");
+      emit();
+    },
+  };
+};
+
+export type TransactionManager = ReturnType<typeof createTransactionManager>;
@@ -0,0 +1,122 @@
+/**
+ * HedVault Vesting Import
+ * Parses and validates vesting schedules entered by admins, one by one or as CSV
+ */
+
+import type { Address } from "viem";
+import { validateAmount, parseAmount } from "./sdk";
+import { toEvmAddress } from "./hedera";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Columns of a bulk import; the header row itself is optional
+export const VESTING_CSV_COLUMNS = [
+  "beneficiary",
+  "amount",
+  "duration_days",
+  "cliff_days",
+  "revocable",
+] as const;
+
+export const VESTING_CSV_TEMPLATE = `${VESTING_CSV_COLUMNS.join(",")}
+0.0.1234,1000,365,90,true
+0x00000000000000000000000000000000000004d2,250.5,180,0,false`;
+
+// Arguments of RewardsDistributor.createVestingSchedule
+export interface VestingScheduleInput {
+  beneficiary: Address;
+  amount: bigint;
+  duration: bigint;
+  cliffDuration: bigint;
+  revocable: boolean;
+}
+
+// Schedule fields as typed, before validation
+export interface VestingScheduleDraft {
+  beneficiary: string;
+  amount: string;
+  durationDays: string;
+  cliffDays: string;
+  revocable: boolean | string;
+}
+
+export type VestingScheduleResult =
+  | { schedule: VestingScheduleInput; error?: undefined }
+  | { schedule?: undefined; error: string };
+
+const DAYS_PATTERN = /^\d+(\.\d+)?$/;
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0", ""];
+
+const parseDays = (value: string, field: string): bigint | string => {
+  const trimmed = value.trim();
+  if (!DAYS_PATTERN.test(trimmed)) return `${field} must be a number of days`;
+  return BigInt(Math.round(Number(trimmed) * SECONDS_PER_DAY));
+};
+
+/**
+ * Validates a schedule the way createVestingSchedule would: a beneficiary,
+ * a non-zero amount and duration, and a cliff no longer than the duration.
+ * Beneficiaries may be EVM addresses or Hedera `0.0.x` IDs; IDs map to
+ * their long-zero address.
+ */
+export const toVestingSchedule = (
+  draft: VestingScheduleDraft,
+  decimals: number
+): VestingScheduleResult => {
+  const beneficiary = toEvmAddress(draft.beneficiary);
+  if (!beneficiary) return { error: `"${draft.beneficiary.trim()}" is not an address or account ID` };
+
+  const invalidAmount = validateAmount(draft.amount, decimals);
+  if (invalidAmount) return { error: invalidAmount };
+  const amount = parseAmount(draft.amount, decimals);
+  if (amount === BigInt(0)) return { error: "Amount must be more than 0" };
+
+  const duration = parseDays(draft.durationDays, "Duration");
+  if (typeof duration === "string") return { error: duration };
+  if (duration === BigInt(0)) return { error: "Duration must be more than 0" };
+  const cliffDuration = parseDays(draft.cliffDays || "0", "Cliff");
+  if (typeof cliffDuration === "string") return { error: cliffDuration };
+  if (cliffDuration > duration) return { error: "The cliff can't be longer than the duration" };
+
+  let revocable = draft.revocable;
+  if (typeof revocable === "string") {
+    const normalized = revocable.trim().toLowerCase();
+    if (TRUE_VALUES.includes(normalized)) revocable = true;
+    else if (FALSE_VALUES.includes(normalized)) revocable = false;
+    else return { error: `Revocable must be true or false, not "${revocable.trim()}"` };
+  }
+
+  return { schedule: { beneficiary, amount, duration, cliffDuration, revocable } };
+};
+
+export interface VestingCsvRow {
+  // 1-based line in the file, for error messages
+  line: number;
+  result: VestingScheduleResult;
+}
+
+/**
+ * One result per non-empty line. A first line starting with "beneficiary"
+ * is treated as the header; columns follow VESTING_CSV_COLUMNS.
+ */
+export const parseVestingCsv = (text: string, decimals: number): VestingCsvRow[] => {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ line: index + 1, text: line.trim() }));
+  const rows = lines.filter(({ text }) => text.length > 0);
+  if (rows[0]?.text.toLowerCase().startsWith(VESTING_CSV_COLUMNS[0])) rows.shift();
+
+  return rows.map(({ line, text }) => {
+    const cells = text.split(",").map((cell) => cell.trim());
+    if (cells.length < 3 || cells.length > VESTING_CSV_COLUMNS.length) {
+      return {
+        line,
+        result: { error: `Expected ${VESTING_CSV_COLUMNS.length} columns: ${VESTING_CSV_COLUMNS.join(", ")}` },
+      };
+    }
+    const [beneficiary, amount, durationDays, cliffDays = "0", revocable = "false"] = cells;
+    return {
+      line,
+      result: toVestingSchedule({ beneficiary, amount, durationDays, cliffDays, revocable }, decimals),
+    };
+  });
+};
@@ -5,30 +5,13 @@ import {
 import { rabbyWallet } from "@rainbow-me/rainbowkit/wallets";
 import { mainnet, polygon, optimism, arbitrum, base } from "viem/chains";
 import { createConfig, http } from "wagmi";
-import { defineChain } from "viem";
-
-// Define Hedera Testnet
-const hederaTestnet = defineChain({
-  id: 296,
-  name: "Hedera Testnet",
-  nativeCurrency: {
-    decimals: 18,
-    name: "HBAR",
-    symbol: "HBAR",
-  },
-  rpcUrls: {
-    default: {
-      http: ["https://testnet.hashio.io/api"],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: "HashScan",
-      url: "https://hashscan.io/testnet",
-    },
-  },
-  testnet: true,
-});
+import {
+  hederaMainnet,
+  hederaTestnet,
+  hederaLocalnet,
+  anvil,
+} from "./chains";
+import { batchedTransport } from "./batching";
 
 const { wallets } = getDefaultWallets();
 
@@ -50,9 +33,22 @@ const connectors = connectorsForWallets(
 
 export const config = createConfig({
   connectors,
-  chains: [hederaTestnet, mainnet, polygon, optimism, arbitrum, base],
+  chains: [
+    hederaTestnet,
+    hederaMainnet,
+    hederaLocalnet,
+    anvil,
+    mainnet,
+    polygon,
+    optimism,
+    arbitrum,
+    base,
+  ],
   transports: {
-    [hederaTestnet.id]: http(),
+    [hederaTestnet.id]: batchedTransport(),
+    [hederaMainnet.id]: batchedTransport(),
+    [hederaLocalnet.id]: batchedTransport(),
+    [anvil.id]: batchedTransport(),
     [mainnet.id]: http(),
     [polygon.id]: http(),
     [optimism.id]: http(),